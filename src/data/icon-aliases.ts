@@ -0,0 +1,70 @@
+/**
+ * Icon Aliases Database
+ * Maps semantic icon names to the names icon libraries commonly use for them.
+ * Used by the icon index so "search" finds a "magnifying-glass" icon and vice versa.
+ */
+
+export const ICON_ALIASES: Record<string, string[]> = {
+    // --- ACTIONS ---
+    "search": ["magnifier", "magnifying-glass", "find", "lookup", "zoom"],
+    "close": ["x", "cross", "dismiss", "clear", "times", "x-mark"],
+    "add": ["plus", "create", "new", "add-circle", "plus-circle"],
+    "remove": ["minus", "subtract", "minus-circle"],
+    "edit": ["pencil", "pen", "write", "modify", "compose"],
+    "delete": ["trash", "bin", "trash-can", "garbage", "remove-item"],
+    "check": ["tick", "checkmark", "done", "confirm", "success"],
+    "copy": ["duplicate", "clone", "clipboard"],
+    "download": ["arrow-down-tray", "save", "export"],
+    "upload": ["arrow-up-tray", "import", "cloud-upload"],
+    "share": ["send", "forward", "export-share"],
+    "refresh": ["reload", "sync", "rotate", "retry"],
+    "filter": ["funnel", "sliders"],
+    "sort": ["arrows-up-down", "order"],
+    "more": ["ellipsis", "dots", "more-horizontal", "kebab", "overflow"],
+    "more-vertical": ["ellipsis-vertical", "dots-vertical", "kebab-vertical"],
+    "menu": ["hamburger", "bars", "burger", "list-menu"],
+    "external-link": ["open", "launch", "new-window", "arrow-up-right"],
+    "link": ["chain", "url", "hyperlink"],
+    "attach": ["paperclip", "attachment", "clip"],
+    "logout": ["sign-out", "log-out", "exit"],
+    "login": ["sign-in", "log-in", "enter"],
+
+    // --- NAVIGATION ---
+    "chevron-right": ["caret-right", "angle-right", "next"],
+    "chevron-left": ["caret-left", "angle-left", "previous", "prev"],
+    "chevron-down": ["caret-down", "angle-down", "expand", "dropdown"],
+    "chevron-up": ["caret-up", "angle-up", "collapse"],
+    "arrow-right": ["arrow-forward", "right-arrow", "long-arrow-right"],
+    "arrow-left": ["arrow-back", "left-arrow", "back", "long-arrow-left"],
+    "arrow-up": ["arrow-upward", "up-arrow"],
+    "arrow-down": ["arrow-downward", "down-arrow"],
+    "home": ["house", "dashboard-home"],
+
+    // --- OBJECTS ---
+    "user": ["person", "profile", "account", "avatar", "people"],
+    "settings": ["gear", "cog", "preferences", "options"],
+    "mail": ["email", "envelope", "inbox", "message"],
+    "phone": ["call", "telephone", "mobile"],
+    "lock": ["padlock", "secure", "password", "locked"],
+    "unlock": ["unlocked", "open-lock"],
+    "calendar": ["date", "schedule", "event"],
+    "clock": ["time", "history", "timer"],
+    "notification": ["bell", "alert", "alarm"],
+    "heart": ["like", "favorite", "favourite", "love"],
+    "star": ["rating", "bookmark-star"],
+    "bookmark": ["save-for-later", "ribbon"],
+    "cart": ["shopping-cart", "basket", "bag", "shopping-bag"],
+    "image": ["photo", "picture", "gallery"],
+    "file": ["document", "page", "doc"],
+    "folder": ["directory"],
+    "location": ["map-pin", "pin", "marker", "place"],
+    "eye": ["view", "show", "visible", "visibility"],
+    "eye-off": ["hide", "hidden", "invisible", "visibility-off"],
+    "chat": ["comment", "speech-bubble", "messages"],
+
+    // --- STATUS ---
+    "info": ["information", "info-circle", "help-info"],
+    "help": ["question", "question-mark", "question-circle", "support"],
+    "warning": ["alert-triangle", "exclamation-triangle", "caution"],
+    "error": ["alert-circle", "exclamation-circle", "x-circle", "danger"]
+};
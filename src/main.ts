@@ -1,17 +1,33 @@
-import { getOrDiscoverInventory, refreshInventory, incrementalDiscovery, DesignSystemInventory } from './services/auto-discovery';
+import { getOrDiscoverInventory, refreshInventory, incrementalDiscovery, DesignSystemInventory, InventoryDiff } from './services/auto-discovery';
 import { validateRSNT, RSNT_Node } from './types/rsnt';
-import { renderRSNT } from './services/rendering';
-import { formatError, createAIError, ErrorCode } from './types/errors';
+import { renderRSNT, renderStateMatrix } from './services/rendering';
+import { hasStateMatrix } from './services/component-states';
+import { scenarioService, applyScenarioToRendered } from './services/dynamic-content';
+import { formatError, createAIError, createExecutionError, createExportError, createResolutionError, ErrorCode } from './types/errors';
 import { historyManager } from './services/history-manager';
 import { conversationManager } from './services/conversation-manager';
 import { analytics } from './services/analytics';
 import { resolutionTracker } from './services/resolution-tracker';
 import { rsntConversionService } from './services/rsnt-conversion';
-import { resolveNode } from './services/resolution';
+import { codeExportService } from './services/code-export';
+import { resolveNode, resolveTextStyle, applyComponentStates } from './services/resolution';
 import { runDesignAudit } from './services/design-audit';
 import { fixDesign } from './services/design-fixer';
-import { createAntigravityPipeline, formatReasoningForUI } from './services/antigravity-pipeline';
+import { createAntigravityPipeline, createOfflinePipeline, isRateLimitFailure, formatReasoningForUI, PipelineOptions } from './services/antigravity-pipeline';
 import { makeAICall } from './services/ai-service';
+import { aiProviderService, AI_PROVIDER_INFO } from './services/ai-provider';
+import { exportInventoryManifest, parseInventoryManifest, importInventoryManifest, saveImportedInventory } from './services/inventory-manifest';
+import { inventoryChangelog, summarizeInventoryDiff } from './services/inventory-changelog';
+import { liveInventory } from './services/live-inventory';
+import { saveComponentOverride, clearComponentOverride } from './services/component-overrides';
+import { resolveIconNode } from './services/icon-library';
+import { DEFAULT_RESOLUTION_POLICY, getResolutionPolicy, isPolicyViolation, checkRawValues, formatPolicyViolations } from './services/resolution-policy';
+import { ResolutionPolicy, ResolutionPolicyName, PolicyViolation } from './types/resolution-types';
+import { rsntMetadataService } from './services/rsnt-metadata';
+import { variableApprovals } from './services/variable-approvals';
+import { designPresets, DesignPreset } from './services/design-presets';
+import { ConflictLog, conflictSubject, applyConflictValueToNode, resolveWrittenNodeConflicts, applyResolutionToRSNT } from './services/conflicts';
+import { conflictPreferences, CONFLICT_SOURCE_LABELS, preferenceKey } from './services/conflict-preferences';
 
 // Confidence thresholds - centralized constants
 const HIGH_CONFIDENCE_THRESHOLD = 0.9;
@@ -50,9 +66,34 @@ function cleanupGhostState(deleteNodes: boolean = false): void {
   ghostIntent = '';
 }
 
+/**
+ * Record what changed since the last scan and send the changelog to the UI,
+ * flagging generated designs on the canvas that use removed components
+ */
+async function reportInventoryChanges(diff?: InventoryDiff) {
+  const latest = diff ? await inventoryChangelog.record(diff) : null;
+  figma.ui.postMessage({
+    type: 'inventory-changelog',
+    entries: await inventoryChangelog.load(),
+    latest
+  });
+}
+
 // Cleanup ghost state when plugin closes
 figma.on('close', () => {
   cleanupGhostState(true);
+  liveInventory.stop();
+});
+
+// Keep the inventory current while the library is edited (ignored until discovery finishes)
+liveInventory.start({
+  getInventory: () => currentInventory,
+  onUpdate: async (updated) => {
+    currentInventory = updated;
+    if (!updated.diff || summarizeInventoryDiff(updated.diff).length === 0) return;
+    figma.ui.postMessage({ type: 'inventory-ready', inventory: updated, live: true });
+    await reportInventoryChanges(updated.diff);
+  }
 });
 
 // Auto-discover on plugin start
@@ -87,6 +128,7 @@ figma.on('close', () => {
       type: 'complete',
       message: `✓ Found ${inventory.components.length} components, ${inventory.variables.length} variables`
     });
+    await reportInventoryChanges(inventory.diff);
 
     // Send initial history state
     figma.ui.postMessage({
@@ -106,6 +148,12 @@ figma.on('close', () => {
 
 // Handle messages from UI
 let cancellationRequested = false;
+// When on, designs that declare `states` render one frame per state
+let stateMatrixMode = false;
+// Variable mode name (e.g. "Dark") new designs are previewed in; null = collection defaults
+let variableMode: string | null = null;
+// Resolution policy for the next generation: which fallback tiers it may use
+let resolutionPolicy: ResolutionPolicyName = DEFAULT_RESOLUTION_POLICY;
 
 figma.ui.onmessage = async (msg) => {
 
@@ -114,6 +162,50 @@ figma.ui.onmessage = async (msg) => {
     return;
   }
 
+  if (msg.type === 'set-state-matrix-mode') {
+    stateMatrixMode = !!msg.enabled;
+    return;
+  }
+
+  if (msg.type === 'set-offline-mode') {
+    aiProviderService.setOffline(!!msg.enabled);
+    return;
+  }
+
+  if (msg.type === 'set-variable-mode') {
+    variableMode = msg.mode || null;
+    return;
+  }
+
+  if (msg.type === 'set-resolution-policy') {
+    resolutionPolicy = getResolutionPolicy(msg.policy).name;
+    return;
+  }
+
+  if (msg.type === 'set-scenario') {
+    scenarioService.setActive({ name: msg.name || undefined, data: msg.data || undefined });
+
+    // Update generated designs in the selection as well as the next render
+    let changed = 0;
+    try {
+      for (const node of figma.currentPage.selection) {
+        changed += await applyScenarioToRendered(node, scenarioService.active);
+      }
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'error', error: formatError(error) });
+      return;
+    }
+
+    figma.ui.postMessage({
+      type: 'status',
+      status: 'success',
+      message: changed > 0
+        ? `Scenario applied to the selection (${changed} ${changed === 1 ? 'layer' : 'layers'} updated)`
+        : scenarioService.active ? 'Scenario applies to the next render' : 'Scenario cleared'
+    });
+    return;
+  }
+
   // Generate design
   if (msg.type === 'generate') {
     const { intent, rsnt, selectionContext } = msg;
@@ -147,6 +239,8 @@ figma.ui.onmessage = async (msg) => {
     }
 
     try {
+      // The preset chosen for this generation; its values beat AI-suggested ones
+      const preset = await designPresets.find(msg.presetId);
       cancellationRequested = false;
       const startTime = Date.now();
       resolutionTracker.reset(); // Reset resolution statistics
@@ -166,13 +260,13 @@ figma.ui.onmessage = async (msg) => {
       // 1. High Confidence -> Auto-Execute
       if (confidence >= HIGH_CONFIDENCE_THRESHOLD) {
         console.log('Path: Auto-Execute (High Confidence)');
-        await handleAutoExecute(intent, rsnt, startTime);
+        await handleAutoExecute(intent, rsnt, startTime, preset);
       }
 
       // 2. Medium Confidence -> Ghost Preview
       else if (confidence >= MEDIUM_CONFIDENCE_THRESHOLD) {
         console.log('Path: Ghost Preview (Medium Confidence)');
-        await handleGhostPreview(intent, rsnt, startTime);
+        await handleGhostPreview(intent, rsnt, startTime, preset);
       }
 
       // 3. Low Confidence -> Clarification
@@ -188,7 +282,7 @@ figma.ui.onmessage = async (msg) => {
 
   // Generate using Antigravity Pipeline (multi-step reasoning)
   if (msg.type === 'generate-antigravity') {
-    const { intent, apiKey, selectionContext } = msg;
+    const { intent, selectionContext } = msg;
 
     // Check if we're in read-only mode (Dev Mode / Inspect)
     if (figma.editorType === 'dev') {
@@ -219,32 +313,51 @@ figma.ui.onmessage = async (msg) => {
     }
 
     try {
+      // The preset chosen for this generation; its values beat AI-suggested ones
+      const preset = await designPresets.find(msg.presetId);
       cancellationRequested = false;
       const startTime = Date.now();
       resolutionTracker.reset();
 
+      // Pick up library edits made since the last update
+      await liveInventory.flush();
+
       if (!currentInventory) {
         throw new Error('No design system inventory available. Please refresh first.');
       }
 
-      if (!apiKey) {
-        throw new Error('No API key configured. Please add your Gemini API key.');
+      const provider = await aiProviderService.getActiveProvider();
+      if (!aiProviderService.offline && !provider) {
+        throw new Error('No API key configured. Please add an API key for the selected AI provider, or turn on offline mode.');
       }
 
-      figma.ui.postMessage({ type: 'status', status: 'loading', message: 'Running Antigravity pipeline...' });
-
-      // Create AI call wrapper that includes API key
-      const aiCall = (prompt: string, systemPrompt: string) => makeAICall(prompt, systemPrompt, apiKey);
+      figma.ui.postMessage({
+        type: 'status',
+        status: 'loading',
+        message: provider ? 'Running Antigravity pipeline...' : 'Running offline pipeline (no AI)...'
+      });
 
-      // Create and run pipeline
-      const pipeline = createAntigravityPipeline(currentInventory, aiCall, {
+      const pipelineOptions: PipelineOptions = {
         verbose: true,
         onProgress: (phase, message) => {
           figma.ui.postMessage({ type: 'status', status: 'loading', message: `[${phase}] ${message}` });
-        }
-      });
+        },
+        variableMode: variableMode || undefined
+      };
+
+      // Create and run pipeline; AI calls are bound to the selected provider
+      const pipeline = provider
+        ? createAntigravityPipeline(currentInventory, (prompt, systemPrompt) => makeAICall(prompt, systemPrompt, provider), pipelineOptions)
+        : createOfflinePipeline(currentInventory, pipelineOptions);
 
-      const result = await pipeline.run(intent, selectionContext?.rsnt);
+      let result = await pipeline.run(intent, selectionContext?.rsnt);
+
+      // Keep working while rate limited: fall back to the local rule engine
+      if (provider && isRateLimitFailure(result)) {
+        console.warn('Antigravity: AI provider rate limited, retrying offline');
+        figma.ui.postMessage({ type: 'status', status: 'loading', message: 'Rate limited — generating offline instead...' });
+        result = await createOfflinePipeline(currentInventory, pipelineOptions).run(intent, selectionContext?.rsnt);
+      }
 
       if (!result.success || !result.rsnt) {
         const errorMsg = result.reasoning.warnings[0] || 'Pipeline failed';
@@ -289,7 +402,7 @@ figma.ui.onmessage = async (msg) => {
       }
       rsnt.metadata.confidence = {
         score: result.reasoning.overallConfidence,
-        factors: { pipeline: 'antigravity' },
+        factors: { pipeline: result.offline ? 'antigravity-offline' : 'antigravity' },
         breakdown: result.reasoning.componentSelections.map(c => `${c.requirement}: ${c.selection} (${(c.confidence * 100).toFixed(0)}%)`)
       };
 
@@ -298,15 +411,15 @@ figma.ui.onmessage = async (msg) => {
 
       if (confidence >= HIGH_CONFIDENCE_THRESHOLD) {
         console.log('Antigravity: Auto-Execute (High Confidence)');
-        await handleAutoExecute(intent, rsnt, startTime);
+        await handleAutoExecute(intent, rsnt, startTime, preset);
       } else if (confidence >= MEDIUM_CONFIDENCE_THRESHOLD) {
         console.log('Antigravity: Ghost Preview (Medium Confidence)');
-        await handleGhostPreview(intent, rsnt, startTime);
+        await handleGhostPreview(intent, rsnt, startTime, preset);
       } else {
         console.log('Antigravity: Low confidence, but proceeding with ghost preview');
         // For Antigravity, we still show the result even at low confidence
         // since the reasoning is transparent
-        await handleGhostPreview(intent, rsnt, startTime);
+        await handleGhostPreview(intent, rsnt, startTime, preset);
       }
 
     } catch (error: any) {
@@ -387,8 +500,8 @@ figma.ui.onmessage = async (msg) => {
 
   // --- Helper Functions ---
 
-  async function handleAutoExecute(intent: string, rsnt: RSNT_Node, startTime: number) {
-    const result = await performRender(rsnt, intent, startTime);
+  async function handleAutoExecute(intent: string, rsnt: RSNT_Node, startTime: number, preset: DesignPreset | null) {
+    const result = await performRender(rsnt, intent, startTime, preset);
 
     if (result) {
       // Show success with Undo option
@@ -407,13 +520,13 @@ figma.ui.onmessage = async (msg) => {
     }
   }
 
-  async function handleGhostPreview(intent: string, rsnt: RSNT_Node, startTime: number) {
+  async function handleGhostPreview(intent: string, rsnt: RSNT_Node, startTime: number, preset: DesignPreset | null) {
     // Create a ghost version of RSNT or just modify render properties
     // Since renderRSNT takes RSNT, let's clone it and modify root properties if possible,
     // OR just render and then modify the nodes.
     // Modifying nodes after render is safer/easier.
 
-    const result = await performRender(rsnt, intent, startTime);
+    const result = await performRender(rsnt, intent, startTime, preset);
 
     if (result && result.rootNode) {
       const root = result.rootNode;
@@ -451,7 +564,10 @@ figma.ui.onmessage = async (msg) => {
     });
   }
 
-  async function performRender(rsnt: RSNT_Node, intent: string, startTime: number) {
+  async function performRender(rsnt: RSNT_Node, intent: string, startTime: number, preset: DesignPreset | null) {
+    // Pick up library edits made since the last update
+    await liveInventory.flush();
+
     // Build validation context from current inventory
     const validationContext = {
       availableComponents: new Set(currentInventory?.components.map(c => c.id) || []),
@@ -491,9 +607,28 @@ figma.ui.onmessage = async (msg) => {
     // --- Resolution Pre-Pass ---
     // Walk the RSNT tree and resolve any COMPONENT_INSTANCE nodes
     // with invalid/missing componentIds using the 5-tier fallback system
+    let conflictLogs: ConflictLog[] = [];
     if (currentInventory) {
       figma.ui.postMessage({ type: 'status', status: 'loading', message: 'Resolving components...' });
-      await resolveRSNTTree(rsnt, currentInventory);
+      const policy = getResolutionPolicy(resolutionPolicy);
+      variableApprovals.resetQueue();
+      await variableApprovals.load();
+      const { violations, conflicts } = await resolveRSNTTree(rsnt, currentInventory, policy, preset);
+      conflictLogs = conflicts;
+
+      // Policy violations block the whole render rather than shipping fallbacks
+      if (violations.length > 0) {
+        const error = createResolutionError(
+          ErrorCode.POLICY_VIOLATION,
+          { policy: policy.name, violations },
+          `${violations.length === 1 ? '1 element needs a fallback' : `${violations.length} elements need fallbacks`} the ${policy.label} policy forbids (${policy.description}).`
+        );
+        figma.ui.postMessage({
+          type: 'error',
+          error: { ...formatError(error), technicalDetails: formatPolicyViolations(violations) }
+        });
+        return null;
+      }
     }
 
     // --- Design Audit ---
@@ -522,7 +657,8 @@ figma.ui.onmessage = async (msg) => {
     figma.ui.postMessage({ type: 'status', status: 'loading', message: 'Creating design...' });
 
     // Call renderRSNT with progress and cancellation callbacks
-    const renderResult = await renderRSNT(
+    const render = stateMatrixMode && hasStateMatrix(rsnt) ? renderStateMatrix : renderRSNT;
+    const renderResult = await render(
       rsnt,
       undefined,
       (progress) => {
@@ -535,7 +671,8 @@ figma.ui.onmessage = async (msg) => {
         });
       },
       () => cancellationRequested,
-      currentInventory || undefined
+      currentInventory || undefined,
+      intent
     );
 
     const duration = Date.now() - startTime;
@@ -549,6 +686,11 @@ figma.ui.onmessage = async (msg) => {
     // Save analytics
     await analytics.save();
 
+    // Let the UI offer the scenarios this design declares
+    if (rsnt.scenarios) {
+      figma.ui.postMessage({ type: 'scenarios-available', names: Object.keys(rsnt.scenarios) });
+    }
+
     // Check for rendering errors
     if (renderResult.errors.length > 0) {
       console.error('Rendering errors:', renderResult.errors);
@@ -617,6 +759,12 @@ figma.ui.onmessage = async (msg) => {
 
     // Generate Resolution Summary (merge audit warnings)
     const summary = resolutionTracker.createSummary();
+    const renderedIds = mapRenderedNodes(rootNode);
+    summary.nodeBreakdown.forEach(entry => {
+      if (entry.trace && renderedIds.has(entry.nodeId)) entry.trace.figmaNodeId = renderedIds.get(entry.nodeId);
+    });
+    conflictLogs.forEach(log => { log.figmaNodeId = renderedIds.get(log.nodeId); });
+    variableApprovals.attachRenderedNodes(renderedIds);
     if (auditWarnings.length > 0 && summary.warnings && summary.warnings.categorized) {
       summary.warnings.categorized.push({
         category: 'DESIGN_AUDIT' as any,
@@ -632,9 +780,16 @@ figma.ui.onmessage = async (msg) => {
     // Send summary to UI
     figma.ui.postMessage({
       type: 'show-summary',
-      summary
+      summary,
+      conflicts: conflictLogs
     });
 
+    // Medium-confidence variable matches wait for the designer
+    const pendingMatches = variableApprovals.getQueue();
+    if (pendingMatches.length > 0) {
+      figma.ui.postMessage({ type: 'show-variable-approvals', matches: pendingMatches });
+    }
+
     let successMessage = renderResult.errors.length > 0 || renderResult.warnings.length > 0
       ? `✓ Design generated with ${renderResult.warnings.length} warnings and ${renderResult.errors.length} errors (${duration}ms)`
       : `✓ Design generated successfully (${duration}ms)`;
@@ -685,8 +840,7 @@ figma.ui.onmessage = async (msg) => {
 
       // Force refresh if requested
       if (msg.type === 'force-refresh-inventory') {
-        currentInventory = null; // Reset current
-        await refreshInventory((step, progress) => { // This explicitly clears cache
+        currentInventory = await refreshInventory((step, progress) => { // This explicitly clears cache
           figma.ui.postMessage({ type: 'progress', step, progress });
         });
       }
@@ -707,13 +861,9 @@ figma.ui.onmessage = async (msg) => {
         currentInventory = result.inventory;
 
         // Show diff summary
-        const { added, removed, modified, unchanged } = result.diff;
-        const totalChanges = added.components.length + added.variables.length +
-          removed.componentIds.length + removed.variableIds.length +
-          modified.components.length + modified.variables.length;
-
-        const message = totalChanges > 0
-          ? `✓ Updated: +${added.components.length + added.variables.length} added, -${removed.componentIds.length + removed.variableIds.length} removed, ~${modified.components.length + modified.variables.length} modified, ${unchanged} unchanged`
+        const summary = summarizeInventoryDiff(result.diff);
+        const message = summary.length > 0
+          ? `✓ Updated: ${summary.join(', ')}`
           : `✓ No changes detected (${currentInventory.components.length} components, ${currentInventory.variables.length} variables)`;
 
         figma.ui.postMessage({
@@ -738,6 +888,7 @@ figma.ui.onmessage = async (msg) => {
         type: 'inventory-ready',
         inventory: currentInventory
       });
+      await reportInventoryChanges(currentInventory?.diff);
 
     } catch (error: any) {
       const userError = formatError(error);
@@ -767,15 +918,111 @@ figma.ui.onmessage = async (msg) => {
     }
   }
 
-  // API Key operations
-  if (msg.type === 'get-api-key') {
-    const key = await figma.clientStorage.getAsync('gemini_api_key');
-    figma.ui.postMessage({ type: 'api-key-loaded', key });
+  // Export the inventory as a portable design-system manifest
+  if (msg.type === 'export-inventory') {
+    try {
+      const inventory = currentInventory || await getOrDiscoverInventory();
+      currentInventory = inventory;
+      const manifest = exportInventoryManifest(inventory);
+
+      figma.ui.postMessage({
+        type: 'inventory-manifest',
+        fileName: `${figma.root.name || 'design-system'}.manifest.json`,
+        json: JSON.stringify(manifest, null, 2)
+      });
+      figma.ui.postMessage({
+        type: 'complete',
+        message: `✓ Exported ${manifest.components.length} components, ${manifest.variables.length} variables`
+      });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'error', error: formatError(error) });
+    }
   }
 
-  if (msg.type === 'set-api-key') {
-    await figma.clientStorage.setAsync('gemini_api_key', msg.key);
-    figma.ui.postMessage({ type: 'complete', message: '✓ API key saved' });
+  // Import a manifest, re-linking its components by key and variables by name
+  if (msg.type === 'import-inventory') {
+    try {
+      figma.ui.postMessage({ type: 'status', status: 'loading', message: 'Importing manifest...' });
+      const manifest = parseInventoryManifest(msg.json);
+      const inventory = currentInventory || await getOrDiscoverInventory();
+      const { inventory: imported, report } = importInventoryManifest(manifest, inventory);
+
+      await saveImportedInventory(imported);
+      currentInventory = imported;
+
+      figma.ui.postMessage({ type: 'inventory-ready', inventory: imported });
+      const missing = report.components.missing.length + report.variables.missing.length + report.styles.missing.length;
+      figma.ui.postMessage({
+        type: 'complete',
+        message: `✓ Imported manifest: ${report.components.linked + report.components.library} components, ${report.variables.linked} variables linked` +
+          (missing > 0 ? ` (${missing} not in this file)` : '')
+      });
+      if (missing > 0) {
+        console.warn('[Manifest] Not found in this file:', {
+          components: report.components.missing,
+          variables: report.variables.missing,
+          styles: report.styles.missing
+        });
+      }
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'error', error: formatError(error) });
+    }
+  }
+
+  // Designer corrections to component roles and property mappings
+  if (msg.type === 'save-component-override' || msg.type === 'clear-component-override') {
+    try {
+      const inventory = currentInventory || await getOrDiscoverInventory();
+      const component = inventory.components.find(c => c.id === msg.componentId);
+      if (!component) {
+        throw createExecutionError(ErrorCode.COMPONENT_NOT_FOUND, { componentId: msg.componentId }, 'Component is no longer in the inventory');
+      }
+
+      currentInventory = msg.type === 'save-component-override'
+        ? await saveComponentOverride(inventory, msg.componentId, { role: msg.role, propertyMappings: msg.propertyMappings })
+        : await clearComponentOverride(inventory, msg.componentId);
+
+      figma.ui.postMessage({ type: 'inventory-ready', inventory: currentInventory, live: true });
+      figma.ui.postMessage({
+        type: 'complete',
+        message: msg.type === 'save-component-override'
+          ? `✓ Saved corrections for ${component.name}`
+          : `✓ ${component.name} will be reclassified on the next refresh`
+      });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'error', error: formatError(error) });
+    }
+  }
+
+  // Design presets
+  if (msg.type === 'get-design-presets' || msg.type === 'save-design-preset' || msg.type === 'delete-design-preset') {
+    try {
+      const presets = msg.type === 'save-design-preset'
+        ? await designPresets.save(msg.name || '', msg.values || {}, msg.scope === 'global' ? 'global' : 'file')
+        : msg.type === 'delete-design-preset'
+          ? await designPresets.remove(msg.presetId)
+          : await designPresets.list();
+
+      figma.ui.postMessage({ type: 'design-presets', presets });
+      if (msg.type === 'save-design-preset') {
+        figma.ui.postMessage({ type: 'complete', message: `✓ Saved preset "${msg.name.trim()}"` });
+      } else if (msg.type === 'delete-design-preset') {
+        figma.ui.postMessage({ type: 'complete', message: '✓ Preset deleted' });
+      }
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'error', error: formatError(error) });
+    }
+  }
+
+  // AI provider settings
+  if (msg.type === 'get-ai-settings') {
+    const settings = await aiProviderService.loadSettings();
+    figma.ui.postMessage({ type: 'ai-settings-loaded', settings, providers: AI_PROVIDER_INFO });
+  }
+
+  if (msg.type === 'set-ai-settings') {
+    await aiProviderService.saveSettings(msg.settings);
+    figma.ui.postMessage({ type: 'complete', message: `✓ ${AI_PROVIDER_INFO[msg.settings.active as keyof typeof AI_PROVIDER_INFO].label} settings saved` });
   }
 
   if (msg.type === 'undo') {
@@ -783,7 +1030,7 @@ figma.ui.onmessage = async (msg) => {
       const entry = historyManager.undo();
       if (entry) {
         // Re-render previous design
-        const result = await renderRSNT(entry.rsnt, undefined, undefined, undefined, currentInventory || undefined);
+        const result = await renderRSNT(entry.rsnt, undefined, undefined, undefined, currentInventory || undefined, entry.userIntent);
         const rootNode = result.node;
 
         // Position on canvas
@@ -823,7 +1070,7 @@ figma.ui.onmessage = async (msg) => {
       const entry = historyManager.redo();
       if (entry) {
         // Re-render next design
-        const result = await renderRSNT(entry.rsnt);
+        const result = await renderRSNT(entry.rsnt, undefined, undefined, undefined, currentInventory || undefined, entry.userIntent);
         const rootNode = result.node;
 
         // Position on canvas
@@ -858,6 +1105,71 @@ figma.ui.onmessage = async (msg) => {
     }
   }
 
+  // Variable approval queue: remember the designer's answer for this file
+  if (msg.type === 'answer-variable-match') {
+    try {
+      const approval = await variableApprovals.answer(msg.token, msg.decision, msg.variableId);
+      const variable = currentInventory?.variables.find(v => v.id === approval.variableId);
+      figma.ui.postMessage({
+        type: 'complete',
+        message: approval.variableId
+          ? `✓ ${msg.token} will use ${variable?.name || approval.variableId} from now on`
+          : `✓ That variable won't be suggested for ${msg.token} again`
+      });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'error', error: formatError(error) });
+    }
+    return;
+  }
+
+  // Trace inspector: select the node a resolution trace belongs to
+  if (msg.type === 'select-node') {
+    const node = figma.getNodeById(msg.nodeId);
+    if (node && 'visible' in node && !node.removed) {
+      figma.currentPage.selection = [node as SceneNode];
+      figma.viewport.scrollAndZoomIntoView([node as SceneNode]);
+    } else {
+      figma.ui.postMessage({ type: 'status', status: 'error', message: 'That node is no longer on the canvas' });
+    }
+    return;
+  }
+
+  // Conflict report: flip a conflict's winner on the canvas, optionally as a rule
+  if (msg.type === 'override-conflict') {
+    try {
+      const node = figma.getNodeById(msg.figmaNodeId);
+      if (!node || !('visible' in node) || node.removed) {
+        throw createExecutionError(ErrorCode.PROPERTY_BINDING_FAILED, { figmaNodeId: msg.figmaNodeId }, 'That node is no longer on the canvas');
+      }
+      // Refuse an unkeyed rule before the canvas changes
+      if (msg.remember) conflictPreferences.validateSubject(msg.subject, msg.property);
+      if (!await applyConflictValueToNode(node as SceneNode, msg.property, msg.value)) {
+        throw createExecutionError(ErrorCode.PROPERTY_BINDING_FAILED, { property: msg.property, nodeType: node.type }, `Cannot set ${msg.property} on ${node.name}`);
+      }
+      if (msg.remember) conflictPreferences.save(msg.subject, msg.property, msg.source);
+
+      figma.ui.postMessage({ type: 'conflict-overridden', figmaNodeId: msg.figmaNodeId, property: msg.property, source: msg.source });
+      figma.ui.postMessage({ type: 'conflict-preferences', preferences: conflictPreferences.list() });
+      figma.ui.postMessage({
+        type: 'complete',
+        message: msg.remember
+          ? `✓ ${preferenceKey(msg.subject, msg.property)} now always uses the ${CONFLICT_SOURCE_LABELS[msg.source as keyof typeof CONFLICT_SOURCE_LABELS]} value`
+          : `✓ Updated ${msg.property} on ${node.name}`
+      });
+    } catch (error: any) {
+      figma.ui.postMessage({ type: 'error', error: formatError(error) });
+    }
+    return;
+  }
+
+  if (msg.type === 'get-conflict-preferences' || msg.type === 'remove-conflict-preference') {
+    const preferences = msg.type === 'remove-conflict-preference'
+      ? conflictPreferences.remove(msg.key)
+      : conflictPreferences.list();
+    figma.ui.postMessage({ type: 'conflict-preferences', preferences });
+    return;
+  }
+
   if (msg.type === 'clear-conversation') {
     conversationManager.clearConversation();
     figma.ui.postMessage({
@@ -876,6 +1188,34 @@ figma.ui.onmessage = async (msg) => {
       mostUsed
     });
   }
+  // Export the current selection as React + Tailwind code.
+  // Read-only, so this is allowed in Dev Mode as well.
+  if (msg.type === 'export-selection-code') {
+    try {
+      const selection = figma.currentPage.selection;
+      if (selection.length === 0) {
+        throw createExportError(ErrorCode.EXPORT_SELECTION_EMPTY, {}, 'Select a frame or layer to export as code');
+      }
+
+      const node = selection[0];
+      const rsnt = rsntConversionService.convertNodeToRSNT(node);
+      const result = codeExportService.exportToReact(rsnt, { inventory: currentInventory });
+
+      figma.ui.postMessage({
+        type: 'code-export-result',
+        nodeName: node.name,
+        selectionCount: selection.length,
+        ...result
+      });
+    } catch (error: any) {
+      console.error('Code export failed:', error);
+      figma.ui.postMessage({
+        type: 'error',
+        error: formatError(error)
+      });
+    }
+  }
+
   if (msg.type === 'get-selection-context') {
     try {
       if (figma.currentPage.selection.length > 0) {
@@ -943,42 +1283,78 @@ figma.ui.onmessage = async (msg) => {
 
 /**
  * Resolution pre-pass: walk the RSNT tree and resolve any COMPONENT_INSTANCE nodes
- * whose componentId is missing or not found in the inventory.
- * Mutates the tree in place before rendering.
+ * whose componentId is missing or not found in the inventory, and bind matching
+ * text styles to TEXT nodes. Mutates the tree in place before rendering.
+ * Returns the nodes the resolution policy could not resolve, and the value
+ * conflicts settled on the rest for the conflict report.
+ * Preset values override AI-suggested spacing, radius, colour and text size
+ * on every node, whether it was resolved here or rendered as written.
  */
-async function resolveRSNTTree(node: any, inventory: DesignSystemInventory): Promise<void> {
+async function resolveRSNTTree(
+  node: any,
+  inventory: DesignSystemInventory,
+  policy: ResolutionPolicy,
+  preset: DesignPreset | null
+): Promise<{ violations: PolicyViolation[]; conflicts: ConflictLog[] }> {
+  const violations: PolicyViolation[] = [];
+  const conflicts: ConflictLog[] = [];
+  const variableMode: string | undefined = node?.variableMode;
   const componentIds = new Set(inventory.components.map(c => c.id));
   const componentKeys = new Map(inventory.components.filter(c => c.key).map(c => [c.key, c.id]));
 
   console.log(`[Resolver] Inventory IDs:`, Array.from(componentIds));
   console.log(`[Resolver] Inventory Keys:`, Array.from(componentKeys.keys()));
 
-  async function walk(n: any): Promise<void> {
+  async function walk(n: any, inheritedState?: string): Promise<void> {
     if (!n) return;
 
+    // Frame-level states cascade onto the component instances below them
+    const state: string | undefined = n.state || inheritedState;
+    let resolvedByTiers = false;
+
     if (n.type === 'COMPONENT_INSTANCE') {
+      if (state) n.state = state;
+
       // 1. Precise match by ID
       if (n.componentId && componentIds.has(n.componentId)) {
         // Already valid, no resolution needed
+        n.metadata = { ...n.metadata, resolutionTier: 1 };
+        applyComponentStates(n, inventory).forEach(w => console.warn(`"${n.name || n.id}": ${w.message}`));
       }
       // 2. Precise match by Key (for library components)
       else if (n.componentKey && componentKeys.has(n.componentKey)) {
         console.log(`Resolving node "${n.name || n.id}" by key "${n.componentKey}"`);
         n.componentId = componentKeys.get(n.componentKey);
+        n.metadata = { ...n.metadata, resolutionTier: 1 };
+        applyComponentStates(n, inventory).forEach(w => console.warn(`"${n.name || n.id}": ${w.message}`));
+      }
+      // 3. Icon by semantic name (e.g. "search")
+      else if (!n.componentId && n.icon && resolveIconNode(n, inventory)) {
+        console.log(`Resolved icon "${n.icon}" for node "${n.name || n.id}"`);
+        n.metadata = { ...n.metadata, resolutionTier: 1 };
       }
       else {
         // Resolution path: componentId missing or invalid
         console.log(`Resolving node "${n.name || n.id}" — componentId "${n.componentId}" not in inventory and no key match`);
+        resolvedByTiers = true;
         try {
-          const result = await resolveNode(n, inventory);
+          const result = await resolveNode(n, inventory, variableMode, policy, preset || undefined);
 
           if (result.success && result.instructions) {
+            n.metadata = { ...n.metadata, resolutionTier: result.tier };
+
+            const resolvedConflicts = result.metadata?.conflicts;
+            if (resolvedConflicts && resolvedConflicts.length > 0) {
+              conflicts.push({ nodeId: n.id, nodeName: n.name, subject: conflictSubject(n, result, inventory), conflicts: resolvedConflicts });
+            }
+
             if (result.instructions.type === 'INSTANTIATE_COMPONENT') {
               // Tier 1 or 2: update to the resolved component
               n.componentId = result.instructions.componentId;
               if (result.instructions.properties) {
                 n.properties = { ...(n.properties || {}), ...result.instructions.properties };
               }
+              if (result.instructions.overrides?.padding) n.padding = result.instructions.overrides.padding;
               console.log(`  → Resolved to component "${result.instructions.componentId}" (Tier ${result.tier})`);
             } else if (result.instructions.type === 'CREATE_FRAME') {
               // Tier 3, 4, or 5: convert to a FRAME with styling
@@ -992,6 +1368,7 @@ async function resolveRSNTTree(node: any, inventory: DesignSystemInventory): Pro
                 n.layoutMode = n.layoutMode || 'VERTICAL';
               }
               if (styling.cornerRadius !== undefined) n.cornerRadius = styling.cornerRadius;
+              if (styling.itemSpacing !== undefined) n.itemSpacing = styling.itemSpacing;
 
               // Apply variable bindings if available
               if (result.instructions.variableBindings) {
@@ -1015,24 +1392,75 @@ async function resolveRSNTTree(node: any, inventory: DesignSystemInventory): Pro
                 }
               }
 
+              // Local styles matched where no variable did
+              if (result.instructions.styleBindings) {
+                Object.assign(n, result.instructions.styleBindings);
+              }
+
               console.log(`  → Built as frame with variables (Tier ${result.tier})`);
             }
           }
         } catch (e) {
-          console.warn(`  → Resolution failed for "${n.name || n.id}":`, e);
+          if (isPolicyViolation(e)) {
+            violations.push(e.details);
+          } else {
+            console.warn(`  → Resolution failed for "${n.name || n.id}":`, e);
+          }
         }
       }
     }
 
+    // Nodes rendered as written never pass through resolveNode, so the preset
+    // is settled against their own values here
+    if (!resolvedByTiers) {
+      const log = await resolveWrittenNodeConflicts(n, inventory, preset || undefined);
+      if (log) {
+        applyResolutionToRSNT(n, log.conflicts);
+        conflicts.push(log);
+      }
+    }
+
+    // Text in style-based systems: bind the text style with the same size
+    if (n.type === 'TEXT' && !n.textStyleId) {
+      const textStyle = resolveTextStyle(n, inventory);
+      if (textStyle) {
+        n.textStyleId = textStyle.id;
+        console.log(`Text "${n.name || n.id}" bound to text style "${textStyle.name}"`);
+      }
+    }
+
+    // Frames and text the AI wrote directly never pass through resolveNode,
+    // so the policy checks what they would render with here
+    if (n.type !== 'COMPONENT_INSTANCE') {
+      const violation = checkRawValues(n, policy);
+      if (violation) violations.push(violation);
+    }
+
     // Recurse into children
     if (n.children && Array.isArray(n.children)) {
       for (const child of n.children) {
-        await walk(child);
+        await walk(child, state);
       }
     }
   }
 
   await walk(node);
+  return { violations, conflicts };
+}
+
+/**
+ * Map each RSNT id to the node rendered for it, so resolution traces and
+ * conflicts can point at the canvas. Nodes are matched by their persisted RSNT id.
+ */
+function mapRenderedNodes(rootNode: SceneNode): Map<string, string> {
+  const rendered = new Map<string, string>();
+  const visit = (n: SceneNode) => {
+    const rsntId = rsntMetadataService.read(n)?.id;
+    if (rsntId && !rendered.has(rsntId)) rendered.set(rsntId, n.id);
+    if ('children' in n && n.type !== 'INSTANCE') n.children.forEach(visit);
+  };
+  visit(rootNode);
+  return rendered;
 }
 
 /**
@@ -0,0 +1,412 @@
+/**
+ * AI Provider Abstraction
+ * One interface for every model vendor the plugin can talk to. Each provider
+ * owns its endpoint, auth headers, request body and response shape; callers
+ * only see text/JSON plus token usage.
+ *
+ * Error normalization:
+ * - 429 / 5xx / overloaded / network failures → Error("AI_API_RETRY: ...") so the
+ *   global RateLimiter backs off and retries the same way for every vendor
+ * - Other HTTP failures → CompilerError(API_REQUEST_FAILED)
+ * - Unparseable JSON → CompilerError(INVALID_JSON_RESPONSE)
+ */
+
+import { createAIError, ErrorCode } from '../types/errors';
+import { globalRateLimiter, QueuePriority } from '../libs/rate-limiter';
+import { extractJSON } from '../utils/json-utils';
+import manifest from '../../manifest.json';
+
+/**
+ * Origins Figma lets the plugin fetch from (manifest networkAccess). The dev
+ * entries only work in development builds.
+ */
+const ALLOWED_ORIGINS = [...manifest.networkAccess.allowedDomains, ...manifest.networkAccess.devAllowedDomains];
+
+export type AIProviderId = 'gemini' | 'openai' | 'anthropic';
+
+export interface AIProviderConfig {
+    apiKey: string;
+    /** Model override (defaults per provider) */
+    model?: string;
+    /** API base URL (OpenAI-compatible servers, proxies) */
+    baseUrl?: string;
+}
+
+export interface AIProviderSettings {
+    active: AIProviderId;
+    providers: Partial<Record<AIProviderId, AIProviderConfig>>;
+}
+
+export interface AITokenUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface AIGenerateOptions {
+    systemPrompt?: string;
+    temperature?: number;
+    maxOutputTokens?: number;
+    /** Ask the model for a JSON response */
+    json?: boolean;
+    /** JSON schema the response must follow (implies json) */
+    schema?: Record<string, any>;
+    priority?: QueuePriority;
+}
+
+export interface AIGenerateResult {
+    text: string;
+    usage?: AITokenUsage;
+    finishReason?: string;
+}
+
+export interface AIJSONResult<T = any> {
+    data: T;
+    text: string;
+    usage?: AITokenUsage;
+}
+
+export interface AIProvider {
+    readonly id: AIProviderId;
+    readonly label: string;
+    readonly model: string;
+    /** Cumulative token usage for this provider instance */
+    readonly usage: AITokenUsage;
+    generateText(prompt: string, options?: AIGenerateOptions): Promise<AIGenerateResult>;
+    generateJSON<T = any>(prompt: string, options?: AIGenerateOptions): Promise<AIJSONResult<T>>;
+}
+
+interface ProviderRequest {
+    url: string;
+    headers: Record<string, string>;
+    body: Record<string, any>;
+}
+
+export const AI_SETTINGS_STORAGE_KEY = 'ai_provider_settings_v1';
+const LEGACY_GEMINI_KEY = 'gemini_api_key';
+
+export const AI_PROVIDER_INFO: Record<AIProviderId, { label: string; defaultModel: string; defaultBaseUrl: string; keyHint: string }> = {
+    gemini: {
+        label: 'Google Gemini',
+        defaultModel: 'gemini-2.5-flash',
+        defaultBaseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+        keyHint: 'AIza...'
+    },
+    openai: {
+        label: 'OpenAI-compatible',
+        defaultModel: 'gpt-4o-mini',
+        defaultBaseUrl: 'https://api.openai.com/v1',
+        keyHint: 'sk-...'
+    },
+    anthropic: {
+        label: 'Anthropic',
+        defaultModel: 'claude-sonnet-4-5',
+        defaultBaseUrl: 'https://api.anthropic.com/v1',
+        keyHint: 'sk-ant-...'
+    }
+};
+
+const DEFAULT_TEMPERATURE = 0.2;
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * Shared request/retry/error handling. Subclasses describe the wire format.
+ */
+abstract class BaseAIProvider implements AIProvider {
+    abstract readonly id: AIProviderId;
+    readonly usage: AITokenUsage = { inputTokens: 0, outputTokens: 0 };
+
+    constructor(protected config: AIProviderConfig) { }
+
+    get label(): string {
+        return AI_PROVIDER_INFO[this.id].label;
+    }
+
+    get model(): string {
+        return this.config.model || AI_PROVIDER_INFO[this.id].defaultModel;
+    }
+
+    protected get baseUrl(): string {
+        return (this.config.baseUrl || AI_PROVIDER_INFO[this.id].defaultBaseUrl).replace(/\/+$/, '');
+    }
+
+    protected abstract buildRequest(prompt: string, options: AIGenerateOptions): ProviderRequest;
+    protected abstract parseResponse(data: any): AIGenerateResult;
+
+    /** Status codes the vendor uses for transient failures */
+    protected isRetryableStatus(status: number): boolean {
+        return status === 429 || status >= 500;
+    }
+
+    async generateText(prompt: string, options: AIGenerateOptions = {}): Promise<AIGenerateResult> {
+        const request = this.buildRequest(prompt, options);
+
+        let response: Response;
+        try {
+            response = await globalRateLimiter.throttle(async () => {
+                let res: Response;
+                try {
+                    res = await fetch(request.url, {
+                        method: 'POST',
+                        headers: { 'Content-Type': 'application/json', ...request.headers },
+                        body: JSON.stringify(request.body)
+                    });
+                } catch (networkError: any) {
+                    throw new Error(`AI_API_RETRY: network error ${networkError?.message || networkError}`);
+                }
+
+                // fetch doesn't throw on these; throw so the RateLimiter retries
+                if (this.isRetryableStatus(res.status)) {
+                    const text = await res.text();
+                    // Surface Retry-After in the format the RateLimiter already parses
+                    const retryAfter = parseFloat(res.headers.get('retry-after') || '');
+                    const delayHint = !isNaN(retryAfter) ? ` "retryDelay": "${retryAfter}s"` : '';
+                    throw new Error(`AI_API_RETRY: ${res.status} ${text}${delayHint}`);
+                }
+
+                return res;
+            }, options.priority ?? QueuePriority.HIGH);
+        } catch (error: any) {
+            // Retries exhausted: keep transient failures recognizable to callers
+            if (error.message?.startsWith('AI_API_RETRY')) throw error;
+            throw createAIError(ErrorCode.API_REQUEST_FAILED, { provider: this.id, originalError: error.message }, `AI request failed: ${error.message}`);
+        }
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const details = { provider: this.id, status: response.status, errorText };
+
+            if (response.status === 400) {
+                throw createAIError(ErrorCode.API_REQUEST_FAILED, details, `INVALID_REQUEST: ${this.label} rejected the request.`);
+            } else if (response.status === 401 || response.status === 403) {
+                throw createAIError(ErrorCode.API_REQUEST_FAILED, details, `INVALID_API_KEY: ${this.label} API key is invalid.`);
+            }
+            throw createAIError(ErrorCode.API_REQUEST_FAILED, details, `AI_ERROR: ${response.status} ${response.statusText}`);
+        }
+
+        const result = this.parseResponse(await response.json());
+        if (!result.text) {
+            throw createAIError(ErrorCode.INVALID_JSON_RESPONSE, { provider: this.id, finishReason: result.finishReason }, 'AI_EMPTY_RESPONSE: The AI response was empty.');
+        }
+
+        if (result.usage) {
+            this.usage.inputTokens += result.usage.inputTokens;
+            this.usage.outputTokens += result.usage.outputTokens;
+        }
+
+        return result;
+    }
+
+    async generateJSON<T = any>(prompt: string, options: AIGenerateOptions = {}): Promise<AIJSONResult<T>> {
+        const result = await this.generateText(prompt, { ...options, json: true });
+
+        try {
+            return { data: extractJSON(result.text) as T, text: result.text, usage: result.usage };
+        } catch (e: any) {
+            throw createAIError(ErrorCode.INVALID_JSON_RESPONSE, { provider: this.id, text: result.text.slice(0, 500) }, `Invalid JSON from ${this.label}: ${e.message}`);
+        }
+    }
+
+    protected throwIfBlocked(blocked: boolean, finishReason?: string): void {
+        if (blocked) {
+            throw createAIError(ErrorCode.API_REQUEST_FAILED, { provider: this.id, finishReason }, 'SAFETY_FILTER: The AI blocked this request due to safety filters.');
+        }
+    }
+}
+
+export class GeminiProvider extends BaseAIProvider {
+    readonly id = 'gemini' as const;
+
+    protected buildRequest(prompt: string, options: AIGenerateOptions): ProviderRequest {
+        const generationConfig: Record<string, any> = {
+            temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+            maxOutputTokens: options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS
+        };
+        if (options.json || options.schema) generationConfig.responseMimeType = 'application/json';
+        if (options.schema) generationConfig.responseJsonSchema = options.schema;
+
+        const body: Record<string, any> = {
+            contents: [{ parts: [{ text: prompt }] }],
+            generationConfig
+        };
+        if (options.systemPrompt) {
+            body.systemInstruction = { parts: [{ text: options.systemPrompt }] };
+        }
+
+        return {
+            url: `${this.baseUrl}/models/${this.model}:generateContent?key=${encodeURIComponent(this.config.apiKey)}`,
+            headers: {},
+            body
+        };
+    }
+
+    protected parseResponse(data: any): AIGenerateResult {
+        const candidate = data.candidates?.[0];
+        this.throwIfBlocked(candidate?.finishReason === 'SAFETY', candidate?.finishReason);
+
+        const usage = data.usageMetadata;
+        return {
+            text: (candidate?.content?.parts || []).map((p: any) => p.text || '').join(''),
+            finishReason: candidate?.finishReason,
+            usage: usage ? { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 } : undefined
+        };
+    }
+}
+
+export class OpenAICompatibleProvider extends BaseAIProvider {
+    readonly id = 'openai' as const;
+
+    protected buildRequest(prompt: string, options: AIGenerateOptions): ProviderRequest {
+        const messages: Array<{ role: string; content: string }> = [];
+        if (options.systemPrompt) messages.push({ role: 'system', content: options.systemPrompt });
+        messages.push({ role: 'user', content: prompt });
+
+        const body: Record<string, any> = {
+            model: this.model,
+            messages,
+            temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+            max_tokens: options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS
+        };
+        if (options.schema) {
+            body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: options.schema } };
+        } else if (options.json) {
+            body.response_format = { type: 'json_object' };
+        }
+
+        const headers: Record<string, string> = {};
+        if (this.config.apiKey) headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+
+        return { url: `${this.baseUrl}/chat/completions`, headers, body };
+    }
+
+    protected parseResponse(data: any): AIGenerateResult {
+        const choice = data.choices?.[0];
+        this.throwIfBlocked(choice?.finish_reason === 'content_filter', choice?.finish_reason);
+
+        return {
+            text: choice?.message?.content || '',
+            finishReason: choice?.finish_reason,
+            usage: data.usage ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0 } : undefined
+        };
+    }
+}
+
+export class AnthropicProvider extends BaseAIProvider {
+    readonly id = 'anthropic' as const;
+
+    protected isRetryableStatus(status: number): boolean {
+        // 529: API overloaded
+        return super.isRetryableStatus(status) || status === 529;
+    }
+
+    protected buildRequest(prompt: string, options: AIGenerateOptions): ProviderRequest {
+        // No native JSON mode: state the contract in the system prompt instead
+        const systemParts = [options.systemPrompt || ''];
+        if (options.schema) {
+            systemParts.push(`Respond with a single JSON object matching this JSON schema, with no prose or code fences:\n${JSON.stringify(options.schema)}`);
+        } else if (options.json) {
+            systemParts.push('Respond with a single valid JSON object, with no prose or code fences.');
+        }
+        const system = systemParts.filter(Boolean).join('\n\n');
+
+        const body: Record<string, any> = {
+            model: this.model,
+            max_tokens: options.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+            temperature: options.temperature ?? DEFAULT_TEMPERATURE,
+            messages: [{ role: 'user', content: prompt }]
+        };
+        if (system) body.system = system;
+
+        return {
+            url: `${this.baseUrl}/messages`,
+            headers: {
+                'x-api-key': this.config.apiKey,
+                'anthropic-version': '2023-06-01',
+                // Plugin requests come from a browser context
+                'anthropic-dangerous-direct-browser-access': 'true'
+            },
+            body
+        };
+    }
+
+    protected parseResponse(data: any): AIGenerateResult {
+        this.throwIfBlocked(data.stop_reason === 'refusal', data.stop_reason);
+
+        return {
+            text: (data.content || []).filter((block: any) => block.type === 'text').map((block: any) => block.text).join(''),
+            finishReason: data.stop_reason,
+            usage: data.usage ? { inputTokens: data.usage.input_tokens || 0, outputTokens: data.usage.output_tokens || 0 } : undefined
+        };
+    }
+}
+
+/**
+ * Create a provider instance for the given vendor
+ */
+export function createAIProvider(id: AIProviderId, config: AIProviderConfig): AIProvider {
+    switch (id) {
+        case 'openai': return new OpenAICompatibleProvider(config);
+        case 'anthropic': return new AnthropicProvider(config);
+        case 'gemini':
+        default:
+            return new GeminiProvider(config);
+    }
+}
+
+/**
+ * Basic key format check. Returns an error message, or null when the key looks usable.
+ */
+export function validateProviderKey(id: AIProviderId, config: AIProviderConfig | undefined): string | null {
+    const key = config?.apiKey?.trim() || '';
+    const label = AI_PROVIDER_INFO[id].label;
+
+    if (id === 'gemini' && !key.startsWith('AIza')) return `Please provide a valid ${label} API key`;
+    if (id === 'anthropic' && !key.startsWith('sk-ant-')) return `Please provide a valid ${label} API key`;
+    // Self-hosted OpenAI-compatible servers often run without a key
+    if (id === 'openai' && !key && !config?.baseUrl) return `Please provide an ${label} API key or base URL`;
+    // Figma blocks fetches to hosts missing from the manifest with a bare network error
+    const origin = config?.baseUrl?.trim().match(/^https?:\/\/[^/?#]+/i)?.[0].toLowerCase();
+    if (config?.baseUrl?.trim() && (!origin || !ALLOWED_ORIGINS.includes(origin))) {
+        return `${config.baseUrl.trim()} is not a host the plugin may reach. Use one of ${ALLOWED_ORIGINS.join(', ')}, or add it to networkAccess in manifest.json`;
+    }
+    return null;
+}
+
+/**
+ * Provider settings persisted in clientStorage (main thread only)
+ */
+export const aiProviderService = {
+    /** When on, no provider is handed out, so every caller takes its non-AI path */
+    offline: false,
+
+    setOffline(enabled: boolean): void {
+        this.offline = enabled;
+    },
+
+    async loadSettings(): Promise<AIProviderSettings> {
+        const stored = await figma.clientStorage.getAsync(AI_SETTINGS_STORAGE_KEY) as AIProviderSettings | undefined;
+        if (stored && stored.active && stored.providers) return stored;
+
+        // Migrate the single Gemini key used before provider selection existed
+        const legacyKey = await figma.clientStorage.getAsync(LEGACY_GEMINI_KEY);
+        const settings: AIProviderSettings = { active: 'gemini', providers: {} };
+        if (typeof legacyKey === 'string' && legacyKey.trim()) {
+            settings.providers.gemini = { apiKey: legacyKey.trim().replace(/^#/, '') };
+        }
+        return settings;
+    },
+
+    async saveSettings(settings: AIProviderSettings): Promise<void> {
+        await figma.clientStorage.setAsync(AI_SETTINGS_STORAGE_KEY, settings);
+    },
+
+    /**
+     * The selected provider, or null when it isn't configured or the plugin is offline
+     */
+    async getActiveProvider(): Promise<AIProvider | null> {
+        if (this.offline) return null;
+        const settings = await this.loadSettings();
+        const config = settings.providers[settings.active];
+        if (!config || validateProviderKey(settings.active, config)) return null;
+        return createAIProvider(settings.active, { ...config, apiKey: config.apiKey.trim().replace(/^#/, '') });
+    }
+};
@@ -6,14 +6,12 @@ import { componentSelector } from './component-selector';
 import { promptBuilder } from './prompt-builder';
 import { selectRelevantExamples } from './example-library';
 import { conversationManager } from './conversation-manager';
-import { createAIError, ErrorCode } from '../types/errors';
-import { globalRateLimiter } from '../libs/rate-limiter';
+import { createAIError, CompilerError, ErrorCode } from '../types/errors';
 import { createIntentParser, DesignIntent } from './intent-parser';
 import { createDecisionEngine, DesignDecision } from './decision-engine';
 import { extractJSON } from '../utils/json-utils';
 import { designPatternService } from './design-patterns';
-
-const MODEL_NAME = 'gemini-2.5-flash';
+import { AIProvider } from './ai-provider';
 
 // Enable multi-step reasoning (Antigravity approach)
 const USE_MULTI_STEP_REASONING = true;
@@ -59,13 +57,13 @@ function validateRSNTResponse(parsed: any): any {
  */
 export async function generateRSNT(
     userIntent: string,
-    apiKey: string,
+    provider: AIProvider,
     inventory: DesignSystemInventory,
     selectionContext?: RSNT_Node
 ): Promise<RSNT_Node | ClarificationRequest> {
 
-    if (!apiKey || !apiKey.startsWith('AIza')) {
-        throw createAIError(ErrorCode.API_REQUEST_FAILED, { apiKey }, 'INVALID_API_KEY: Please provide a valid Gemini API key');
+    if (!provider) {
+        throw createAIError(ErrorCode.API_REQUEST_FAILED, {}, 'INVALID_API_KEY: Please configure an AI provider in Settings');
     }
 
     console.log('=== AI Generation Start ===');
@@ -79,7 +77,7 @@ export async function generateRSNT(
     if (USE_MULTI_STEP_REASONING && !isRefinement && !isComplex) {
         try {
             console.log('Using multi-step reasoning (Antigravity approach)');
-            const result = await generateRSNTWithDecisions(userIntent, apiKey, inventory, selectionContext);
+            const result = await generateRSNTWithDecisions(userIntent, provider, inventory, selectionContext);
 
             // Check confidence for clarification
             if (result.decisions.overallConfidence < 0.5) {
@@ -160,41 +158,17 @@ export async function generateRSNT(
     console.log(`Prompt size: ${prompt.length} characters`);
     console.log(`Prompt tokens estimate: ${Math.ceil(prompt.length / 4)}`);
 
-    // 4. Call AI
-    let response;
+    // 5. Call AI
+    let aiText: string;
     try {
-        // Use HIGH priority for user requests
-        response = await globalRateLimiter.throttle(async () => {
-            const res = await fetch(
-                `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent?key=${apiKey}`,
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        contents: [{
-                            parts: [{ text: prompt }]
-                        }],
-                        generationConfig: {
-                            temperature: 0.2,
-                            maxOutputTokens: 8192,
-                            responseMimeType: "application/json"
-                        }
-                    })
-                }
-            );
-
-            // Force retry on 429 (Rate Limit) or 5xx (Server Error)
-            // fetch doesn't throw on these, so we must check status and throw to trigger RateLimiter retry
-            if (res.status === 429 || res.status >= 500) {
-                const text = await res.text();
-                // Include retryDelay in error message if possible to help RateLimiter
-                throw new Error(`AI_API_RETRY: ${res.status} ${text}`);
-            }
-
-            return res;
-        }, 0 /* QueuePriority.HIGH */);
+        const response = await provider.generateText(prompt, { json: true, temperature: 0.2 });
+        aiText = response.text;
+        console.log(`AI Response received from ${provider.label}:`, { finishReason: response.finishReason, usage: response.usage });
     } catch (error: any) {
-        // If we get here, retries are exhausted (max 5)
+        // Provider already reports HTTP, safety and empty-response failures
+        if (error instanceof CompilerError) throw error;
+
+        // If we get here, retries are exhausted
         if (error.message?.includes('429') || error.message?.includes('Rate Limit')) {
             throw createAIError(ErrorCode.API_REQUEST_FAILED, { status: 429, originalError: error.message }, 'RATE_LIMIT: Too many requests. Please wait a moment.');
         }
@@ -203,43 +177,6 @@ export async function generateRSNT(
         throw createAIError(ErrorCode.API_REQUEST_FAILED, { originalError: error.message }, `AI request failed: ${error.message}`);
     }
 
-    if (!response.ok) {
-        const errorText = await response.text();
-        console.error('AI API error:', errorText);
-
-        if (response.status === 400) {
-            throw createAIError(ErrorCode.API_REQUEST_FAILED, { status: 400, errorText }, 'INVALID_REQUEST: The request was malformed.');
-        } else if (response.status === 429) {
-            throw createAIError(ErrorCode.API_REQUEST_FAILED, { status: 429, errorText }, 'RATE_LIMIT: Too many requests.');
-        } else if (response.status === 403) {
-            throw createAIError(ErrorCode.API_REQUEST_FAILED, { status: 403, errorText }, 'INVALID_API_KEY: API key is invalid.');
-        }
-
-        throw createAIError(ErrorCode.API_REQUEST_FAILED, { status: response.status, errorText }, `AI_ERROR: ${response.status} ${response.statusText}`);
-    }
-
-    const data = await response.json();
-
-    console.log('AI Response received:', {
-        candidates: data.candidates?.length || 0,
-        finishReason: data.candidates?.[0]?.finishReason
-    });
-
-    if (!data.candidates || data.candidates.length === 0) {
-        throw createAIError(ErrorCode.INVALID_JSON_RESPONSE, { data }, 'AI_NO_RESPONSE: The AI did not generate any response.');
-    }
-
-    const candidate = data.candidates[0];
-
-    if (candidate.finishReason === 'SAFETY') {
-        throw createAIError(ErrorCode.API_REQUEST_FAILED, { finishReason: 'SAFETY' }, 'SAFETY_FILTER: The AI blocked this request due to safety filters.');
-    }
-
-    if (!candidate.content?.parts?.[0]?.text) {
-        throw createAIError(ErrorCode.INVALID_JSON_RESPONSE, { candidate }, 'AI_EMPTY_RESPONSE: The AI response was empty.');
-    }
-
-    const aiText = candidate.content.parts[0].text;
     console.log('AI generated text length:', aiText.length);
 
     // Parse the JSON response
@@ -364,44 +301,8 @@ export async function generateRSNT(
  * Helper to make a raw AI call (used by intent parser and decision engine)
  * Exported for use by Antigravity pipeline
  */
-export async function makeAICall(prompt: string, systemPrompt: string, apiKey: string): Promise<string> {
-    const fullPrompt = `${systemPrompt}\n\n${prompt}`;
-
-    const response = await globalRateLimiter.throttle(async () => {
-        const res = await fetch(
-            `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent?key=${apiKey}`,
-            {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                    contents: [{
-                        parts: [{ text: fullPrompt }]
-                    }],
-                    generationConfig: {
-                        temperature: 0.3,
-                        maxOutputTokens: 8192,
-                        responseMimeType: "application/json"
-                    }
-                })
-            }
-        );
-
-        if (res.status === 429 || res.status >= 500) {
-            const text = await res.text();
-            throw new Error(`AI_API_RETRY: ${res.status} ${text}`);
-        }
-
-        return res;
-    }, 0 /* QueuePriority.HIGH */);
-
-    if (!response.ok) {
-        throw new Error(`AI call failed: ${response.status}`);
-    }
-
-    const data = await response.json();
-    // Parse response
-    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-    if (!text) throw new Error('Empty response from AI');
+export async function makeAICall(prompt: string, systemPrompt: string, provider: AIProvider): Promise<string> {
+    const { text } = await provider.generateText(prompt, { systemPrompt, json: true, temperature: 0.3 });
 
     console.log('[AIService] Raw AI Response:', text.substring(0, 200) + '...');
 
@@ -416,7 +317,7 @@ export async function makeAICall(prompt: string, systemPrompt: string, apiKey: s
 
 export async function generateRSNTWithDecisions(
     userIntent: string,
-    apiKey: string,
+    provider: AIProvider,
     inventory: DesignSystemInventory,
     selectionContext?: RSNT_Node
 ): Promise<{ rsnt: RSNT_Node; intent: DesignIntent; decisions: DesignDecision }> {
@@ -424,7 +325,7 @@ export async function generateRSNTWithDecisions(
     console.log('=== Multi-Step Generation (Antigravity) ===');
 
     // Create parser and engine
-    const aiCall = (prompt: string, systemPrompt: string) => makeAICall(prompt, systemPrompt, apiKey);
+    const aiCall = (prompt: string, systemPrompt: string) => makeAICall(prompt, systemPrompt, provider);
     const intentParser = createIntentParser(inventory, aiCall);
     const decisionEngine = createDecisionEngine(inventory, aiCall);
 
@@ -586,6 +487,7 @@ function createNodeFromDecision(
             type: 'COMPONENT_INSTANCE',
             name: req.label || req.text || decision.selectedComponent.name,
             componentId: decision.selectedComponent.id,
+            componentKey: decision.selectedComponent.componentKey,
             properties: decision.properties,
             characters: req.text || req.label,
         };
@@ -3,6 +3,8 @@
  * Analyzes the internal structure of components to determine their purpose
  */
 
+import { hashString } from '../utils/hash';
+
 export interface ComponentAnatomy {
     hasIcon: boolean;           // Contains component instance named "icon" or small square
     hasLabel: boolean;          // Contains TEXT node
@@ -227,6 +229,24 @@ export function matchPatternConfidence(anatomy: ComponentAnatomy, pattern: Known
 }
 
 
+/**
+ * Content fingerprint of a component: its layer structure, auto-layout and
+ * property definitions. Name, position and size are left out, so renaming,
+ * moving or nudging a component keeps its hash while adding a layer or a
+ * variant value changes it.
+ */
+export function calculateStructureHash(anatomy: ComponentAnatomy, properties?: Record<string, unknown>): string {
+    const sortedProperties = Object.keys(properties || {}).sort().map(key => [key, properties![key]]);
+    return hashString(JSON.stringify([
+        anatomy.structureSignature,
+        anatomy.layoutInfo,
+        anatomy.hasIcon,
+        anatomy.hasLabel,
+        anatomy.hasImage,
+        sortedProperties
+    ]));
+}
+
 // --- Helpers ---
 
 function abbreviationForType(type: string): string {
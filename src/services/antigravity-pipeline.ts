@@ -49,6 +49,7 @@ export interface PipelineResult {
     reasoning: PipelineReasoning;
     originalPrompt?: string;      // Added for context tracking
     usedContext?: boolean;        // Track if we used selection context
+    offline?: boolean;            // Built by the rule engine without AI calls
     error?: string;
 }
 
@@ -80,6 +81,8 @@ export interface PipelineOptions {
     verbose?: boolean;
     /** Callback for progress updates */
     onProgress?: (phase: string, message: string) => void;
+    /** Variable mode the result should be previewed in (e.g. "Dark"), stamped on the root */
+    variableMode?: string;
 }
 
 /** A single surgical edit instruction for the Clone & Delta protocol */
@@ -104,7 +107,7 @@ export class AntigravityPipeline {
 
     constructor(
         private inventory: DesignSystemInventory,
-        private aiCall: (prompt: string, systemPrompt: string) => Promise<string>,
+        private aiCall: ((prompt: string, systemPrompt: string) => Promise<string>) | null,
         private options: PipelineOptions = {}
     ) {
         this.intentParser = createIntentParser(inventory, aiCall);
@@ -112,18 +115,35 @@ export class AntigravityPipeline {
         this.rsntBuilder = createRSNTBuilder(inventory);
     }
 
+    /**
+     * Offline pipelines parse, decide and build with local rules only
+     */
+    get offline(): boolean {
+        return !this.aiCall;
+    }
+
     /**
      * Run the complete pipeline
      */
     async run(userPrompt: string, selectionContext?: RSNT_Node): Promise<PipelineResult> {
-        if (selectionContext) {
-            return this.runRefactoring(userPrompt, selectionContext);
+        const result = selectionContext
+            ? await this.runRefactoring(userPrompt, selectionContext)
+            : await this.runGeneration(userPrompt);
+
+        if (result.rsnt && this.options.variableMode) {
+            result.rsnt.variableMode = this.options.variableMode;
         }
+        return result;
+    }
 
+    /**
+     * Generate a new design: intent → decisions → RSNT
+     */
+    private async runGeneration(userPrompt: string): Promise<PipelineResult> {
         const startTime = Date.now();
         const warnings: string[] = [];
 
-        this.progress('Starting', 'Antigravity pipeline initiated');
+        this.progress('Starting', `Antigravity pipeline initiated${this.offline ? ' (offline)' : ''}`);
 
         // Phase 1: Parse Intent
         this.progress('Phase 1', 'Parsing user intent...');
@@ -171,6 +191,9 @@ export class AntigravityPipeline {
 
         const build = buildResult.data;
         warnings.push(...build.warnings);
+        if (this.offline) {
+            warnings.push('Generated offline with the rule engine (no AI calls)');
+        }
 
         // Create reasoning summary
         const reasoning = this.createReasoningSummaryWithReasoning(
@@ -193,7 +216,8 @@ export class AntigravityPipeline {
             totalTimeMs: Date.now() - startTime,
             reasoning,
             originalPrompt: userPrompt,
-            usedContext: false
+            usedContext: false,
+            offline: this.offline
         };
     }
 
@@ -208,6 +232,13 @@ export class AntigravityPipeline {
      */
     private async runRefactoring(userPrompt: string, selectionContext: RSNT_Node): Promise<PipelineResult> {
         const startTime = Date.now();
+
+        // Delta identification needs AI; offline edits regenerate from the merged requirements
+        if (this.offline) {
+            this.log('Offline: skipping Clone & Delta');
+            return this.runFullRegeneration(userPrompt, selectionContext, startTime);
+        }
+
         this.progress('Refactoring', 'Clone & Delta modification pipeline...');
 
         try {
@@ -400,6 +431,10 @@ AVAILABLE PROPERTY KEYS for changes:
 
         const systemPrompt = `You are a precise design modification assistant. You identify the MINIMUM set of changes needed to fulfill a user request. You never regenerate entire designs — you apply surgical deltas.`;
 
+        if (!this.aiCall) {
+            throw new Error('Delta identification requires an AI provider');
+        }
+
         const response = await this.aiCall(prompt, systemPrompt);
         const deltas = extractJSON(response);
 
@@ -571,10 +606,12 @@ AVAILABLE PROPERTY KEYS for changes:
             if (node.layoutMode) props.push(`layout=${node.layoutMode}`);
             if (node.width) props.push(`w=${Math.round(node.width)}`);
             if (node.height) props.push(`h=${Math.round(node.height)}`);
-            if (node.itemSpacing) props.push(`gap=${node.itemSpacing}`);
+            // Variable-bound values (restored from persisted metadata) are shown as var(id)
+            const fmt = (v: any) => (v && typeof v === 'object' && v.variableId) ? `var(${v.variableId})` : v;
+            if (node.itemSpacing) props.push(`gap=${fmt(node.itemSpacing)}`);
             if (node.padding) {
                 const p = node.padding;
-                props.push(`pad=${p.top}/${p.right}/${p.bottom}/${p.left}`);
+                props.push(`pad=${fmt(p.top)}/${fmt(p.right)}/${fmt(p.bottom)}/${fmt(p.left)}`);
             }
         }
         if (node.fills && node.fills.length > 0) {
@@ -660,7 +697,9 @@ AVAILABLE PROPERTY KEYS for changes:
 
         const build = buildResult.data;
         const reasoning = this.createReasoningSummaryWithReasoning(mergedIntent, decision, build, build.warnings);
-        reasoning.warnings.push('Used full regeneration fallback (delta approach failed)');
+        reasoning.warnings.push(this.offline
+            ? 'Generated offline with the rule engine (no AI calls); regenerated from the selection'
+            : 'Used full regeneration fallback (delta approach failed)');
 
         return {
             success: true,
@@ -669,7 +708,8 @@ AVAILABLE PROPERTY KEYS for changes:
             totalTimeMs: Date.now() - startTime,
             reasoning,
             originalPrompt: userPrompt,
-            usedContext: true
+            usedContext: true,
+            offline: this.offline
         };
     }
 
@@ -881,6 +921,25 @@ export function createAntigravityPipeline(
     return new AntigravityPipeline(inventory, aiCall, options);
 }
 
+/**
+ * Factory for the offline pipeline: rule-based intent parsing, heuristic
+ * reasoning and local RSNT building. Deterministic for a given inventory.
+ */
+export function createOfflinePipeline(
+    inventory: DesignSystemInventory,
+    options?: PipelineOptions
+): AntigravityPipeline {
+    return new AntigravityPipeline(inventory, null, options);
+}
+
+/**
+ * Whether a pipeline failed because the AI provider was rate limited or out of quota
+ */
+export function isRateLimitFailure(result: PipelineResult): boolean {
+    const errors = [result.phases.intent.error, result.phases.decision.error, result.phases.build.error, result.error];
+    return errors.some(e => !!e && /\b429\b|rate.?limit|quota/i.test(e));
+}
+
 /**
  * Format pipeline reasoning for display in UI
  */
@@ -4,17 +4,27 @@ import {
     PatternMatch,
     KNOWN_PATTERNS,
     matchPatternConfidence,
+    calculateStructureHash,
     LayerNode
 } from './anatomy';
 import { classificationService } from './classification';
+import { aiProviderService } from './ai-provider';
 import { propertyMappingService } from './property-mapping';
 import { AIClassificationResponse, PropertyAnalysis } from '../types/classification';
 import { cacheService } from './cache'; // Import CacheService
+import { QueuePriority } from '../libs/rate-limiter';
+import { componentOverrides, applyComponentOverrides } from './component-overrides';
+import { importedLibraryComponents } from './inventory-manifest';
+import { IconInfo, buildIconIndex } from './icon-library';
 import { DiscoveryCache } from '../types/cache'; // Import DiscoveryCache type
 
+/** Where a component or variable comes from: this file, or an enabled team library */
+export type ComponentSource = 'local' | 'library';
+
 export interface ComponentInfo {
     id: string;
-    key: string;
+    key: string; // Import key; library components are re-imported by key when their id is not in the file
+    source?: ComponentSource;
     name: string;
     type: 'COMPONENT' | 'COMPONENT_SET';
     description?: string;
@@ -31,25 +41,53 @@ export interface ComponentInfo {
     patternMatches?: PatternMatch[];
     aiClassification?: AIClassificationResponse;
     propertyMappings?: Record<string, PropertyAnalysis>;
+    approved?: boolean; // Role or property mappings were set by a designer; AI classification leaves them alone
+    structureHash?: string; // Fingerprint of anatomy + property definitions; unchanged by renames and moves
 }
 
 export interface VariableInfo {
     id: string;
+    key?: string; // Library variables: import key; their id is `library:<key>` until bound
     name: string;
     resolvedType: string;
-    value: any;
+    value: any; // Value in the collection's default mode, with aliases resolved
+    valuesByMode?: Record<string, any>; // Mode name -> resolved value, e.g. { Light: {...}, Dark: {...} }
+    aliasOf?: string; // Variable id this one references in the default mode (semantic → primitive)
+    collectionId?: string;
+    collectionName?: string;
     scopes: string[];
     usageCount?: number; // Number of times this variable is used in the file
     semanticTokens?: string[]; // Potential semantic aliases for this variable
+    source?: ComponentSource;
+    libraryName?: string; // Team library the variable was imported from
+}
+
+/**
+ * A local paint, text or effect style. Older design systems define their
+ * tokens this way instead of with variables.
+ */
+export interface StyleInfo {
+    id: string;
+    key: string;
+    name: string;
+    type: 'PAINT' | 'TEXT' | 'EFFECT';
+    description?: string;
+    color?: { r: number; g: number; b: number; a: number }; // PAINT: first solid paint
+    fontName?: FontName; // TEXT
+    fontSize?: number; // TEXT
+    effects?: Array<{ type: string; radius: number; offset?: { x: number; y: number } }>; // EFFECT
 }
 
 export interface DesignSystemInventory {
     components: ComponentInfo[];
     variables: VariableInfo[];
+    styles?: StyleInfo[];
     fileKey: string;
     scannedAt: number;
     guidelines?: DesignSystemGuidelines;
     suggestedMappings?: Record<string, string>; // semanticRole -> componentId
+    icons?: IconInfo[]; // Icon components by semantic name
+    diff?: InventoryDiff; // Changes since the cached inventory, when there was one
     discoveryStats?: {
         scanDuration: number;
         totalComponents: number;
@@ -65,8 +103,8 @@ export interface DesignSystemGuidelines {
         default: number;
     };
     typography: {
-        scale: Array<{ level: string; fontSize: number; usage: string }>;
-        sizes: number[]; // Deduplicated font sizes extracted from file variables
+        scale: Array<{ level: string; fontSize: number; usage: string; styleId?: string }>;
+        sizes: number[]; // Deduplicated font sizes from text styles, or else from file variables
     };
     borderRadius: {
         scale: number[]; // Extracted from file variables, or defaults
@@ -85,14 +123,20 @@ export interface InventoryDiff {
     removed: {
         componentIds: string[];
         variableIds: string[];
+        components: ComponentInfo[]; // As last seen, so reports can name them
+        variables: VariableInfo[];
     };
     modified: {
         components: ComponentInfo[];
         variables: VariableInfo[];
     };
+    changes: Record<string, InventoryChange[]>; // Component/variable id -> what changed
     unchanged: number;
 }
 
+/** What changed on a modified component or variable */
+export type InventoryChange = 'renamed' | 'description' | 'variants' | 'properties' | 'type' | 'value';
+
 /**
  * Classify component based on name and properties
  */
@@ -169,9 +213,9 @@ function suggestSemanticRole(component: ComponentNode | ComponentSetNode): strin
 }
 
 /**
- * Infer design system guidelines from variables
+ * Infer design system guidelines from variables, and from text styles when the file has them
  */
-function inferGuidelines(variables: VariableInfo[]): DesignSystemGuidelines {
+function inferGuidelines(variables: VariableInfo[], styles: StyleInfo[] = []): DesignSystemGuidelines {
     // Helper: extract unique sorted numeric values from a filtered variable list.
     // Prefers v.value (the actual token value); falls back to parsing a number from the name.
     const extractNumericValues = (
@@ -217,7 +261,9 @@ function inferGuidelines(variables: VariableInfo[]): DesignSystemGuidelines {
             v.name.toLowerCase().match(/\btext\b/) !== null
         )
     );
-    const fontSizes = extractNumericValues(fontVars, 8, 120);
+    const textStyles = styles.filter(s => s.type === 'TEXT' && s.fontSize);
+    const styleSizes = [...new Set(textStyles.map(s => s.fontSize!))].sort((a, b) => a - b);
+    const fontSizes = styleSizes.length >= 2 ? styleSizes : extractNumericValues(fontVars, 8, 120);
 
     // --- Border Radius ---
     const radiusVars = variables.filter(v =>
@@ -229,8 +275,10 @@ function inferGuidelines(variables: VariableInfo[]): DesignSystemGuidelines {
     );
     const radiusScale = extractNumericValues(radiusVars, 0, 100);
 
-    // Build structured typography scale from extracted sizes (or defaults)
-    const typographyScale = fontSizes.length >= 2
+    // Build structured typography scale from real text styles, extracted sizes, or defaults
+    const typographyScale = styleSizes.length >= 2
+        ? buildTypographyScaleFromStyles(textStyles)
+        : fontSizes.length >= 2
         ? buildTypographyScale(fontSizes)
         : [
             { level: 'h1', fontSize: 32, usage: 'Page titles' },
@@ -258,6 +306,27 @@ function inferGuidelines(variables: VariableInfo[]): DesignSystemGuidelines {
     };
 }
 
+/**
+ * Typography levels from text styles, largest first. Levels come from style names
+ * ("Heading/H1" → h1, "Body/Regular" → body) and fall back to the style name.
+ */
+function buildTypographyScaleFromStyles(styles: StyleInfo[]): Array<{ level: string; fontSize: number; usage: string; styleId?: string }> {
+    const levelFromName = (name: string): string => {
+        const lower = name.toLowerCase();
+        const heading = lower.match(/\bh([1-6])\b/);
+        if (heading) return `h${heading[1]}`;
+        for (const level of ['display', 'title', 'subtitle', 'body', 'label', 'caption', 'small', 'overline']) {
+            if (lower.includes(level)) return level;
+        }
+        return lower.split('/').pop()!.trim().replace(/\s+/g, '-');
+    };
+
+    return styles
+        .slice()
+        .sort((a, b) => b.fontSize! - a.fontSize!)
+        .map(style => ({ level: levelFromName(style.name), fontSize: style.fontSize!, usage: style.name, styleId: style.id }));
+}
+
 /**
  * Map a sorted array of font sizes to labelled typography levels.
  * Assigns labels bottom-up: smallest → small/caption, largest → h1/display.
@@ -285,78 +354,102 @@ function buildTypographyScale(sizes: number[]): Array<{ level: string; fontSize:
     return result;
 }
 
+/**
+ * Carry AI classifications over from the last inventory so unchanged components
+ * skip the AI. A component reuses its previous classification when its
+ * structure hash matches (falling back to the anatomy signature for entries
+ * cached before hashes existed). Components whose id disappeared are matched by
+ * structure hash, which carries classifications across renames and moves as
+ * long as the match is unambiguous.
+ */
+export function reuseClassifications(
+    components: ComponentInfo[],
+    lastInventory: DesignSystemInventory | null
+): { components: ComponentInfo[]; unclassified: ComponentInfo[] } {
+    const classified = (lastInventory?.components || []).filter(c => c.aiClassification);
+    const byId = new Map(classified.map(c => [c.id, c]));
+
+    // Previous components that are gone, indexed by hash; null marks a hash shared by several
+    const currentIds = new Set(components.map(c => c.id));
+    const byHash = new Map<string, ComponentInfo | null>();
+    classified.forEach(c => {
+        if (!c.structureHash || currentIds.has(c.id)) return;
+        byHash.set(c.structureHash, byHash.has(c.structureHash) ? null : c);
+    });
+
+    const unclassified: ComponentInfo[] = [];
+    const result = components.map(c => {
+        let previous = byId.get(c.id);
+        if (previous) {
+            const unchanged = previous.structureHash && c.structureHash
+                ? previous.structureHash === c.structureHash
+                : previous.anatomy?.structureSignature === c.anatomy?.structureSignature;
+            if (!unchanged) previous = undefined;
+        } else if (c.structureHash) {
+            previous = byHash.get(c.structureHash) || undefined;
+        }
+
+        if (!previous) {
+            unclassified.push(c);
+            return c;
+        }
+
+        const reused: ComponentInfo = { ...c, aiClassification: previous.aiClassification };
+        if (previous.aiClassification!.confidence >= 0.5) reused.suggestedRole = previous.aiClassification!.semanticRole;
+        if (previous.propertyMappings) {
+            reused.propertyMappings = previous.propertyMappings;
+            if (previous.id !== c.id) propertyMappingService.setMappings(c.id, previous.propertyMappings);
+        }
+        return reused;
+    });
+
+    return { components: result, unclassified };
+}
+
 /**
  * Orchestrate AI classification for components
  */
 async function classifyComponentsOrchestrator(
     components: ComponentInfo[],
     lastInventory: DesignSystemInventory | null,
-    onProgress?: (step: string, progress: number) => void
+    onProgress?: (step: string, progress: number) => void,
+    priority?: QueuePriority
 ): Promise<ComponentInfo[]> {
 
-    // Get API Key
-    // Get API Key
-    try {
-        let apiKey = await figma.clientStorage.getAsync('gemini_api_key');
+    // Load property mappings from cache
+    await propertyMappingService.loadMappings();
 
-        // Robust check: Ensure it's a non-empty string
-        if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === '') {
-            console.warn('Skipping AI classification: No valid API key found', apiKey);
-            // Notify user via progress callback
-            onProgress?.('AI classification skipped (no API key)', 0);
-            return components;
-        }
+    // 1-2. Recover existing classifications; only the rest need AI.
+    // Designer overrides are never sent: their roles and mappings win anyway.
+    // Both apply with or without a provider, so offline scans keep them.
+    const overrides = await componentOverrides.load();
+    const { components: finalComponents, unclassified } = reuseClassifications(components, lastInventory);
+    for (const [id, override] of Object.entries(overrides)) {
+        if (override.propertyMappings) propertyMappingService.setMappings(id, override.propertyMappings);
+    }
 
-        // SANITIZATION: Remove leading '#' if present (common paste error from .env)
-        apiKey = apiKey.trim().replace(/^#/, '');
+    // Get the configured AI provider
+    try {
+        const provider = await aiProviderService.getActiveProvider();
 
-        if (apiKey === '') {
-            console.warn('Skipping AI classification: API key was only comments/whitespace');
-            return components;
+        if (!provider) {
+            const reason = aiProviderService.offline ? 'offline' : 'no API key';
+            console.warn(`Skipping AI classification (${reason})`);
+            // Notify user via progress callback
+            onProgress?.(`AI classification skipped (${reason})`, 0);
+            return finalComponents;
         }
 
-        classificationService.setApiKey(apiKey);
+        classificationService.setProvider(provider);
     } catch (e) {
         console.warn('Failed to retrieve API key for classification', e);
         // Notify user via progress callback
         onProgress?.('AI classification skipped (API key error)', 0);
-        return components;
+        return finalComponents;
     }
 
     onProgress?.('Classifying components with AI...', 0);
-
-    // Identify components needing classification
-    const componentsToClassify: ComponentInfo[] = [];
-    const classificationMap = new Map<string, AIClassificationResponse>();
-
-    // 1. Recover existing classifications
-    if (lastInventory) {
-        lastInventory.components.forEach(c => {
-            if (c.aiClassification) {
-                classificationMap.set(c.id, c.aiClassification);
-            }
-        });
-    }
-
-    // Load property mappings from cache
-    await propertyMappingService.loadMappings();
-
-    // 2. Filter components
-    const finalComponents = components.map(c => {
-        // If we have a cached classification
-        const cached = classificationMap.get(c.id);
-
-        if (cached) {
-            // Check if structure matches to validate cache
-            const lastComp = lastInventory?.components.find(lc => lc.id === c.id);
-            if (lastComp?.anatomy?.structureSignature === c.anatomy?.structureSignature) {
-                return { ...c, aiClassification: cached };
-            }
-        }
-
-        componentsToClassify.push(c);
-        return c;
-    });
+    const componentsToClassify = unclassified.filter(c => !overrides[c.id]?.role);
 
     // If no new classification needed, still check for property analysis on ALL applicable components
     // BUT we should avoid re-analyzing properties if they haven't changed.
@@ -370,7 +463,8 @@ async function classifyComponentsOrchestrator(
         console.log(`Classifying ${componentsToClassify.length} components using AI...`);
         const results = await classificationService.classifyAll(
             componentsToClassify,
-            (p) => onProgress?.(`Classifying components (${Math.round(p * 100)}%)...`, p)
+            (p) => onProgress?.(`Classifying components (${Math.round(p * 100)}%)...`, p),
+            priority
         );
 
         // Merge results
@@ -423,10 +517,112 @@ async function classifyComponentsOrchestrator(
     return finalComponents;
 }
 
+/**
+ * Import key to record on RSNT nodes and instructions (library components only,
+ * local ones are always reachable by id)
+ */
+export function getLibraryKey(component: ComponentInfo): string | undefined {
+    return component.source === 'library' ? component.key : undefined;
+}
+
+/**
+ * Analyze a single component or component set (anatomy, patterns, properties)
+ */
+function describeComponent(component: ComponentNode | ComponentSetNode, source: ComponentSource): ComponentInfo {
+    // Cast to LayerNode (runtime compatibility assumed for utilized props)
+    const anatomy = analyzeComponentAnatomy(component as unknown as LayerNode);
+
+    // Match against known patterns
+    const patternMatches = KNOWN_PATTERNS.map(pattern =>
+        matchPatternConfidence(anatomy, pattern)
+    ).filter(match => match.confidence > 0.4) // Filter low confidence
+        .sort((a, b) => b.confidence - a.confidence);
+
+    const bestMatch = patternMatches[0];
+
+    const info: ComponentInfo = {
+        id: component.id,
+        key: component.key,
+        name: component.name,
+        type: component.type as 'COMPONENT' | 'COMPONENT_SET',
+        description: component.description || undefined,
+        semanticType: classifyComponent(component),
+        suggestedRole: suggestSemanticRole(component),
+        anatomy,
+        patternMatches,
+        source
+    };
+
+    // Extract component properties (Variants, Booleans, Text, Swaps)
+    const props: Record<string, { type: 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP'; values?: string[]; defaultValue?: any }> = {};
+
+    // Helper to process properties
+    const processDefinitions = (definitions: ComponentPropertyDefinitions) => {
+        Object.entries(definitions).forEach(([key, def]) => {
+            // Skip hidden properties (convention: starting with _)
+            if (key.startsWith('_')) return;
+
+            if (def.type === 'VARIANT') {
+                console.log(`[Discovery]   Variant Prop: "${key}", Values:`, def.variantOptions);
+                props[key] = {
+                    type: 'VARIANT',
+                    values: def.variantOptions || [],
+                    defaultValue: def.defaultValue
+                };
+            } else if (def.type === 'BOOLEAN') {
+                props[key] = {
+                    type: 'BOOLEAN',
+                    defaultValue: def.defaultValue
+                };
+            } else if (def.type === 'TEXT') {
+                props[key] = {
+                    type: 'TEXT',
+                    defaultValue: def.defaultValue
+                };
+            } else if (def.type === 'INSTANCE_SWAP') {
+                props[key] = {
+                    type: 'INSTANCE_SWAP',
+                    defaultValue: def.defaultValue
+                };
+            }
+        });
+    };
+
+    if (component.type === 'COMPONENT_SET') {
+        processDefinitions(component.componentPropertyDefinitions);
+
+        // Backward compatibility for existing prompts until update
+        const variantProps: Record<string, { values: string[] }> = {};
+        Object.entries(props).forEach(([key, p]) => {
+            if (p.type === 'VARIANT') {
+                variantProps[key] = { values: p.values || [] };
+            } else if (p.type === 'BOOLEAN') {
+                // Treat booleans as variants with True/False options so validVariantProperty can find them
+                variantProps[key] = { values: ['True', 'False'] };
+            }
+        });
+        info.variantProperties = variantProps;
+
+    } else if (component.type === 'COMPONENT') {
+        processDefinitions(component.componentPropertyDefinitions);
+    }
+
+    info.properties = props;
+    info.structureHash = calculateStructureHash(anatomy, props);
+
+    // Use anatomy to refine semantic role if name-based failed or is generic
+    if ((!info.suggestedRole || info.suggestedRole === 'Container') && bestMatch) {
+        if (bestMatch.pattern === 'ActionableElement') info.suggestedRole = 'Button'; // Fallback
+        // Improve heuristic map later
+    }
+
+    return info;
+}
+
 /**
  * Discover all components in the current file, using cache to skip unmodified ones
  */
-function discoverComponents(cache: DiscoveryCache | null): { components: ComponentInfo[], newlyScannedCount: number } {
+export function discoverComponents(cache: DiscoveryCache | null): { components: ComponentInfo[], newlyScannedCount: number } {
     const allNodes = (figma.root.findAll(node =>
         node.type === 'COMPONENT' || node.type === 'COMPONENT_SET'
     ) as (ComponentNode | ComponentSetNode)[])
@@ -455,125 +651,341 @@ function discoverComponents(cache: DiscoveryCache | null): { components: Compone
         // Slow Path: Full Analysis
         newlyScannedCount++;
 
-        // Cast to LayerNode (runtime compatibility assumed for utilized props)
-        const anatomy = analyzeComponentAnatomy(component as unknown as LayerNode);
-
-        // Match against known patterns
-        const patternMatches = KNOWN_PATTERNS.map(pattern =>
-            matchPatternConfidence(anatomy, pattern)
-        ).filter(match => match.confidence > 0.4) // Filter low confidence
-            .sort((a, b) => b.confidence - a.confidence);
-
-        const bestMatch = patternMatches[0];
-
-        const info: ComponentInfo = {
-            id: component.id,
-            key: component.key,
-            name: component.name,
-            type: component.type as 'COMPONENT' | 'COMPONENT_SET',
-            description: component.description || undefined,
-            semanticType: classifyComponent(component),
-            suggestedRole: suggestSemanticRole(component),
-            anatomy,
-            patternMatches
-        };
-
-        // Extract component properties (Variants, Booleans, Text, Swaps)
-        const props: Record<string, { type: 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP'; values?: string[]; defaultValue?: any }> = {};
-
-        // Helper to process properties
-        const processDefinitions = (definitions: ComponentPropertyDefinitions) => {
-            Object.entries(definitions).forEach(([key, def]) => {
-                // Skip hidden properties (convention: starting with _)
-                if (key.startsWith('_')) return;
-
-                if (def.type === 'VARIANT') {
-                    console.log(`[Discovery]   Variant Prop: "${key}", Values:`, def.variantOptions);
-                    props[key] = {
-                        type: 'VARIANT',
-                        values: def.variantOptions || [],
-                        defaultValue: def.defaultValue
-                    };
-                } else if (def.type === 'BOOLEAN') {
-                    props[key] = {
-                        type: 'BOOLEAN',
-                        defaultValue: def.defaultValue
-                    };
-                } else if (def.type === 'TEXT') {
-                    props[key] = {
-                        type: 'TEXT',
-                        defaultValue: def.defaultValue
-                    };
-                } else if (def.type === 'INSTANCE_SWAP') {
-                    props[key] = {
-                        type: 'INSTANCE_SWAP',
-                        defaultValue: def.defaultValue
-                    };
-                }
-            });
-        };
-
-        if (component.type === 'COMPONENT_SET') {
-            processDefinitions(component.componentPropertyDefinitions);
-
-            // Backward compatibility for existing prompts until update
-            const variantProps: Record<string, { values: string[] }> = {};
-            Object.entries(props).forEach(([key, p]) => {
-                if (p.type === 'VARIANT') {
-                    variantProps[key] = { values: p.values || [] };
-                } else if (p.type === 'BOOLEAN') {
-                    // Treat booleans as variants with True/False options so validVariantProperty can find them
-                    variantProps[key] = { values: ['True', 'False'] };
-                }
-            });
-            info.variantProperties = variantProps;
+        return describeComponent(component, 'local');
+    });
+
+    return { components, newlyScannedCount };
+}
+
+/**
+ * Discover library components referenced by instances in the current file.
+ * Figma has no API to list a library's components, so instances are the entry
+ * point: each remote main component (or its set) is re-imported by key to get
+ * the published version, falling back to the copy already in the file.
+ */
+export async function discoverLibraryComponents(
+    cache: DiscoveryCache | null,
+    localKeys: Set<string>
+): Promise<{ components: ComponentInfo[], newlyScannedCount: number }> {
+    const remoteOwners = new Map<string, ComponentNode | ComponentSetNode>();
+    const instances = figma.root.findAll(node => node.type === 'INSTANCE') as InstanceNode[];
+
+    for (const instance of instances) {
+        const main = instance.mainComponent;
+        if (!main || !main.remote) continue;
+
+        const owner = main.parent?.type === 'COMPONENT_SET' ? main.parent as ComponentSetNode : main;
+        if (!localKeys.has(owner.key) && !remoteOwners.has(owner.key)) {
+            remoteOwners.set(owner.key, owner);
+        }
+    }
+
+    let newlyScannedCount = 0;
+    const components: ComponentInfo[] = [];
 
-        } else if (component.type === 'COMPONENT') {
-            processDefinitions(component.componentPropertyDefinitions);
+    for (const owner of remoteOwners.values()) {
+        if (cache && !cacheService.isComponentModified(owner.id, cache)) {
+            const cachedInfo = cache.components[owner.id];
+            if (cachedInfo) {
+                components.push(cachedInfo);
+                continue;
+            }
         }
 
-        info.properties = props;
+        let component: ComponentNode | ComponentSetNode = owner;
+        try {
+            component = owner.type === 'COMPONENT_SET'
+                ? await figma.importComponentSetByKeyAsync(owner.key)
+                : await figma.importComponentByKeyAsync(owner.key);
+        } catch (e) {
+            console.warn(`[Discovery] Could not import library component "${owner.name}" (${owner.key}); using the copy in this file`, e);
+        }
+
+        console.log(`[Discovery] Analyzing library component: "${component.name}" (Key: ${component.key}, Type: ${component.type})`);
+        newlyScannedCount++;
+        components.push(describeComponent(component, 'library'));
+    }
+
+    return { components, newlyScannedCount };
+}
+
+function isVariableAlias(value: any): value is VariableAlias {
+    return !!value && typeof value === 'object' && value.type === 'VARIABLE_ALIAS';
+}
 
-        // Use anatomy to refine semantic role if name-based failed or is generic
-        if ((!info.suggestedRole || info.suggestedRole === 'Container') && bestMatch) {
-            if (bestMatch.pattern === 'ActionableElement') info.suggestedRole = 'Button'; // Fallback
-            // Improve heuristic map later
+/**
+ * Value of a variable in a mode, following alias chains to a concrete value.
+ * An alias into another collection resolves in that collection's mode of the
+ * same name, else its default mode. Broken or circular chains resolve to null.
+ */
+export function resolveVariableValue(variable: Variable, modeId: string): any {
+    const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+    const modeName = collection?.modes.find(m => m.modeId === modeId)?.name;
+    const seen = new Set<string>([variable.id]);
+    let value = variable.valuesByMode[modeId];
+
+    while (isVariableAlias(value)) {
+        if (seen.has(value.id)) {
+            console.warn(`[Discovery] Circular alias chain at variable "${variable.name}"`);
+            return null;
         }
+        seen.add(value.id);
+
+        const target = figma.variables.getVariableById(value.id);
+        if (!target) return null;
+        const targetCollection = figma.variables.getVariableCollectionById(target.variableCollectionId);
+        const targetMode = targetCollection?.modes.find(m => m.name === modeName)?.modeId
+            || targetCollection?.defaultModeId
+            || Object.keys(target.valuesByMode)[0];
+        value = target.valuesByMode[targetMode];
+    }
+
+    return value;
+}
+
+function describeVariable(variable: Variable, source: ComponentSource): VariableInfo {
+    const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
+    const defaultMode = collection?.defaultModeId || Object.keys(variable.valuesByMode)[0];
+    const raw = variable.valuesByMode[defaultMode];
+    const value = resolveVariableValue(variable, defaultMode);
+
+    // Key per-mode values by mode name so "Dark" means the same thing across collections
+    const valuesByMode: Record<string, any> = {};
+    for (const mode of collection?.modes || []) {
+        if (mode.modeId in variable.valuesByMode) valuesByMode[mode.name] = resolveVariableValue(variable, mode.modeId);
+    }
+
+    const info: VariableInfo = {
+        id: variable.id,
+        name: variable.name,
+        resolvedType: variable.resolvedType,
+        value: value,
+        valuesByMode,
+        collectionId: variable.variableCollectionId,
+        collectionName: collection?.name,
+        scopes: variable.scopes,
+        usageCount: 0, // Will be calculated during component scanning if needed
+        semanticTokens: [], // Will be populated by variable resolver if needed
+        source
+    };
+    if (isVariableAlias(raw)) info.aliasOf = raw.id;
+    return info;
+}
+
+/**
+ * Discover local paint, text and effect styles
+ */
+export function discoverStyles(): StyleInfo[] {
+    const describe = (style: BaseStyle, type: StyleInfo['type']): StyleInfo => {
+        const info: StyleInfo = { id: style.id, key: style.key, name: style.name, type };
+        if (style.description) info.description = style.description;
+        return info;
+    };
 
+    const paints = figma.getLocalPaintStyles().map(style => {
+        const info = describe(style, 'PAINT');
+        const solid = style.paints.find((paint): paint is SolidPaint => paint.type === 'SOLID');
+        if (solid) info.color = { ...solid.color, a: solid.opacity !== undefined ? solid.opacity : 1 };
         return info;
     });
 
-    return { components, newlyScannedCount };
+    const texts = figma.getLocalTextStyles().map(style => ({
+        ...describe(style, 'TEXT'),
+        fontName: style.fontName,
+        fontSize: style.fontSize
+    }));
+
+    const effects = figma.getLocalEffectStyles().map(style => ({
+        ...describe(style, 'EFFECT'),
+        effects: style.effects.map(effect => ({
+            type: effect.type,
+            radius: 'radius' in effect ? effect.radius : 0,
+            ...('offset' in effect ? { offset: { x: effect.offset.x, y: effect.offset.y } } : {})
+        }))
+    }));
+
+    return [...paints, ...texts, ...effects];
+}
+
+/**
+ * Value of a variable in the named mode (case-insensitive), or its default-mode
+ * value when no mode is given or the variable's collection lacks that mode
+ */
+export function getVariableValue(variable: VariableInfo, mode?: string): any {
+    if (!mode || !variable.valuesByMode) return variable.value;
+    const name = Object.keys(variable.valuesByMode).find(m => m.toLowerCase() === mode.toLowerCase());
+    return name !== undefined ? variable.valuesByMode[name] : variable.value;
 }
 
 /**
  * Discover all variables in the current file
  */
-function discoverVariables(): VariableInfo[] {
-    const localVariables = figma.variables.getLocalVariables();
-
-    return localVariables.map(variable => {
-        const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
-        const defaultMode = collection?.defaultModeId || Object.keys(variable.valuesByMode)[0];
-        const value = variable.valuesByMode[defaultMode];
-
-        return {
-            id: variable.id,
-            name: variable.name,
-            resolvedType: variable.resolvedType,
-            value: value,
-            scopes: variable.scopes,
-            usageCount: 0, // Will be calculated during component scanning if needed
-            semanticTokens: [] // Will be populated by variable resolver if needed
-        };
-    });
+export function discoverVariables(): VariableInfo[] {
+    return figma.variables.getLocalVariables().map(variable => describeVariable(variable, 'local'));
+}
+
+const LIBRARY_VARIABLE_PREFIX = 'library:';
+
+/**
+ * Whether a variable id names a team library variable that has not been imported yet
+ */
+export function isLibraryVariableId(variableId: unknown): variableId is string {
+    return typeof variableId === 'string' && variableId.startsWith(LIBRARY_VARIABLE_PREFIX);
+}
+
+/**
+ * Variable to bind for a discovered id. Library variables are imported by key
+ * here, the first time something binds them; null when the import fails.
+ */
+export async function getBindableVariable(variableId: string): Promise<Variable | null> {
+    if (!isLibraryVariableId(variableId)) return figma.variables.getVariableById(variableId);
+    try {
+        return await figma.variables.importVariableByKeyAsync(variableId.slice(LIBRARY_VARIABLE_PREFIX.length));
+    } catch (e) {
+        console.warn(`[Discovery] Could not import library variable ${variableId}`, e);
+        return null;
+    }
+}
+
+/**
+ * Describe the variables of every enabled team library from their metadata.
+ * Nothing is imported: values are unknown until a render binds the variable
+ * (see getBindableVariable). Needs the "teamlibrary" manifest permission;
+ * without it (or offline) this returns [].
+ */
+export async function discoverLibraryVariables(): Promise<VariableInfo[]> {
+    let collections: LibraryVariableCollection[];
+    try {
+        collections = await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+    } catch (e) {
+        console.warn('[Discovery] Team library variables unavailable', e);
+        return [];
+    }
+
+    const variables: VariableInfo[] = [];
+    for (const collection of collections) {
+        try {
+            const libraryVariables = await figma.teamLibrary.getVariablesInLibraryCollectionAsync(collection.key);
+            for (const variable of libraryVariables) {
+                variables.push({
+                    id: `${LIBRARY_VARIABLE_PREFIX}${variable.key}`,
+                    key: variable.key,
+                    name: variable.name,
+                    resolvedType: variable.resolvedType,
+                    value: null,
+                    collectionName: collection.name,
+                    scopes: ['ALL_SCOPES'], // Not in the library metadata
+                    usageCount: 0,
+                    semanticTokens: [],
+                    source: 'library',
+                    libraryName: collection.libraryName
+                });
+            }
+        } catch (e) {
+            console.warn(`[Discovery] Could not list variables in "${collection.libraryName} / ${collection.name}"`, e);
+        }
+    }
+    return variables;
+}
+
+function inventoryFromCache(cache: DiscoveryCache): DesignSystemInventory {
+    return {
+        components: Object.values(cache.components),
+        variables: Object.values(cache.variableInventory),
+        fileKey: cache.fileKey,
+        scannedAt: cache.timestamp,
+        guidelines: undefined,
+        suggestedMappings: cache.approvedMappings
+    };
+}
+
+/**
+ * Compare two inventories. Components match by id, falling back to key (library
+ * components can get a new id when re-imported); variables match by id.
+ */
+export function computeInventoryDiff(before: DesignSystemInventory, after: DesignSystemInventory): InventoryDiff {
+    const diff: InventoryDiff = {
+        added: { components: [], variables: [] },
+        removed: { componentIds: [], variableIds: [], components: [], variables: [] },
+        modified: { components: [], variables: [] },
+        changes: {},
+        unchanged: 0
+    };
+    const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+    const beforeById = new Map(before.components.map(c => [c.id, c]));
+    const beforeByKey = new Map(before.components.map(c => [c.key, c]));
+    const matched = new Set<string>();
+
+    for (const component of after.components) {
+        const last = beforeById.get(component.id) || beforeByKey.get(component.key);
+        if (!last) {
+            diff.added.components.push(component);
+            continue;
+        }
+        matched.add(last.id);
+
+        const changes: InventoryChange[] = [];
+        if (last.name !== component.name) changes.push('renamed');
+        if ((last.description || '') !== (component.description || '')) changes.push('description');
+        if (!same(last.variantProperties, component.variantProperties)) changes.push('variants');
+        else if (!same(last.properties, component.properties)) changes.push('properties');
+
+        if (changes.length > 0) {
+            diff.modified.components.push(component);
+            diff.changes[component.id] = changes;
+        } else {
+            diff.unchanged++;
+        }
+    }
+
+    for (const component of before.components) {
+        if (matched.has(component.id)) continue;
+        diff.removed.componentIds.push(component.id);
+        diff.removed.components.push(component);
+    }
+
+    const beforeVariables = new Map(before.variables.map(v => [v.id, v]));
+    const afterVariableIds = new Set(after.variables.map(v => v.id));
+
+    for (const variable of after.variables) {
+        const last = beforeVariables.get(variable.id);
+        if (!last) {
+            diff.added.variables.push(variable);
+            continue;
+        }
+
+        const changes: InventoryChange[] = [];
+        if (last.name !== variable.name) changes.push('renamed');
+        if (last.resolvedType !== variable.resolvedType) changes.push('type');
+        if (!same(last.value, variable.value) || !same(last.valuesByMode, variable.valuesByMode)) changes.push('value');
+
+        if (changes.length > 0) {
+            diff.modified.variables.push(variable);
+            diff.changes[variable.id] = changes;
+        } else {
+            diff.unchanged++;
+        }
+    }
+
+    for (const variable of before.variables) {
+        if (afterVariableIds.has(variable.id)) continue;
+        diff.removed.variableIds.push(variable.id);
+        diff.removed.variables.push(variable);
+    }
+
+    return diff;
 }
 
 /**
- * Get cached inventory or perform fresh discovery
+ * Get cached inventory or perform fresh discovery.
+ * The result carries a diff against the last stored scan, even an expired one,
+ * or against `previous` when given (e.g. a refresh that clears the cache first).
+ * Without a valid cache, `previous` is also where classifications are reused from.
  */
 export async function getOrDiscoverInventory(
-    onProgress?: (step: string, progress: number) => void
+    onProgress?: (step: string, progress: number) => void,
+    previous?: DesignSystemInventory | null // Diff and reuse classifications against this instead of the cache
 ): Promise<DesignSystemInventory> {
 
     onProgress?.('Checking cache...', 10);
@@ -591,34 +1003,51 @@ export async function getOrDiscoverInventory(
     }
 
     // Perform discovery (incremental if cache exists)
-    onProgress?.('Scanning components...', 30);
+    onProgress?.('Scanning components...', 25);
 
     // Pass cache to discoverComponents
-    const { components, newlyScannedCount } = discoverComponents(cache);
+    const local = discoverComponents(cache);
+
+    onProgress?.('Scanning library components...', 30);
+    const library = await discoverLibraryComponents(cache, new Set(local.components.map(c => c.key)));
+
+    const components = [...local.components, ...library.components];
+    const newlyScannedCount = local.newlyScannedCount + library.newlyScannedCount;
 
     console.log(`Scan complete. ${newlyScannedCount} components analyzed. ${components.length - newlyScannedCount} from cache.`);
 
     // Integrate AI Classification and Property Mapping
     // We pass the old inventory (from cache) so classification orchestrator can also skip AI calls
-    const lastInventory: DesignSystemInventory | null = cache ? {
-        components: Object.values(cache.components),
-        variables: Object.values(cache.variableInventory),
-        fileKey: cache.fileKey,
-        scannedAt: cache.timestamp,
-        guidelines: undefined,
-        suggestedMappings: cache.approvedMappings
-    } : null;
+    const lastInventory = cache ? inventoryFromCache(cache) : null;
+
+    // An expired or invalidated cache is not reused for scanning, but its
+    // classifications still are: unchanged structure means no new AI call.
+    // A refresh has already cleared the cache and hands its scan in as `previous`.
+    const staleComponents = await cacheService.loadStaleComponents();
+    const classificationBaseline = lastInventory || (previous?.components.length ? previous : null) || (staleComponents.length > 0
+        ? { components: staleComponents, variables: [], fileKey: figma.fileKey || 'local', scannedAt: 0 }
+        : null);
 
-    const enrichedComponents = await classifyComponentsOrchestrator(components, lastInventory, (msg, p) => {
+    const enrichedComponents = await classifyComponentsOrchestrator(components, classificationBaseline, (msg, p) => {
         // Map progress 0-1 to 30-60 range roughly
         onProgress?.(msg, 30 + (p * 0.3 * 100)); // 30-60
     });
 
+    // Library components a manifest import re-linked by key. They arrive classified,
+    // and a scan that finds the real component (through an instance) takes precedence.
+    const scannedKeys = new Set(enrichedComponents.map(c => c.key));
+    for (const component of Object.values(await importedLibraryComponents.load())) {
+        if (!scannedKeys.has(component.key)) enrichedComponents.push(component);
+    }
+
     onProgress?.('Scanning variables...', 60);
-    const variables = discoverVariables();
+    const variables = [...discoverVariables(), ...await discoverLibraryVariables()];
+
+    onProgress?.('Scanning styles...', 70);
+    const styles = discoverStyles();
 
     onProgress?.('Inferring guidelines...', 75);
-    const guidelines = inferGuidelines(variables);
+    const guidelines = inferGuidelines(variables, styles);
 
     onProgress?.('Building suggested mappings...', 80);
     // Build suggestedMappings: semanticRole -> componentId
@@ -639,9 +1068,10 @@ export async function getOrDiscoverInventory(
     }
 
     onProgress?.('Building inventory...', 90);
-    const inventory: DesignSystemInventory = {
+    const inventory = applyComponentOverrides({
         components: enrichedComponents,
         variables,
+        styles,
         fileKey: figma.fileKey || 'local',
         scannedAt: Date.now(),
         guidelines,
@@ -653,16 +1083,93 @@ export async function getOrDiscoverInventory(
             cachedComponents: components.length - newlyScannedCount,
             cacheAge: cache ? (Date.now() - cache.timestamp) : 0
         }
-    };
+    }, await componentOverrides.load());
+    inventory.icons = buildIconIndex(inventory.components);
+
+    // Diff against what the last scan stored, even if that cache has expired since
+    const baseline = previous !== undefined ? previous : staleComponents.length > 0
+        ? { components: staleComponents, variables: await cacheService.loadStaleVariables(), fileKey: inventory.fileKey, scannedAt: 0 }
+        : null;
+    if (baseline) inventory.diff = computeInventoryDiff(baseline, inventory);
 
     // Cache the result using new CacheService
     onProgress?.('Saving to cache...', 90);
-    await cacheService.saveCache(enrichedComponents, variables, suggestedMappings);
+    await cacheService.saveCache(inventory.components, variables, inventory.suggestedMappings || {});
 
     onProgress?.('Complete', 100);
     return inventory;
 }
 
+/**
+ * Apply document edits to an inventory without a full scan.
+ *
+ * Only the given components are re-described (anatomy, properties, structure
+ * hash) and sent for classification, at LOW priority so generations are not
+ * held up; ids that no longer resolve to a top-level component or set are
+ * dropped. Local variables and styles are cheap to list, so they are re-read
+ * every time, keeping library variables from the last scan. The result carries
+ * a diff against `inventory` and is written to the cache.
+ */
+export async function applyInventoryChanges(
+    inventory: DesignSystemInventory,
+    componentIds: string[],
+    onProgress?: (step: string, progress: number) => void
+): Promise<DesignSystemInventory> {
+    const touched: ComponentInfo[] = [];
+    const removed = new Set<string>();
+
+    for (const id of new Set(componentIds)) {
+        const node = figma.getNodeById(id);
+        const isTopLevel = !!node && !node.removed && (node.type === 'COMPONENT_SET' ||
+            (node.type === 'COMPONENT' && node.parent?.type !== 'COMPONENT_SET'));
+
+        if (isTopLevel) touched.push(describeComponent(node as ComponentNode | ComponentSetNode, 'local'));
+        else removed.add(id);
+    }
+
+    const classified = touched.length > 0
+        ? await classifyComponentsOrchestrator(touched, inventory, onProgress, QueuePriority.LOW)
+        : [];
+
+    const updated = new Map(classified.map(c => [c.id, c]));
+    const components = inventory.components
+        .filter(c => !removed.has(c.id))
+        .map(c => updated.get(c.id) || c);
+    const known = new Set(inventory.components.map(c => c.id));
+    classified.forEach(c => {
+        if (!known.has(c.id)) components.push(c);
+    });
+
+    const variables = [...discoverVariables(), ...inventory.variables.filter(v => v.source === 'library')];
+    const styles = discoverStyles();
+
+    // Drop roles pointing at removed components; new components fill free roles
+    const suggestedMappings: Record<string, string> = {};
+    for (const [role, id] of Object.entries(inventory.suggestedMappings || {})) {
+        if (!removed.has(id)) suggestedMappings[role] = id;
+    }
+    for (const component of classified) {
+        if (component.suggestedRole && !suggestedMappings[component.suggestedRole]) {
+            suggestedMappings[component.suggestedRole] = component.id;
+        }
+    }
+
+    const next = applyComponentOverrides({
+        ...inventory,
+        components,
+        variables,
+        styles,
+        scannedAt: Date.now(),
+        guidelines: inferGuidelines(variables, styles),
+        suggestedMappings
+    }, await componentOverrides.load());
+    next.icons = buildIconIndex(next.components);
+    next.diff = computeInventoryDiff(inventory, next);
+
+    await cacheService.saveCache(next.components, variables, next.suggestedMappings || {});
+    return next;
+}
+
 /**
  * Force refresh the inventory
  */
@@ -670,63 +1177,31 @@ export async function refreshInventory(
     onProgress?: (step: string, progress: number) => void
 ): Promise<DesignSystemInventory> {
 
+    // Keep the stored scan before clearing it, even if it has expired: it is the
+    // diff baseline and where unchanged components keep their classification
+    const staleComponents = await cacheService.loadStaleComponents();
+    const previous = staleComponents.length > 0
+        ? { components: staleComponents, variables: await cacheService.loadStaleVariables(), fileKey: figma.fileKey || 'local', scannedAt: 0 }
+        : null;
+
     // Clear cache using service
     await cacheService.clearCache();
 
     // Rediscover
-    return getOrDiscoverInventory(onProgress);
+    return getOrDiscoverInventory(onProgress, previous);
 }
 
 /**
  * Perform incremental discovery - only scan changes
- * NOTE: getOrDiscoverInventory now handles this automatically via CacheService.
- * We keep this function signature for backward compatibility but it just calls getOrDiscover.
+ * NOTE: getOrDiscoverInventory now handles this automatically via CacheService,
+ * and live edits are applied through applyInventoryChanges.
+ * Kept for callers that hold the last inventory: the diff is taken against it
+ * rather than against the cache.
  */
 export async function incrementalDiscovery(
-    lastInventory: DesignSystemInventory, // Deprecated/Unused in new logic but kept for sig
+    lastInventory: DesignSystemInventory,
     onProgress?: (step: string, progress: number) => void
 ): Promise<{ inventory: DesignSystemInventory; diff: InventoryDiff }> {
-
-    // Helper: calculate diff
-    // Since getOrDiscoverInventory does the smart thing, we just call it.
-    // However, to compute DIFF, we need the "before" state.
-    // If caller passed lastInventory, use it.
-
-    const newInventory = await getOrDiscoverInventory(onProgress);
-
-    // Compute Diff roughly
-    const diff: InventoryDiff = {
-        added: { components: [], variables: [] },
-        removed: { componentIds: [], variableIds: [] },
-        modified: { components: [], variables: [] },
-        unchanged: 0
-    };
-
-    if (lastInventory) {
-        const lastCompMap = new Map(lastInventory.components.map(c => [c.id, c]));
-        const newCompMap = new Map(newInventory.components.map(c => [c.id, c]));
-
-        // Added
-        newInventory.components.forEach(c => {
-            if (!lastCompMap.has(c.id)) diff.added.components.push(c);
-            else {
-                const last = lastCompMap.get(c.id)!;
-                // Modified?
-                if (last.name !== c.name || last.description !== c.description || JSON.stringify(last.properties) !== JSON.stringify(c.properties)) {
-                    diff.modified.components.push(c);
-                } else {
-                    diff.unchanged++;
-                }
-            }
-        });
-
-        // Removed
-        lastInventory.components.forEach(c => {
-            if (!newCompMap.has(c.id)) diff.removed.componentIds.push(c.id);
-        });
-
-        // Variables diffs... (omitted for brevity, focus on components)
-    }
-
-    return { inventory: newInventory, diff };
-}
\ No newline at end of file
+    const inventory = await getOrDiscoverInventory(onProgress, lastInventory);
+    return { inventory, diff: inventory.diff! };
+}
@@ -1,16 +1,18 @@
 import { DiscoveryCache, ComponentFingerprint } from '../types/cache';
 import { ComponentInfo, VariableInfo } from './auto-discovery';
+import { hashString } from '../utils/hash';
 
 const CACHE_KEY_PREFIX = 'discovery-cache-v1-';
 const CACHE_TTL_DEFAULT = 24 * 60 * 60 * 1000; // 24 hours
 
 export class CacheService {
-    private fileKey: string;
-
-    constructor() {
-        // In Figma plugin, fileKey is stable for the file
-        // Fallback to 'local' if undefined (though it should be defined for saved files)
-        this.fileKey = figma.fileKey || 'local';
+    /**
+     * In Figma plugin, fileKey is stable for the file
+     * Fallback to 'local' if undefined (though it should be defined for saved files).
+     * Read lazily so importing the service does not touch the figma global.
+     */
+    private get fileKey(): string {
+        return figma.fileKey || 'local';
     }
 
     /**
@@ -27,14 +29,7 @@ export class CacheService {
             structureString += `${page.id}:${page.name}|`;
         }
 
-        // Simple hash function (DJB2 or similar simple string hash)
-        let hash = 0;
-        for (let i = 0; i < structureString.length; i++) {
-            const char = structureString.charCodeAt(i);
-            hash = ((hash << 5) - hash) + char;
-            hash = hash & hash; // Convert to 32bit integer
-        }
-        return hash.toString(16);
+        return hashString(structureString);
     }
 
     /**
@@ -79,6 +74,36 @@ export class CacheService {
         }
     }
 
+    /**
+     * Components from the stored cache even when it is expired or the file
+     * structure changed. Not safe to reuse as scan results, but their
+     * classifications can be matched back by structure hash.
+     */
+    async loadStaleComponents(): Promise<ComponentInfo[]> {
+        try {
+            const rawCache = await figma.clientStorage.getAsync(CACHE_KEY_PREFIX + this.fileKey);
+            const components = rawCache && typeof rawCache === 'object' ? (rawCache as DiscoveryCache).components : null;
+            return components && typeof components === 'object' ? Object.values(components) : [];
+        } catch (e) {
+            console.warn('Failed to load stale cache', e);
+            return [];
+        }
+    }
+
+    /**
+     * Variables from the stored cache, expired or not, to diff a new scan against
+     */
+    async loadStaleVariables(): Promise<VariableInfo[]> {
+        try {
+            const rawCache = await figma.clientStorage.getAsync(CACHE_KEY_PREFIX + this.fileKey);
+            const variables = rawCache && typeof rawCache === 'object' ? (rawCache as DiscoveryCache).variableInventory : null;
+            return variables && typeof variables === 'object' ? Object.values(variables) : [];
+        } catch (e) {
+            console.warn('Failed to load stale cache', e);
+            return [];
+        }
+    }
+
     /**
      * Save cache to clientStorage
      */
@@ -112,8 +137,8 @@ export class CacheService {
 
                 fingerprintMap[c.id] = {
                     id: c.id,
-                    lastModified: lastMod
-                    // we skip structureHash for now until we have anatomy hash readily available
+                    lastModified: lastMod,
+                    structureHash: c.structureHash
                 };
             }
         });
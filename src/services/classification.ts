@@ -1,42 +1,57 @@
 import { ComponentAnatomy } from './anatomy';
 import { ComponentInfo } from './auto-discovery';
 import { createAIError, ErrorCode } from '../types/errors';
-import { AIClassificationResponse, ClassificationBatchResult } from '../types/classification';
-import { globalRateLimiter } from '../libs/rate-limiter';
+import { AIClassificationResponse, ClassificationBatchResult, SEMANTIC_ROLES } from '../types/classification';
+import { AIProvider, aiProviderService } from './ai-provider';
+import { QueuePriority } from '../libs/rate-limiter';
 
-const MODEL_NAME = 'gemini-2.5-flash';
 const BATCH_SIZE = 10;
 
 /**
  * Service to classify components using AI
  */
 export class ClassificationService {
-    private apiKey: string = '';
+    private provider: AIProvider | null = null;
 
-    constructor(apiKey: string) {
-        this.apiKey = apiKey;
+    constructor(provider: AIProvider | null = null) {
+        this.provider = provider;
     }
 
     /**
-     * Set API Key
+     * Set the AI provider used for classification (null disables AI calls)
      */
-    setApiKey(key: string) {
-        this.apiKey = key;
+    setProvider(provider: AIProvider | null) {
+        this.provider = provider;
+    }
+
+    /**
+     * The provider AI calls go through; none while the plugin is offline,
+     * even if one was set before offline mode was turned on
+     */
+    private get activeProvider(): AIProvider | null {
+        return aiProviderService.offline ? null : this.provider;
+    }
+
+    /**
+     * Whether AI calls can be made; callers use their heuristics otherwise
+     */
+    get available(): boolean {
+        return !!this.activeProvider;
     }
 
     /**
      * Classify a single component (mostly for testing/fallback)
      */
     async classifyComponent(component: ComponentInfo): Promise<AIClassificationResponse> {
-        if (!this.apiKey) {
+        if (!this.activeProvider) {
             throw createAIError(ErrorCode.API_REQUEST_FAILED, {}, 'Missing API Key');
         }
 
         const prompt = this.buildPrompt([component]);
-        const response = await this.callAI(prompt);
+        const response = asArray(await this.callAI(prompt));
 
         // Response is expected to be an array for batch, but here we expect one
-        if (Array.isArray(response) && response.length > 0) {
+        if (response.length > 0) {
             return response[0];
         }
 
@@ -46,8 +61,8 @@ export class ClassificationService {
     /**
      * Classify a batch of components
      */
-    async classifyBatch(components: ComponentInfo[]): Promise<ClassificationBatchResult[]> {
-        if (!this.apiKey || !this.apiKey.trim()) {
+    async classifyBatch(components: ComponentInfo[], priority?: QueuePriority): Promise<ClassificationBatchResult[]> {
+        if (!this.activeProvider) {
             return components.map(c => ({
                 componentId: c.id,
                 result: null,
@@ -60,7 +75,7 @@ export class ClassificationService {
         const prompt = this.buildPrompt(components);
 
         try {
-            const aiResults = await this.callAI(prompt);
+            const aiResults = asArray(await this.callAI(prompt, priority));
 
             return components.map(component => {
                 const match = aiResults.find((r: any) => r.componentId === component.id);
@@ -92,9 +107,14 @@ export class ClassificationService {
     }
 
     /**
-     * Orchestrate classification for all components
+     * Orchestrate classification for all components.
+     * Background callers pass QueuePriority.LOW so user generations go first.
      */
-    async classifyAll(components: ComponentInfo[], onProgress?: (progress: number) => void): Promise<Map<string, AIClassificationResponse>> {
+    async classifyAll(
+        components: ComponentInfo[],
+        onProgress?: (progress: number) => void,
+        priority?: QueuePriority
+    ): Promise<Map<string, AIClassificationResponse>> {
         const results = new Map<string, AIClassificationResponse>();
         const batches = [];
 
@@ -109,7 +129,7 @@ export class ClassificationService {
             const currentBatches = batches.slice(i, i + CONCURRENCY_LIMIT);
 
             const chunkResults = await Promise.all(currentBatches.map(batch =>
-                this.classifyBatch(batch)
+                this.classifyBatch(batch, priority)
             ));
 
             chunkResults.flat().forEach(res => {
@@ -132,7 +152,7 @@ export class ClassificationService {
 Analyze the following Figma components and determine their semantic purpose.
 
 Allowed Semantic Roles:
-Button, Input, Card, Badge, Avatar, Checkbox, Radio, Select, Switch, Textarea, Alert, Toast, Dialog, Popover, Tooltip, Tabs, Navigation, Header, Footer, Sidebar, Container, Section, Label, Heading, Paragraph, Icon, Image, Divider, Spinner, Progress, Skeleton, Table, List, Grid
+${SEMANTIC_ROLES.join(', ')}
 
 Return a JSON array where each object contains:
 - "componentId": The ID provided
@@ -169,72 +189,21 @@ Components to analyze:
 `;
     }
 
-    private async callAI(prompt: string): Promise<any> {
-        let response;
+    private async callAI(prompt: string, priority?: QueuePriority): Promise<any> {
         try {
-            response = await globalRateLimiter.executeWithRetry(async () => {
-                const res = await fetch(
-                    `https://generativelanguage.googleapis.com/v1beta/models/${MODEL_NAME}:generateContent?key=${this.apiKey}`,
-                    {
-                        method: 'POST',
-                        headers: { 'Content-Type': 'application/json' },
-                        body: JSON.stringify({
-                            contents: [{
-                                parts: [{ text: prompt }]
-                            }],
-                            generationConfig: {
-                                temperature: 0.2,
-                                responseMimeType: "application/json",
-                                maxOutputTokens: 8192
-                            }
-                        })
-                    }
-                );
-
-                // Force retry on 429 (Rate Limit) or 5xx (Server Error)
-                if (res.status === 429 || res.status >= 500) {
-                    const text = await res.text();
-                    throw new Error(`AI_API_RETRY: ${res.status} ${text}`);
-                }
-
-                return res;
-            });
+            const { data } = await this.activeProvider!.generateJSON(prompt, { temperature: 0.2, priority });
+            return data;
         } catch (error: any) {
             console.error('Classification AI call failed:', error);
             throw error;
         }
-
-        if (!response.ok) {
-            const text = await response.text();
-            throw new Error(`AI API Failed: ${response.status} ${text}`);
-        }
-
-        const data = await response.json();
-        const candidate = data.candidates?.[0];
-
-        if (!candidate?.content?.parts?.[0]?.text) {
-            throw new Error('Empty AI response');
-        }
-
-        const textResponse = candidate.content.parts[0].text;
-
-        try {
-            return JSON.parse(textResponse);
-        } catch (e) {
-            // Fallback for rare cases where markdown fences might still appear
-            const jsonMatch = textResponse.match(/\[[\s\S]*\]|\{[\s\S]*\}/);
-            if (jsonMatch) {
-                return JSON.parse(jsonMatch[0]);
-            }
-            throw e;
-        }
     }
 
     /**
      * Analyze multiple properties for a component to determine their semantic mapping
      */
     async analyzeComponentPropertiesBatch(request: { componentName: string, properties: { name: string, values: string[] }[] }): Promise<Record<string, import('../types/classification').PropertyAnalysis>> {
-        if (!this.apiKey) {
+        if (!this.activeProvider) {
             throw createAIError(ErrorCode.API_REQUEST_FAILED, {}, 'Missing API Key');
         }
 
@@ -285,7 +254,7 @@ Return JSON where keys are property names:
      * Analyze which variable best matches a requested token (Tier 3)
      */
     async analyzeVariableMatch(requestedToken: string, candidateVariables: string[]): Promise<{ bestMatch: string, confidence: number, reasoning: string } | null> {
-        if (!this.apiKey) return null;
+        if (!this.activeProvider) return null;
 
         const prompt = `
 I am looking for a variable that semantically matches: "${requestedToken}"
@@ -312,4 +281,17 @@ If no good match exists, set confidence to 0 and bestMatch to null.
     }
 }
 
-export const classificationService = new ClassificationService('');
+/**
+ * Batch responses are arrays, but JSON modes that require a top-level object
+ * (e.g. OpenAI json_object) wrap them: { "results": [...] }
+ */
+function asArray(response: any): any[] {
+    if (Array.isArray(response)) return response;
+    if (response && typeof response === 'object') {
+        const wrapped = Object.values(response).find(Array.isArray);
+        if (wrapped) return wrapped as any[];
+    }
+    return [];
+}
+
+export const classificationService = new ClassificationService();
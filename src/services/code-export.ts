@@ -0,0 +1,852 @@
+/**
+ * Code Export Service
+ * Converts RSNT_Node trees into copy-paste-ready React (TSX) components styled
+ * with Tailwind utilities.
+ *
+ * Mapping rules:
+ * - Auto-layout frames → flex containers (direction, alignment, gap, padding)
+ * - Variable-bound values → token class names derived from the variable name
+ * - TEXT nodes → semantic elements chosen by semanticRole (falls back to font size)
+ * - COMPONENT_INSTANCE nodes → imports of the matching library component, with
+ *   their `properties` passed as props
+ * - Responsive overrides → breakpoint-prefixed utilities (md:flex-row, lg:p-8)
+ * - Conditions → `{condition && (...)}` blocks; {{placeholders}} → JSX expressions,
+ *   with every referenced data root exposed as a component prop
+ */
+
+import { RSNT_Node } from '../types/rsnt';
+import { ErrorCode, CompilerError, createExportError } from '../types/errors';
+import { DesignSystemInventory, ComponentInfo } from './auto-discovery';
+import { TAILWIND_DEFAULTS } from '../constants/tailwind-defaults';
+import { rgbToHex } from '../libs/color-utils';
+import { BREAKPOINT_ORDER } from '../types/rsnt-constants';
+import { getPlaceholders, getDataRoots } from './dynamic-content';
+
+export type CodeExportFormat = 'react-tailwind';
+
+export interface CodeExportOptions {
+    format?: CodeExportFormat;
+    /** Name of the exported React component (defaults to the root node name) */
+    componentName?: string;
+    /** Inventory used to resolve component names and variable-bound tokens */
+    inventory?: DesignSystemInventory | null;
+    /** Module path that library components are imported from */
+    importBase?: string;
+}
+
+/** Design features that can't be expressed (or only approximated) in Tailwind */
+export type CodeExportFeature =
+    | 'absolute-position'
+    | 'blend-mode'
+    | 'effect'
+    | 'variable'
+    | 'component';
+
+/**
+ * Features Tailwind cannot express are unsupported; references the inventory
+ * cannot back (tokens, components) fail validation of the exported code
+ */
+const WARNING_CODES: Record<CodeExportFeature, ErrorCode> = {
+    'absolute-position': ErrorCode.EXPORT_FEATURE_UNSUPPORTED,
+    'blend-mode': ErrorCode.EXPORT_FEATURE_UNSUPPORTED,
+    'effect': ErrorCode.EXPORT_FEATURE_UNSUPPORTED,
+    'variable': ErrorCode.EXPORT_VALIDATION_FAILED,
+    'component': ErrorCode.EXPORT_VALIDATION_FAILED
+};
+
+export interface CodeExportWarning {
+    code: ErrorCode;
+    nodeId: string;
+    feature: CodeExportFeature;
+    message: string;
+}
+
+export interface CodeExportResult {
+    code: string;
+    componentName: string;
+    imports: string[];
+    warnings: CodeExportWarning[];
+}
+
+interface ExportContext {
+    inventory: DesignSystemInventory | null;
+    importBase: string;
+    componentName: string; // The exported component; imports must not reuse its name
+    imports: Map<string, { identifier: string; path: string }>; // component id/key -> import
+    warnings: CodeExportWarning[];
+}
+
+const DEFAULT_IMPORT_BASE = '@/components/ui';
+const INDENT = '  ';
+
+/** Variable name segments that describe the token group rather than the token itself */
+const TOKEN_GROUP_PREFIXES = new Set([
+    'spacing', 'space', 'gap', 'padding', 'p', 'size',
+    'radius', 'rounded', 'border-radius', 'corner-radius',
+    'color', 'colors', 'colour', 'colours'
+]);
+
+const BLEND_MODE_CLASSES: Record<string, string> = {
+    'MULTIPLY': 'mix-blend-multiply',
+    'SCREEN': 'mix-blend-screen',
+    'OVERLAY': 'mix-blend-overlay',
+    'DARKEN': 'mix-blend-darken',
+    'LIGHTEN': 'mix-blend-lighten',
+    'COLOR_DODGE': 'mix-blend-color-dodge',
+    'COLOR_BURN': 'mix-blend-color-burn',
+    'HARD_LIGHT': 'mix-blend-hard-light',
+    'SOFT_LIGHT': 'mix-blend-soft-light',
+    'DIFFERENCE': 'mix-blend-difference',
+    'EXCLUSION': 'mix-blend-exclusion',
+    'HUE': 'mix-blend-hue',
+    'SATURATION': 'mix-blend-saturation',
+    'COLOR': 'mix-blend-color',
+    'LUMINOSITY': 'mix-blend-luminosity'
+};
+
+const BLUR_SCALE: Record<string, number> = {
+    'sm': 4,
+    'DEFAULT': 8,
+    'md': 12,
+    'lg': 16,
+    'xl': 24,
+    '2xl': 40,
+    '3xl': 64
+};
+
+const FRAME_ELEMENTS_BY_ROLE: Record<string, string> = {
+    'header': 'header',
+    'footer': 'footer',
+    'navigation': 'nav',
+    'nav': 'nav',
+    'section': 'section',
+    'article': 'article',
+    'main': 'main',
+    'aside': 'aside',
+    'form': 'form',
+    'list': 'ul',
+    'list-item': 'li',
+    'menu': 'ul',
+    'menu-item': 'li'
+};
+
+const TEXT_ELEMENTS_BY_ROLE: Record<string, string> = {
+    'label': 'label',
+    'link': 'a',
+    'text': 'p',
+    'badge': 'span',
+    'chip': 'span',
+    'list-item': 'li',
+    'menu-item': 'li',
+    'tooltip': 'span',
+    'button': 'button'
+};
+
+export const codeExportService = {
+    /**
+     * Export an RSNT tree as a React component using Tailwind classes
+     */
+    exportToReact(root: RSNT_Node, options: CodeExportOptions = {}): CodeExportResult {
+        const format = options.format || 'react-tailwind';
+        if (format !== 'react-tailwind') {
+            throw createExportError(ErrorCode.EXPORT_FORMAT_INVALID, { format });
+        }
+
+        if (!root || !root.type) {
+            throw createExportError(ErrorCode.NO_RSNT_METADATA_FOUND);
+        }
+
+        const componentName = options.componentName
+            ? toPascalCase(options.componentName)
+            : toPascalCase(root.name || 'GeneratedDesign');
+
+        const ctx: ExportContext = {
+            inventory: options.inventory || null,
+            importBase: options.importBase || DEFAULT_IMPORT_BASE,
+            componentName,
+            imports: new Map(),
+            warnings: []
+        };
+
+        let jsx: string;
+        let dataRoots: string[];
+        try {
+            jsx = this.renderElement(root, ctx, 2);
+            dataRoots = collectDataRoots(root);
+        } catch (error: any) {
+            if (error instanceof CompilerError) throw error;
+            throw createExportError(
+                ErrorCode.CODE_GENERATION_FAILED,
+                { nodeId: root.id, cause: error?.message },
+                `Code generation failed: ${error?.message || error}`
+            );
+        }
+
+        const imports = Array.from(ctx.imports.values())
+            .sort((a, b) => a.identifier.localeCompare(b.identifier))
+            .map(({ identifier, path }) => `import { ${identifier} } from '${path}';`);
+
+        const lines: string[] = [];
+        if (imports.length > 0) {
+            lines.push(...imports, '');
+        }
+        const params = dataRoots.length > 0
+            ? `{ ${dataRoots.join(', ')} }: { ${dataRoots.map(name => `${name}: any`).join('; ')} }`
+            : '';
+        lines.push(`export function ${componentName}(${params}) {`);
+        if (root.condition) {
+            lines.push(`${INDENT}if (!(${root.condition})) return null;`, '');
+        }
+        lines.push(
+            `${INDENT}return (`,
+            jsx,
+            `${INDENT});`,
+            '}',
+            ''
+        );
+
+        return {
+            code: lines.join('\n'),
+            componentName,
+            imports,
+            warnings: ctx.warnings
+        };
+    },
+
+    /**
+     * Render a child node as JSX, wrapped in a conditional block when it has a condition
+     */
+    renderNode(node: RSNT_Node, ctx: ExportContext, depth: number): string {
+        if (!node.condition) {
+            return this.renderElement(node, ctx, depth);
+        }
+
+        const pad = INDENT.repeat(depth);
+        return [
+            `${pad}{${node.condition} && (`,
+            this.renderElement(node, ctx, depth + 1),
+            `${pad})}`
+        ].join('\n');
+    },
+
+    /**
+     * Render a single node (and its subtree) as JSX at the given indent depth
+     */
+    renderElement(node: RSNT_Node, ctx: ExportContext, depth: number): string {
+        switch (node.type) {
+            case 'COMPONENT_INSTANCE':
+                return this.renderInstance(node, ctx, depth);
+            case 'TEXT':
+                return this.renderText(node, ctx, depth);
+            case 'FRAME':
+            default:
+                return this.renderFrame(node, ctx, depth);
+        }
+    },
+
+    renderFrame(node: RSNT_Node, ctx: ExportContext, depth: number): string {
+        const pad = INDENT.repeat(depth);
+        const tag = (node.semanticRole && FRAME_ELEMENTS_BY_ROLE[node.semanticRole.toLowerCase()]) || 'div';
+        const attrs = this.buildAttributes(node, this.getFrameClasses(node, ctx), ctx);
+
+        const children = node.children || [];
+        if (node.layoutMode === 'NONE' && children.length > 0) {
+            addWarning(ctx, node, 'absolute-position',
+                `"${node.name || node.id}" positions its children absolutely; they are exported in layer order without coordinates`);
+        }
+
+        if (children.length === 0) {
+            return `${pad}<${tag}${attrs} />`;
+        }
+
+        const lines = [`${pad}<${tag}${attrs}>`];
+        for (const child of children) {
+            lines.push(this.renderNode(child, ctx, depth + 1));
+        }
+        lines.push(`${pad}</${tag}>`);
+        return lines.join('\n');
+    },
+
+    renderText(node: RSNT_Node, ctx: ExportContext, depth: number): string {
+        const pad = INDENT.repeat(depth);
+        const tag = this.getTextElement(node);
+        const attrs = this.buildAttributes(node, this.getTextClasses(node, ctx), ctx);
+        const content = formatJSXContent(node.metadata?.contentTemplate || node.characters || '');
+
+        return `${pad}<${tag}${attrs}>${content}</${tag}>`;
+    },
+
+    renderInstance(node: RSNT_Node, ctx: ExportContext, depth: number): string {
+        const pad = INDENT.repeat(depth);
+        const component = findComponent(ctx.inventory, node);
+        const sourceName = component?.name || node.name || 'Component';
+
+        if (!component) {
+            addWarning(ctx, node, 'component',
+                `Component "${node.componentId || node.componentKey || node.name}" not found in inventory; import path guessed from layer name`);
+        }
+
+        const importKey = component?.key || component?.id || node.componentKey || node.componentId || sourceName;
+        let entry = ctx.imports.get(importKey);
+        if (!entry) {
+            const identifier = uniqueIdentifier(sourceName, ctx);
+            entry = { identifier, path: `${ctx.importBase}/${toKebabCase(identifier)}` };
+            ctx.imports.set(importKey, entry);
+        }
+        const identifier = entry.identifier;
+
+        const props = Object.entries(node.properties || {})
+            .map(([key, value]) => formatJSXProp(key, value))
+            .filter((prop): prop is string => prop !== null);
+
+        const classes = this.getInstanceClasses(node, ctx);
+        if (classes.length > 0) {
+            props.push(`className="${classes.join(' ')}"`);
+        }
+
+        const propString = props.length > 0 ? ' ' + props.join(' ') : '';
+        return `${pad}<${identifier}${propString} />`;
+    },
+
+    buildAttributes(node: RSNT_Node, classes: string[], ctx: ExportContext): string {
+        const merged = mergeClasses([...classes, ...responsiveClasses(node, ctx)], node.tailwindClasses);
+        const attrs: string[] = [];
+        if (merged.length > 0) {
+            attrs.push(`className="${merged.join(' ')}"`);
+        }
+        return attrs.length > 0 ? ' ' + attrs.join(' ') : '';
+    },
+
+    getTextElement(node: RSNT_Node): string {
+        const role = node.semanticRole?.toLowerCase();
+        if (role && TEXT_ELEMENTS_BY_ROLE[role]) {
+            return TEXT_ELEMENTS_BY_ROLE[role];
+        }
+
+        const isHeading = role === 'heading' || role === 'title' || role === 'header';
+        const fontSize = node.fontSize || 0;
+        if (isHeading || fontSize >= 20) {
+            if (fontSize >= 36) return 'h1';
+            if (fontSize >= 24) return 'h2';
+            return 'h3';
+        }
+
+        return 'p';
+    },
+
+    getFrameClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+        const classes: string[] = [];
+
+        if (node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL') {
+            classes.push('flex', node.layoutMode === 'HORIZONTAL' ? 'flex-row' : 'flex-col');
+
+            switch (node.primaryAxisAlignItems) {
+                case 'CENTER': classes.push('justify-center'); break;
+                case 'MAX': classes.push('justify-end'); break;
+                case 'SPACE_BETWEEN': classes.push('justify-between'); break;
+            }
+            switch (node.counterAxisAlignItems) {
+                case 'CENTER': classes.push('items-center'); break;
+                case 'MAX': classes.push('items-end'); break;
+                case 'MIN': classes.push('items-start'); break;
+            }
+
+            if (node.itemSpacing !== undefined && node.primaryAxisAlignItems !== 'SPACE_BETWEEN') {
+                const gap = spacingClass('gap', node.itemSpacing, node, ctx);
+                if (gap && gap !== 'gap-0') classes.push(gap);
+            }
+        } else if (node.children && node.children.length > 0) {
+            classes.push('relative');
+        }
+
+        classes.push(...this.getSizeClasses(node));
+        classes.push(...paddingClasses(node, ctx));
+        classes.push(...this.getBoxClasses(node, ctx));
+
+        return classes;
+    },
+
+    getTextClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+        const classes: string[] = [];
+
+        if (node.fontSize) {
+            const key = findScaleKey(TAILWIND_DEFAULTS.fontSize, node.fontSize);
+            classes.push(key ? `text-${key}` : `text-[${node.fontSize}px]`);
+        }
+
+        const weight = fontWeightClass(node.fontStyle);
+        if (weight) classes.push(weight);
+        if (node.fontStyle && /italic/i.test(node.fontStyle)) classes.push('italic');
+
+        classes.push(...colorClasses('text', node, ctx));
+        classes.push(...this.getLayerClasses(node, ctx));
+
+        return classes;
+    },
+
+    getInstanceClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+        return mergeClasses([...this.getLayerClasses(node, ctx), ...responsiveClasses(node, ctx)], node.tailwindClasses);
+    },
+
+    /**
+     * Classes shared by every node type: positioning, effects, blending, opacity, visibility.
+     * Features without a Tailwind equivalent are reported as export warnings.
+     */
+    getLayerClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+        const classes: string[] = [];
+
+        if (node.layoutPrimitive === 'absolute') {
+            classes.push('absolute');
+            addWarning(ctx, node, 'absolute-position',
+                `"${node.name || node.id}" is absolutely positioned; its offsets are not exported`);
+        }
+
+        classes.push(...effectClasses(node, ctx));
+
+        if (node.blendMode && node.blendMode !== 'PASS_THROUGH' && node.blendMode !== 'NORMAL') {
+            const blend = BLEND_MODE_CLASSES[node.blendMode];
+            if (blend) {
+                classes.push(blend);
+            } else {
+                addWarning(ctx, node, 'blend-mode',
+                    `Blend mode ${node.blendMode} has no CSS equivalent and was dropped`);
+            }
+        }
+
+        if (node.opacity !== undefined && node.opacity < 1) classes.push(opacityClass(node.opacity));
+        // Conditional nodes are hidden on canvas only when their scenario branch is inactive
+        if (node.visible === false && !node.condition) classes.push('hidden');
+
+        return classes;
+    },
+
+    getSizeClasses(node: RSNT_Node): string[] {
+        const classes: string[] = [];
+        const isAutoLayout = node.layoutMode === 'HORIZONTAL' || node.layoutMode === 'VERTICAL';
+
+        // Auto-layout frames only get explicit sizes on FIXED axes; absolute frames keep both
+        const widthFixed = !isAutoLayout || (node.layoutMode === 'HORIZONTAL'
+            ? node.primaryAxisSizingMode === 'FIXED'
+            : node.counterAxisSizingMode === 'FIXED');
+        const heightFixed = !isAutoLayout || (node.layoutMode === 'VERTICAL'
+            ? node.primaryAxisSizingMode === 'FIXED'
+            : node.counterAxisSizingMode === 'FIXED');
+
+        if (widthFixed && node.width) classes.push(sizeClass('w', node.width));
+        if (heightFixed && node.height) classes.push(sizeClass('h', node.height));
+
+        return classes;
+    },
+
+    getBoxClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+        const classes: string[] = [];
+
+        classes.push(...colorClasses('bg', node, ctx));
+
+        if (node.strokes && node.strokes.length > 0) {
+            const weight = typeof node.strokeWeight === 'number' ? node.strokeWeight : 1;
+            classes.push(weight === 1 ? 'border' : `border-[${weight}px]`);
+            classes.push(`border-${colorToken(node.strokes[0].color)}`);
+        }
+
+        if (node.cornerRadius !== undefined) {
+            const radius = radiusClass(node.cornerRadius, node, ctx);
+            if (radius) classes.push(radius);
+        }
+
+        classes.push(...this.getLayerClasses(node, ctx));
+
+        return classes;
+    }
+};
+
+// ============================================================================
+// CLASS HELPERS
+// ============================================================================
+
+function addWarning(ctx: ExportContext, node: RSNT_Node, feature: CodeExportFeature, message: string): void {
+    ctx.warnings.push({ code: WARNING_CODES[feature], nodeId: node.id, feature, message });
+}
+
+function spacingClass(
+    prefix: string,
+    value: number | { variableId: string },
+    node: RSNT_Node,
+    ctx: ExportContext
+): string | null {
+    if (typeof value === 'number') {
+        const key = findScaleKey(TAILWIND_DEFAULTS.spacing, value);
+        return key !== null ? `${prefix}-${key}` : `${prefix}-[${value}px]`;
+    }
+
+    const token = variableToken(value.variableId, node, ctx);
+    return token ? `${prefix}-${token}` : null;
+}
+
+function paddingClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+    if (!node.padding) return [];
+
+    const { top, right, bottom, left } = node.padding;
+    const sides = [top, right, bottom, left].map(v => v === undefined ? 0 : v);
+    const same = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+    const isZero = (v: any) => v === 0;
+
+    if (sides.every(isZero)) return [];
+
+    const emit = (prefix: string, value: number | { variableId: string }): string[] => {
+        if (isZero(value)) return [];
+        const cls = spacingClass(prefix, value, node, ctx);
+        return cls ? [cls] : [];
+    };
+
+    const [t, r, b, l] = sides;
+    if (same(t, r) && same(t, b) && same(t, l)) {
+        return emit('p', t);
+    }
+    if (same(t, b) && same(l, r)) {
+        return [...emit('px', l), ...emit('py', t)];
+    }
+    return [...emit('pt', t), ...emit('pr', r), ...emit('pb', b), ...emit('pl', l)];
+}
+
+/**
+ * Breakpoint-prefixed utilities for a node's responsive overrides
+ */
+function responsiveClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+    if (!node.responsive) return [];
+
+    const classes: string[] = [];
+    let layoutMode = node.layoutMode;
+
+    for (const bp of BREAKPOINT_ORDER) {
+        const override = node.responsive[bp];
+        if (!override) continue;
+
+        const bpClasses: string[] = [];
+        if (override.layoutMode) {
+            layoutMode = override.layoutMode;
+            if (override.layoutMode === 'NONE') bpClasses.push('block');
+            else bpClasses.push('flex', override.layoutMode === 'HORIZONTAL' ? 'flex-row' : 'flex-col');
+        }
+        if (override.width) bpClasses.push(sizeClass('w', override.width));
+        if (override.height) bpClasses.push(sizeClass('h', override.height));
+        if (override.itemSpacing !== undefined) {
+            const gap = spacingClass('gap', override.itemSpacing, node, ctx);
+            if (gap) bpClasses.push(gap);
+        }
+        if (override.padding) {
+            bpClasses.push(...paddingClasses({ id: node.id, type: node.type, padding: override.padding }, ctx));
+        }
+        if (override.visible === false) {
+            bpClasses.push('hidden');
+        } else if (override.visible === true) {
+            bpClasses.push(layoutMode === 'HORIZONTAL' || layoutMode === 'VERTICAL' ? 'flex' : 'block');
+        }
+
+        classes.push(...bpClasses.map(cls => `${bp}:${cls}`));
+    }
+
+    return classes;
+}
+
+function radiusClass(value: number | { variableId: string }, node: RSNT_Node, ctx: ExportContext): string | null {
+    if (typeof value !== 'number') {
+        const token = variableToken(value.variableId, node, ctx);
+        return token ? `rounded-${token}` : null;
+    }
+
+    if (value === 0) return null;
+    const key = findScaleKey(TAILWIND_DEFAULTS.borderRadius, value);
+    if (key === 'DEFAULT') return 'rounded';
+    return key !== null ? `rounded-${key}` : `rounded-[${value}px]`;
+}
+
+function colorClasses(prefix: 'bg' | 'text', node: RSNT_Node, ctx: ExportContext): string[] {
+    const fill = node.fills && node.fills[0];
+    if (!fill) return [];
+
+    if (fill.type === 'VARIABLE' && fill.variableId) {
+        const token = variableToken(fill.variableId, node, ctx);
+        return token ? [`${prefix}-${token}`] : [];
+    }
+
+    if (fill.color) {
+        return [`${prefix}-${colorToken(fill.color)}`];
+    }
+
+    return [];
+}
+
+/**
+ * Map an RGB color to a Tailwind palette name when it matches exactly,
+ * otherwise to an arbitrary hex value
+ */
+function colorToken(color: { r: number; g: number; b: number }): string {
+    const hex = rgbToHex(color);
+    if (hex === '#FFFFFF') return 'white';
+    if (hex === '#000000') return 'black';
+
+    for (const [name, value] of Object.entries(TAILWIND_DEFAULTS.colors)) {
+        if (value.toUpperCase() === hex) return name;
+    }
+    return `[${hex}]`;
+}
+
+function sizeClass(prefix: 'w' | 'h', value: number): string {
+    const rounded = Math.round(value);
+    const key = findScaleKey(TAILWIND_DEFAULTS.spacing, rounded);
+    return key !== null ? `${prefix}-${key}` : `${prefix}-[${rounded}px]`;
+}
+
+function opacityClass(opacity: number): string {
+    const percent = Math.round(opacity * 100);
+    return percent % 5 === 0 ? `opacity-${percent}` : `opacity-[${opacity.toFixed(2)}]`;
+}
+
+/**
+ * Tailwind applies a single shadow and a single blur per element, so only the
+ * first of each is exported; the rest are reported.
+ */
+function effectClasses(node: RSNT_Node, ctx: ExportContext): string[] {
+    const classes: string[] = [];
+    let hasShadow = false;
+    let hasBlur = false;
+    let hasBackdropBlur = false;
+
+    for (const effect of node.effects || []) {
+        if (effect.visible === false) continue;
+
+        switch (effect.type) {
+            case 'DROP_SHADOW':
+            case 'INNER_SHADOW':
+                if (hasShadow) {
+                    addWarning(ctx, node, 'effect', `Additional ${effect.type} dropped; only one shadow per element is exported`);
+                } else if (node.type === 'TEXT') {
+                    if (effect.type === 'INNER_SHADOW') {
+                        addWarning(ctx, node, 'effect', 'Inner shadows on text have no Tailwind equivalent and were dropped');
+                    } else {
+                        classes.push(shadowClass(effect.radius || 0).replace(/^shadow/, 'drop-shadow'));
+                        hasShadow = true;
+                    }
+                } else {
+                    classes.push(effect.type === 'INNER_SHADOW' ? 'shadow-inner' : shadowClass(effect.radius || 0));
+                    hasShadow = true;
+                }
+                break;
+            case 'LAYER_BLUR':
+                if (hasBlur) {
+                    addWarning(ctx, node, 'effect', 'Additional LAYER_BLUR dropped');
+                } else {
+                    classes.push(blurClass('blur', effect.radius || 0));
+                    hasBlur = true;
+                }
+                break;
+            case 'BACKGROUND_BLUR':
+                if (hasBackdropBlur) {
+                    addWarning(ctx, node, 'effect', 'Additional BACKGROUND_BLUR dropped');
+                } else {
+                    classes.push(blurClass('backdrop-blur', effect.radius || 0));
+                    hasBackdropBlur = true;
+                }
+                break;
+            default:
+                addWarning(ctx, node, 'effect', `Effect ${(effect as any).type} is not supported by the exporter`);
+        }
+    }
+
+    return classes;
+}
+
+function blurClass(prefix: string, radius: number): string {
+    const key = findScaleKey(BLUR_SCALE, radius);
+    if (key === 'DEFAULT') return prefix;
+    return key !== null ? `${prefix}-${key}` : `${prefix}-[${radius}px]`;
+}
+
+function shadowClass(blur: number): string {
+    if (blur <= 2) return 'shadow-sm';
+    if (blur <= 6) return 'shadow';
+    if (blur <= 10) return 'shadow-md';
+    if (blur <= 15) return 'shadow-lg';
+    if (blur <= 25) return 'shadow-xl';
+    return 'shadow-2xl';
+}
+
+function fontWeightClass(fontStyle?: string): string | null {
+    if (!fontStyle) return null;
+    const style = fontStyle.toLowerCase().replace(/[\s-]/g, '');
+
+    // Check compound names before their substrings (e.g. "extrabold" before "bold")
+    const ordered: Array<[string, string]> = [
+        ['extralight', 'font-extralight'],
+        ['ultralight', 'font-extralight'],
+        ['extrabold', 'font-extrabold'],
+        ['ultrabold', 'font-extrabold'],
+        ['semibold', 'font-semibold'],
+        ['demibold', 'font-semibold'],
+        ['thin', 'font-thin'],
+        ['light', 'font-light'],
+        ['medium', 'font-medium'],
+        ['black', 'font-black'],
+        ['heavy', 'font-black'],
+        ['bold', 'font-bold']
+    ];
+
+    for (const [needle, cls] of ordered) {
+        if (style.includes(needle)) return cls;
+    }
+    return null;
+}
+
+function findScaleKey(scale: Record<string, number>, value: number): string | null {
+    for (const [key, scaleValue] of Object.entries(scale)) {
+        if (scaleValue === value) return key;
+    }
+    return null;
+}
+
+/**
+ * Turn a variable-bound value back into a Tailwind token name.
+ * "spacing/md" → "md", "colors/primary/500" → "primary-500"
+ */
+function variableToken(variableId: string, node: RSNT_Node, ctx: ExportContext): string | null {
+    const variable = ctx.inventory?.variables.find(v => v.id === variableId);
+    if (!variable) {
+        addWarning(ctx, node, 'variable', `Variable ${variableId} is not in the inventory; its token class was omitted`);
+        return null;
+    }
+
+    const segments = variable.name
+        .split('/')
+        .map(segment => segment.trim().toLowerCase().replace(/[^a-z0-9.]+/g, '-').replace(/^-|-$/g, ''))
+        .filter(Boolean);
+
+    while (segments.length > 1 && TOKEN_GROUP_PREFIXES.has(segments[0])) {
+        segments.shift();
+    }
+
+    return segments.join('-') || null;
+}
+
+function mergeClasses(generated: string[], extra?: string[]): string[] {
+    const result: string[] = [];
+    for (const cls of [...generated, ...(extra || [])]) {
+        if (cls && !result.includes(cls)) result.push(cls);
+    }
+    return result;
+}
+
+// ============================================================================
+// JSX HELPERS
+// ============================================================================
+
+/**
+ * Identifier for a component import: the last segment of its name
+ * ("Button/Primary" → "Primary"), widened to the full path and then numbered
+ * when a different component or the exported component already uses it
+ */
+function uniqueIdentifier(sourceName: string, ctx: ExportContext): string {
+    const segments = sourceName.split('/').map(segment => segment.trim()).filter(Boolean);
+    const taken = new Set([ctx.componentName, ...Array.from(ctx.imports.values()).map(entry => entry.identifier)]);
+    const base = toPascalCase(segments[segments.length - 1] || sourceName);
+    if (!taken.has(base)) return base;
+
+    const qualified = toPascalCase(segments.join(' '));
+    if (!taken.has(qualified)) return qualified;
+
+    let suffix = 2;
+    while (taken.has(`${qualified}${suffix}`)) suffix++;
+    return `${qualified}${suffix}`;
+}
+
+function findComponent(inventory: DesignSystemInventory | null, node: RSNT_Node): ComponentInfo | undefined {
+    if (!inventory) return undefined;
+    return inventory.components.find(c =>
+        (node.componentId && c.id === node.componentId) ||
+        (node.componentKey && c.key === node.componentKey)
+    );
+}
+
+function formatJSXProp(rawKey: string, value: unknown): string | null {
+    // Figma suffixes component property names with "#<id>" for non-variant props
+    const key = toCamelCase(rawKey.split('#')[0]);
+    if (!key) return null;
+
+    if (value === undefined || value === null) return null;
+    if (value === true) return key;
+    if (typeof value !== 'string') return `${key}={${JSON.stringify(value)}}`;
+
+    if (value === 'true') return key;
+    if (value === 'false') return `${key}={false}`;
+    if (/^-?\d+(\.\d+)?$/.test(value)) return `${key}={${value}}`;
+    if (/["{}<>]/.test(value)) return `${key}={${JSON.stringify(value)}}`;
+    return `${key}="${value}"`;
+}
+
+/**
+ * Text content with {{placeholders}} turned into JSX expressions
+ */
+function formatJSXContent(template: string): string {
+    const expressions = getPlaceholders(template);
+    if (expressions.length === 0) return formatJSXText(template);
+
+    const parts = template.split(/\{\{[^}]*\}\}/);
+    let content = '';
+    parts.forEach((literal, i) => {
+        if (literal) content += formatJSXText(literal);
+        if (i < expressions.length) content += `{${expressions[i]}}`;
+    });
+    return content;
+}
+
+/**
+ * Top-level data names used by conditions and placeholders, in first-use order
+ */
+function collectDataRoots(root: RSNT_Node): string[] {
+    const roots: string[] = [];
+    const add = (expression: string) => {
+        for (const name of getDataRoots(expression)) {
+            if (!roots.includes(name)) roots.push(name);
+        }
+    };
+    const walk = (node: RSNT_Node) => {
+        if (node.condition) add(node.condition);
+        getPlaceholders(node.metadata?.contentTemplate || node.characters || '').forEach(add);
+        (node.children || []).forEach(walk);
+    };
+    walk(root);
+    return roots;
+}
+
+function formatJSXText(text: string): string {
+    if (/[{}<>]/.test(text) || text.includes('\n')) {
+        return `{${JSON.stringify(text)}}`;
+    }
+    return text;
+}
+
+function splitWords(value: string): string[] {
+    return value
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .split(/[^A-Za-z0-9]+/)
+        .filter(Boolean);
+}
+
+function toPascalCase(value: string): string {
+    const result = splitWords(value)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+    if (!result) return 'GeneratedDesign';
+    return /^[0-9]/.test(result) ? `Component${result}` : result;
+}
+
+function toCamelCase(value: string): string {
+    const pascal = splitWords(value)
+        .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+        .join('');
+    return pascal.charAt(0).toLowerCase() + pascal.slice(1);
+}
+
+function toKebabCase(value: string): string {
+    return splitWords(value).map(word => word.toLowerCase()).join('-');
+}
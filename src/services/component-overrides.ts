@@ -0,0 +1,142 @@
+/**
+ * Component Override Service
+ * Stores designer corrections to component roles and property value mappings.
+ * Overrides are applied after every classification, so AI results never
+ * replace them, and they feed Tier 1 matching through the inventory.
+ */
+
+import { DesignSystemInventory, ComponentInfo } from './auto-discovery';
+import { PropertyAnalysis } from '../types/classification';
+import { cacheService } from './cache';
+import { propertyMappingService } from './property-mapping';
+
+const OVERRIDES_KEY_PREFIX = 'component-overrides-v1-';
+
+export interface ComponentOverride {
+    role?: string; // Semantic role, e.g. "PrimaryButton"
+    propertyMappings?: Record<string, PropertyAnalysis>; // Complete mappings for the component
+    updatedAt: number;
+}
+
+/**
+ * Apply overrides to an inventory: overridden components take the designer's
+ * role (at full confidence) and mappings and are marked approved, and every
+ * overridden role points at its component in the suggested mappings.
+ */
+export function applyComponentOverrides(
+    inventory: DesignSystemInventory,
+    overrides: Record<string, ComponentOverride>
+): DesignSystemInventory {
+    const components = inventory.components.map(component => {
+        const override = overrides[component.id];
+        if (!override) return component;
+
+        const approved: ComponentInfo = { ...component, approved: true };
+        if (override.role) {
+            approved.suggestedRole = override.role;
+            approved.aiClassification = { semanticRole: override.role, confidence: 1, reasoning: 'Approved by designer' };
+        }
+        if (override.propertyMappings) approved.propertyMappings = override.propertyMappings;
+        return approved;
+    });
+
+    // A component answers only for the role the designer gave it
+    const present = new Set(components.map(c => c.id));
+    const suggestedMappings: Record<string, string> = {};
+    for (const [role, id] of Object.entries(inventory.suggestedMappings || {})) {
+        const override = overrides[id];
+        if (!override?.role || override.role === role) suggestedMappings[role] = id;
+    }
+    for (const [id, override] of Object.entries(overrides)) {
+        if (override.role && present.has(id)) suggestedMappings[override.role] = id;
+    }
+
+    return { ...inventory, components, suggestedMappings };
+}
+
+export class ComponentOverrideService {
+    private get storageKey(): string {
+        return OVERRIDES_KEY_PREFIX + (figma.fileKey || 'local');
+    }
+
+    /**
+     * Load overrides for this file, keyed by component id
+     */
+    async load(): Promise<Record<string, ComponentOverride>> {
+        try {
+            const stored = await figma.clientStorage.getAsync(this.storageKey);
+            return stored && typeof stored === 'object' ? stored : {};
+        } catch (e) {
+            console.warn('Failed to load component overrides', e);
+            return {};
+        }
+    }
+
+    /**
+     * Set or (with null) remove a component's override. Returns all overrides.
+     */
+    async set(componentId: string, override: ComponentOverride | null): Promise<Record<string, ComponentOverride>> {
+        const overrides = await this.load();
+        if (override) overrides[componentId] = override;
+        else delete overrides[componentId];
+
+        await figma.clientStorage.setAsync(this.storageKey, overrides);
+        return overrides;
+    }
+}
+
+export const componentOverrides = new ComponentOverrideService();
+
+/**
+ * Save a designer's correction and return the inventory with it applied.
+ * Property mappings are also seeded into the mapping service, which Tier 1
+ * matching and rendering read.
+ */
+export async function saveComponentOverride(
+    inventory: DesignSystemInventory,
+    componentId: string,
+    correction: { role?: string; propertyMappings?: Record<string, PropertyAnalysis> }
+): Promise<DesignSystemInventory> {
+    const override: ComponentOverride = { updatedAt: Date.now() };
+    const role = correction.role?.trim();
+    if (role) override.role = role;
+    if (correction.propertyMappings) override.propertyMappings = correction.propertyMappings;
+
+    const overrides = await componentOverrides.set(componentId, override);
+    if (override.propertyMappings) {
+        propertyMappingService.setMappings(componentId, override.propertyMappings);
+        await propertyMappingService.saveMappings();
+    }
+
+    return persist(applyComponentOverrides(inventory, overrides));
+}
+
+/**
+ * Remove a correction. The component's classification and mappings are
+ * dropped too, so the next discovery asks the AI again.
+ */
+export async function clearComponentOverride(
+    inventory: DesignSystemInventory,
+    componentId: string
+): Promise<DesignSystemInventory> {
+    const overrides = await componentOverrides.set(componentId, null);
+    propertyMappingService.clearMappings(componentId);
+    await propertyMappingService.saveMappings();
+
+    const components = inventory.components.map(component => {
+        if (component.id !== componentId) return component;
+        const { approved, aiClassification, propertyMappings, ...rest } = component;
+        return rest;
+    });
+    const suggestedMappings: Record<string, string> = {};
+    for (const [role, id] of Object.entries(inventory.suggestedMappings || {})) {
+        if (id !== componentId) suggestedMappings[role] = id;
+    }
+
+    return persist(applyComponentOverrides({ ...inventory, components, suggestedMappings }, overrides));
+}
+
+async function persist(inventory: DesignSystemInventory): Promise<DesignSystemInventory> {
+    await cacheService.saveCache(inventory.components, inventory.variables, inventory.suggestedMappings || {});
+    return inventory;
+}
@@ -0,0 +1,86 @@
+/**
+ * Component States
+ * Resolves RSNT `state` / `states` declarations into concrete trees where every
+ * component instance knows which state variant to render.
+ *
+ * A `state` set on a frame cascades to all component instances below it until
+ * a descendant sets its own. `states` declares which states a node should be
+ * shown in when the design is rendered as a state matrix.
+ */
+
+import { RSNT_Node } from '../types/rsnt';
+import { COMPONENT_STATE_ALIASES } from '../types/rsnt-constants';
+
+/**
+ * Whether any node in the tree declares a `states` list
+ */
+export function hasStateMatrix(node: RSNT_Node): boolean {
+    if (node.states && node.states.length > 0) return true;
+    return (node.children || []).some(hasStateMatrix);
+}
+
+/**
+ * Whether any node in the tree sets an active `state`
+ */
+export function hasComponentStates(node: RSNT_Node): boolean {
+    if (node.state) return true;
+    return (node.children || []).some(hasComponentStates);
+}
+
+/**
+ * All states declared anywhere in the tree. Known states follow the
+ * canonical order (default first); custom states follow in declaration order.
+ */
+export function getDeclaredStates(node: RSNT_Node): string[] {
+    const found: string[] = [];
+
+    const walk = (n: RSNT_Node) => {
+        for (const state of n.states || []) {
+            if (!found.includes(state)) found.push(state);
+        }
+        (n.children || []).forEach(walk);
+    };
+    walk(node);
+
+    const known = Object.keys(COMPONENT_STATE_ALIASES).filter(s => found.includes(s));
+    return [...known, ...found.filter(s => !(s in COMPONENT_STATE_ALIASES))];
+}
+
+/**
+ * Produce a standalone RSNT tree with states cascaded onto component instances.
+ * When `target` is given, every node that declares it in `states` switches to it.
+ * The result is a deep copy; the source tree is never mutated.
+ */
+export function resolveForState(root: RSNT_Node, target?: string): RSNT_Node {
+    const clone: RSNT_Node = JSON.parse(JSON.stringify(root));
+
+    const apply = (node: RSNT_Node, inherited: string | undefined) => {
+        if (target && node.states?.includes(target)) {
+            node.state = target;
+        }
+        const effective = node.state || inherited;
+
+        if (effective && node.type === 'COMPONENT_INSTANCE') {
+            node.state = effective;
+        }
+        (node.children || []).forEach(child => apply(child, effective));
+    };
+    apply(clone, undefined);
+
+    return clone;
+}
+
+/**
+ * Find the variant value that represents a state, matching case-insensitively
+ * against the state name and its common aliases (e.g. 'default' → 'Enabled')
+ */
+export function matchStateValue(state: string, values: string[]): string | null {
+    const wanted = state.toLowerCase();
+    const aliases = COMPONENT_STATE_ALIASES[wanted] || [wanted];
+
+    for (const alias of [wanted, ...aliases]) {
+        const match = values.find(v => v.toLowerCase() === alias);
+        if (match) return match;
+    }
+    return null;
+}
@@ -0,0 +1,94 @@
+/**
+ * Conflict Preferences
+ * Designer rules that override the Component > Preset > AI > System priority
+ * for one property of one kind of element, e.g. "always trust the component's
+ * padding for Card". Rules are stored on the document, so everyone generating
+ * in the file gets the same winners.
+ */
+
+import { ConflictSourceType } from './conflicts';
+import { ErrorCode, createValidationError } from '../types/errors';
+
+const PREFERENCES_KEY = 'conflict-preferences';
+
+/**
+ * "Always use <source> for <subject>.<property>"
+ */
+export interface ConflictPreference {
+    subject: string; // Component name or semantic role, e.g. "Card"
+    property: string; // e.g. "padding"
+    always: ConflictSourceType;
+    reason?: string;
+    createdAt: number;
+}
+
+export const CONFLICT_SOURCE_LABELS: Record<ConflictSourceType, string> = {
+    component: 'Component',
+    preset: 'Preset',
+    ai: 'AI',
+    system: 'System default'
+};
+
+/**
+ * Storage key for a rule, e.g. "Card.padding"
+ */
+export function preferenceKey(subject: string, property: string): string {
+    return `${subject}.${property}`;
+}
+
+export class ConflictPreferenceService {
+    /**
+     * All rules, keyed by preferenceKey
+     */
+    getAll(): Record<string, ConflictPreference> {
+        try {
+            const stored = JSON.parse(figma.root.getPluginData(PREFERENCES_KEY) || '{}');
+            return stored && typeof stored === 'object' ? stored : {};
+        } catch (e) {
+            console.warn('Failed to read conflict preferences', e);
+            return {};
+        }
+    }
+
+    list(): ConflictPreference[] {
+        return Object.values(this.getAll()).sort((a, b) => preferenceKey(a.subject, a.property).localeCompare(preferenceKey(b.subject, b.property)));
+    }
+
+    /**
+     * Rules are keyed by subject; throws when there is none to key by
+     */
+    validateSubject(subject: string | undefined, property: string): string {
+        if (!subject) {
+            throw createValidationError(
+                ErrorCode.MISSING_REQUIRED_PROPERTY,
+                { field: 'subject', property },
+                'Only components and elements with a semantic role can have conflict preferences'
+            );
+        }
+        return subject;
+    }
+
+    /**
+     * Remember which source wins a property for a subject, replacing any earlier rule
+     */
+    save(subject: string | undefined, property: string, always: ConflictSourceType, reason?: string): ConflictPreference {
+        const ruleSubject = this.validateSubject(subject, property);
+        const preference: ConflictPreference = { subject: ruleSubject, property, always, createdAt: Date.now(), ...(reason ? { reason } : {}) };
+        const preferences = this.getAll();
+        preferences[preferenceKey(ruleSubject, property)] = preference;
+        figma.root.setPluginData(PREFERENCES_KEY, JSON.stringify(preferences));
+        return preference;
+    }
+
+    /**
+     * Delete a rule by its key. Returns the remaining rules.
+     */
+    remove(key: string): ConflictPreference[] {
+        const preferences = this.getAll();
+        delete preferences[key];
+        figma.root.setPluginData(PREFERENCES_KEY, JSON.stringify(preferences));
+        return this.list();
+    }
+}
+
+export const conflictPreferences = new ConflictPreferenceService();
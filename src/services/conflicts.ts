@@ -3,6 +3,7 @@ import { ResolutionResult, ExecutionInstructions } from '../types/resolution-typ
 import { TAILWIND_DEFAULTS, getTailwindSpacing, getTailwindColor, getTailwindRadius } from '../constants/tailwind-defaults';
 import { DesignSystemInventory, ComponentInfo } from './auto-discovery';
 import { normalizeColor } from '../libs/color-utils';
+import { conflictPreferences, ConflictPreference, CONFLICT_SOURCE_LABELS, preferenceKey } from './conflict-preferences';
 
 // ============================================================================
 // TYPES & INTERFACES
@@ -22,6 +23,7 @@ export interface Conflict {
     sources: ConflictSource[];
     winner: ConflictSource;
     reason: string;
+    preferred?: boolean; // Winner set by a designer preference rather than priority
 }
 
 export interface PresetConfig {
@@ -32,6 +34,8 @@ export interface PresetConfig {
 export type ConflictLog = {
     nodeId: string;
     nodeName?: string;
+    subject?: string; // What preferences are keyed by, e.g. "Card"
+    figmaNodeId?: string; // Rendered node, once known
     conflicts: Conflict[];
 };
 
@@ -60,6 +64,8 @@ export async function resolveAllConflicts(
     preset?: PresetConfig
 ): Promise<Conflict[]> {
     const conflicts: Conflict[] = [];
+    const subject = conflictSubject(node, resolution, inventory);
+    const preferences = subject ? conflictPreferences.getAll() : {};
 
     // Properties to check
     const propertiesToCheck = [
@@ -76,8 +82,10 @@ export async function resolveAllConflicts(
     for (const prop of propertiesToCheck) {
         const sources = collectPropertySources(prop, node, resolution, inventory, preset);
 
-        if (detectConflicts(sources)) {
-            const resolved = resolveConflict(prop, sources, preset?.name);
+        // A preset value applies even when nothing disagrees with it
+        if (detectConflicts(sources) || sources.some(s => s.source === 'preset')) {
+            const preference = subject ? preferences[preferenceKey(subject, prop)] : undefined;
+            const resolved = resolveConflict(prop, sources, preset?.name, preference);
             conflicts.push(resolved);
         }
     }
@@ -90,6 +98,58 @@ export async function resolveAllConflicts(
     return conflicts;
 }
 
+/**
+ * Conflicts on a node the tree walk renders as written: frames and text from
+ * the AI, and instances that already name a valid component. Only properties
+ * the node or its component sets count, so a preset fill does not paint every
+ * wrapper frame, and only a preset or a remembered rule makes it a conflict
+ * worth reporting. Returns null when nothing needs settling.
+ */
+export async function resolveWrittenNodeConflicts(
+    node: RSNT_Node,
+    inventory: DesignSystemInventory,
+    preset?: PresetConfig
+): Promise<ConflictLog | null> {
+    const instructions: ExecutionInstructions = node.type === 'COMPONENT_INSTANCE' && node.componentId
+        ? { type: 'INSTANTIATE_COMPONENT', componentId: node.componentId, properties: {} }
+        : { type: 'CREATE_FRAME', layoutMode: node.layoutMode || 'NONE', styling: {} };
+    const resolution: ResolutionResult = {
+        success: true,
+        tier: instructions.type === 'INSTANTIATE_COMPONENT' ? 1 : 3,
+        method: 'as_written',
+        instructions,
+        confidence: 1,
+        warnings: []
+    };
+
+    const properties = node.type === 'TEXT' ? ['fontSize'] : ['height', 'width', 'padding', 'itemSpacing', 'fill', 'stroke', 'cornerRadius'];
+    const conflicts = (await resolveAllConflicts(node, resolution, inventory, preset)).filter(c =>
+        properties.includes(c.property) &&
+        c.sources.some(s => s.source === 'ai' || s.source === 'component') &&
+        (c.preferred || c.sources.some(s => s.source === 'preset'))
+    );
+    if (conflicts.length === 0) return null;
+
+    return { nodeId: node.id, nodeName: node.name, subject: conflictSubject(node, resolution, inventory), conflicts };
+}
+
+/**
+ * What designer preferences for a node are keyed by: the component it
+ * instantiates, otherwise its semantic role
+ */
+export function conflictSubject(
+    node: RSNT_Node,
+    resolution: ResolutionResult,
+    inventory: DesignSystemInventory
+): string | undefined {
+    const instructions = resolution.instructions;
+    if (instructions.type === 'INSTANTIATE_COMPONENT') {
+        const component = inventory.components.find(c => c.id === instructions.componentId);
+        if (component) return component.name;
+    }
+    return node.semanticRole || undefined;
+}
+
 /**
  * Collect values from all available sources for a property
  */
@@ -170,13 +230,26 @@ export function detectConflicts(sources: ConflictSource[]): boolean {
 }
 
 /**
- * Resolve conflict by picking the winner based on priority
+ * Resolve conflict by picking the winner based on priority, unless a
+ * designer preference names a source that has a value
  */
 export function resolveConflict(
     property: string,
     sources: ConflictSource[],
-    presetName?: string
+    presetName?: string,
+    preference?: ConflictPreference
 ): Conflict {
+    const preferred = preference && sources.find(s => s.source === preference.always);
+    if (preferred) {
+        return {
+            property,
+            sources,
+            winner: preferred,
+            reason: `Your preference: always use the ${CONFLICT_SOURCE_LABELS[preferred.source].toLowerCase()} ${property} for ${preference!.subject}`,
+            preferred: true
+        };
+    }
+
     // Sort by priority (ascending: 1 is top)
     const sorted = [...sources].sort((a, b) => a.priority - b.priority);
     const winner = sorted[0];
@@ -208,7 +281,8 @@ export function resolveConflict(
 
 /**
  * Apply resolved values to instructions
- * This modifies the instructions object in place
+ * This modifies the instructions object in place. A preset that overrides the
+ * AI value also drops the variable or style bound for that AI value.
  */
 export function applyResolutionToInstructions(
     instructions: ExecutionInstructions,
@@ -250,6 +324,13 @@ export function applyResolutionToInstructions(
                 style.fills = val;
             } else if (property === 'cornerRadius' && typeof val === 'number') {
                 style.cornerRadius = val;
+            } else if (property === 'itemSpacing' && typeof val === 'number') {
+                style.itemSpacing = val;
+            }
+
+            if (winner.source === 'preset' && overridesAIValue(conflict)) {
+                if (instructions.variableBindings) delete instructions.variableBindings[property];
+                if (property === 'fill' && instructions.styleBindings) delete instructions.styleBindings.fillStyleId;
             }
         } else if (instructions.type === 'INSTANTIATE_COMPONENT') {
             // For components, we apply overrides
@@ -267,6 +348,87 @@ export function applyResolutionToInstructions(
     }
 }
 
+/**
+ * Write preset and system winners onto an RSNT node before it renders.
+ * AI and component winners are already what the node renders with.
+ */
+export function applyResolutionToRSNT(node: RSNT_Node, conflicts: Conflict[]) {
+    for (const { property, winner } of conflicts) {
+        if (winner.source === 'ai' || winner.source === 'component') continue;
+        const val = winner.value;
+
+        if (property === 'padding') {
+            if (typeof val === 'number') {
+                node.padding = { top: val, right: val, bottom: val, left: val };
+            } else if (val && typeof val === 'object') {
+                node.padding = val;
+            }
+        } else if (property === 'fill' && Array.isArray(val)) {
+            node.fills = val;
+            delete node.fillStyleId;
+        } else if (property === 'itemSpacing' && typeof val === 'number') {
+            node.itemSpacing = val;
+        } else if (property === 'cornerRadius' && typeof val === 'number') {
+            node.cornerRadius = val;
+        } else if (property === 'fontSize' && typeof val === 'number') {
+            node.fontSize = val;
+            delete node.textStyleId;
+        } else if ((property === 'width' || property === 'height') && typeof val === 'number') {
+            node[property] = val;
+        }
+    }
+}
+
+/**
+ * Apply one conflict value to a rendered node, replacing any variable or
+ * style bound for that property. Returns false when the node cannot take it.
+ */
+export async function applyConflictValueToNode(node: SceneNode, property: string, value: any): Promise<boolean> {
+    const unbind = (...fields: VariableBindableNodeField[]) => fields.forEach(field => node.setBoundVariable(field, null));
+
+    switch (property) {
+        case 'padding': {
+            if (!('paddingTop' in node)) return false;
+            const padding = typeof value === 'number' ? { top: value, right: value, bottom: value, left: value } : value;
+            if (!padding || typeof padding !== 'object') return false;
+            unbind('paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft');
+            node.paddingTop = padding.top;
+            node.paddingRight = padding.right;
+            node.paddingBottom = padding.bottom;
+            node.paddingLeft = padding.left;
+            return true;
+        }
+        case 'itemSpacing':
+            if (!('itemSpacing' in node) || typeof value !== 'number') return false;
+            unbind('itemSpacing');
+            node.itemSpacing = value;
+            return true;
+        case 'cornerRadius':
+            if (!('topLeftRadius' in node) || typeof value !== 'number') return false; // FigJam shapes have a read-only radius
+            unbind('topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius');
+            node.cornerRadius = value;
+            return true;
+        case 'fill':
+            if (!('fills' in node) || !Array.isArray(value)) return false;
+            node.fills = value; // Setting paints detaches the style and paint variables
+            return true;
+        case 'stroke':
+            if (!('strokes' in node) || !Array.isArray(value)) return false;
+            node.strokes = value;
+            return true;
+        case 'height':
+        case 'width':
+            if (!('resize' in node) || typeof value !== 'number' || value <= 0) return false;
+            node.resize(property === 'width' ? value : node.width, property === 'height' ? value : node.height);
+            return true;
+        case 'fontSize':
+            if (node.type !== 'TEXT' || typeof value !== 'number' || node.fontName === figma.mixed) return false;
+            await figma.loadFontAsync(node.fontName);
+            node.fontSize = value;
+            return true;
+    }
+    return false;
+}
 
 // ============================================================================
 // HELPERS
@@ -283,18 +445,29 @@ function getComponentValue(component: ComponentInfo, property: string): any | un
         case 'width':
             return info.dimensionInfo?.width;
         case 'padding':
-            // Logic to extract padding from anatomy or layoutInfo
-            // simplified:
-            return undefined; // We often don't store exact padding in anatomy yet
+            // Only auto-layout components own their padding and spacing
+            return info.layoutInfo?.mode !== 'NONE' ? info.layoutInfo?.padding : undefined;
+        case 'itemSpacing':
+            return info.layoutInfo?.mode !== 'NONE' ? info.layoutInfo?.itemSpacing : undefined;
         // Add more extractions
     }
     return undefined;
 }
 
+function overridesAIValue(conflict: Conflict): boolean {
+    const ai = conflict.sources.find(s => s.source === 'ai');
+    return !!ai && JSON.stringify(ai.value) !== JSON.stringify(conflict.winner.value);
+}
+
 function getAIValue(node: RSNT_Node, property: string): any | undefined {
     // 1. Check direct properties
     if (property === 'height' && node.height) return node.height;
     if (property === 'width' && node.width) return node.width;
+    if (property === 'padding' && node.padding) return node.padding;
+    if (property === 'itemSpacing' && node.itemSpacing !== undefined) return node.itemSpacing;
+    if (property === 'cornerRadius' && node.cornerRadius !== undefined) return node.cornerRadius;
+    if (property === 'fill' && node.fills && node.fills.length > 0) return node.fills;
+    if (property === 'fontSize' && node.fontSize) return node.fontSize;
 
     // 2. Check tailwind classes
     if (node.tailwindClasses) {
@@ -307,6 +480,10 @@ function getAIValue(node: RSNT_Node, property: string): any | undefined {
                 const c = getTailwindColor(cls);
                 if (c) return [{ type: 'SOLID', color: normalizeColor(c) }];
             }
+            if (property === 'itemSpacing' && cls.startsWith('gap-')) {
+                const g = getTailwindSpacing(cls);
+                if (g !== null) return g;
+            }
             if (property === 'cornerRadius') {
                 const r = getTailwindRadius(cls);
                 if (r !== null) return r;
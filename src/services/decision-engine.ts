@@ -8,10 +8,11 @@
  * explicit reasoning, rather than asking AI to do everything at once.
  */
 
-import { DesignSystemInventory, ComponentInfo } from './auto-discovery';
+import { DesignSystemInventory, ComponentInfo, getLibraryKey } from './auto-discovery';
 import { DesignIntent, ComponentRequirement } from './intent-parser';
 import { propertyMappingService } from './property-mapping';
-import { analyzeDesignIntent, applyHierarchyOrdering, applySpatialRules, DesignReasoning } from './design-reasoning';
+import { findIcon, normalizeIconName } from './icon-library';
+import { analyzeDesignIntent, inferDesignReasoning, applyHierarchyOrdering, applySpatialRules, DesignReasoning } from './design-reasoning';
 import { detectPattern, designPatternService, DesignPattern } from './design-patterns';
 import { resolveSpacingToken } from './token-resolver';
 
@@ -25,6 +26,7 @@ export interface ComponentDecision {
         id: string;
         name: string;
         type: 'existing' | 'primitive' | 'composite';
+        componentKey?: string; // Library components only
     } | null;
     properties: Record<string, string>;
     fallback?: string; // If no exact match, describe fallback
@@ -86,7 +88,7 @@ export class DecisionEngine {
 
     constructor(
         private inventory: DesignSystemInventory,
-        private aiCall: (prompt: string, systemPrompt: string) => Promise<string>
+        private aiCall: ((prompt: string, systemPrompt: string) => Promise<string>) | null = null
     ) {
         const guidelines = inventory.guidelines;
         this.spacingScale = guidelines?.spacing.scale || [4, 8, 12, 16, 24, 32, 48];
@@ -101,12 +103,11 @@ export class DecisionEngine {
         console.log('=== Multi-Step Decision Making (WITH REASONING) ===');
 
         // NEW STEP 1: Generate Design Reasoning FIRST
+        // Offline (no aiCall): derive it from the intent and detected pattern instead
         console.log('Step 1: Analyzing design intent and generating reasoning...');
-        const reasoning = await analyzeDesignIntent(
-            intent.description || intent.type,
-            this.inventory,
-            this.aiCall
-        );
+        const reasoning = this.aiCall
+            ? await analyzeDesignIntent(intent.description || intent.type, this.inventory, this.aiCall)
+            : inferDesignReasoning(intent, detectPattern(intent.description || intent.type));
 
         console.log('Design Reasoning:', {
             goal: reasoning.goal,
@@ -189,6 +190,26 @@ export class DecisionEngine {
     }
 
     private selectComponent(requirement: ComponentRequirement, intent: DesignIntent): ComponentDecision {
+        // Icons asked for by name come from the icon index
+        if (requirement.type === 'icon' && requirement.icon) {
+            const icon = findIcon(requirement.icon, this.inventory.icons || []);
+            const owner = icon && this.inventory.components.find(c => c.id === icon.componentId);
+            if (icon && owner) {
+                return {
+                    requirement,
+                    selectedComponent: {
+                        id: owner.id,
+                        name: icon.name,
+                        type: 'existing',
+                        componentKey: getLibraryKey(owner),
+                    },
+                    properties: icon.properties || {},
+                    confidence: icon.name === normalizeIconName(requirement.icon) ? 0.95 : 0.8,
+                    reasoning: `Icon "${requirement.icon}" matched "${icon.name}" in ${owner.name}`,
+                };
+            }
+        }
+
         // Try to find matching component in inventory
         const match = this.findBestComponentMatch(requirement);
 
@@ -206,6 +227,7 @@ export class DecisionEngine {
                         id: match.component.id,
                         name: match.component.name,
                         type: 'existing',
+                        componentKey: getLibraryKey(match.component),
                     },
                     properties: this.mapProperties(requirement, match.component),
                     confidence: Math.min(match.confidence, validation.confidence),
@@ -913,7 +935,7 @@ export class DecisionEngine {
  */
 export function createDecisionEngine(
     inventory: DesignSystemInventory,
-    aiCall: (prompt: string, systemPrompt: string) => Promise<string>
+    aiCall: ((prompt: string, systemPrompt: string) => Promise<string>) | null = null
 ): DecisionEngine {
     return new DecisionEngine(inventory, aiCall);
 }
@@ -5,12 +5,13 @@
  * - Fix A: Sizing modes - child frames that should STRETCH to fill parent
  * - Fix B: Spacing snap - snap off-scale spacing to nearest allowed value
  * - Fix C: Text hierarchy - ensure titles are larger than body text
- * - Fix D: Root frame - ensure proper root frame dimensions
+ * - Fix D: Root frame - ensure proper root frame dimensions (breakpoint-aware)
  * - Fix E: Container padding - ensure cards/containers have padding
  */
 
 import { RSNT_Node } from '../types/rsnt';
 import { DesignSystemGuidelines } from './auto-discovery';
+import { hasResponsiveOverrides, getDeclaredBreakpoints, getBreakpointWidth } from './responsive';
 
 export interface FixerOptions {
     guidelines: DesignSystemGuidelines;
@@ -69,10 +70,20 @@ export function fixDesign(root: RSNT_Node, options: FixerOptions): FixReport {
 
 /**
  * Fix D: Ensure root frame has proper dimensions
+ *
+ * Responsive trees are mobile-first: the base root is sized to the base
+ * breakpoint instead of the desktop target, and each breakpoint keeps its own width.
  */
 function fixRootFrame(node: RSNT_Node, options: FixerOptions, fixes: FixEntry[]): void {
     if (node.type !== 'FRAME') return;
 
+    const isResponsive = hasResponsiveOverrides(node);
+    const targetWidth = isResponsive ? getBreakpointWidth('base') : options.targetWidth!;
+
+    if (isResponsive) {
+        fixResponsiveRootWidths(node, fixes);
+    }
+
     const needsWidthFix = !node.width || node.width < 100;
     const needsHeightFix = !node.height || node.height < 100;
 
@@ -80,7 +91,7 @@ function fixRootFrame(node: RSNT_Node, options: FixerOptions, fixes: FixEntry[])
         const before = { width: node.width, height: node.height };
 
         if (needsWidthFix) {
-            node.width = options.targetWidth!;
+            node.width = targetWidth;
         }
         if (needsHeightFix) {
             node.height = options.targetHeight!;
@@ -114,6 +125,45 @@ function fixRootFrame(node: RSNT_Node, options: FixerOptions, fixes: FixEntry[])
     }
 }
 
+/**
+ * Keep responsive root widths in mobile-first order: the base must not be wider
+ * than the smallest declared breakpoint, and breakpoint widths must be usable.
+ */
+function fixResponsiveRootWidths(node: RSNT_Node, fixes: FixEntry[]): void {
+    const breakpoints = getDeclaredBreakpoints(node);
+    if (breakpoints.length === 0) return;
+
+    const smallestWidth = node.responsive?.[breakpoints[0]]?.width ?? getBreakpointWidth(breakpoints[0]);
+    if (node.width && node.width > smallestWidth) {
+        const before = { width: node.width };
+        node.width = getBreakpointWidth('base');
+        fixes.push({
+            nodeId: node.id,
+            nodeName: node.name,
+            fixType: 'ROOT_FRAME',
+            description: `Responsive root is mobile-first - base width reset to ${node.width} (was wider than ${breakpoints[0]})`,
+            before,
+            after: { width: node.width },
+        });
+    }
+
+    for (const bp of breakpoints) {
+        const override = node.responsive?.[bp];
+        if (override && override.width !== undefined && override.width < 100) {
+            const before = { width: override.width };
+            override.width = getBreakpointWidth(bp);
+            fixes.push({
+                nodeId: node.id,
+                nodeName: node.name,
+                fixType: 'ROOT_FRAME',
+                description: `Root width at ${bp} too small - set to ${override.width}`,
+                before,
+                after: { width: override.width },
+            });
+        }
+    }
+}
+
 /**
  * Fix A: Detect and fix sizing modes
  *
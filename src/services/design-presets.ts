@@ -0,0 +1,158 @@
+/**
+ * Design Presets
+ * Named sets of spacing, radius, colour and type values ("Shadcn default",
+ * "Dense enterprise") that conflict resolution ranks above AI-suggested
+ * values, so the same prompt produces the density a client expects.
+ * Built-in presets ship with the plugin; designers save their own for the
+ * current file or for every file.
+ */
+
+import { PresetConfig } from './conflicts';
+import { normalizeColor, rgbToHex } from '../libs/color-utils';
+import { ErrorCode, createValidationError } from '../types/errors';
+
+const PRESETS_KEY_PREFIX = 'design-presets-v1-';
+
+export type PresetScope = 'built-in' | 'file' | 'global';
+
+export interface DesignPreset extends PresetConfig {
+    id: string;
+    scope: PresetScope;
+    description?: string;
+}
+
+/**
+ * Preset values as a designer enters them; `fill` is a hex colour
+ */
+export interface PresetInput {
+    padding?: number;
+    itemSpacing?: number;
+    cornerRadius?: number;
+    fontSize?: number;
+    fill?: string;
+}
+
+export const BUILT_IN_PRESETS: DesignPreset[] = [
+    {
+        id: 'shadcn-default',
+        name: 'Shadcn default',
+        scope: 'built-in',
+        description: 'shadcn/ui spacing: p-4, gap-2, rounded-md, text-sm',
+        values: { padding: 16, itemSpacing: 8, cornerRadius: 6, fontSize: 14 }
+    },
+    {
+        id: 'dense-enterprise',
+        name: 'Dense enterprise',
+        scope: 'built-in',
+        description: 'Compact data-heavy screens: tight padding, small radii, 12px text',
+        values: { padding: 8, itemSpacing: 4, cornerRadius: 2, fontSize: 12 }
+    },
+    {
+        id: 'spacious-marketing',
+        name: 'Spacious marketing',
+        scope: 'built-in',
+        description: 'Airy landing pages: generous padding and rounded corners',
+        values: { padding: 32, itemSpacing: 16, cornerRadius: 12, fontSize: 16 }
+    }
+];
+
+/**
+ * Turn designer input into conflict-resolution values: non-negative numbers
+ * only, and the fill as a solid paint so it compares with AI fills
+ */
+export function buildPresetValues(input: PresetInput): Record<string, any> {
+    const values: Record<string, any> = {};
+    for (const key of ['padding', 'itemSpacing', 'cornerRadius', 'fontSize'] as const) {
+        const value = Number(input[key]);
+        if (input[key] !== undefined && input[key] !== null && Number.isFinite(value) && value >= 0) values[key] = value;
+    }
+    const fill = input.fill?.trim();
+    if (fill && /^#?[0-9a-f]{6}$/i.test(fill)) {
+        values.fill = [{ type: 'SOLID', color: normalizeColor(fill.startsWith('#') ? fill : `#${fill}`) }];
+    }
+    return values;
+}
+
+/**
+ * One-line summary of a preset's values, e.g. "16px padding · 8px gap · 6px radius"
+ */
+export function describePreset(preset: PresetConfig): string {
+    const { padding, itemSpacing, cornerRadius, fontSize, fill } = preset.values;
+    const parts: string[] = [];
+    if (padding !== undefined) parts.push(`${padding}px padding`);
+    if (itemSpacing !== undefined) parts.push(`${itemSpacing}px gap`);
+    if (cornerRadius !== undefined) parts.push(`${cornerRadius}px radius`);
+    if (fontSize !== undefined) parts.push(`${fontSize}px text`);
+    if (Array.isArray(fill) && fill[0]?.color) parts.push(`fill ${rgbToHex(fill[0].color)}`);
+    return parts.join(' · ');
+}
+
+function presetId(scope: PresetScope, name: string): string {
+    return `${scope}:${name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}`;
+}
+
+export class DesignPresetService {
+    private storageKey(scope: 'file' | 'global'): string {
+        return PRESETS_KEY_PREFIX + (scope === 'global' ? 'global' : `file-${figma.fileKey || 'local'}`);
+    }
+
+    private async load(scope: 'file' | 'global'): Promise<DesignPreset[]> {
+        try {
+            const stored = await figma.clientStorage.getAsync(this.storageKey(scope));
+            return Array.isArray(stored) ? stored : [];
+        } catch (e) {
+            console.warn(`Failed to load ${scope} design presets`, e);
+            return [];
+        }
+    }
+
+    /**
+     * Every preset available in this file: built-in, then global, then this file's
+     */
+    async list(): Promise<DesignPreset[]> {
+        return [...BUILT_IN_PRESETS, ...await this.load('global'), ...await this.load('file')];
+    }
+
+    /**
+     * Look up a preset by id; no id or an unknown one means no preset
+     */
+    async find(id?: string | null): Promise<DesignPreset | null> {
+        if (!id) return null;
+        return (await this.list()).find(p => p.id === id) || null;
+    }
+
+    /**
+     * Save a preset for this file or for every file, replacing one with the
+     * same name in that scope. Returns all presets.
+     */
+    async save(name: string, input: PresetInput, scope: 'file' | 'global'): Promise<DesignPreset[]> {
+        const trimmed = name.trim();
+        if (!trimmed) {
+            throw createValidationError(ErrorCode.MISSING_REQUIRED_PROPERTY, { field: 'name' }, 'A design preset needs a name');
+        }
+        const values = buildPresetValues(input);
+        if (Object.keys(values).length === 0) {
+            throw createValidationError(ErrorCode.MISSING_REQUIRED_PROPERTY, { field: 'values' }, `"${trimmed}" sets no spacing, radius, text size or colour`);
+        }
+
+        const preset: DesignPreset = { id: presetId(scope, trimmed), name: trimmed, scope, values };
+        const presets = (await this.load(scope)).filter(p => p.id !== preset.id);
+        await figma.clientStorage.setAsync(this.storageKey(scope), [...presets, preset]);
+        return this.list();
+    }
+
+    /**
+     * Delete a saved preset; built-in presets cannot be removed. Returns all presets.
+     */
+    async remove(id: string): Promise<DesignPreset[]> {
+        for (const scope of ['file', 'global'] as const) {
+            const presets = await this.load(scope);
+            if (presets.some(p => p.id === id)) {
+                await figma.clientStorage.setAsync(this.storageKey(scope), presets.filter(p => p.id !== id));
+            }
+        }
+        return this.list();
+    }
+}
+
+export const designPresets = new DesignPresetService();
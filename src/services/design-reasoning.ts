@@ -4,6 +4,8 @@
  */
 
 import { DesignSystemInventory } from './auto-discovery';
+import { DesignIntent } from './intent-parser';
+import { DesignPattern } from './design-patterns';
 import { extractJSON } from '../utils/json-utils';
 
 export interface DesignReasoning {
@@ -125,6 +127,84 @@ CRITICAL: Return ONLY valid JSON. No markdown, no explanation outside the JSON.
     return reasoning;
 }
 
+/**
+ * Derive design reasoning from the parsed intent and detected pattern without
+ * an AI call (offline mode). Produces the same shape as analyzeDesignIntent so
+ * the decision engine and builder treat both identically.
+ */
+export function inferDesignReasoning(
+    intent: DesignIntent,
+    pattern: DesignPattern | null
+): DesignReasoning {
+    const types = new Set(intent.components.map(c => c.type));
+
+    const layoutStrategy: DesignReasoning['layoutStrategy'] =
+        intent.type === 'dashboard' || pattern?.name === 'Dashboard Split' ? 'dashboard'
+            : intent.layout.direction === 'grid' || pattern?.name === 'Grid Gallery' ? 'grid'
+                : pattern?.hierarchy.heroElement ? 'hero'
+                    : 'stack';
+
+    const patternName = ({
+        'F-Pattern Form': 'F-Pattern',
+        'Z-Pattern Landing': 'Z-Pattern',
+        'Grid Gallery': 'Grid',
+        'Dashboard Split': 'Split-View',
+    } as Record<string, string>)[pattern?.name || ''] || (intent.type === 'form' ? 'F-Pattern' : 'Stack');
+
+    const spacing: DesignReasoning['tokenUsage']['spacing'] =
+        intent.layout.spacing === 'tight' || pattern?.spacing.priority === 'compact' ? 'tight'
+            : intent.layout.spacing === 'relaxed' || pattern?.spacing.priority === 'generous' ? 'spacious'
+                : 'comfortable';
+
+    const emphasis: DesignReasoning['tokenUsage']['emphasis'] =
+        intent.constraints.style === 'minimal' ? 'subtle'
+            : layoutStrategy === 'dashboard' ? 'monochrome'
+                : 'high-contrast';
+
+    const spatialRules: SpatialRule[] = [];
+    if (types.has('heading')) {
+        spatialRules.push({
+            rule: 'Heading first',
+            affected: ['heading'],
+            reasoning: 'The heading tells users where they are before they scan the content'
+        });
+    }
+    if (types.has('button') && (!pattern || pattern.hierarchy.ctaPlacement === 'bottom')) {
+        spatialRules.push({
+            rule: 'CTAs follow content',
+            affected: ['button'],
+            reasoning: 'Users need context before taking action'
+        });
+    }
+
+    const goals: Record<string, string> = {
+        authentication: 'Get the user signed in or registered with minimal friction',
+        'data-entry': 'Let the user enter and submit information',
+        navigation: 'Let the user move between sections',
+        action: 'Let the user take the primary action quickly',
+        display: 'Present the content so it can be scanned at a glance',
+    };
+
+    const primary = layoutStrategy === 'dashboard' ? ['heading', 'card'] : ['button', 'heading'];
+    const tertiary = ['divider', 'badge', 'tag', 'icon'];
+
+    return {
+        goal: goals[intent.constraints.purpose] || goals.display,
+        pattern: patternName,
+        layoutStrategy,
+        hierarchy: {
+            primary,
+            secondary: Array.from(types).filter(t => !primary.includes(t) && !tertiary.includes(t)),
+            tertiary,
+        },
+        spatialRules,
+        tokenUsage: { spacing, emphasis },
+        explanation: `Heuristic reasoning (offline): ${patternName} layout for a ${intent.type} ` +
+            `(${intent.constraints.context}), ${spacing} spacing, ${emphasis} emphasis.` +
+            (pattern ? ` CTA placement follows ${pattern.name}: ${pattern.hierarchy.ctaPlacement}.` : ''),
+    };
+}
+
 /**
  * Apply reasoning to reorder components by READING ORDER — not raw visual weight.
  *
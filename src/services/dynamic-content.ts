@@ -0,0 +1,392 @@
+/**
+ * Dynamic Content
+ * Evaluates RSNT `condition` expressions and `{{placeholder}}` content against a
+ * scenario data context (e.g. an empty, loading or populated state of a screen).
+ *
+ * Expressions are a small, side-effect-free subset of JavaScript so the code
+ * exporter can emit them verbatim:
+ * - data paths: user.name, items.length, items[0].title
+ * - literals: numbers, 'strings', "strings", true, false, null, undefined
+ * - operators: !, ===, !==, ==, !=, <, <=, >, >=, &&, ||, parentheses
+ */
+
+import { RSNT_Node } from '../types/rsnt';
+import { ErrorCode, createValidationError } from '../types/errors';
+import { rsntMetadataService } from './rsnt-metadata';
+
+export type ScenarioData = Record<string, any>;
+
+export interface ScenarioSelection {
+    /** Name of a scenario declared on the RSNT root (`scenarios`) */
+    name?: string;
+    /** Explicit data context; takes precedence over a named scenario */
+    data?: ScenarioData;
+}
+
+type Expr =
+    | { kind: 'literal'; value: any }
+    | { kind: 'path'; segments: Array<string | number> }
+    | { kind: 'not'; operand: Expr }
+    | { kind: 'binary'; op: string; left: Expr; right: Expr };
+
+type Token = { type: 'num' | 'str' | 'ident' | 'op' | 'punct'; value: string };
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^}]*?)\s*\}\}/g;
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!'];
+const KEYWORDS: Record<string, any> = { 'true': true, 'false': false, 'null': null, 'undefined': undefined };
+const FORBIDDEN_SEGMENTS = new Set(['__proto__', 'prototype', 'constructor']);
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function invalid(expression: string, reason: string): never {
+    throw createValidationError(ErrorCode.INVALID_EXPRESSION, { expression, reason }, `Invalid expression "${expression}": ${reason}`);
+}
+
+function tokenize(expression: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    while (i < expression.length) {
+        const ch = expression[i];
+
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[0-9]/.test(ch)) {
+            const match = expression.slice(i).match(/^\d+(\.\d+)?/)!;
+            tokens.push({ type: 'num', value: match[0] });
+            i += match[0].length;
+        } else if (ch === '"' || ch === "'") {
+            const end = expression.indexOf(ch, i + 1);
+            if (end === -1) invalid(expression, 'unterminated string');
+            tokens.push({ type: 'str', value: expression.slice(i + 1, end) });
+            i = end + 1;
+        } else if (/[A-Za-z_$]/.test(ch)) {
+            const match = expression.slice(i).match(/^[A-Za-z_$][\w$]*/)!;
+            tokens.push({ type: 'ident', value: match[0] });
+            i += match[0].length;
+        } else if ('.()[]'.includes(ch)) {
+            tokens.push({ type: 'punct', value: ch });
+            i++;
+        } else {
+            const op = OPERATORS.find(o => expression.startsWith(o, i));
+            if (!op) invalid(expression, `unexpected character "${ch}"`);
+            tokens.push({ type: 'op', value: op });
+            i += op.length;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Parse an expression into an AST. Throws CompilerError(INVALID_EXPRESSION).
+ */
+function parseExpression(expression: string): Expr {
+    const tokens = tokenize(expression);
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const isOp = (...ops: string[]) => peek()?.type === 'op' && ops.includes(peek().value);
+    const expectPunct = (value: string) => {
+        if (peek()?.type !== 'punct' || peek().value !== value) invalid(expression, `expected "${value}"`);
+        pos++;
+    };
+
+    const parseBinary = (ops: string[], next: () => Expr) => (): Expr => {
+        let left = next();
+        while (isOp(...ops)) {
+            const op = tokens[pos++].value;
+            left = { kind: 'binary', op, left, right: next() };
+        }
+        return left;
+    };
+
+    const parsePrimary = (): Expr => {
+        const token = tokens[pos++];
+        if (!token) invalid(expression, 'unexpected end of expression');
+
+        if (token.type === 'num') return { kind: 'literal', value: Number(token.value) };
+        if (token.type === 'str') return { kind: 'literal', value: token.value };
+        if (token.type === 'punct' && token.value === '(') {
+            const inner = parseOr();
+            expectPunct(')');
+            return inner;
+        }
+        if (token.type === 'ident') {
+            if (token.value in KEYWORDS) return { kind: 'literal', value: KEYWORDS[token.value] };
+
+            const segments: Array<string | number> = [token.value];
+            while (peek()?.type === 'punct' && (peek().value === '.' || peek().value === '[')) {
+                if (tokens[pos++].value === '.') {
+                    const name = tokens[pos++];
+                    if (!name || name.type !== 'ident') invalid(expression, 'expected a property name after "."');
+                    segments.push(name.value);
+                } else {
+                    const index = tokens[pos++];
+                    if (!index || (index.type !== 'num' && index.type !== 'str')) invalid(expression, 'expected an index inside "[]"');
+                    segments.push(index.type === 'num' ? Number(index.value) : index.value);
+                    expectPunct(']');
+                }
+            }
+            return { kind: 'path', segments };
+        }
+
+        return invalid(expression, `unexpected "${token.value}"`);
+    };
+
+    const parseUnary = (): Expr => {
+        if (isOp('!')) {
+            pos++;
+            return { kind: 'not', operand: parseUnary() };
+        }
+        return parsePrimary();
+    };
+
+    const parseRelational = parseBinary(['<', '<=', '>', '>='], parseUnary);
+    const parseEquality = parseBinary(['===', '!==', '==', '!='], parseRelational);
+    const parseAnd = parseBinary(['&&'], parseEquality);
+    const parseOr: () => Expr = parseBinary(['||'], parseAnd);
+
+    if (tokens.length === 0) invalid(expression, 'expression is empty');
+    const ast = parseOr();
+    if (pos < tokens.length) invalid(expression, `unexpected "${tokens[pos].value}"`);
+    return ast;
+}
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+function lookupPath(data: ScenarioData, segments: Array<string | number>): any {
+    let current: any = data;
+    for (const segment of segments) {
+        if (current === null || current === undefined) return undefined;
+        if (typeof segment === 'string' && FORBIDDEN_SEGMENTS.has(segment)) return undefined;
+
+        if (segment === 'length' && (Array.isArray(current) || typeof current === 'string')) {
+            current = current.length;
+        } else if (typeof current === 'object' && Object.prototype.hasOwnProperty.call(current, segment)) {
+            current = current[segment];
+        } else {
+            return undefined;
+        }
+    }
+    return current;
+}
+
+function evaluate(expr: Expr, data: ScenarioData): any {
+    switch (expr.kind) {
+        case 'literal': return expr.value;
+        case 'path': return lookupPath(data, expr.segments);
+        case 'not': return !evaluate(expr.operand, data);
+        case 'binary': {
+            if (expr.op === '&&') return evaluate(expr.left, data) && evaluate(expr.right, data);
+            if (expr.op === '||') return evaluate(expr.left, data) || evaluate(expr.right, data);
+
+            const left = evaluate(expr.left, data);
+            const right = evaluate(expr.right, data);
+            switch (expr.op) {
+                case '===': return left === right;
+                case '!==': return left !== right;
+                // Loose equality only ever compares like-typed scenario data
+                case '==': return left == right;
+                case '!=': return left != right;
+                case '<': return left < right;
+                case '<=': return left <= right;
+                case '>': return left > right;
+                case '>=': return left >= right;
+            }
+            return undefined;
+        }
+    }
+}
+
+/**
+ * Check an expression is valid without evaluating it. Returns the error message or null.
+ */
+export function checkExpression(expression: string): string | null {
+    try {
+        parseExpression(expression);
+        return null;
+    } catch (e: any) {
+        return e.details?.reason || e.message;
+    }
+}
+
+/**
+ * Evaluate a condition against scenario data (truthiness, like JavaScript)
+ */
+export function evaluateCondition(expression: string, data: ScenarioData): boolean {
+    return !!evaluate(parseExpression(expression), data);
+}
+
+/**
+ * Expressions used by `{{placeholder}}` tokens in a string, in order
+ */
+export function getPlaceholders(template: string): string[] {
+    const pattern = new RegExp(PLACEHOLDER_PATTERN.source, 'g');
+    const expressions: string[] = [];
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(template)) !== null) {
+        expressions.push(match[1]);
+    }
+    return expressions;
+}
+
+export function hasPlaceholders(template: string | undefined): boolean {
+    return !!template && getPlaceholders(template).length > 0;
+}
+
+/**
+ * Substitute `{{placeholder}}` tokens. Placeholders that resolve to null or
+ * undefined are left as written so missing scenario data stays visible.
+ */
+export function interpolate(template: string, data: ScenarioData): string {
+    return template.replace(PLACEHOLDER_PATTERN, (raw, expression: string) => {
+        const value = evaluate(parseExpression(expression), data);
+        return value === null || value === undefined ? raw : String(value);
+    });
+}
+
+/**
+ * Top-level data names referenced by an expression (e.g. "user" for user.name)
+ */
+export function getDataRoots(expression: string): string[] {
+    const roots = new Set<string>();
+    const walk = (expr: Expr) => {
+        if (expr.kind === 'path') roots.add(String(expr.segments[0]));
+        else if (expr.kind === 'not') walk(expr.operand);
+        else if (expr.kind === 'binary') { walk(expr.left); walk(expr.right); }
+    };
+    walk(parseExpression(expression));
+    return Array.from(roots);
+}
+
+// ============================================================================
+// TREE RESOLUTION
+// ============================================================================
+
+/**
+ * Whether any node in the tree uses a condition or placeholder content
+ */
+export function hasDynamicContent(node: RSNT_Node): boolean {
+    if (node.condition || hasPlaceholders(node.characters)) return true;
+    return (node.children || []).some(hasDynamicContent);
+}
+
+/**
+ * Pick the data context for a render: explicit data, then the named scenario,
+ * then the first scenario declared on the root, then an empty context.
+ */
+export function getScenarioData(root: RSNT_Node, selection?: ScenarioSelection | null): ScenarioData {
+    if (selection?.data) return selection.data;
+
+    const scenarios = root.scenarios || {};
+    if (selection?.name && scenarios[selection.name]) return scenarios[selection.name];
+
+    const first = Object.keys(scenarios)[0];
+    return first ? scenarios[first] : {};
+}
+
+/**
+ * Produce a standalone RSNT tree for one scenario. Nodes whose condition is
+ * false are hidden (not removed) so every branch survives on the canvas.
+ * Raw templates are kept in `metadata.contentTemplate`; conditions stay on the node.
+ */
+export function resolveForScenario(root: RSNT_Node, data: ScenarioData): RSNT_Node {
+    const clone: RSNT_Node = JSON.parse(JSON.stringify(root));
+
+    const apply = (node: RSNT_Node) => {
+        if (node.condition) {
+            if (!evaluateCondition(node.condition, data)) {
+                node.visible = false;
+                node.metadata = { ...node.metadata, hiddenByCondition: true };
+            } else if (node.metadata?.hiddenByCondition) {
+                // Re-resolving for another scenario: restore branches an earlier one hid
+                node.visible = true;
+                delete node.metadata.hiddenByCondition;
+            }
+        }
+
+        const template = node.metadata?.contentTemplate || node.characters;
+        if (hasPlaceholders(template)) {
+            node.metadata = { ...node.metadata, contentTemplate: template };
+            node.characters = interpolate(template, data);
+        }
+
+        (node.children || []).forEach(apply);
+    };
+    apply(clone);
+
+    return clone;
+}
+
+/**
+ * Re-apply a scenario to a design already on the canvas, using the condition
+ * and template persisted on each rendered node: branches are shown or hidden
+ * and text is re-filled. Scenarios come from the nearest rendered root that
+ * declares them. Returns how many layers changed.
+ */
+export async function applyScenarioToRendered(root: SceneNode, selection: ScenarioSelection | null): Promise<number> {
+    let changed = 0;
+
+    const visit = async (node: SceneNode, data: ScenarioData | null) => {
+        const payload = rsntMetadataService.read(node);
+        if (payload && (payload.scenarios || data === null)) {
+            data = getScenarioData({ id: payload.id, type: 'FRAME', scenarios: payload.scenarios }, selection);
+        }
+
+        if (payload && data) {
+            let updated = false;
+            if (payload.condition) {
+                const visible = evaluateCondition(payload.condition, data);
+                if (node.visible !== visible) {
+                    node.visible = visible;
+                    updated = true;
+                }
+            }
+
+            // Component instances carry their text in the first text layer inside
+            const text = node.type === 'TEXT'
+                ? node
+                : node.type === 'INSTANCE' ? node.findOne(n => n.type === 'TEXT') as TextNode | null : null;
+            if (payload.template && text) {
+                const characters = interpolate(payload.template, data);
+                if (text.characters !== characters) {
+                    const length = text.characters.length;
+                    const fonts = length > 0 ? text.getRangeAllFontNames(0, length) : [text.fontName as FontName];
+                    await Promise.all(fonts.map(font => figma.loadFontAsync(font)));
+                    text.characters = characters;
+                    updated = true;
+                }
+            }
+            if (updated) changed++;
+        }
+
+        if ('children' in node && node.type !== 'INSTANCE') {
+            for (const child of node.children) {
+                await visit(child, data);
+            }
+        }
+    };
+    await visit(root, null);
+
+    return changed;
+}
+
+/**
+ * Scenario chosen in the UI; applied to every render until changed
+ */
+export const scenarioService = {
+    active: null as ScenarioSelection | null,
+
+    setActive(selection: ScenarioSelection | null): void {
+        this.active = selection && (selection.name || selection.data) ? selection : null;
+    },
+
+    getData(root: RSNT_Node): ScenarioData {
+        return getScenarioData(root, this.active);
+    }
+};
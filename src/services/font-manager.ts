@@ -3,6 +3,8 @@ import { createExecutionError, ErrorCode } from '../types/errors';
 
 export class FontManager {
     private loadedFonts: Set<string> = new Set();
+    // Default font per inventory, so detection runs once per discovery rather than per text node
+    private detectedDefaults = new WeakMap<DesignSystemInventory, FontName>();
     private fallbackChain: FontName[] = [
         { family: 'Inter', style: 'Regular' },
         { family: 'Roboto', style: 'Regular' },
@@ -15,12 +17,14 @@ export class FontManager {
     async getDefaultFont(inventory?: DesignSystemInventory): Promise<FontName> {
         // Try to detect fonts from design system
         if (inventory) {
-            const detectedFonts = this.detectFontsFromDesignSystem(inventory);
+            const known = this.detectedDefaults.get(inventory);
+            const detectedFonts = known ? [known] : this.detectFontsFromDesignSystem(inventory);
             if (detectedFonts.length > 0) {
                 // Try to load the most common font
                 const font = detectedFonts[0];
                 try {
                     await figma.loadFontAsync(font);
+                    this.detectedDefaults.set(inventory, font);
                     return font;
                 } catch (error) {
                     console.warn(`Could not load detected font ${font.family}, using fallback`);
@@ -72,9 +76,22 @@ export class FontManager {
     }
 
     /**
-     * Detect fonts used in the design system
+     * Detect fonts used in the design system: text styles first (most used font
+     * first), then the text on the current page
      */
     detectFontsFromDesignSystem(inventory: DesignSystemInventory): FontName[] {
+        const styleFonts = new Map<string, { font: FontName; count: number }>();
+        for (const style of inventory.styles || []) {
+            if (style.type !== 'TEXT' || !style.fontName) continue;
+            const key = `${style.fontName.family}-${style.fontName.style}`;
+            const entry = styleFonts.get(key) || { font: style.fontName, count: 0 };
+            entry.count++;
+            styleFonts.set(key, entry);
+        }
+        if (styleFonts.size > 0) {
+            return Array.from(styleFonts.values()).sort((a, b) => b.count - a.count).map(entry => entry.font);
+        }
+
         const fontMap = new Map<string, FontName>();
 
         // Scan all text nodes in the current page for fonts
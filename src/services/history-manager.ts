@@ -102,6 +102,13 @@ export class HistoryManager {
         return this.history[this.currentIndex];
     }
 
+    /**
+     * Get all entries, oldest first
+     */
+    getEntries(): HistoryEntry[] {
+        return [...this.history];
+    }
+
     /**
      * Get history summary
      */
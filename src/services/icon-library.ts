@@ -0,0 +1,187 @@
+/**
+ * Icon Library Service
+ * Indexes the icons in a design system so generations can ask for them by
+ * semantic name ("search", "chevron-right") instead of component id, and
+ * resolves those names for icon nodes and for the icon slots of buttons and
+ * inputs.
+ */
+
+import { ComponentInfo, DesignSystemInventory } from './auto-discovery';
+import { RSNT_Node } from '../types/rsnt';
+import { ICON_ALIASES } from '../data/icon-aliases';
+
+const ICON_SEGMENTS = new Set(['icon', 'icons', 'ic', 'glyph', 'glyphs']);
+const NAME_PROPERTIES = /^(name|icon|glyph|symbol|type)$/i;
+const MAX_PROMPT_ICONS = 80;
+
+export interface IconInfo {
+    id: string; // Component to instantiate or swap in (a variant for icon sets)
+    key: string; // Import key of that component
+    name: string; // Normalized semantic name, e.g. "chevron-right"
+    tokens: string[]; // Name words plus their aliases, for matching
+    componentId: string; // Inventory component (the set, for variants)
+    properties?: Record<string, string>; // Variant values selecting this icon in its set
+    source?: ComponentInfo['source'];
+}
+
+/** Alias -> every name in its group, canonical name first */
+const ALIAS_GROUPS: Map<string, string[]> = (() => {
+    const groups = new Map<string, string[]>();
+    for (const [canonical, aliases] of Object.entries(ICON_ALIASES)) {
+        const group = [canonical, ...aliases];
+        group.forEach(name => {
+            if (!groups.has(name)) groups.set(name, group);
+        });
+    }
+    return groups;
+})();
+
+/**
+ * Normalize an icon or layer name to kebab case, dropping icon prefixes and
+ * size suffixes: "Icons / ArrowRight 24px" -> "arrow-right"
+ */
+export function normalizeIconName(raw: string): string {
+    const last = raw.split('/').map(s => s.trim()).filter(Boolean).pop() || raw;
+    const words = last
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean);
+
+    while (words.length > 1 && ICON_SEGMENTS.has(words[0])) words.shift();
+    while (words.length > 1 && /^\d+(px)?$/.test(words[words.length - 1])) words.pop();
+    if (words.length > 1 && ICON_SEGMENTS.has(words[words.length - 1])) words.pop();
+
+    return words.join('-');
+}
+
+/**
+ * Whether a component is an icon: it lives under an "Icons/" path or has an
+ * icon prefix, or discovery or classification called it one
+ */
+export function isIconComponent(component: ComponentInfo): boolean {
+    const segments = component.name.split('/').map(s => s.trim().toLowerCase());
+    if (segments.length > 1 && segments.slice(0, -1).some(s => ICON_SEGMENTS.has(s))) return true;
+    if (/^(icons?|ic)[-_]/i.test(component.name)) return true;
+    return component.semanticType === 'icon' || component.suggestedRole === 'Icon';
+}
+
+function iconTokens(name: string): string[] {
+    const tokens = new Set<string>([name, ...name.split('-')]);
+    for (const token of Array.from(tokens)) {
+        (ALIAS_GROUPS.get(token) || []).forEach(alias => tokens.add(alias));
+    }
+    return Array.from(tokens);
+}
+
+function iconEntry(
+    name: string,
+    component: { id: string; key: string },
+    owner: ComponentInfo,
+    properties?: Record<string, string>
+): IconInfo {
+    const icon: IconInfo = {
+        id: component.id,
+        key: component.key,
+        name,
+        tokens: iconTokens(name),
+        componentId: owner.id
+    };
+    if (properties) icon.properties = properties;
+    if (owner.source) icon.source = owner.source;
+    return icon;
+}
+
+/**
+ * Build the icon index from discovered components. Icon sets contribute one
+ * entry per value of their name property ("Name=Search"); other sets and
+ * single components contribute one entry named after the component. The
+ * first icon with a given name wins.
+ */
+export function buildIconIndex(components: ComponentInfo[]): IconInfo[] {
+    const icons: IconInfo[] = [];
+    const seen = new Set<string>();
+    const add = (icon: IconInfo) => {
+        if (!icon.name || seen.has(icon.name)) return;
+        seen.add(icon.name);
+        icons.push(icon);
+    };
+
+    for (const component of components) {
+        if (!isIconComponent(component)) continue;
+
+        const node = figma.getNodeById(component.id);
+        if (component.type !== 'COMPONENT_SET' || !node || node.type !== 'COMPONENT_SET') {
+            add(iconEntry(normalizeIconName(component.name), component, component));
+            continue;
+        }
+
+        const set = node as ComponentSetNode;
+        const variantNames = Object.keys(component.variantProperties || {});
+        const nameProperty = variantNames.find(p => NAME_PROPERTIES.test(p)) || (variantNames.length === 1 ? variantNames[0] : undefined);
+
+        if (!nameProperty) {
+            add(iconEntry(normalizeIconName(component.name), set.defaultVariant, component));
+            continue;
+        }
+
+        for (const variant of set.children as ComponentNode[]) {
+            const value = variant.variantProperties?.[nameProperty];
+            if (value) add(iconEntry(normalizeIconName(value), variant, component, { [nameProperty]: value }));
+        }
+    }
+
+    return icons;
+}
+
+/**
+ * Find an icon by semantic name: an exact name, then an icon known by that
+ * name through the alias lists, then one whose words include every word
+ * asked for. Shorter names win ties, so "arrow" prefers "arrow-right" over
+ * "arrow-right-circle".
+ */
+export function findIcon(name: string, icons: IconInfo[]): IconInfo | null {
+    const query = normalizeIconName(name);
+    if (!query) return null;
+
+    const shortest = (matches: IconInfo[]) =>
+        matches.length > 0 ? matches.reduce((a, b) => (b.name.length < a.name.length ? b : a)) : null;
+
+    const exact = icons.find(icon => icon.name === query);
+    if (exact) return exact;
+
+    const aliases = ALIAS_GROUPS.get(query) || [];
+    const aliased = shortest(icons.filter(icon => icon.tokens.includes(query) || aliases.includes(icon.name)));
+    if (aliased) return aliased;
+
+    const words = query.split('-');
+    return shortest(icons.filter(icon => words.every(word => icon.tokens.includes(word))));
+}
+
+/**
+ * Point an icon node (one that asks for `icon` by name) at the matching icon
+ * component. Returns the icon, or null when the inventory has no match.
+ */
+export function resolveIconNode(node: RSNT_Node, inventory: DesignSystemInventory): IconInfo | null {
+    const icon = node.icon ? findIcon(node.icon, inventory.icons || []) : null;
+    if (!icon) return null;
+
+    node.componentId = icon.componentId;
+    const owner = inventory.components.find(c => c.id === icon.componentId);
+    if (owner?.source === 'library') node.componentKey = owner.key;
+    if (icon.properties) node.properties = { ...node.properties, ...icon.properties };
+    return icon;
+}
+
+/**
+ * Icon names for AI prompts, or an empty string when the inventory has no
+ * icons so prompts for icon-less systems are unchanged
+ */
+export function describeIcons(inventory: DesignSystemInventory): string {
+    const icons = inventory.icons || [];
+    if (icons.length === 0) return '';
+
+    const names = icons.slice(0, MAX_PROMPT_ICONS).map(icon => icon.name);
+    const more = icons.length > names.length ? ` (+${icons.length - names.length} more)` : '';
+    return `${names.join(', ')}${more}`;
+}
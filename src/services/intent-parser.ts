@@ -7,6 +7,7 @@
 
 import { extractJSON } from '../utils/json-utils';
 import { DesignSystemInventory, ComponentInfo } from './auto-discovery';
+import { describeIcons } from './icon-library';
 
 // ============================================================================
 // TYPES
@@ -25,6 +26,8 @@ export interface ComponentRequirement {
     level?: 1 | 2 | 3 | 4 | 5 | 6; // For headings
     items?: string[]; // For lists, selects
     defaultValue?: string;
+    icon?: string; // Semantic icon name: the icon itself for 'icon', else a leading icon
+    trailingIcon?: string; // Icon after the label, for buttons and inputs
 }
 
 export interface LayoutRequirement {
@@ -62,6 +65,93 @@ export interface DesignIntent {
     iterationAction?: string; // 'style' | 'layout' | 'content' | 'add' | 'remove'
 }
 
+// ============================================================================
+// RULE GRAMMAR (offline parsing)
+// ============================================================================
+
+interface ComponentRule {
+    pattern: RegExp;
+    requirement: ComponentRequirement;
+}
+
+interface ContextRule {
+    pattern: RegExp;
+    context: string;
+    purpose: string;
+    title: string;
+}
+
+/**
+ * Keyword rules, most specific first. A matched phrase is consumed so later,
+ * more general rules ("password" after "forgot password") don't fire on it.
+ */
+const COMPONENT_RULES: ComponentRule[] = [
+    { pattern: /\bforgot(?:ten)? (?:your )?password\b/, requirement: { type: 'button', label: 'Forgot password?', variant: 'ghost' } },
+    { pattern: /\bconfirm(?:ation)? password\b/, requirement: { type: 'input', label: 'Confirm password', inputType: 'password', required: true } },
+    { pattern: /\be-?mail(?: address)?\b/, requirement: { type: 'input', label: 'Email', inputType: 'email', required: true } },
+    { pattern: /\bpassword\b/, requirement: { type: 'input', label: 'Password', inputType: 'password', required: true } },
+    { pattern: /\bfirst name\b/, requirement: { type: 'input', label: 'First name', inputType: 'text', required: true } },
+    { pattern: /\blast name\b/, requirement: { type: 'input', label: 'Last name', inputType: 'text', required: true } },
+    { pattern: /\buser ?name\b/, requirement: { type: 'input', label: 'Username', inputType: 'text', required: true } },
+    { pattern: /\bcompany\b/, requirement: { type: 'input', label: 'Company', inputType: 'text' } },
+    { pattern: /\b(?:full )?name\b/, requirement: { type: 'input', label: 'Full name', inputType: 'text', required: true } },
+    { pattern: /\b(?:phone(?: number)?|mobile number|telephone)\b/, requirement: { type: 'input', label: 'Phone number', inputType: 'tel' } },
+    { pattern: /\b(?:card number|credit card)\b/, requirement: { type: 'input', label: 'Card number', inputType: 'number', required: true } },
+    { pattern: /\bexpir(?:y|ation)(?: date)?\b/, requirement: { type: 'input', label: 'Expiry date', inputType: 'text', required: true } },
+    { pattern: /\b(?:cvc|cvv)\b/, requirement: { type: 'input', label: 'CVC', inputType: 'number', required: true } },
+    { pattern: /\b(?:date of birth|birthday|birth ?date)\b/, requirement: { type: 'input', label: 'Date of birth', inputType: 'date' } },
+    { pattern: /\bdate\b/, requirement: { type: 'input', label: 'Date', inputType: 'date' } },
+    { pattern: /\b(?:street )?address\b/, requirement: { type: 'input', label: 'Address', inputType: 'text' } },
+    { pattern: /\b(?:website|url)\b/, requirement: { type: 'input', label: 'Website', inputType: 'url' } },
+    { pattern: /\b(?:quantity|amount)\b/, requirement: { type: 'input', label: 'Quantity', inputType: 'number' } },
+    { pattern: /\b(?:message|comments?)\b/, requirement: { type: 'input', label: 'Message', inputType: 'text' } },
+    { pattern: /\bsearch(?: bar| field| input| box)?\b/, requirement: { type: 'input', label: 'Search', inputType: 'search', placeholder: 'Search...' } },
+    { pattern: /\bremember me\b/, requirement: { type: 'checkbox', label: 'Remember me' } },
+    { pattern: /\bterms(?: and conditions| of service)?\b/, requirement: { type: 'checkbox', label: 'I agree to the terms and conditions', required: true } },
+    { pattern: /\bcheck ?box(?:es)?\b/, requirement: { type: 'checkbox', label: 'Option' } },
+    { pattern: /\bradio(?: buttons?| group)?\b/, requirement: { type: 'radio', label: 'Option', items: ['Option 1', 'Option 2'] } },
+    { pattern: /\b(?:toggle|switch)(?:es)?\b/, requirement: { type: 'toggle', label: 'Enable' } },
+    { pattern: /\bcountry\b/, requirement: { type: 'select', label: 'Country' } },
+    { pattern: /\b(?:drop-?down|select|picker)\b/, requirement: { type: 'select', label: 'Select an option' } },
+    { pattern: /\b(?:avatar|profile (?:picture|photo))\b/, requirement: { type: 'avatar' } },
+    { pattern: /\b(?:image|photo|picture|thumbnail|illustration)\b/, requirement: { type: 'image' } },
+    { pattern: /\bicons?\b/, requirement: { type: 'icon' } },
+    { pattern: /\bbadges?\b/, requirement: { type: 'badge', text: 'New' } },
+    { pattern: /\b(?:tags?|chips?)\b/, requirement: { type: 'tag', text: 'Tag' } },
+    { pattern: /\b(?:divider|separator)\b/, requirement: { type: 'divider' } },
+    { pattern: /\b(?:description|subtitle|subheading|tagline|paragraph)\b/, requirement: { type: 'text', text: 'Add a short description here.' } },
+    { pattern: /\bcancel\b/, requirement: { type: 'button', label: 'Cancel', variant: 'secondary' } },
+    { pattern: /\bdelete\b/, requirement: { type: 'button', label: 'Delete', variant: 'destructive' } },
+    { pattern: /\bcards?\b/, requirement: { type: 'card' } },
+];
+
+const CONTEXT_RULES: ContextRule[] = [
+    { pattern: /\b(?:log ?in|sign ?in)\b/, context: 'login', purpose: 'authentication', title: 'Welcome back' },
+    { pattern: /\b(?:sign ?up|register|registration|create (?:an )?account)\b/, context: 'signup', purpose: 'authentication', title: 'Create your account' },
+    { pattern: /\b(?:checkout|payment|billing)\b/, context: 'checkout', purpose: 'data-entry', title: 'Checkout' },
+    { pattern: /\bcontact\b/, context: 'contact', purpose: 'data-entry', title: 'Contact us' },
+    { pattern: /\b(?:settings|preferences)\b/, context: 'settings', purpose: 'data-entry', title: 'Settings' },
+    { pattern: /\bsearch\b/, context: 'search', purpose: 'action', title: 'Search' },
+    { pattern: /\bfilters?\b/, context: 'filter', purpose: 'action', title: 'Filters' },
+    { pattern: /\bprofile\b/, context: 'profile', purpose: 'display', title: 'Profile' },
+    { pattern: /\b(?:dashboard|analytics|overview)\b/, context: 'dashboard', purpose: 'display', title: 'Overview' },
+    { pattern: /\b(?:nav|navigation|menu|sidebar)\b/, context: 'navigation', purpose: 'navigation', title: 'Menu' },
+];
+
+const NUMBER_WORDS: Record<string, number> = { two: 2, three: 3, four: 4, five: 5, six: 6 };
+
+const QUOTED_BUTTON = /"([^"]+)"\s+(?:button|cta)\b|\b(?:button|cta)\s+(?:labell?ed|saying|that says|called|with (?:the )?text)\s+"([^"]+)"/g;
+const QUOTED_TITLE = /\b(?:title|heading|headline)\s+(?:of |saying |that says |reading )?"([^"]+)"|"([^"]+)"\s+(?:title|heading|headline)\b/;
+const REPEATED_CARDS = /\b(\d+|two|three|four|five|six)\s+(?:[a-z]+\s+)?(cards|tiles|stats|metrics|products|items)\b/;
+
+function toCount(word: string): number {
+    return NUMBER_WORDS[word] || Math.min(parseInt(word, 10) || 1, 12);
+}
+
+function capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
 // ============================================================================
 // INTENT PARSER
 // ============================================================================
@@ -69,13 +159,18 @@ export interface DesignIntent {
 export class IntentParser {
     constructor(
         private inventory: DesignSystemInventory,
-        private aiCall: (prompt: string, systemPrompt: string) => Promise<string>
+        private aiCall: ((prompt: string, systemPrompt: string) => Promise<string>) | null = null
     ) { }
 
     /**
-     * Parse a user prompt into structured DesignIntent
+     * Parse a user prompt into structured DesignIntent.
+     * Without an AI call the rule-based grammar is used (offline mode).
      */
     async parse(userPrompt: string): Promise<DesignIntent> {
+        if (!this.aiCall) {
+            return this.parseWithRules(userPrompt);
+        }
+
         // 2. Initial regex-based intent classification
         const iterationCheck = this.isIterationRequest(userPrompt);
 
@@ -97,6 +192,131 @@ export class IntentParser {
         }
     }
 
+    /**
+     * Deterministic keyword grammar used when no AI is available. Recognises
+     * context (login, checkout, ...), components by keyword, quoted button and
+     * title text, repeated cards ("three stat cards") and layout hints.
+     */
+    parseWithRules(userPrompt: string): DesignIntent {
+        // Normalise curly quotes so quoted labels match one pattern
+        let text = userPrompt.toLowerCase().replace(/[“”]/g, '"');
+        const original = userPrompt.replace(/[“”]/g, '"');
+        const found: Array<{ index: number; requirement: ComponentRequirement }> = [];
+        const matched: string[] = [];
+
+        const consume = (index: number, length: number) => {
+            text = text.slice(0, index) + ' '.repeat(length) + text.slice(index + length);
+        };
+
+        // Quoted text keeps the user's casing, so read it from the original prompt
+        let title: string | undefined;
+        const titleMatch = text.match(QUOTED_TITLE);
+        if (titleMatch && titleMatch.index !== undefined) {
+            title = original.slice(titleMatch.index, titleMatch.index + titleMatch[0].length).match(/"([^"]+)"/)![1];
+            consume(titleMatch.index, titleMatch[0].length);
+        }
+
+        const buttonPattern = new RegExp(QUOTED_BUTTON.source, 'g');
+        let buttonMatch: RegExpExecArray | null;
+        while ((buttonMatch = buttonPattern.exec(text)) !== null) {
+            const label = original.slice(buttonMatch.index, buttonMatch.index + buttonMatch[0].length).match(/"([^"]+)"/)![1];
+            const isFirst = !found.some(f => f.requirement.type === 'button');
+            found.push({ index: buttonMatch.index, requirement: { type: 'button', label, variant: isFirst ? 'primary' : 'secondary' } });
+            matched.push(`"${label}" button`);
+            consume(buttonMatch.index, buttonMatch[0].length);
+        }
+
+        const cardMatch = text.match(REPEATED_CARDS);
+        let cardCount = 0;
+        if (cardMatch && cardMatch.index !== undefined) {
+            cardCount = toCount(cardMatch[1]);
+            const noun = capitalize(cardMatch[2].replace(/s$/, ''));
+            for (let i = 0; i < cardCount; i++) {
+                found.push({ index: cardMatch.index + i / 100, requirement: { type: 'card', label: `${noun} ${i + 1}` } });
+            }
+            matched.push(`${cardCount} ${cardMatch[2]}`);
+            consume(cardMatch.index, cardMatch[0].length);
+        }
+
+        const contextRule = CONTEXT_RULES.find(rule => rule.pattern.test(text));
+
+        for (const rule of COMPONENT_RULES) {
+            const match = text.match(rule.pattern);
+            if (!match || match.index === undefined) continue;
+
+            found.push({ index: match.index, requirement: { ...rule.requirement } });
+            matched.push(match[0].trim());
+            const global = new RegExp(rule.pattern.source, 'g');
+            let occurrence: RegExpExecArray | null;
+            while ((occurrence = global.exec(text)) !== null) {
+                consume(occurrence.index, occurrence[0].length);
+            }
+        }
+
+        // A plain "button" with no quoted label gets the context's default label
+        const plainButton = text.match(/\b(?:button|cta|call to action)\b/);
+        if (plainButton && plainButton.index !== undefined && !found.some(f => f.requirement.type === 'button' && f.requirement.variant === 'primary')) {
+            found.push({
+                index: plainButton.index,
+                requirement: { type: 'button', label: this.inferButtonLabel(contextRule?.context || 'submit'), variant: 'primary' }
+            });
+            matched.push('button');
+        }
+
+        const type = this.inferType(userPrompt);
+        const components = found
+            .sort((a, b) => a.index - b.index)
+            .map(f => f.requirement);
+
+        // Forms get their heading from the title during enrichment
+        const wantsHeading = !!title || /\b(?:title|heading|headline)\b/.test(text);
+        if (!title && (contextRule || wantsHeading)) {
+            title = contextRule ? contextRule.title : 'Title';
+        }
+        if (wantsHeading && type !== 'form') {
+            components.unshift({ type: 'heading', text: title, level: 2 });
+        }
+
+        const signals = components.length + (contextRule ? 1 : 0) + (type !== 'section' ? 1 : 0);
+        if (signals === 0) {
+            return this.createFallbackIntent(userPrompt, 'Fallback intent - no keywords recognised by the offline grammar');
+        }
+
+        const lower = userPrompt.toLowerCase();
+        const columnsMatch = lower.match(/\b(\d+|two|three|four|five|six)[- ]columns?\b/);
+        const direction = columnsMatch || /\b(?:grid|gallery)\b/.test(lower) || (cardCount > 1 && type !== 'form')
+            ? 'grid'
+            : /\b(?:horizontal|side by side|inline|in a row)\b/.test(lower) ? 'horizontal' : 'vertical';
+        const platform = /\b(?:mobile(?! number)|ios|android|iphone)\b/.test(lower)
+            ? 'mobile'
+            : /\bresponsive\b/.test(lower) ? 'responsive' : 'desktop';
+
+        const parsed = {
+            type,
+            title,
+            description: userPrompt,
+            components,
+            layout: {
+                direction,
+                spacing: /\b(?:compact|tight|dense)\b/.test(lower) ? 'tight' : /\b(?:spacious|airy|relaxed|roomy)\b/.test(lower) ? 'relaxed' : 'normal',
+                alignment: /\bcent(?:er|re)(?:ed)?\b/.test(lower) ? 'center' : 'stretch',
+                maxWidth: platform === 'mobile' ? 375 : (type === 'form' || type === 'modal' ? 400 : undefined),
+                columns: direction === 'grid' ? (columnsMatch ? toCount(columnsMatch[1]) : Math.min(cardCount || 3, 4)) : undefined,
+            },
+            constraints: {
+                purpose: contextRule?.purpose || (type === 'form' ? 'data-entry' : type === 'navigation' ? 'navigation' : 'display'),
+                context: contextRule?.context || 'general',
+                platform,
+                style: /\b(?:minimal|simple|clean)\b/.test(lower) ? 'minimal' : /\b(?:compact|dense)\b/.test(lower) ? 'compact' : 'detailed',
+            },
+            confidence: Math.min(0.85, 0.45 + 0.08 * signals),
+            reasoning: `Rule-based parse (offline): ${type}${contextRule ? ` for ${contextRule.context}` : ''}` +
+                (matched.length > 0 ? `; matched ${matched.join(', ')}` : ''),
+        };
+
+        return this.validateAndEnrich(parsed, userPrompt);
+    }
+
     private buildSystemPrompt(): string {
         // Get available component types from inventory
         const componentTypes = this.getComponentTypes();
@@ -152,7 +372,21 @@ RULES:
 2. Infer missing details from context (login form needs email + password + submit button)
 3. Set confidence based on how clear the request is
 4. Include reasoning to explain your interpretation
-5. For ambiguous requests, choose sensible defaults but lower confidence`;
+5. For ambiguous requests, choose sensible defaults but lower confidence${this.buildIconRules()}`;
+    }
+
+    /**
+     * Icon names the design system provides; empty when it has none
+     */
+    private buildIconRules(): string {
+        const icons = describeIcons(this.inventory);
+        if (!icons) return '';
+
+        return `
+
+AVAILABLE ICONS: ${icons}
+6. To show an icon, add a component with "type": "icon" and "icon" set to one of these names
+7. Buttons and inputs may set "icon" (before the label) and "trailingIcon" (after it) to one of these names`;
     }
 
     private buildUserMessage(prompt: string): string {
@@ -255,6 +489,8 @@ Return ONLY valid JSON matching the schema. No explanation outside JSON.`;
             level: c.level,
             items: c.items,
             defaultValue: c.defaultValue,
+            icon: c.icon,
+            trailingIcon: c.trailingIcon,
         }));
     }
 
@@ -264,11 +500,12 @@ Return ONLY valid JSON matching the schema. No explanation outside JSON.`;
         if (lower.includes('form') || lower.includes('login') || lower.includes('signup') || lower.includes('register')) {
             return 'form';
         }
+        // Dashboards are usually made of cards, so check them first
+        if (lower.includes('dashboard') || lower.includes('overview')) return 'dashboard';
         if (lower.includes('card')) return 'card';
         if (lower.includes('modal') || lower.includes('dialog') || lower.includes('popup')) return 'modal';
         if (lower.includes('page') || lower.includes('screen')) return 'page';
         if (lower.includes('nav') || lower.includes('menu') || lower.includes('sidebar')) return 'navigation';
-        if (lower.includes('dashboard') || lower.includes('overview')) return 'dashboard';
         if (lower.includes('list') || lower.includes('table')) return 'list';
 
         return 'section';
@@ -302,8 +539,11 @@ Return ONLY valid JSON matching the schema. No explanation outside JSON.`;
 
         // Login forms need email and password
         if (intent.constraints.context === 'login') {
-            const hasEmail = components.some(c => c.inputType === 'email' || c.label?.toLowerCase().includes('email'));
-            const hasPassword = components.some(c => c.inputType === 'password' || c.label?.toLowerCase().includes('password'));
+            // Only inputs count: a "Forgot password?" link is not a password field
+            const isField = (c: ComponentRequirement, name: string) =>
+                c.inputType === name || (c.type === 'input' && !!c.label?.toLowerCase().includes(name));
+            const hasEmail = components.some(c => isField(c, 'email'));
+            const hasPassword = components.some(c => isField(c, 'password'));
 
             if (!hasEmail) {
                 const insertIdx = components.findIndex(c => c.type === 'button');
@@ -339,13 +579,17 @@ Return ONLY valid JSON matching the schema. No explanation outside JSON.`;
             search: 'Search',
             filter: 'Apply Filters',
             save: 'Save',
+            settings: 'Save Changes',
             submit: 'Submit',
         };
 
         return labels[context.toLowerCase()] || 'Submit';
     }
 
-    private createFallbackIntent(prompt: string): DesignIntent {
+    private createFallbackIntent(
+        prompt: string,
+        reasoning: string = 'Fallback intent - could not parse AI response'
+    ): DesignIntent {
         return {
             type: this.inferType(prompt),
             components: [],
@@ -360,17 +604,17 @@ Return ONLY valid JSON matching the schema. No explanation outside JSON.`;
                 platform: 'desktop',
             },
             confidence: 0.3,
-            reasoning: 'Fallback intent - could not parse AI response',
+            reasoning,
         };
     }
 }
 
 /**
- * Create a singleton-like parser factory
+ * Create a singleton-like parser factory. Pass no aiCall for offline parsing.
  */
 export function createIntentParser(
     inventory: DesignSystemInventory,
-    aiCall: (prompt: string, systemPrompt: string) => Promise<string>
+    aiCall: ((prompt: string, systemPrompt: string) => Promise<string>) | null = null
 ): IntentParser {
     return new IntentParser(inventory, aiCall);
 }
@@ -0,0 +1,154 @@
+/**
+ * Inventory Changelog Service
+ * Summarizes what changed between discovery runs, keeps a rolling per-file
+ * changelog, and finds generated designs that reference removed components.
+ */
+
+import { InventoryDiff, InventoryChange } from './auto-discovery';
+import { rsntMetadataService } from './rsnt-metadata';
+
+const CHANGELOG_KEY_PREFIX = 'inventory-changelog-v1-';
+const MAX_ENTRIES = 20;
+const MAX_DETAIL_LINES = 5;
+
+/**
+ * A generated design that references components which no longer exist
+ */
+export interface AffectedDesign {
+    figmaNodeId: string; // Root node of the generated design
+    intent: string;
+    components: string[]; // Names of the removed components it uses
+}
+
+export interface ChangelogEntry {
+    timestamp: number;
+    summary: string[]; // e.g. ["3 components added", "Button variants changed"]
+    counts: { added: number; removed: number; modified: number };
+    removedComponents: string[];
+    affectedDesigns: AffectedDesign[];
+}
+
+const CHANGE_LABELS: Record<InventoryChange, string> = {
+    renamed: 'renamed',
+    description: 'description changed',
+    variants: 'variants changed',
+    properties: 'properties changed',
+    type: 'type changed',
+    value: 'value changed'
+};
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Human-readable lines for a diff, most significant first. Modified components
+ * are named individually (up to a limit); variables are counted.
+ */
+export function summarizeInventoryDiff(diff: InventoryDiff): string[] {
+    const lines: string[] = [];
+
+    if (diff.added.components.length > 0) lines.push(`${plural(diff.added.components.length, 'component')} added`);
+    if (diff.removed.componentIds.length > 0) lines.push(`${plural(diff.removed.componentIds.length, 'component')} removed`);
+
+    const modified = diff.modified.components;
+    modified.slice(0, MAX_DETAIL_LINES).forEach(component => {
+        const changes = (diff.changes[component.id] || []).map(change => CHANGE_LABELS[change]);
+        lines.push(`${component.name} ${changes.join(', ') || 'changed'}`);
+    });
+    if (modified.length > MAX_DETAIL_LINES) {
+        lines.push(`${plural(modified.length - MAX_DETAIL_LINES, 'more component')} changed`);
+    }
+
+    if (diff.added.variables.length > 0) lines.push(`${plural(diff.added.variables.length, 'variable')} added`);
+    if (diff.removed.variableIds.length > 0) lines.push(`${plural(diff.removed.variableIds.length, 'variable')} removed`);
+    if (diff.modified.variables.length > 0) lines.push(`${plural(diff.modified.variables.length, 'variable')} changed`);
+
+    return lines;
+}
+
+/**
+ * Generated designs on the canvas that use a removed component, by id or key.
+ * Rendered nodes carry the component they instantiate in their RSNT payload;
+ * each hit is grouped under its design's root (the payload with the intent).
+ */
+export function findAffectedDesigns(diff: InventoryDiff): AffectedDesign[] {
+    if (diff.removed.components.length === 0) return [];
+
+    const byId = new Map(diff.removed.components.map(c => [c.id, c.name]));
+    const byKey = new Map(diff.removed.components.map(c => [c.key, c.name]));
+
+    const designs = new Map<string, AffectedDesign>();
+    figma.root.findAll(node => {
+        const payload = rsntMetadataService.read(node);
+        const name = payload && ((payload.componentId && byId.get(payload.componentId)) || (payload.componentKey && byKey.get(payload.componentKey)));
+        if (!name) return false;
+
+        // Walk up to the generated root; fall back to the outermost node on the page
+        let root: BaseNode = node;
+        let intent = payload!.intent;
+        for (let current = node.parent; !intent && current && current.type !== 'PAGE'; current = current.parent) {
+            root = current;
+            intent = rsntMetadataService.read(current)?.intent;
+        }
+
+        const design = designs.get(root.id) || { figmaNodeId: root.id, intent: intent || root.name, components: [] };
+        if (!design.components.includes(name)) design.components.push(name);
+        designs.set(root.id, design);
+        return false;
+    });
+    return Array.from(designs.values());
+}
+
+export class InventoryChangelogService {
+    private get storageKey(): string {
+        return CHANGELOG_KEY_PREFIX + (figma.fileKey || 'local');
+    }
+
+    /**
+     * Load the changelog for this file, newest first
+     */
+    async load(): Promise<ChangelogEntry[]> {
+        try {
+            const stored = await figma.clientStorage.getAsync(this.storageKey);
+            return Array.isArray(stored) ? stored : [];
+        } catch (e) {
+            console.warn('Failed to load inventory changelog', e);
+            return [];
+        }
+    }
+
+    /**
+     * Record a diff. Returns the new entry, or null when nothing changed.
+     */
+    async record(diff: InventoryDiff): Promise<ChangelogEntry | null> {
+        const summary = summarizeInventoryDiff(diff);
+        if (summary.length === 0) return null;
+
+        const entry: ChangelogEntry = {
+            timestamp: Date.now(),
+            summary,
+            counts: {
+                added: diff.added.components.length + diff.added.variables.length,
+                removed: diff.removed.componentIds.length + diff.removed.variableIds.length,
+                modified: diff.modified.components.length + diff.modified.variables.length
+            },
+            removedComponents: diff.removed.components.map(c => c.name),
+            affectedDesigns: findAffectedDesigns(diff)
+        };
+
+        const entries = [entry, ...await this.load()].slice(0, MAX_ENTRIES);
+        try {
+            await figma.clientStorage.setAsync(this.storageKey, entries);
+        } catch (e) {
+            console.warn('Failed to save inventory changelog', e);
+        }
+        return entry;
+    }
+
+    async clear(): Promise<void> {
+        await figma.clientStorage.deleteAsync(this.storageKey);
+    }
+}
+
+export const inventoryChangelog = new InventoryChangelogService();
@@ -0,0 +1,232 @@
+/**
+ * Inventory Manifest Service
+ * Exports a discovered inventory as a versioned JSON manifest and imports it
+ * into another file, so AI classifications and property mappings are reused
+ * instead of rebuilt.
+ */
+
+import { DesignSystemInventory, ComponentInfo, VariableInfo, StyleInfo } from './auto-discovery';
+import { InventoryManifest, ManifestVariable, ManifestImportReport } from '../types/manifest';
+import { createDiscoveryError, ErrorCode } from '../types/errors';
+import { cacheService } from './cache';
+import { propertyMappingService } from './property-mapping';
+
+export const MANIFEST_FORMAT = 'design-system-manifest';
+export const MANIFEST_VERSION = 1;
+
+const IMPORTED_LIBRARY_KEY_PREFIX = 'imported-library-components-v1-';
+
+/**
+ * Build a manifest from an inventory. File-specific ids are replaced where
+ * another file could not resolve them: mappings point at component keys and
+ * aliases at variable names.
+ */
+export function exportInventoryManifest(inventory: DesignSystemInventory): InventoryManifest {
+    const componentKeys = new Map(inventory.components.map(c => [c.id, c.key]));
+    const variableNames = new Map(inventory.variables.map(v => [v.id, v.name]));
+
+    const variables: ManifestVariable[] = inventory.variables.map(({ id, aliasOf, ...rest }) => {
+        const variable: ManifestVariable = { ...rest };
+        if (aliasOf && variableNames.has(aliasOf)) variable.aliasOf = variableNames.get(aliasOf);
+        return variable;
+    });
+
+    const suggestedMappings: Record<string, string> = {};
+    for (const [role, componentId] of Object.entries(inventory.suggestedMappings || {})) {
+        const key = componentKeys.get(componentId);
+        if (key) suggestedMappings[role] = key;
+    }
+
+    return {
+        format: MANIFEST_FORMAT,
+        version: MANIFEST_VERSION,
+        exportedAt: Date.now(),
+        sourceFileKey: inventory.fileKey,
+        components: inventory.components,
+        variables,
+        styles: inventory.styles,
+        guidelines: inventory.guidelines,
+        suggestedMappings
+    };
+}
+
+/**
+ * Parse and validate manifest JSON
+ */
+export function parseInventoryManifest(json: string): InventoryManifest {
+    let manifest: any;
+    try {
+        manifest = JSON.parse(json);
+    } catch (e) {
+        throw createDiscoveryError(ErrorCode.MANIFEST_INVALID, { reason: String(e) }, 'Manifest is not valid JSON');
+    }
+
+    if (!manifest || manifest.format !== MANIFEST_FORMAT) {
+        throw createDiscoveryError(ErrorCode.MANIFEST_INVALID, { format: manifest?.format }, 'File is not a design-system manifest');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > MANIFEST_VERSION) {
+        throw createDiscoveryError(
+            ErrorCode.MANIFEST_INVALID,
+            { version: manifest.version, supported: MANIFEST_VERSION },
+            `Manifest version ${manifest.version} is not supported (latest: ${MANIFEST_VERSION})`
+        );
+    }
+    if (!Array.isArray(manifest.components) || !Array.isArray(manifest.variables)) {
+        throw createDiscoveryError(ErrorCode.MANIFEST_INVALID, undefined, 'Manifest is missing components or variables');
+    }
+
+    return manifest as InventoryManifest;
+}
+
+/**
+ * Merge a manifest into the inventory discovered for this file.
+ *
+ * - Components are re-linked by key. A match keeps this file's id and structure
+ *   and takes the manifest's classification and property mappings. Unmatched
+ *   library components are kept (as `library:<key>`) so rendering can import
+ *   them by key; unmatched local components are reported missing.
+ * - Variables are re-linked by collection and name, falling back to name.
+ *   This file's values always win; only the names that match are linked.
+ * - Styles are re-linked by key, falling back to name.
+ */
+export function importInventoryManifest(
+    manifest: InventoryManifest,
+    inventory: DesignSystemInventory
+): { inventory: DesignSystemInventory; report: ManifestImportReport } {
+    const report: ManifestImportReport = {
+        components: { linked: 0, library: 0, missing: [] },
+        variables: { linked: 0, missing: [] },
+        styles: { linked: 0, missing: [] }
+    };
+
+    // --- Components ---
+    const imported = new Map(manifest.components.map(c => [c.key, c]));
+    const keyToId = new Map<string, string>();
+
+    const components: ComponentInfo[] = inventory.components.map(component => {
+        keyToId.set(component.key, component.id);
+        const source = imported.get(component.key);
+        if (!source) return component;
+
+        report.components.linked++;
+        const linked: ComponentInfo = { ...component };
+        if (source.semanticType && source.semanticType !== 'unknown') linked.semanticType = source.semanticType;
+        if (source.inferredPurpose) linked.inferredPurpose = source.inferredPurpose;
+        if (source.suggestedRole) linked.suggestedRole = source.suggestedRole;
+        if (source.aiClassification) linked.aiClassification = source.aiClassification;
+        if (source.propertyMappings) linked.propertyMappings = source.propertyMappings;
+        return linked;
+    });
+
+    for (const source of manifest.components) {
+        if (keyToId.has(source.key)) continue;
+        if (source.source === 'library') {
+            // The source file's id could name an unrelated node here; an id no node
+            // has makes rendering fall back to importing by key
+            const id = `library:${source.key}`;
+            components.push({ ...source, id });
+            keyToId.set(source.key, id);
+            report.components.library++;
+        } else {
+            report.components.missing.push(source.name);
+        }
+    }
+
+    // --- Variables ---
+    const qualified = (v: { name: string; collectionName?: string }) => `${v.collectionName || ''}/${v.name}`;
+    const byQualifiedName = new Map(inventory.variables.map(v => [qualified(v), v]));
+    const byName = new Map(inventory.variables.map(v => [v.name, v]));
+
+    const variables: VariableInfo[] = inventory.variables.map(v => ({ ...v }));
+    const linkedVariables = new Map(variables.map(v => [v.id, v]));
+    for (const source of manifest.variables) {
+        const match = byQualifiedName.get(qualified(source)) || byName.get(source.name);
+        if (!match) {
+            report.variables.missing.push(source.name);
+            continue;
+        }
+        report.variables.linked++;
+        const linked = linkedVariables.get(match.id)!;
+        if (!linked.semanticTokens?.length && source.semanticTokens?.length) linked.semanticTokens = source.semanticTokens;
+    }
+
+    // --- Styles ---
+    const stylesByKey = new Map((inventory.styles || []).map(s => [s.key, s]));
+    const stylesByName = new Map((inventory.styles || []).map(s => [`${s.type}:${s.name}`, s]));
+    for (const source of manifest.styles || []) {
+        const match: StyleInfo | undefined = stylesByKey.get(source.key) || stylesByName.get(`${source.type}:${source.name}`);
+        if (match) report.styles.linked++;
+        else report.styles.missing.push(source.name);
+    }
+
+    // --- Mappings: manifest roles first, then this file's own suggestions ---
+    const suggestedMappings: Record<string, string> = {};
+    for (const [role, key] of Object.entries(manifest.suggestedMappings || {})) {
+        const id = keyToId.get(key);
+        if (id) suggestedMappings[role] = id;
+    }
+    for (const [role, id] of Object.entries(inventory.suggestedMappings || {})) {
+        if (!suggestedMappings[role]) suggestedMappings[role] = id;
+    }
+
+    return {
+        inventory: {
+            ...inventory,
+            components,
+            variables,
+            guidelines: manifest.guidelines || inventory.guidelines,
+            suggestedMappings
+        },
+        report
+    };
+}
+
+/**
+ * Library components a manifest brought in as `library:<key>`. No instance in
+ * the file points at them, so discovery cannot find them; they are kept here,
+ * outside the discovery cache, and merged into every scan.
+ */
+export class ImportedLibraryComponentService {
+    private get storageKey(): string {
+        return IMPORTED_LIBRARY_KEY_PREFIX + (figma.fileKey || 'local');
+    }
+
+    /**
+     * Load the imported library components for this file, keyed by component key
+     */
+    async load(): Promise<Record<string, ComponentInfo>> {
+        try {
+            const stored = await figma.clientStorage.getAsync(this.storageKey);
+            return stored && typeof stored === 'object' ? stored : {};
+        } catch (e) {
+            console.warn('Failed to load imported library components', e);
+            return {};
+        }
+    }
+
+    /**
+     * Add or replace components, keeping ones imported earlier
+     */
+    async add(components: ComponentInfo[]): Promise<void> {
+        if (components.length === 0) return;
+        const stored = await this.load();
+        components.forEach(component => { stored[component.key] = component; });
+        await figma.clientStorage.setAsync(this.storageKey, stored);
+    }
+}
+
+export const importedLibraryComponents = new ImportedLibraryComponentService();
+
+/**
+ * Persist an imported inventory so the next discovery reuses its
+ * classifications instead of calling the AI provider again, and keeps the
+ * library components it re-linked by key
+ */
+export async function saveImportedInventory(inventory: DesignSystemInventory): Promise<void> {
+    for (const component of inventory.components) {
+        if (component.propertyMappings) propertyMappingService.setMappings(component.id, component.propertyMappings);
+    }
+    await propertyMappingService.saveMappings();
+    await importedLibraryComponents.add(inventory.components.filter(c => c.id.startsWith('library:')));
+    await cacheService.saveCache(inventory.components, inventory.variables, inventory.suggestedMappings || {});
+}
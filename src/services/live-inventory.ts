@@ -0,0 +1,127 @@
+/**
+ * Live Inventory Service
+ * Listens to document changes and keeps the inventory current between scans:
+ * edited components are queued by id and applied in one debounced update, so
+ * generations never see ids of components that were deleted or reshaped.
+ */
+
+import { applyInventoryChanges, DesignSystemInventory } from './auto-discovery';
+
+const DEBOUNCE_MS = 1000;
+
+export interface LiveInventoryOptions {
+    /** The inventory edits are applied to; null while discovery has not finished */
+    getInventory: () => DesignSystemInventory | null;
+    /** Called with the updated inventory (carrying its diff) after each update */
+    onUpdate: (inventory: DesignSystemInventory) => void | Promise<void>;
+    debounceMs?: number;
+}
+
+/**
+ * Id of the top-level component or component set a node belongs to.
+ * Variants resolve to their set; nodes outside components resolve to null.
+ */
+export function owningComponentId(node: BaseNode | null): string | null {
+    let current = node;
+    while (current && current.type !== 'PAGE' && current.type !== 'DOCUMENT') {
+        if (current.type === 'COMPONENT_SET') return current.id;
+        if (current.type === 'COMPONENT' && current.parent?.type !== 'COMPONENT_SET') return current.id;
+        current = current.parent;
+    }
+    return null;
+}
+
+export class LiveInventoryService {
+    private options: LiveInventoryOptions | null = null;
+    private pending = new Set<string>();
+    private timer: ReturnType<typeof setTimeout> | null = null;
+    private updating: Promise<unknown> = Promise.resolve();
+    private readonly handler = (event: DocumentChangeEvent) => this.handleDocumentChange(event);
+
+    /**
+     * Start listening for document changes
+     */
+    start(options: LiveInventoryOptions): void {
+        this.stop();
+        this.options = options;
+        figma.on('documentchange', this.handler);
+    }
+
+    stop(): void {
+        if (!this.options) return;
+        figma.off('documentchange', this.handler);
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+        this.pending.clear();
+        this.options = null;
+    }
+
+    /**
+     * Queue the components a batch of changes touched. Deleted nodes no longer
+     * have a parent, so only deletions of whole components are recognized.
+     */
+    handleDocumentChange(event: DocumentChangeEvent): void {
+        const inventory = this.options?.getInventory();
+        if (!inventory) return;
+
+        let styleChanged = false;
+        for (const change of event.documentChanges) {
+            if (change.type === 'DELETE') {
+                if (inventory.components.some(c => c.id === change.id)) this.pending.add(change.id);
+            } else if (change.type === 'CREATE' || change.type === 'PROPERTY_CHANGE') {
+                const id = owningComponentId(change.node.removed ? null : change.node as BaseNode);
+                if (id) this.pending.add(id);
+            } else {
+                styleChanged = true;
+            }
+        }
+
+        if (this.pending.size > 0 || styleChanged) this.schedule();
+    }
+
+    /**
+     * Apply queued changes now, e.g. before a generation reads the inventory.
+     * Local variables and styles are re-read even when nothing is queued, since
+     * Figma sends no document change for variable edits. Returns the updated
+     * inventory, or null when there is none yet.
+     */
+    flush(): Promise<DesignSystemInventory | null> {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+
+        // One update at a time: each applies to the inventory the last one produced
+        const run = this.updating.then(() => this.update());
+        this.updating = run.catch(() => undefined);
+        return run;
+    }
+
+    private schedule(): void {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.flush().catch(e => console.warn('[LiveInventory] Update failed', e));
+        }, this.options?.debounceMs ?? DEBOUNCE_MS);
+    }
+
+    private async update(): Promise<DesignSystemInventory | null> {
+        const options = this.options;
+        const inventory = options?.getInventory();
+        if (!options || !inventory) return null;
+
+        const componentIds = Array.from(this.pending);
+        this.pending.clear();
+
+        const updated = await applyInventoryChanges(inventory, componentIds);
+
+        // A full scan replaced the inventory meanwhile; apply the edits to that one
+        if (options.getInventory() !== inventory) {
+            componentIds.forEach(id => this.pending.add(id));
+            return this.update();
+        }
+
+        await options.onUpdate(updated);
+        return updated;
+    }
+}
+
+export const liveInventory = new LiveInventoryService();
@@ -6,6 +6,7 @@
  */
 
 import { RGB, rgbToHex, hexToRGB, rgbToCIELAB, calculateDeltaE } from '../libs/color-utils';
+import { VariableInfo, getVariableValue } from './auto-discovery';
 
 // ============================================================================
 // INTERFACES
@@ -275,15 +276,39 @@ export async function buildPrimitiveInventory(): Promise<PrimitiveInventory> {
 // PROXIMITY MATCHING
 // ============================================================================
 
+/**
+ * Canvas colors as they look in `mode`: a color that is a color variable's
+ * default value (e.g. gray/50 painted in Light) counts as that variable's
+ * value in the mode instead
+ */
+function colorsInMode(
+    inventory: Map<string, number>,
+    variables: VariableInfo[],
+    mode: string
+): Map<string, number> {
+    const inMode = new Map<string, number>();
+    for (const [hex, frequency] of inventory.entries()) {
+        const variable = variables.find(v => v.resolvedType === 'COLOR' && v.value && typeof v.value === 'object' && rgbToHex(v.value) === hex);
+        const value = variable ? getVariableValue(variable, mode) : null;
+        const modeHex = value && typeof value === 'object' && 'r' in value ? rgbToHex(value) : hex;
+        inMode.set(modeHex, (inMode.get(modeHex) || 0) + frequency);
+    }
+    return inMode;
+}
+
 /**
  * Find closest color using CIELAB Delta E
  * Only considers colors within ΔE < 10 threshold
  * Prefers frequently-used colors via weighting
+ * With a `mode` (e.g. "Dark"), compares against colors as they resolve in that mode
  */
 export function findClosestColor(
     targetHex: string,
-    inventory: Map<string, number>
+    colors: Map<string, number>,
+    variables: VariableInfo[] = [],
+    mode?: string
 ): ColorMatch | null {
+    const inventory = mode ? colorsInMode(colors, variables, mode) : colors;
     if (inventory.size === 0) return null;
 
     const targetLab = rgbToCIELAB(hexToRGB(targetHex));
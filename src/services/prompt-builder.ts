@@ -4,6 +4,7 @@
 
 import { DesignSystemInventory, ComponentInfo } from './auto-discovery';
 import { RSNT_Node } from '../types/rsnt';
+import { describeIcons } from './icon-library';
 
 export interface PromptTemplate {
     system: string;           // Role and core instructions
@@ -121,6 +122,8 @@ Your role is to be an intelligent design architect, not a template filler. Every
         'Action buttons (CTAs) must appear AFTER the content they act upon. In a VERTICAL layout this means CTAs go below headings and body text — never above them. This is a structural rule.',
         'CTA buttons must be text buttons, not icon-only buttons. Every CTA MUST have the "characters" field set with clear action text (e.g. "Get Started", "Learn More", "Sign Up"). Do not create icon-only or icon-square buttons for call-to-action roles.',
         'When a layout contains 2 or more action buttons, they MUST have different style properties to signal priority. The strongest action gets the primary style; the others get a weaker style (outline, ghost, or secondary). Never give two sibling buttons the same style variant.',
+        'To show a component or section in a specific state (hover, pressed, focus, disabled, error, loading, selected), set "state" on the node (e.g. "state": "error"); it applies to every component instance inside it. To show several states of a design side by side, list them in "states" (e.g. "states": ["default", "hover", "disabled"]) instead of duplicating nodes.',
+        'For screens with empty, loading or populated variants, build ONE tree: give branch nodes a "condition" (e.g. "items.length === 0", "!user.isLoggedIn"), use {{placeholders}} in "characters" for dynamic text (e.g. "Welcome, {{user.name}}"), and declare sample data on the root in "scenarios" (e.g. { "empty": { "items": [] }, "populated": { "items": [{ "title": "First" }] } }).',
         'Output COMPLETE valid JSON only matching the requested schema.'
     ];
 
@@ -172,7 +175,21 @@ ${selectedComponents.map(c => {
         }).join('\n')}
 
 AVAILABLE VARIABLES (${limitedVariables.length} of ${inventory.variables.length}):
-${limitedVariables.map(v => `- "${v.id}": ${v.name} (${v.resolvedType})`).join('\n')}`;
+${limitedVariables.map(v => `- "${v.id}": ${v.name} (${v.resolvedType})`).join('\n')}${this.buildIcons(inventory)}`;
+    }
+
+    /**
+     * Build icon section; empty when the design system has no icons
+     */
+    private buildIcons(inventory: DesignSystemInventory): string {
+        const icons = describeIcons(inventory);
+        if (!icons) return '';
+
+        return `
+
+AVAILABLE ICONS (by name): ${icons}
+- To show an icon, use { "type": "COMPONENT_INSTANCE", "icon": "<name>" } without a componentId.
+- To put an icon in a button or input, set "icon" (leading) and/or "trailingIcon" on that COMPONENT_INSTANCE. Use only the names above.`;
     }
 
     /**
@@ -183,10 +200,10 @@ ${limitedVariables.map(v => `- "${v.id}": ${v.name} (${v.resolvedType})`).join('
 
         if (complexity === 'multi_page') {
             return `${base}
-- Root frame uses layoutMode: "HORIZONTAL" to hold multiple pages
-- Desktop page: width: 1440, height: 1024
-- Mobile page: width: 375, height: 812
-- Each page is a separate child frame with explicit dimensions`;
+- Design mobile-first: base values describe the mobile layout (root width: 375, height: 812)
+- Add per-node "responsive" overrides for larger screens, e.g. "responsive": { "md": { "layoutMode": "HORIZONTAL" }, "lg": { "width": 1440, "padding": { "left": 64, "right": 64 } } }
+- Allowed breakpoints: sm, md, lg, xl, 2xl. Allowed override keys: layoutMode, width, height, padding, itemSpacing, visible
+- Do NOT duplicate the page per device — one frame per breakpoint is rendered automatically`;
         }
 
         if (complexity === 'simple') {
@@ -1,6 +1,7 @@
 import { ComponentInfo } from './auto-discovery';
 import { classificationService } from './classification';
-import { PropertyAnalysis, PropertyType, ValueMapping, AppliedMapping } from '../types/classification';
+import { PropertyAnalysis, PropertyType, ValueMapping, AppliedMapping, StateVariantMatch } from '../types/classification';
+import { matchStateValue } from './component-states';
 import { findBestMatch, stringSimilarity } from '../utils/string-similarity';
 
 const MAPPING_CACHE_KEY = 'property_mappings_v2';
@@ -55,6 +56,10 @@ export class PropertyMappingService {
             return this.mappingCache.get(component.id)!;
         }
 
+        // Without AI (offline or no key) states and variants are matched by property
+        // and value names; nothing is cached, so the next online scan analyzes them
+        if (!classificationService.available) return results;
+
         console.log(`Analyzing properties for ${component.name}...`);
 
         // Collect properties to analyze
@@ -216,6 +221,22 @@ export class PropertyMappingService {
         return resultProps;
     }
 
+    /**
+     * Seed mappings for a component, e.g. from an imported manifest
+     */
+    setMappings(componentId: string, mappings: Record<string, PropertyAnalysis>) {
+        this.mappingCache.set(componentId, mappings);
+        this.semanticLookupCache.delete(componentId);
+    }
+
+    /**
+     * Forget a component's mappings so the next discovery analyzes it again
+     */
+    clearMappings(componentId: string) {
+        this.mappingCache.delete(componentId);
+        this.semanticLookupCache.delete(componentId);
+    }
+
     /**
      * Get mappings for a specific component
      */
@@ -388,6 +409,43 @@ export class PropertyMappingService {
         return result;
     }
 
+    /**
+     * Map an RSNT state (e.g. 'disabled') onto the component's state variant.
+     * Prefers the analyzed SEMANTIC_STATE mapping, then falls back to a variant
+     * property named like a state (State, Status, Interaction) whose values
+     * contain the state or one of its aliases.
+     */
+    resolveStateVariant(
+        componentId: string,
+        state: string,
+        variantProperties: Record<string, { values: string[] }> = {}
+    ): StateVariantMatch | null {
+        const mappings = this.mappingCache.get(componentId);
+
+        if (mappings) {
+            let semanticLookup = this.semanticLookupCache.get(componentId);
+            if (!semanticLookup) {
+                semanticLookup = this.buildSemanticLookup(mappings);
+                this.semanticLookupCache.set(componentId, semanticLookup);
+            }
+
+            const stateData = semanticLookup['state'];
+            if (stateData) {
+                const mapped = stateData.valueMap[state] || matchStateValue(state, Object.values(stateData.valueMap));
+                if (mapped) return { property: stateData.compProp, value: mapped, source: 'mapping' };
+            }
+        }
+
+        const statePropNames = Object.keys(variantProperties)
+            .filter(name => /^(state|status|interaction)$/i.test(name.trim()));
+        for (const name of statePropNames) {
+            const value = matchStateValue(state, variantProperties[name].values || []);
+            if (value) return { property: name, value, source: 'name' };
+        }
+
+        return null;
+    }
+
     /**
      * Build semantic lookup table from property analyses
      * Internal helper method
@@ -5,7 +5,13 @@ import { fontManager } from './font-manager';
 import { processInChunks } from '../utils/chunking';
 import { ResolutionResult, ExecutionInstructions, ComponentInstructions, FrameInstructions } from '../types/resolution-types';
 import { propertyMappingService } from './property-mapping';
-import { DesignSystemInventory } from './auto-discovery';
+import { DesignSystemInventory, resolveVariableValue, getBindableVariable, isLibraryVariableId } from './auto-discovery';
+import { rsntMetadataService } from './rsnt-metadata';
+import { hasResponsiveOverrides, getDeclaredBreakpoints, resolveForBreakpoint, getBreakpointWidth, BreakpointTarget } from './responsive';
+import { getDeclaredStates, resolveForState } from './component-states';
+import { applyComponentStates } from './resolution';
+import { hasDynamicContent, resolveForScenario, scenarioService } from './dynamic-content';
+import { IconInfo, findIcon, resolveIconNode } from './icon-library';
 
 /**
  * Render RSNT node to Figma
@@ -16,8 +22,20 @@ export async function renderRSNT(
     parent?: BaseNode & ChildrenMixin,
     onProgress?: (progress: { current: number, total: number }) => void,
     shouldCancel?: () => boolean,
-    inventory?: DesignSystemInventory
+    inventory?: DesignSystemInventory,
+    sourceIntent?: string
 ): Promise<RenderResult> {
+    // Evaluate conditions and fill {{placeholders}} from the active scenario
+    if (hasDynamicContent(node)) {
+        node = resolveForScenario(node, scenarioService.getData(node));
+    }
+    node = await importBoundLibraryVariables(node);
+
+    // Trees with breakpoint overrides render as one frame per breakpoint
+    if (hasResponsiveOverrides(node)) {
+        return renderResponsiveRSNT(node, parent, onProgress, shouldCancel, inventory, sourceIntent);
+    }
+
     const errors: RenderError[] = [];
     const warnings: RenderError[] = [];
 
@@ -35,13 +53,13 @@ export async function renderRSNT(
             // Note: If resolution is provided, use executeInstructions instead
             switch (rsnt.type) {
                 case 'COMPONENT_INSTANCE':
-                    figmaNode = await renderComponentInstance(rsnt, undefined, inventory);
+                    figmaNode = await renderComponentInstance(rsnt, undefined, inventory, warnings);
                     break;
                 case 'FRAME':
                     figmaNode = await renderFrame(rsnt);
                     break;
                 case 'TEXT':
-                    figmaNode = await renderText(rsnt);
+                    figmaNode = await renderText(rsnt, inventory, warnings);
                     break;
                 default:
                     // Safety net: the AI sometimes uses semantic type names (H1, Button,
@@ -49,7 +67,7 @@ export async function renderRSNT(
                     // intent is clear — route to component rendering regardless of type string.
                     if (rsnt.componentId) {
                         console.warn(`Node "${rsnt.id}" has unrecognised type "${rsnt.type}" but componentId is set — treating as COMPONENT_INSTANCE`);
-                        figmaNode = await renderComponentInstance(rsnt, undefined, inventory);
+                        figmaNode = await renderComponentInstance(rsnt, undefined, inventory, warnings);
                         break;
                     }
                     throw createExecutionError(ErrorCode.NODE_CREATION_FAILED, { type: rsnt.type }, `Unknown node type: ${rsnt.type}`);
@@ -69,9 +87,15 @@ export async function renderRSNT(
             // Apply new high-fidelity properties
             if ('effects' in figmaNode) applyEffects(figmaNode, rsnt);
             if ('opacity' in figmaNode) applyLayerProps(figmaNode, rsnt);
+            applyStyles(figmaNode, rsnt, warnings);
+
+            // Persist semantic metadata so the design can be round-tripped later
+            rsntMetadataService.write(figmaNode, rsnt, {
+                intent: flatParent === null ? sourceIntent : undefined
+            });
 
             // ATTACH TO PARENT
-            attachToParent(figmaNode, flatParent, parent, warnings, rsnt.id);
+            attachToParent(flatNode, parent, warnings);
 
         } catch (error: any) {
             console.error(`Error processing node ${rsnt.id}:`, error);
@@ -103,6 +127,11 @@ export async function renderRSNT(
         throw e;
     }
 
+    const root = flatNodes[0].figmaNode;
+    if (root && node.variableMode) {
+        applyVariableMode(root, node.variableMode, inventory, node.id, warnings);
+    }
+
     return {
         node: flatNodes[0].figmaNode as SceneNode,
         errors,
@@ -110,19 +139,195 @@ export async function renderRSNT(
     };
 }
 
+/**
+ * Pin the root to the named mode (e.g. "Dark") in every collection that declares it,
+ * so bound fills and spacing preview in that mode
+ */
+function applyVariableMode(
+    root: SceneNode,
+    modeName: string,
+    inventory: DesignSystemInventory | undefined,
+    rsntId: string,
+    warnings: RenderError[]
+): void {
+    if (!('setExplicitVariableModeForCollection' in root)) return;
+
+    // Local collections plus any library collections the inventory imported variables from
+    const collectionIds = new Set<string>(figma.variables.getLocalVariableCollections().map(c => c.id));
+    inventory?.variables.forEach(v => {
+        if (v.collectionId) collectionIds.add(v.collectionId);
+    });
+
+    let applied = 0;
+    collectionIds.forEach(id => {
+        const collection = figma.variables.getVariableCollectionById(id);
+        const mode = collection?.modes.find(m => m.name.toLowerCase() === modeName.toLowerCase());
+        if (!collection || !mode) return;
+        try {
+            root.setExplicitVariableModeForCollection(collection, mode.modeId);
+            applied++;
+        } catch (e) {
+            console.warn(`Could not set mode "${mode.name}" for collection "${collection.name}"`, e);
+        }
+    });
+
+    if (applied === 0) {
+        warnings.push(createRenderErrorUI(
+            createExecutionError(ErrorCode.VARIABLE_NOT_FOUND, { variableMode: modeName }, `No variable collection has a "${modeName}" mode`),
+            rsntId, 'warning', 'Rendered in the default mode'
+        ));
+    }
+}
+
+/**
+ * Render one frame per breakpoint (base + every declared breakpoint), laid out
+ * side by side inside a transparent horizontal wrapper frame.
+ */
+export async function renderResponsiveRSNT(
+    node: RSNT_Node,
+    parent?: BaseNode & ChildrenMixin,
+    onProgress?: (progress: { current: number, total: number }) => void,
+    shouldCancel?: () => boolean,
+    inventory?: DesignSystemInventory,
+    sourceIntent?: string
+): Promise<RenderResult> {
+    const errors: RenderError[] = [];
+    const warnings: RenderError[] = [];
+    const targets: BreakpointTarget[] = ['base', ...getDeclaredBreakpoints(node)];
+    const baseName = node.name || 'Design';
+
+    const wrapper = figma.createFrame();
+    wrapper.name = `${baseName} (Responsive)`;
+    wrapper.layoutMode = 'HORIZONTAL';
+    wrapper.primaryAxisSizingMode = 'AUTO';
+    wrapper.counterAxisSizingMode = 'AUTO';
+    wrapper.itemSpacing = 80;
+    wrapper.fills = [];
+    wrapper.clipsContent = false;
+    if (parent) parent.appendChild(wrapper);
+
+    const nodesPerVariant = flattenRSNT(node).length;
+    const total = nodesPerVariant * targets.length;
+
+    try {
+        for (let i = 0; i < targets.length; i++) {
+            const target = targets[i];
+            const variant = resolveForBreakpoint(node, target);
+            variant.name = `${baseName} — ${target} (${variant.width || getBreakpointWidth(target)})`;
+
+            const result = await renderRSNT(
+                variant,
+                wrapper,
+                onProgress
+                    ? (progress) => onProgress({ current: i * nodesPerVariant + progress.current, total })
+                    : undefined,
+                shouldCancel,
+                inventory,
+                sourceIntent
+            );
+
+            result.node.setPluginData('breakpoint', target);
+            errors.push(...result.errors);
+            warnings.push(...result.warnings);
+        }
+    } catch (e) {
+        if (!wrapper.removed) wrapper.remove();
+        throw e;
+    }
+
+    return { node: wrapper, errors, warnings };
+}
+
+/**
+ * Render the design once per declared state (default, hover, disabled...),
+ * laid out side by side inside a transparent horizontal wrapper frame.
+ * Each variant is rendered through renderRSNT, so responsive trees expand too.
+ */
+export async function renderStateMatrix(
+    node: RSNT_Node,
+    parent?: BaseNode & ChildrenMixin,
+    onProgress?: (progress: { current: number, total: number }) => void,
+    shouldCancel?: () => boolean,
+    inventory?: DesignSystemInventory,
+    sourceIntent?: string
+): Promise<RenderResult> {
+    const states = getDeclaredStates(node);
+    if (states.length === 0) {
+        return renderRSNT(node, parent, onProgress, shouldCancel, inventory, sourceIntent);
+    }
+
+    const errors: RenderError[] = [];
+    const warnings: RenderError[] = [];
+    const baseName = node.name || 'Design';
+
+    const wrapper = figma.createFrame();
+    wrapper.name = `${baseName} (States)`;
+    wrapper.layoutMode = 'HORIZONTAL';
+    wrapper.primaryAxisSizingMode = 'AUTO';
+    wrapper.counterAxisSizingMode = 'AUTO';
+    wrapper.itemSpacing = 80;
+    wrapper.fills = [];
+    wrapper.clipsContent = false;
+    if (parent) parent.appendChild(wrapper);
+
+    // Progress is approximate for responsive trees (each state renders several frames)
+    const nodesPerVariant = flattenRSNT(node).length;
+    const total = nodesPerVariant * states.length;
+
+    try {
+        for (let i = 0; i < states.length; i++) {
+            const state = states[i];
+            const variant = resolveForState(node, state);
+            variant.name = `${baseName} — ${state}`;
+
+            // Switch each instance to the variant for this state
+            if (inventory) {
+                for (const missing of applyComponentStates(variant, inventory)) {
+                    warnings.push(createRenderErrorUI(
+                        createResolutionError(ErrorCode.MAPPING_FAILED, { state }, missing.message),
+                        missing.nodeId, 'warning', 'Rendered in the default state'
+                    ));
+                }
+            }
+
+            const result = await renderRSNT(
+                variant,
+                wrapper,
+                onProgress
+                    ? (progress) => onProgress({ current: i * nodesPerVariant + Math.min(progress.current, nodesPerVariant), total })
+                    : undefined,
+                shouldCancel,
+                inventory,
+                sourceIntent
+            );
+
+            result.node.setPluginData('state', state);
+            errors.push(...result.errors);
+            warnings.push(...result.warnings);
+        }
+    } catch (e) {
+        if (!wrapper.removed) wrapper.remove();
+        throw e;
+    }
+
+    return { node: wrapper, errors, warnings };
+}
+
 // Helper types and functions
 
 interface FlatNode {
     rsnt: RSNT_Node;
     parent: FlatNode | null;
+    children: FlatNode[];
     figmaNode?: SceneNode;
 }
 
 function flattenRSNT(root: RSNT_Node): FlatNode[] {
     const result: FlatNode[] = [];
     function traverse(node: RSNT_Node, parent: FlatNode | null) {
-        const flatNode: FlatNode = { rsnt: node, parent };
+        const flatNode: FlatNode = { rsnt: node, parent, children: [] };
         result.push(flatNode);
+        if (parent) parent.children.push(flatNode);
         if (node.children) {
             for (const child of node.children) {
                 traverse(child, flatNode);
@@ -133,29 +338,88 @@ function flattenRSNT(root: RSNT_Node): FlatNode[] {
     return result;
 }
 
+/**
+ * Import the team library variables a tree binds and point the tree at them.
+ * Discovery lists library variables as `library:<key>` without importing them,
+ * so only the ones a render actually uses get added to the file.
+ */
+async function importBoundLibraryVariables(node: RSNT_Node): Promise<RSNT_Node> {
+    const imported = new Map<string, string>();
+    const collect = (value: any): void => {
+        if (!value || typeof value !== 'object') return;
+        for (const [key, child] of Object.entries(value)) {
+            if (key === 'variableId' && isLibraryVariableId(child)) imported.set(child, child);
+            else collect(child);
+        }
+    };
+    collect(node);
+    if (imported.size === 0) return node;
+
+    for (const id of imported.keys()) {
+        const variable = await getBindableVariable(id);
+        if (variable) imported.set(id, variable.id);
+    }
+    const rewrite = (value: any): any => {
+        if (Array.isArray(value)) return value.map(rewrite);
+        if (!value || typeof value !== 'object') return value;
+        const copy: any = {};
+        for (const [key, child] of Object.entries(value)) {
+            copy[key] = key === 'variableId' && imported.has(child as string) ? imported.get(child as string) : rewrite(child);
+        }
+        return copy;
+    };
+    return rewrite(node);
+}
+
+/**
+ * Import a library component or component set by key. Figma uses separate calls
+ * for the two; when the type is unknown, try the component first.
+ */
+async function importComponentByKey(key: string, type?: 'COMPONENT' | 'COMPONENT_SET'): Promise<ComponentNode | ComponentSetNode> {
+    if (type === 'COMPONENT_SET') return figma.importComponentSetByKeyAsync(key);
+    try {
+        return await figma.importComponentByKeyAsync(key);
+    } catch (e) {
+        if (type === 'COMPONENT') throw e;
+        return figma.importComponentSetByKeyAsync(key);
+    }
+}
+
 async function renderComponentInstance(
     node: RSNT_Node,
     overrides?: ComponentInstructions['overrides'],
-    inventory?: DesignSystemInventory
+    inventory?: DesignSystemInventory,
+    warnings: RenderError[] = []
 ): Promise<InstanceNode> {
     let component: ComponentNode | ComponentSetNode | null = null;
 
+    // Icons requested by name resolve through the icon index
+    if (!node.componentId && node.icon && inventory) {
+        resolveIconNode(node, inventory);
+    }
+
     if (node.componentId) {
         component = figma.getNodeById(node.componentId) as ComponentNode | ComponentSetNode;
     }
 
     // Fallback: If component not found by ID, try finding by key or name
     if (!component) {
+        // Library components from the inventory carry their import key even when the
+        // RSNT (e.g. AI output) only references them by id
+        const known = inventory?.components.find(c => c.id === node.componentId);
+        const componentKey = node.componentKey || (known?.source === 'library' ? known.key : undefined);
+
         // Strategy 1: Component Key Lookup (Robust for Library Components)
-        if (node.componentKey) {
+        if (componentKey) {
             try {
-                console.log(`Attempting to import component by key: ${node.componentKey}`);
-                // Use importComponentByKeyAsync to fetch from library
-                // This works even if the master component isn't in the current file
-                component = await figma.importComponentByKeyAsync(node.componentKey);
+                console.log(`Attempting to import component by key: ${componentKey}`);
+                // Import from the library on demand; this works even if the master
+                // component isn't in the current file
+                component = await importComponentByKey(componentKey, known?.type);
                 console.log(`Recovered component via Key Lookup: ${component.name} (ID: ${component.id})`);
+                node.componentId = component.id;
             } catch (e) {
-                console.warn(`Failed to import component by key "${node.componentKey}":`, e);
+                console.warn(`Failed to import component by key "${componentKey}":`, e);
             }
         }
 
@@ -223,13 +487,16 @@ async function renderComponentInstance(
         throw createResolutionError(ErrorCode.COMPONENT_NOT_FOUND, { componentId: node.componentId, name: node.name });
     }
 
-    console.log(`[Renderer] Selected component: "${component.name}"`, component.componentPropertyDefinitions);
-
     // Explicit type check to satisfy compiler
     const type = component.type;
     if (type !== 'COMPONENT' && type !== 'COMPONENT_SET') {
         throw createExecutionError(ErrorCode.NODE_CREATION_FAILED, { componentId: node.componentId, type }, `Node ${node.componentId} is not a component`);
     }
+
+    // A variant (e.g. a library component imported by its variant key) keeps its
+    // property definitions and semantic mappings on the parent set
+    const owner = getDefinitionOwner(component);
+    console.log(`[Renderer] Selected component: "${component.name}"`, owner.componentPropertyDefinitions);
     const instance = component.type === 'COMPONENT_SET'
         ? (component as ComponentSetNode).defaultVariant.createInstance()
         : (component as ComponentNode).createInstance();
@@ -256,7 +523,7 @@ async function renderComponentInstance(
             // that was built during discovery.
             if (Object.keys(propsForMapping).length > 0) {
                 // Apply semantic mapping
-                const mapped = propertyMappingService.applyMappingWithWarnings(component.id, propsForMapping);
+                const mapped = propertyMappingService.applyMappingWithWarnings(owner.id, propsForMapping);
 
                 if (mapped.warnings.length > 0) {
                     console.warn(`Property mapping for "${node.name || node.id}":`, mapped.warnings);
@@ -269,9 +536,7 @@ async function renderComponentInstance(
 
                 console.log(`[Renderer] Final properties for "${node.name}":`, propsToSet);
 
-                const resolved = resolvePropsAgainstDefinitions(
-                    component as ComponentNode | ComponentSetNode, propsToSet
-                );
+                const resolved = resolvePropsAgainstDefinitions(owner, propsToSet);
 
                 if (Object.keys(resolved).length > 0) {
                     console.log(`[Renderer] Applying properties to "${node.name}":`, resolved);
@@ -329,6 +594,11 @@ async function renderComponentInstance(
         }
     }
 
+    // --- Icon slots ---
+    if (node.icon || node.trailingIcon) {
+        await applyIconSlots(instance, owner, node, inventory, warnings);
+    }
+
     // Apply overrides if provided (from Tier 2 structural match)
     if (overrides) {
         if (overrides.fills && 'fills' in instance) {
@@ -354,6 +624,88 @@ async function renderComponentInstance(
     return instance;
 }
 
+const LEADING_SLOT = /left|leading|start|before|prefix/i;
+const TRAILING_SLOT = /right|trailing|end|after|suffix/i;
+
+/**
+ * Pick the property for an icon on one side. Only icon-named slots qualify
+ * ("Leading Icon", "Icon Right"); leading icons fall back to one with no
+ * position in its name ("Icon"). Other swaps (avatars, badges) are never used.
+ */
+function pickIconSlot(keys: string[], side: 'leading' | 'trailing'): string | undefined {
+    const name = (key: string) => key.split('#')[0];
+    const iconSlots = keys.filter(key => /icon/i.test(name(key)));
+    const positioned = iconSlots.find(key => (side === 'leading' ? LEADING_SLOT : TRAILING_SLOT).test(name(key)));
+    if (positioned || side === 'trailing') return positioned;
+
+    return iconSlots.find(key => !LEADING_SLOT.test(name(key)) && !TRAILING_SLOT.test(name(key)));
+}
+
+async function loadIconComponent(icon: IconInfo): Promise<ComponentNode> {
+    // Library icons are imported so the swap works without an instance in the file
+    const component = icon.source === 'library'
+        ? await importComponentByKey(icon.key)
+        : figma.getNodeById(icon.id) as ComponentNode | ComponentSetNode | null;
+    if (!component) {
+        throw createResolutionError(ErrorCode.COMPONENT_NOT_FOUND, { componentId: icon.id, name: icon.name });
+    }
+    return component.type === 'COMPONENT_SET' ? component.defaultVariant : component;
+}
+
+/**
+ * Swap a button's or input's icon slots (INSTANCE_SWAP properties) to the icons
+ * the node names, and switch on the matching "show icon" booleans. Icons
+ * themselves have no slots, so icon nodes are left alone. Icons that match
+ * nothing, or have no slot to go in, are reported as warnings.
+ */
+async function applyIconSlots(
+    instance: InstanceNode,
+    owner: ComponentNode | ComponentSetNode,
+    node: RSNT_Node,
+    inventory?: DesignSystemInventory,
+    warnings: RenderError[] = []
+): Promise<void> {
+    const icons = inventory?.icons || [];
+    if (icons.some(icon => icon.componentId === owner.id)) return;
+
+    const definitions = owner.componentPropertyDefinitions;
+    const swaps = Object.keys(definitions).filter(key => definitions[key].type === 'INSTANCE_SWAP');
+    const toggles = Object.keys(definitions).filter(key =>
+        definitions[key].type === 'BOOLEAN' && /icon/i.test(key.split('#')[0]));
+
+    const requested: Array<['leading' | 'trailing', string | undefined]> = [['leading', node.icon], ['trailing', node.trailingIcon]];
+    for (const [side, name] of requested) {
+        if (!name) continue;
+
+        const icon = findIcon(name, icons);
+        const slot = pickIconSlot(swaps, side);
+        if (!icon || !slot) {
+            const reason = !icon ? `no icon matches "${name}"` : `"${owner.name}" has no ${side} icon slot`;
+            console.warn(`[Renderer] "${node.name || node.id}": ${reason}`);
+            warnings.push(createRenderErrorUI(
+                createResolutionError(ErrorCode.MAPPING_FAILED, { icon: name, side }, `Icon "${name}" was not placed: ${reason}`),
+                node.id,
+                'warning',
+                'Add the icon manually'
+            ));
+            continue;
+        }
+        swaps.splice(swaps.indexOf(slot), 1);
+
+        try {
+            const properties: Record<string, string | boolean> = { [slot]: (await loadIconComponent(icon)).id };
+            const toggle = pickIconSlot(toggles, side);
+            if (toggle) {
+                properties[toggle] = true;
+                toggles.splice(toggles.indexOf(toggle), 1);
+            }
+            instance.setProperties(properties);
+        } catch (e) {
+            console.warn(`[Renderer] Failed to set ${side} icon "${icon.name}" on "${node.name || node.id}":`, e);
+        }
+    }
+}
+
 async function renderFrame(node: RSNT_Node): Promise<FrameNode> {
     const frame = figma.createFrame();
     if (node.width !== undefined) {
@@ -365,12 +717,17 @@ async function renderFrame(node: RSNT_Node): Promise<FrameNode> {
     return frame;
 }
 
-async function renderText(node: RSNT_Node): Promise<TextNode> {
+async function renderText(node: RSNT_Node, inventory?: DesignSystemInventory, warnings: RenderError[] = []): Promise<TextNode> {
     const text = figma.createText();
-    const font = await fontManager.getFontForNode(node.fontFamily, node.fontStyle);
-    text.fontName = font;
+    const textStyle = node.textStyleId ? await loadTextStyle(node.textStyleId, node.id, warnings) : null;
+    if (textStyle) {
+        text.textStyleId = textStyle.id;
+    } else {
+        const font = await fontManager.getFontForNode(node.fontFamily, node.fontStyle, inventory);
+        text.fontName = font;
+    }
     if (node.characters) text.characters = node.characters;
-    if (node.fontSize) text.fontSize = node.fontSize;
+    if (node.fontSize && !textStyle) text.fontSize = node.fontSize;
     // If a width is specified, set it and switch to fixed-width wrapping mode
     // so multi-line paragraphs wrap correctly instead of extending as a single line.
     if (node.width !== undefined) {
@@ -458,6 +815,16 @@ function applyCornerRadius(figmaNode: any, rsnt: RSNT_Node) {
  * Strategy: direct key match first; if the key is unknown, scan every VARIANT
  * property's variantOptions for a match on the VALUE and use that property name.
  */
+/**
+ * The node that holds a component's property definitions: the parent set for
+ * variants (reading componentPropertyDefinitions on a variant throws)
+ */
+function getDefinitionOwner(component: ComponentNode | ComponentSetNode): ComponentNode | ComponentSetNode {
+    return component.type === 'COMPONENT' && component.parent?.type === 'COMPONENT_SET'
+        ? component.parent
+        : component;
+}
+
 function resolvePropsAgainstDefinitions(
     component: ComponentNode | ComponentSetNode,
     props: Record<string, string>
@@ -556,6 +923,47 @@ function applyEffects(figmaNode: any, rsnt: RSNT_Node) {
     }
 }
 
+/**
+ * Text style with its font loaded, or null (with a warning) when the style is
+ * missing or its font is unavailable
+ */
+async function loadTextStyle(styleId: string, rsntId: string, warnings: RenderError[]): Promise<TextStyle | null> {
+    const style = figma.getStyleById(styleId);
+    if (!style || style.type !== 'TEXT') {
+        warnings.push(createRenderErrorUI(createExecutionError(ErrorCode.PROPERTY_BINDING_FAILED, { styleId }, `Text style ${styleId} not found`), rsntId, 'warning', 'Using the node\'s font settings'));
+        return null;
+    }
+    try {
+        await figma.loadFontAsync((style as TextStyle).fontName);
+        return style as TextStyle;
+    } catch (e) {
+        warnings.push(createRenderErrorUI(createExecutionError(ErrorCode.PROPERTY_BINDING_FAILED, { styleId }, `Font for text style "${style.name}" is not available`), rsntId, 'warning', 'Using the node\'s font settings'));
+        return null;
+    }
+}
+
+/**
+ * Bind local paint/effect styles. Runs after the raw fills, strokes and effects
+ * so the style wins; a missing style leaves the raw values in place.
+ */
+function applyStyles(figmaNode: any, rsnt: RSNT_Node, warnings: RenderError[]) {
+    const bindings: Array<[keyof RSNT_Node & string, string, StyleType]> = [
+        ['fillStyleId', 'fills', 'PAINT'],
+        ['strokeStyleId', 'strokes', 'PAINT'],
+        ['effectStyleId', 'effects', 'EFFECT']
+    ];
+    for (const [field, property, type] of bindings) {
+        const styleId = rsnt[field] as string | undefined;
+        if (!styleId || !(property in figmaNode)) continue;
+        const style = figma.getStyleById(styleId);
+        if (!style || style.type !== type) {
+            warnings.push(createRenderErrorUI(createExecutionError(ErrorCode.PROPERTY_BINDING_FAILED, { styleId }, `Style ${styleId} not found`), rsnt.id, 'warning', `Keeping the raw ${property}`));
+            continue;
+        }
+        figmaNode[field] = styleId;
+    }
+}
+
 // CSS-to-Figma alignment value mapping. The AI sometimes outputs CSS flexbox
 // terminology (FLEX_START, FLEX_END, etc.) instead of Figma enum values.
 const ALIGNMENT_MAP: Record<string, string> = {
@@ -580,16 +988,21 @@ function sanitizeAlignment(value: string, validSet: Set<string>): string | null
 function applyLayout(figmaNode: any, rsnt: RSNT_Node) {
     if (rsnt.layoutMode) figmaNode.layoutMode = rsnt.layoutMode;
     if (rsnt.primaryAxisSizingMode) figmaNode.primaryAxisSizingMode = rsnt.primaryAxisSizingMode;
-    if (rsnt.counterAxisSizingMode) figmaNode.counterAxisSizingMode = rsnt.counterAxisSizingMode;
+    if (rsnt.counterAxisSizingMode) {
+        // The prompt asks for counterAxisSizingMode "STRETCH" to mean "fill the parent";
+        // Figma only accepts FIXED | AUTO there and expresses fill through layoutAlign.
+        if ((rsnt.counterAxisSizingMode as string) === 'STRETCH') figmaNode.layoutAlign = 'STRETCH';
+        else figmaNode.counterAxisSizingMode = rsnt.counterAxisSizingMode;
+    }
 
     // Safety net: when auto-layout is enabled but the AI omitted both width and
     // counterAxisSizingMode, Figma defaults to HUG — the frame shrinks to its
-    // content width.  Defaulting to STRETCH instead makes the frame fill its
-    // parent's available space, which is the expected behaviour for content
-    // containers.  If the AI DID set an explicit width, the resize() call below
-    // will pin it to that value afterward.
+    // content width.  Stretching along the parent's counter axis instead makes
+    // the frame fill its parent's available space, which is the expected
+    // behaviour for content containers.  If the AI DID set an explicit width,
+    // the resize() call below will pin it to that value afterward.
     if (rsnt.layoutMode && rsnt.layoutMode !== 'NONE' && !rsnt.counterAxisSizingMode && rsnt.width === undefined) {
-        figmaNode.counterAxisSizingMode = 'STRETCH';
+        figmaNode.layoutAlign = 'STRETCH';
     }
 
     if (rsnt.primaryAxisAlignItems) {
@@ -635,14 +1048,28 @@ function applyLayout(figmaNode: any, rsnt: RSNT_Node) {
     }
 }
 
-function attachToParent(figmaNode: SceneNode, flatParent: FlatNode | null, externalParent: (BaseNode & ChildrenMixin) | undefined, warnings: RenderError[], nodeId: string) {
+/**
+ * Attach a rendered node to its parent at its RSNT position.
+ * Siblings finish rendering in any order (text waits on font loading), so the
+ * index counts only the earlier siblings that are already attached.
+ */
+function attachToParent(flatNode: FlatNode, externalParent: (BaseNode & ChildrenMixin) | undefined, warnings: RenderError[]) {
+    const { figmaNode, parent: flatParent } = flatNode;
+    if (!figmaNode) return;
+
     if (!flatParent) {
         if (externalParent && 'appendChild' in externalParent) externalParent.appendChild(figmaNode);
     } else if (flatParent.figmaNode) {
-        if ('appendChild' in flatParent.figmaNode && flatParent.figmaNode.type !== 'INSTANCE') {
-            flatParent.figmaNode.appendChild(figmaNode);
-        } else if (flatParent.figmaNode.type === 'INSTANCE') {
-            warnings.push(createRenderErrorUI(createExecutionError(ErrorCode.INVALID_LAYOUT_PRIMITIVE), nodeId, 'warning', 'Instances cannot have children'));
+        const parentNode = flatParent.figmaNode;
+        if ('insertChild' in parentNode && parentNode.type !== 'INSTANCE') {
+            const position = flatParent.children.indexOf(flatNode);
+            const index = flatParent.children
+                .slice(0, position)
+                .filter(sibling => sibling.figmaNode && sibling.figmaNode.parent === parentNode)
+                .length;
+            parentNode.insertChild(index, figmaNode);
+        } else if (parentNode.type === 'INSTANCE') {
+            warnings.push(createRenderErrorUI(createExecutionError(ErrorCode.INVALID_LAYOUT_PRIMITIVE), flatNode.rsnt.id, 'warning', 'Instances cannot have children'));
         }
     }
 }
@@ -653,7 +1080,7 @@ function resolveVariable(variableId: string, expectedType: VariableResolvedDataT
         if (variable && variable.resolvedType === expectedType) {
             const collection = figma.variables.getVariableCollectionById(variable.variableCollectionId);
             const mode = collection?.defaultModeId || Object.keys(variable.valuesByMode)[0];
-            return variable.valuesByMode[mode];
+            return resolveVariableValue(variable, mode);
         }
     } catch (e) {
         console.warn('Variable resolution failed', e);
@@ -673,13 +1100,18 @@ function resolveVariable(variableId: string, expectedType: VariableResolvedDataT
  */
 export async function executeInstructions(
     instructions: ExecutionInstructions,
-    rsnt: RSNT_Node
+    rsnt: RSNT_Node,
+    tier?: number
 ): Promise<SceneNode> {
-    if (instructions.type === 'INSTANTIATE_COMPONENT') {
-        return executeComponentInstructions(instructions, rsnt);
-    } else {
-        return executeFrameInstructions(instructions, rsnt);
-    }
+    const figmaNode = instructions.type === 'INSTANTIATE_COMPONENT'
+        ? await executeComponentInstructions(instructions, rsnt)
+        : await executeFrameInstructions(instructions, rsnt);
+
+    rsntMetadataService.write(figmaNode, rsnt, {
+        tier,
+        ...(instructions.type === 'INSTANTIATE_COMPONENT' && { componentId: instructions.componentId, componentKey: instructions.componentKey })
+    });
+    return figmaNode;
 }
 
 /**
@@ -693,6 +1125,7 @@ async function executeComponentInstructions(
     const tempNode: RSNT_Node = {
         ...rsnt,
         componentId: instructions.componentId,
+        componentKey: instructions.componentKey || rsnt.componentKey,
         properties: instructions.properties,
     };
 
@@ -753,7 +1186,18 @@ async function executeFrameInstructions(
 
     // Apply variable bindings if present (Tier 3)
     if (instructions.variableBindings) {
-        applyVariableBindings(frame, instructions.variableBindings);
+        await applyVariableBindings(frame, instructions.variableBindings);
+    }
+
+    // Bind local styles matched where no variable did (Tiers 3-4)
+    if (instructions.styleBindings) {
+        for (const [field, styleId] of Object.entries(instructions.styleBindings)) {
+            if (styleId && figma.getStyleById(styleId)) {
+                (frame as any)[field] = styleId;
+            } else {
+                console.warn(`Style ${styleId} not found, keeping raw ${field.replace('StyleId', '')} values`);
+            }
+        }
     }
 
     return frame;
@@ -762,13 +1206,13 @@ async function executeFrameInstructions(
 /**
  * Apply variable bindings to a frame
  */
-function applyVariableBindings(
+async function applyVariableBindings(
     frame: FrameNode,
     bindings: Record<string, string>
-): void {
+): Promise<void> {
     for (const [property, variableId] of Object.entries(bindings)) {
         try {
-            const variable = figma.variables.getVariableById(variableId);
+            const variable = await getBindableVariable(variableId);
             if (variable) {
                 // Determine which property to bind
                 // Note: Figma API has specific field names for variable bindings
@@ -782,7 +1226,7 @@ function applyVariableBindings(
                                 type: 'SOLID',
                                 color: existingColor,
                                 boundVariables: {
-                                    color: { type: 'VARIABLE_REF', variableId }
+                                    color: { type: 'VARIABLE_REF', variableId: variable.id }
                                 }
                             } as any];
                         } else {
@@ -790,7 +1234,7 @@ function applyVariableBindings(
                                 type: 'SOLID',
                                 color: { r: 0, g: 0, b: 0, a: 1 },
                                 boundVariables: {
-                                    color: { type: 'VARIABLE_REF', variableId }
+                                    color: { type: 'VARIABLE_REF', variableId: variable.id }
                                 }
                             } as any];
                         }
@@ -843,7 +1287,7 @@ export async function renderWithResolution(
             // In practice, you'd need to pass both resolution and RSNT
             const rsnt = resolution.metadata as any; // Placeholder
 
-            const figmaNode = await executeInstructions(resolution.instructions, rsnt);
+            const figmaNode = await executeInstructions(resolution.instructions, rsnt, resolution.tier);
 
             // Attach tier/confidence metadata
             figmaNode.setPluginData('resolutionTier', resolution.tier.toString());
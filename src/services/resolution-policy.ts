@@ -0,0 +1,116 @@
+/**
+ * Resolution Policies
+ * Named limits on the 5-tier fallback system. "Prototype" keeps the
+ * always-render behaviour; stricter policies make resolveNode fail instead of
+ * shipping raw values or system defaults, so design-system violations block
+ * the generation rather than reaching the canvas.
+ */
+
+import { RSNT_Node } from '../types/rsnt';
+import { ResolutionPolicy, ResolutionPolicyName, PolicyViolation, Tier } from '../types/resolution-types';
+import { CompilerError, ErrorCode, createResolutionError } from '../types/errors';
+import { rgbToHex } from '../libs/color-utils';
+
+export const RESOLUTION_POLICIES: Record<ResolutionPolicyName, ResolutionPolicy> = {
+    prototype: {
+        name: 'prototype',
+        label: 'Prototype',
+        description: 'Any tier; always renders, falling back to raw values and system defaults',
+        maxTier: 5,
+        allowRawValues: true
+    },
+    strict: {
+        name: 'strict',
+        label: 'Strict',
+        description: 'Tiers 1-3 only: components, or frames built from design tokens',
+        maxTier: 3,
+        allowRawValues: true
+    },
+    'tokens-only': {
+        name: 'tokens-only',
+        label: 'Tokens only',
+        description: 'Tiers 1-3, and every frame value must come from a variable or style',
+        maxTier: 3,
+        allowRawValues: false
+    }
+};
+
+export const DEFAULT_RESOLUTION_POLICY: ResolutionPolicyName = 'prototype';
+
+/**
+ * Look up a policy by name; unknown names get the default
+ */
+export function getResolutionPolicy(name?: string | null): ResolutionPolicy {
+    return RESOLUTION_POLICIES[name as ResolutionPolicyName] || RESOLUTION_POLICIES[DEFAULT_RESOLUTION_POLICY];
+}
+
+/**
+ * Error for one node the policy cannot resolve; the violation is its details
+ */
+export function createPolicyViolation(
+    node: RSNT_Node,
+    policy: ResolutionPolicy,
+    requiredTier: Tier,
+    missing: string[]
+): CompilerError {
+    const violation: PolicyViolation = {
+        nodeId: node.id,
+        nodeName: node.name,
+        policy: policy.name,
+        requiredTier,
+        missing: [...missing]
+    };
+    return createResolutionError(
+        ErrorCode.POLICY_VIOLATION,
+        violation,
+        `"${node.name || node.id}" needs Tier ${requiredTier}, which the ${policy.label} policy forbids`
+    );
+}
+
+export function isPolicyViolation(error: unknown): error is CompilerError & { details: PolicyViolation } {
+    return error instanceof CompilerError && error.code === ErrorCode.POLICY_VIOLATION;
+}
+
+/**
+ * Values a node would render with that no variable or style backs: solid
+ * fills and strokes without a paint style, spacing and radius numbers, and
+ * text without a text style. Zero spacing and radius are not design values.
+ */
+export function findRawValues(node: RSNT_Node): string[] {
+    const raw: string[] = [];
+    const isRaw = (value: unknown): value is number => typeof value === 'number' && value !== 0;
+
+    const fill = node.fills?.find(f => f.type === 'SOLID' && f.color);
+    if (fill && !node.fillStyleId) raw.push(`Raw fill ${rgbToHex(fill.color!)}`);
+    const stroke = node.strokes?.find(s => s.type === 'SOLID' && s.color);
+    if (stroke && !node.strokeStyleId) raw.push(`Raw stroke ${rgbToHex(stroke.color)}`);
+
+    const padding = node.padding ? [node.padding.top, node.padding.right, node.padding.bottom, node.padding.left].filter(isRaw) : [];
+    if (padding.length > 0) raw.push(`Raw padding ${Array.from(new Set(padding)).join('/')}px`);
+    if (isRaw(node.itemSpacing)) raw.push(`Raw gap ${node.itemSpacing}px`);
+    if (isRaw(node.cornerRadius)) raw.push(`Raw corner radius ${node.cornerRadius}px`);
+
+    if (node.type === 'TEXT' && !node.textStyleId) {
+        raw.push(`No text style${node.fontSize ? ` for ${node.fontSize}px text` : ''}`);
+    }
+    return raw;
+}
+
+/**
+ * Violation for a node that still renders raw values under a policy that
+ * forbids them (Tier 4 primitives are what raw values amount to), or null
+ */
+export function checkRawValues(node: RSNT_Node, policy: ResolutionPolicy): PolicyViolation | null {
+    if (policy.allowRawValues) return null;
+    const raw = findRawValues(node);
+    return raw.length > 0 ? createPolicyViolation(node, policy, 4, raw).details : null;
+}
+
+/**
+ * One line per violating node: what it is and what was missing
+ */
+export function formatPolicyViolations(violations: PolicyViolation[]): string {
+    return violations
+        .map(v => `- ${v.nodeName || v.nodeId} (needs Tier ${v.requiredTier}): ${v.missing.join('; ')}`)
+        .join('\n');
+}
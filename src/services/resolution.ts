@@ -1,7 +1,8 @@
 /**
  * 5-Tier Fallback Resolution System
  * 
- * Guarantees 100% generation success by providing multiple fallback strategies:
+ * Guarantees 100% generation success by providing multiple fallback strategies
+ * (unless a stricter resolution policy caps the tiers, see resolution-policy.ts):
  * - Tier 1: Library Exact Match (highest confidence)
  * - Tier 2: Structural Match with overrides
  * - Tier 3: Variable Construction from design tokens
@@ -10,14 +11,16 @@
  */
 
 import { RSNT_Node } from '../types/rsnt';
-import { DesignSystemInventory, ComponentInfo, VariableInfo } from './auto-discovery';
+import { DesignSystemInventory, ComponentInfo, VariableInfo, StyleInfo, getLibraryKey } from './auto-discovery';
 import { componentSelector } from './component-selector';
 import { resolveVariable, resolveVariableWithContext } from './variable-resolver';
+import { variableApprovals } from './variable-approvals';
 import { resolutionTracker } from './resolution-tracker';
 import { WarningCategory, WarningSeverity } from '../types/resolution-types';
 import { TAILWIND_DEFAULTS, getTailwindColor, getTailwindSpacing, getTailwindRadius } from '../constants/tailwind-defaults';
-import { normalizeColor, rgbToHex } from '../libs/color-utils';
+import { normalizeColor, rgbToHex, hexToRGB, rgbToCIELAB, calculateDeltaE } from '../libs/color-utils';
 import { propertyMappingService } from './property-mapping';
+import { StateVariantMatch } from '../types/classification';
 
 // ============================================================================
 // INTERFACES
@@ -28,13 +31,20 @@ import {
     ExecutionInstructions,
     ComponentInstructions,
     FrameInstructions,
+    StyleBindings,
     StructuralMatchCandidate,
     OverrideSafetyReport,
     ResolutionStats, // importing the analytics one, but we use CollectorStats locally
-    WarningAggregation
+    WarningAggregation,
+    ResolutionPolicy,
+    Tier,
+    ResolutionTrace,
+    TierTrace,
+    TraceCandidate
 } from '../types/resolution-types';
 
-import { resolveAllConflicts, applyResolutionToInstructions } from './conflicts';
+import { resolveAllConflicts, applyResolutionToInstructions, PresetConfig } from './conflicts';
+import { RESOLUTION_POLICIES, DEFAULT_RESOLUTION_POLICY, createPolicyViolation } from './resolution-policy';
 
 /**
  * Statistics for resolution performance (Collector version)
@@ -63,11 +73,13 @@ const FALLBACK_REASONS = {
         insufficientMappings: 'No exact component match found (insufficient property mappings). Using structurally similar component.',
     },
     tier3: {
+        noClasses: 'No Tailwind classes to build from',
         insufficientVariables: 'Insufficient variables (<70% resolved)',
         lowConfidence: 'Low variable confidence',
         general: 'No matching components found. Building from scratch with design tokens.'
     },
     tier4: {
+        noPrimitives: 'No colors, spacing, radii or styles in the file',
         poorApproximation: 'Approximations too poor (<0.35 confidence)',
         general: 'Insufficient design tokens. Using closest available colors/spacing from file.'
     },
@@ -88,14 +100,17 @@ const FALLBACK_REASONS = {
  */
 async function tryTier1ExactMatch(
     node: RSNT_Node,
-    inventory: DesignSystemInventory
+    inventory: DesignSystemInventory,
+    trace: TierTrace
 ): Promise<ResolutionResult | null> {
-    // 1. Find components with matching semantic role
-    const candidates = inventory.components.filter(
-        (c) => c.suggestedRole === node.semanticRole
-    );
+    // 1. Find components with matching semantic role, designer-approved ones first
+    const candidates = inventory.components
+        .filter((c) => c.suggestedRole === node.semanticRole)
+        .sort((a, b) => Number(!!b.approved) - Number(!!a.approved));
 
     if (candidates.length === 0) {
+        trace.reason = FALLBACK_REASONS.tier1.noMatch;
+        trace.notes.push(node.semanticRole ? `No component has the role "${node.semanticRole}"` : 'The node has no semantic role');
         return null;
     }
 
@@ -110,6 +125,7 @@ async function tryTier1ExactMatch(
         // Handle components with no properties
         if (nodePropKeys.length === 0) {
             console.log(`[Tier 1] ✓ Match: ${candidate.name} (no properties to map)`);
+            trace.candidates.push({ id: candidate.id, name: candidate.name, confidence: 0.9, accepted: true, details: ['No properties to map'] });
             return {
                 success: true,
                 tier: 1,
@@ -117,6 +133,7 @@ async function tryTier1ExactMatch(
                 instructions: {
                     type: 'INSTANTIATE_COMPONENT',
                     componentId: candidate.id,
+                    componentKey: getLibraryKey(candidate),
                     properties: {},
                 },
                 confidence: 0.9,
@@ -132,6 +149,15 @@ async function tryTier1ExactMatch(
         console.log(`  Confidence: ${(overallConfidence * 100).toFixed(0)}% (threshold: 70%)`);
         console.log(`  Mappability: ${(mappablePercentage * 100).toFixed(0)}% (threshold: 70%)`);
 
+        const evaluated: TraceCandidate = {
+            id: candidate.id,
+            name: candidate.name,
+            confidence: overallConfidence,
+            accepted: false,
+            details: [`Mappability: ${(mappablePercentage * 100).toFixed(0)}% (threshold: 70%)`]
+        };
+        trace.candidates.push(evaluated);
+
         // Check if thresholds are met
         if (overallConfidence >= 0.70 && mappablePercentage >= 0.70) {
             // Apply property mappings with enhanced service
@@ -144,7 +170,9 @@ async function tryTier1ExactMatch(
             console.log(`  Mapped properties: ${Object.keys(mappingResult.componentProperties).join(', ') || 'none'}`);
             if (mappingResult.skippedProps.length > 0) {
                 console.log(`  Skipped properties: ${mappingResult.skippedProps.join(', ')}`);
+                evaluated.details!.push(`Skipped properties: ${mappingResult.skippedProps.join(', ')}`);
             }
+            evaluated.accepted = true;
 
             return {
                 success: true,
@@ -153,6 +181,7 @@ async function tryTier1ExactMatch(
                 instructions: {
                     type: 'INSTANTIATE_COMPONENT',
                     componentId: candidate.id,
+                    componentKey: getLibraryKey(candidate),
                     properties: mappingResult.componentProperties,
                 },
                 confidence: overallConfidence,
@@ -160,10 +189,16 @@ async function tryTier1ExactMatch(
             };
         } else {
             console.log(`[Tier 1] ✗ ${candidate.name} failed thresholds`);
+            evaluated.reason = overallConfidence < 0.70
+                ? FALLBACK_REASONS.tier1.lowConfidence
+                : FALLBACK_REASONS.tier1.insufficientMappings;
         }
     }
 
     console.log(`[Tier 1] No candidates met thresholds, falling back to Tier 2`);
+    trace.reason = trace.candidates.every(c => c.reason === FALLBACK_REASONS.tier1.lowConfidence)
+        ? FALLBACK_REASONS.tier1.lowConfidence
+        : FALLBACK_REASONS.tier1.insufficientMappings;
     return null;
 }
 
@@ -403,7 +438,8 @@ function generateOverrides(
  */
 async function tryTier2StructuralMatch(
     node: RSNT_Node,
-    inventory: DesignSystemInventory
+    inventory: DesignSystemInventory,
+    trace: TierTrace
 ): Promise<ResolutionResult | null> {
     console.log(`[Tier 2] Starting structural match for node "${node.name || node.id}"`);
 
@@ -412,6 +448,8 @@ async function tryTier2StructuralMatch(
 
     if (candidates.length === 0) {
         console.log(`[Tier 2] No structural matches found, falling back to Tier 3`);
+        trace.reason = FALLBACK_REASONS.tier2.noStructuralMatch;
+        trace.notes.push(`No component has the ${node.layoutMode || 'NONE'} layout`);
         return null;
     }
 
@@ -427,9 +465,21 @@ async function tryTier2StructuralMatch(
         const safetyReport = validateOverrideCompatibility(overrides, candidate.component);
         console.log(`[Tier 2] Safety check: ${safetyReport.safe ? '✓ SAFE' : '✗ UNSAFE'}`);
 
+        const tested: TraceCandidate = {
+            id: candidate.component.id,
+            name: candidate.component.name,
+            score: candidate.score,
+            confidence: candidate.confidence,
+            accepted: safetyReport.safe,
+            details: Object.entries(candidate.matchDetails).map(([check, passed]) => `${check}: ${passed ? '✓' : '✗'}`)
+        };
+        trace.candidates.push(tested);
+
         if (!safetyReport.safe) {
             console.log(`[Tier 2] Unsafe properties: ${safetyReport.unsafeProperties.join(', ')}`);
             console.log(`[Tier 2] Rejecting ${candidate.component.name}, trying next candidate...`);
+            tested.reason = FALLBACK_REASONS.tier2.overrideSafetyFailed;
+            tested.details!.push(`Unsafe: ${safetyReport.unsafeProperties.join(', ')}`);
             continue;
         }
 
@@ -444,6 +494,7 @@ async function tryTier2StructuralMatch(
             instructions: {
                 type: 'INSTANTIATE_COMPONENT',
                 componentId: candidate.component.id,
+                componentKey: getLibraryKey(candidate.component),
                 properties: {},
                 overrides,
             },
@@ -457,6 +508,7 @@ async function tryTier2StructuralMatch(
 
     // No compatible candidates found
     console.log(`[Tier 2] All candidates failed safety checks, falling back to Tier 3`);
+    trace.reason = FALLBACK_REASONS.tier2.overrideSafetyFailed;
     return null;
 }
 
@@ -470,27 +522,54 @@ async function tryTier2StructuralMatch(
  */
 async function tryTier3VariableConstruction(
     node: RSNT_Node,
-    inventory: DesignSystemInventory
+    inventory: DesignSystemInventory,
+    trace: TierTrace,
+    mode?: string,
+    unresolved: string[] = [] // Filled with the classes no variable or style matched
 ): Promise<ResolutionResult | null> {
     // 1. Collect Tailwind classes
     const classes = node.tailwindClasses || [];
 
     if (classes.length === 0) {
+        trace.reason = FALLBACK_REASONS.tier3.noClasses;
         return null;
     }
 
     // 2. Resolve classes to variables
-    const resolutions = await Promise.all(
-        classes.map((cls) => resolveClassToVariable(cls, inventory))
+    const variableResolutions = await Promise.all(
+        classes.map((cls) => resolveClassToVariable(cls, inventory, mode, node.id))
     );
 
+    // 2b. Style-based systems: classes with no variable fall back to a matching local style
+    const styleResolutions = classes.map((cls, i) => {
+        const resolved = variableResolutions[i];
+        return resolved && resolved.confidence >= 0.8 ? null : resolveClassToStyle(cls, inventory);
+    });
+    const resolutions = classes.map((_, i) => styleResolutions[i] || variableResolutions[i]);
+    classes.forEach((cls, i) => {
+        const resolution = resolutions[i];
+        const accepted = !!resolution && resolution.confidence >= 0.8;
+        if (!accepted) unresolved.push(cls);
+        trace.candidates.push({
+            name: cls,
+            confidence: resolution?.confidence,
+            accepted,
+            ...(resolution ? { details: [`${styleResolutions[i] ? 'Style' : 'Variable'} for ${resolution.propertyKey}`] } : {}),
+            ...(accepted ? {} : { reason: resolution ? FALLBACK_REASONS.tier3.lowConfidence : 'No matching variable or style' })
+        });
+    });
+
     // 3. Check success rate (≥70% with ≥0.8 confidence)
     const successful = resolutions.filter((r) => r && r.confidence >= 0.8);
     const successRate = successful.length / resolutions.length;
+    trace.notes.push(`${successful.length} of ${classes.length} classes resolved (threshold: 70%)`);
 
     if (successRate >= 0.7) {
-        const successfulFiltered = successful.filter((r): r is { variableId: string; confidence: number; propertyKey: string } => r !== null);
+        const successfulFiltered = variableResolutions.filter((r, i): r is { variableId: string; confidence: number; propertyKey: string } =>
+            r !== null && r.confidence >= 0.8 && !styleResolutions[i]
+        );
         const variableBindings = buildVariableBindings(successfulFiltered);
+        const styleBindings = buildStyleBindings(styleResolutions);
         const styling = buildStylingFromClasses(classes, successfulFiltered);
         const unresolvedClasses = listUnresolvedClasses(classes, resolutions);
 
@@ -503,12 +582,14 @@ async function tryTier3VariableConstruction(
                 layoutMode: node.layoutMode || 'NONE',
                 styling,
                 variableBindings,
+                ...(Object.keys(styleBindings).length > 0 ? { styleBindings } : {})
             },
-            confidence: successfulFiltered.reduce((sum, r) => sum + r.confidence, 0) / successfulFiltered.length,
+            confidence: successful.reduce((sum, r) => sum + r!.confidence, 0) / successful.length,
             warnings: unresolvedClasses,
         };
     }
 
+    trace.reason = FALLBACK_REASONS.tier3.insufficientVariables;
     return null;
 }
 
@@ -518,7 +599,9 @@ async function tryTier3VariableConstruction(
  */
 async function resolveClassToVariable(
     className: string,
-    inventory: DesignSystemInventory
+    inventory: DesignSystemInventory,
+    mode?: string,
+    nodeId?: string // RSNT node to bind once a pending match is approved
 ): Promise<{ variableId: string; confidence: number; propertyKey: string } | null> {
     let tokenName: string | null = null;
     let propertyKey: string = '';
@@ -573,12 +656,20 @@ async function resolveClassToVariable(
 
         if (hexColor && propertyKey === 'fill') {
             // Use proximity-enabled resolution for colors
-            result = await resolveVariableWithContext(tokenName, hexColor, inventory);
+            result = await resolveVariableWithContext(tokenName, hexColor, inventory, mode, propertyKey);
         } else {
-            result = await resolveVariable(tokenName, inventory);
+            result = await resolveVariable(tokenName, inventory, mode, propertyKey);
         }
 
-        if (result.variableId && result.confidence >= 0.7) {
+        // Medium-confidence matches wait for the designer instead of binding silently
+        const pending = variableApprovals.collect(
+            tokenName,
+            result,
+            inventory.variables,
+            nodeId ? { nodeId, property: propertyKey } : undefined
+        );
+
+        if (result.variableId && result.confidence >= 0.7 && !pending) {
             return {
                 variableId: result.variableId,
                 confidence: result.confidence,
@@ -607,6 +698,21 @@ function buildVariableBindings(
     return bindings;
 }
 
+/**
+ * Collect confident (≥0.8) style resolutions into frame style bindings
+ */
+function buildStyleBindings(
+    resolutions: Array<{ styleId: string; confidence: number; propertyKey: keyof StyleBindings } | null>
+): StyleBindings {
+    const bindings: StyleBindings = {};
+
+    for (const resolution of resolutions) {
+        if (resolution && resolution.confidence >= 0.8) bindings[resolution.propertyKey] = resolution.styleId;
+    }
+
+    return bindings;
+}
+
 /**
  * Build styling from Tailwind classes
  */
@@ -684,13 +790,114 @@ function listUnresolvedClasses(
 
     classes.forEach((cls, i) => {
         if (!resolutions[i] || resolutions[i].confidence < 0.8) {
-            warnings.push(`Class "${cls}" could not be resolved to a design variable`);
+            warnings.push(`Class "${cls}" could not be resolved to a design variable or style`);
         }
     });
 
     return warnings;
 }
 
+// ============================================================================
+// STYLE MATCHING (paint, text and effect styles)
+// ============================================================================
+
+// Tailwind shadow blur radii, for matching shadow-* classes to effect styles
+const TAILWIND_SHADOW_RADII: Record<string, number> = { sm: 2, DEFAULT: 3, md: 6, lg: 15, xl: 25, '2xl': 50 };
+
+// How far an effect style's blur (px, or 20% of the blur if larger) and offset (px) may be from a shadow it stands in for
+const EFFECT_RADIUS_TOLERANCE = 2;
+const EFFECT_OFFSET_TOLERANCE = 2;
+
+/**
+ * Paint style visually identical to a color (ΔE < 2), closest first
+ */
+export function findPaintStyleForColor(hex: string, inventory: DesignSystemInventory): { style: StyleInfo; deltaE: number } | null {
+    const target = rgbToCIELAB(hexToRGB(hex));
+    let best: { style: StyleInfo; deltaE: number } | null = null;
+
+    for (const style of inventory.styles || []) {
+        if (style.type !== 'PAINT' || !style.color) continue;
+        const deltaE = calculateDeltaE(target, rgbToCIELAB(style.color));
+        if (deltaE < 2 && (!best || deltaE < best.deltaE)) best = { style, deltaE };
+    }
+
+    return best;
+}
+
+/**
+ * Effect style whose first effect has the same type and a blur radius (and
+ * offset, when both have one) within tolerance, closest blur first
+ */
+function findEffectStyle(
+    effect: { type: string; radius?: number; offset?: { x: number; y: number } },
+    inventory: DesignSystemInventory
+): { style: StyleInfo; radiusDelta: number } | null {
+    const radius = effect.radius || 0;
+    const radiusTolerance = Math.max(EFFECT_RADIUS_TOLERANCE, radius * 0.2);
+    let best: { style: StyleInfo; radiusDelta: number } | null = null;
+
+    for (const style of inventory.styles || []) {
+        const candidate = style.type === 'EFFECT' ? style.effects?.[0] : undefined;
+        if (!candidate || candidate.type !== effect.type) continue;
+        const radiusDelta = Math.abs(candidate.radius - radius);
+        if (radiusDelta > radiusTolerance) continue;
+        if (effect.offset && candidate.offset && (
+            Math.abs(candidate.offset.x - effect.offset.x) > EFFECT_OFFSET_TOLERANCE ||
+            Math.abs(candidate.offset.y - effect.offset.y) > EFFECT_OFFSET_TOLERANCE
+        )) continue;
+        if (!best || radiusDelta < best.radiusDelta) best = { style, radiusDelta };
+    }
+
+    return best;
+}
+
+/**
+ * Text style for a TEXT node: the same font size, preferring the node's font family
+ */
+export function resolveTextStyle(node: RSNT_Node, inventory: DesignSystemInventory): StyleInfo | null {
+    if (node.type !== 'TEXT' || !node.fontSize) return null;
+    const sameSize = (inventory.styles || []).filter(s => s.type === 'TEXT' && s.fontSize === node.fontSize);
+    const sameFamily = node.fontFamily ? sameSize.filter(s => s.fontName?.family === node.fontFamily) : sameSize;
+    if (node.fontFamily && sameFamily.length === 0) return null;
+    const sameStyle = node.fontStyle ? sameFamily.filter(s => s.fontName?.style === node.fontStyle) : [];
+    return sameStyle[0] || sameFamily[0] || null;
+}
+
+/**
+ * Resolve a Tailwind class to a local style when no variable matched.
+ * bg-* / border-* match paint styles by name or color, shadow-* match effect styles.
+ */
+function resolveClassToStyle(
+    className: string,
+    inventory: DesignSystemInventory
+): { styleId: string; confidence: number; propertyKey: keyof StyleBindings } | null {
+    if (!inventory.styles || inventory.styles.length === 0) return null;
+
+    const paintMatch = className.match(/^(bg|border)-(.+)$/);
+    if (paintMatch) {
+        const propertyKey = paintMatch[1] === 'bg' ? 'fillStyleId' : 'strokeStyleId';
+        const colorName = paintMatch[2].replace(/-/g, '/').toLowerCase();
+        const named = inventory.styles.find(s =>
+            s.type === 'PAINT' && (s.name.toLowerCase() === colorName || s.name.toLowerCase().endsWith(`/${colorName}`))
+        );
+        if (named) return { styleId: named.id, confidence: 0.9, propertyKey };
+
+        const hex = getTailwindColor(className);
+        const closest = hex ? findPaintStyleForColor(hex, inventory) : null;
+        if (closest) return { styleId: closest.style.id, confidence: 0.85, propertyKey };
+        return null;
+    }
+
+    const shadowMatch = className.match(/^shadow(?:-(sm|md|lg|xl|2xl))?$/);
+    if (shadowMatch) {
+        const match = findEffectStyle({ type: 'DROP_SHADOW', radius: TAILWIND_SHADOW_RADII[shadowMatch[1] || 'DEFAULT'] }, inventory);
+        // A near blur is a guess, so it stays below the 0.8 needed to bind
+        if (match) return { styleId: match.style.id, confidence: match.radiusDelta === 0 ? 0.8 : 0.6, propertyKey: 'effectStyleId' };
+    }
+
+    return null;
+}
+
 // ============================================================================
 // TIER 4: PRIMITIVE FALLBACK
 // ============================================================================
@@ -709,24 +916,31 @@ import {
 } from './primitive-scanner';
 
 /**
- * Tier 4: Use closest available primitive values from file
+ * Tier 4: Use closest available primitive values from file. Colors and
+ * shadows that exactly match a local paint/effect style bind that style instead.
  * Confidence: 0.35-0.60
  */
 async function tryTier4PrimitiveFallback(
-    node: RSNT_Node
+    node: RSNT_Node,
+    designSystem: DesignSystemInventory,
+    trace: TierTrace,
+    mode?: string
 ): Promise<ResolutionResult | null> {
     console.log(`[Tier 4] Starting primitive fallback for node "${node.name || node.id}"`);
 
     // 1. Get cached primitive inventory
     const inventory = await getCachedPrimitiveInventory();
+    const hasStyles = (designSystem.styles || []).length > 0;
 
-    if (inventory.colors.size === 0 && inventory.spacing.size === 0 && inventory.radii.size === 0) {
-        console.log(`[Tier 4] No primitives found in file, falling back to Tier 5`);
+    if (inventory.colors.size === 0 && inventory.spacing.size === 0 && inventory.radii.size === 0 && !hasStyles) {
+        console.log(`[Tier 4] No primitives or styles found in file, falling back to Tier 5`);
+        trace.reason = FALLBACK_REASONS.tier4.noPrimitives;
         return null;
     }
 
-    // 2. Build styling from primitive matches
+    // 2. Build styling from style and primitive matches
     const styling: FrameInstructions['styling'] = {};
+    const styleBindings: StyleBindings = {};
     const warnings: string[] = [];
     const confidences: number[] = [];
 
@@ -735,10 +949,19 @@ async function tryTier4PrimitiveFallback(
         const firstFill = node.fills[0];
         if (firstFill.type === 'SOLID' && firstFill.color) {
             const targetHex = rgbToHex(firstFill.color);
-            const colorMatch = findClosestColor(targetHex, inventory.colors);
+            const styleMatch = findPaintStyleForColor(targetHex, designSystem);
+            const colorMatch = styleMatch ? null : findClosestColor(targetHex, inventory.colors, designSystem.variables, mode);
 
-            if (colorMatch) {
+            if (styleMatch) {
+                console.log(`[Tier 4] Fill color: ${targetHex} -> style "${styleMatch.style.name}" (ΔE = ${styleMatch.deltaE.toFixed(1)})`);
+                trace.candidates.push({ name: `Fill ${targetHex}`, confidence: 0.6, accepted: true, details: [`Style "${styleMatch.style.name}" (ΔE ${styleMatch.deltaE.toFixed(1)})`] });
+
+                styling.fills = [{ type: 'SOLID', color: normalizeColor(targetHex) }];
+                styleBindings.fillStyleId = styleMatch.style.id;
+                confidences.push(0.6);
+            } else if (colorMatch) {
                 console.log(`[Tier 4] Fill color: ${targetHex} -> ${colorMatch.color} (ΔE = ${colorMatch.deltaE.toFixed(1)}, confidence = ${(colorMatch.confidence * 100).toFixed(0)}%)`);
+                trace.candidates.push({ name: `Fill ${targetHex}`, confidence: colorMatch.confidence, accepted: true, details: [`${colorMatch.color} (ΔE ${colorMatch.deltaE.toFixed(1)})`] });
 
                 styling.fills = [{ type: 'SOLID', color: normalizeColor(colorMatch.color) }];
                 confidences.push(colorMatch.confidence);
@@ -748,6 +971,7 @@ async function tryTier4PrimitiveFallback(
                 }
             } else {
                 console.log(`[Tier 4] No suitable fill color found (all ΔE >= 10)`);
+                trace.candidates.push({ name: `Fill ${targetHex}`, accepted: false, reason: 'No color within ΔE 10' });
             }
         }
     }
@@ -757,10 +981,19 @@ async function tryTier4PrimitiveFallback(
         const firstStroke = node.strokes[0];
         if (firstStroke.type === 'SOLID' && firstStroke.color) {
             const targetHex = rgbToHex(firstStroke.color);
-            const colorMatch = findClosestColor(targetHex, inventory.colors);
+            const styleMatch = findPaintStyleForColor(targetHex, designSystem);
+            const colorMatch = styleMatch ? null : findClosestColor(targetHex, inventory.colors, designSystem.variables, mode);
+
+            if (styleMatch) {
+                console.log(`[Tier 4] Stroke color: ${targetHex} -> style "${styleMatch.style.name}" (ΔE = ${styleMatch.deltaE.toFixed(1)})`);
+                trace.candidates.push({ name: `Stroke ${targetHex}`, confidence: 0.6, accepted: true, details: [`Style "${styleMatch.style.name}" (ΔE ${styleMatch.deltaE.toFixed(1)})`] });
 
-            if (colorMatch) {
+                styling.strokes = [{ type: 'SOLID', color: normalizeColor(targetHex) }];
+                styleBindings.strokeStyleId = styleMatch.style.id;
+                confidences.push(0.6);
+            } else if (colorMatch) {
                 console.log(`[Tier 4] Stroke color: ${targetHex} -> ${colorMatch.color} (ΔE = ${colorMatch.deltaE.toFixed(1)}, confidence = ${(colorMatch.confidence * 100).toFixed(0)}%)`);
+                trace.candidates.push({ name: `Stroke ${targetHex}`, confidence: colorMatch.confidence, accepted: true, details: [`${colorMatch.color} (ΔE ${colorMatch.deltaE.toFixed(1)})`] });
 
                 styling.strokes = [{ type: 'SOLID', color: normalizeColor(colorMatch.color) }];
                 confidences.push(colorMatch.confidence);
@@ -770,6 +1003,7 @@ async function tryTier4PrimitiveFallback(
                 }
             } else {
                 console.log(`[Tier 4] No suitable stroke color found (all ΔE >= 10)`);
+                trace.candidates.push({ name: `Stroke ${targetHex}`, accepted: false, reason: 'No color within ΔE 10' });
             }
         }
     }
@@ -802,6 +1036,7 @@ async function tryTier4PrimitiveFallback(
 
                 if (spacingMatch) {
                     console.log(`[Tier 4] Padding ${side}: ${targetValue}px -> ${spacingMatch.value}px (distance = ${spacingMatch.distance}px, confidence = ${(spacingMatch.confidence * 100).toFixed(0)}%)`);
+                    trace.candidates.push({ name: `Padding ${side} ${targetValue}px`, confidence: spacingMatch.confidence, accepted: true, details: [`${spacingMatch.value}px`] });
 
                     matchedPadding[side] = spacingMatch.value;
                     confidences.push(spacingMatch.confidence);
@@ -828,6 +1063,7 @@ async function tryTier4PrimitiveFallback(
 
             if (radiusMatch) {
                 console.log(`[Tier 4] Corner radius: ${numericRadius}px -> ${radiusMatch.value}px (distance = ${radiusMatch.distance}px, confidence = ${(radiusMatch.confidence * 100).toFixed(0)}%)`);
+                trace.candidates.push({ name: `Corner radius ${numericRadius}px`, confidence: radiusMatch.confidence, accepted: true, details: [`${radiusMatch.value}px`] });
 
                 styling.cornerRadius = radiusMatch.value;
                 confidences.push(radiusMatch.confidence);
@@ -839,21 +1075,37 @@ async function tryTier4PrimitiveFallback(
         }
     }
 
+    // Match shadows and blurs to effect styles
+    if (node.effects && node.effects.length > 0) {
+        const effectMatch = findEffectStyle(node.effects[0], designSystem);
+        if (effectMatch) {
+            const confidence = effectMatch.radiusDelta === 0 ? 0.5 : 0.4;
+            console.log(`[Tier 4] Effect: ${node.effects[0].type} -> style "${effectMatch.style.name}" (blur Δ ${effectMatch.radiusDelta}px)`);
+            trace.candidates.push({ name: `Effect ${node.effects[0].type}`, confidence, accepted: true, details: [`Style "${effectMatch.style.name}" (blur Δ ${effectMatch.radiusDelta}px)`] });
+            styleBindings.effectStyleId = effectMatch.style.id;
+            confidences.push(confidence);
+        } else {
+            trace.candidates.push({ name: `Effect ${node.effects[0].type}`, accepted: false, reason: 'No effect style with a similar blur and offset' });
+        }
+    }
+
     // 3. Calculate aggregate confidence
     const aggregateConfidence = confidences.length > 0
         ? confidences.reduce((sum, c) => sum + c, 0) / confidences.length
         : 0;
 
     console.log(`[Tier 4] Aggregate confidence: ${(aggregateConfidence * 100).toFixed(0)}% (threshold: 35%)`);
+    trace.notes.push(`Aggregate confidence: ${(aggregateConfidence * 100).toFixed(0)}% (threshold: 35%)`);
 
     // 4. Check if confidence meets threshold
     if (aggregateConfidence < 0.35) {
         console.log(`[Tier 4] Confidence too low, falling back to Tier 5`);
+        trace.reason = FALLBACK_REASONS.tier4.poorApproximation;
         return null;
     }
 
     // 5. Return result
-    console.log(`[Tier 4] ✓ Success with ${confidences.length} primitive matches`);
+    console.log(`[Tier 4] ✓ Success with ${confidences.length} primitive and style matches`);
 
     return {
         success: true,
@@ -863,6 +1115,7 @@ async function tryTier4PrimitiveFallback(
             type: 'CREATE_FRAME',
             layoutMode: node.layoutMode || 'NONE',
             styling,
+            ...(Object.keys(styleBindings).length > 0 ? { styleBindings } : {}),
             primitiveValues: styling,
         },
         confidence: aggregateConfidence,
@@ -938,26 +1191,62 @@ function buildStylingFromDefaults(node: RSNT_Node): FrameInstructions['styling']
 
 /**
  * Resolve a single RSNT node using 5-tier fallback system
- * Guarantees success (Tier 5 always works)
+ * Under the default (prototype) policy this always succeeds, since Tier 5 always works.
+ * Stricter policies stop before the tiers they forbid and throw a POLICY_VIOLATION
+ * error whose details list what each allowed tier was missing.
+ * `mode` is the variable mode the design targets (e.g. "Dark") for color matching
+ * The result carries a trace of every tier tried, its candidates and why each was rejected.
+ * A design `preset` outranks AI values in conflict resolution (but not component values).
  */
 export async function resolveNode(
     node: RSNT_Node,
-    inventory: DesignSystemInventory
+    inventory: DesignSystemInventory,
+    mode?: string,
+    policy: ResolutionPolicy = RESOLUTION_POLICIES[DEFAULT_RESOLUTION_POLICY],
+    preset?: PresetConfig
 ): Promise<ResolutionResult> {
     const startTime = Date.now();
     const attemptedTiers: number[] = [];
+    const missing: string[] = [];
+    const trace: ResolutionTrace = {
+        nodeId: node.id,
+        nodeName: node.name,
+        semanticRole: node.semanticRole,
+        tiers: [],
+        outcome: null
+    };
     let result: ResolutionResult | null = null;
 
+    const enforcePolicy = (tier: Tier) => {
+        if (tier <= policy.maxTier) return;
+        startTierTrace(trace, tier, 'forbidden').reason = `${policy.label} policy forbids Tier ${tier}`;
+        resolutionTracker.record({
+            nodeId: node.id,
+            tier: attemptedTiers[attemptedTiers.length - 1] as Tier,
+            confidence: 0,
+            method: 'policy_violation',
+            timeTaken: Date.now() - startTime,
+            fallbackReason: `${policy.label} policy forbids Tier ${tier}`,
+            warnings: [],
+            succeeded: false,
+            attemptedTiers: attemptedTiers as any,
+            trace
+        });
+        throw createPolicyViolation(node, policy, tier, missing);
+    };
+
     // Try Tier 1: Exact Match
     attemptedTiers.push(1);
-    result = await tryTier1ExactMatch(node, inventory);
+    result = await tryTier1ExactMatch(node, inventory, startTierTrace(trace, 1));
     if (result) {
-        return recordAndReturn(result, node, inventory, startTime, attemptedTiers);
+        return recordAndReturn(result, node, inventory, startTime, attemptedTiers, trace, preset);
     }
+    missing.push(node.semanticRole ? `No component with role "${node.semanticRole}"` : 'No semantic role to match a component');
 
     // Try Tier 2: Structural Match
+    enforcePolicy(2);
     attemptedTiers.push(2);
-    result = await tryTier2StructuralMatch(node, inventory);
+    result = await tryTier2StructuralMatch(node, inventory, startTierTrace(trace, 2));
     if (result) {
         const metadata: ResolutionResult['metadata'] = {
             nodeId: node.id,
@@ -965,12 +1254,21 @@ export async function resolveNode(
             fallbackReason: FALLBACK_REASONS.tier2.noMatchingRole
         };
         result.metadata = metadata;
-        return recordAndReturn(result, node, inventory, startTime, attemptedTiers);
+        return recordAndReturn(result, node, inventory, startTime, attemptedTiers, trace, preset);
     }
+    missing.push('No structurally similar component');
 
     // Try Tier 3: Variable Construction
+    enforcePolicy(3);
     attemptedTiers.push(3);
-    result = await tryTier3VariableConstruction(node, inventory);
+    const unresolvedClasses: string[] = [];
+    const tier3 = startTierTrace(trace, 3);
+    result = await tryTier3VariableConstruction(node, inventory, tier3, mode, unresolvedClasses);
+    if (result && !policy.allowRawValues && unresolvedClasses.length > 0) {
+        result = null; // Would keep raw values for the unresolved classes
+        tier3.outcome = 'forbidden';
+        tier3.reason = `${policy.label} policy forbids raw values for ${unresolvedClasses.join(', ')}`;
+    }
     if (result) {
         const metadata: ResolutionResult['metadata'] = {
             nodeId: node.id,
@@ -978,12 +1276,16 @@ export async function resolveNode(
             fallbackReason: FALLBACK_REASONS.tier3.general
         };
         result.metadata = metadata;
-        return recordAndReturn(result, node, inventory, startTime, attemptedTiers);
+        return recordAndReturn(result, node, inventory, startTime, attemptedTiers, trace, preset);
     }
+    missing.push(unresolvedClasses.length > 0
+        ? `No design tokens for ${unresolvedClasses.join(', ')}`
+        : 'No Tailwind classes to build from design tokens');
 
     // Try Tier 4: Primitive Fallback
+    enforcePolicy(4);
     attemptedTiers.push(4);
-    result = await tryTier4PrimitiveFallback(node);
+    result = await tryTier4PrimitiveFallback(node, inventory, startTierTrace(trace, 4), mode);
     if (result) {
         const metadata: ResolutionResult['metadata'] = {
             nodeId: node.id,
@@ -991,11 +1293,14 @@ export async function resolveNode(
             fallbackReason: FALLBACK_REASONS.tier4.general
         };
         result.metadata = metadata;
-        return recordAndReturn(result, node, inventory, startTime, attemptedTiers);
+        return recordAndReturn(result, node, inventory, startTime, attemptedTiers, trace, preset);
     }
+    missing.push('No close enough colors, spacing or radii in the file');
 
     // Tier 5: System Defaults (always succeeds)
+    enforcePolicy(5);
     attemptedTiers.push(5);
+    startTierTrace(trace, 5);
     result = tryTier5SystemDefaults(node);
     const metadata: ResolutionResult['metadata'] = {
         nodeId: node.id,
@@ -1004,7 +1309,16 @@ export async function resolveNode(
     };
     result.metadata = metadata;
 
-    return recordAndReturn(result, node, inventory, startTime, attemptedTiers);
+    return recordAndReturn(result, node, inventory, startTime, attemptedTiers, trace, preset);
+}
+
+/**
+ * Add a tier to the trace; tiers count as rejected until one returns a result
+ */
+function startTierTrace(trace: ResolutionTrace, tier: Tier, outcome: TierTrace['outcome'] = 'rejected'): TierTrace {
+    const tierTrace: TierTrace = { tier, outcome, candidates: [], notes: [] };
+    trace.tiers.push(tierTrace);
+    return tierTrace;
 }
 
 /**
@@ -1017,7 +1331,9 @@ async function recordAndReturn(
     node: RSNT_Node,
     inventory: DesignSystemInventory,
     startTime: number,
-    attemptedTiers: number[]
+    attemptedTiers: number[],
+    trace: ResolutionTrace,
+    preset?: PresetConfig
 ): Promise<ResolutionResult> {
     const timeMs = Date.now() - startTime;
 
@@ -1033,18 +1349,47 @@ async function recordAndReturn(
 
     // --- Conflict Resolution (runs for every successful tier) ---
     try {
-        const conflicts = await resolveAllConflicts(node, finalResult, inventory);
+        const conflicts = await resolveAllConflicts(node, finalResult, inventory, preset);
         if (conflicts.length > 0) {
             applyResolutionToInstructions(finalResult.instructions, conflicts);
             finalResult.warnings.push(...conflicts.map(c =>
                 `Conflict: ${c.property} resolved to ${c.winner.source} (${c.winner.formattedValue})`
             ));
-            (finalResult.metadata as any).conflicts = conflicts;
+            finalResult.metadata!.conflicts = conflicts;
         }
     } catch (e) {
         console.warn('Conflict resolution failed for node', node.id, e);
     }
 
+    // Complete the trace with the chosen outcome
+    const selected = trace.tiers[trace.tiers.length - 1];
+    selected.outcome = 'selected';
+    const instructions = finalResult.instructions;
+
+    // Map the RSNT state (e.g. 'disabled') onto the chosen component's state variant
+    if (instructions.type === 'INSTANTIATE_COMPONENT' && node.state) {
+        const component = inventory.components.find(c => c.id === instructions.componentId);
+        const match = component ? resolveComponentState(node, component) : null;
+        if (match) {
+            instructions.properties = { ...instructions.properties, [match.property]: match.value };
+            selected.notes.push(`State "${node.state}" → ${match.property}=${match.value}`);
+        } else {
+            const warning = `Component "${component?.name || instructions.componentId}" has no variant for state "${node.state}"`;
+            finalResult.warnings.push(warning);
+            selected.notes.push(warning);
+        }
+    }
+
+    trace.outcome = {
+        tier: finalResult.tier,
+        method: finalResult.method,
+        confidence: finalResult.confidence,
+        ...(instructions.type === 'INSTANTIATE_COMPONENT'
+            ? { componentName: inventory.components.find(c => c.id === instructions.componentId)?.name }
+            : {})
+    };
+    finalResult.trace = trace;
+
     // Track detailed resolution log
     const detailedWarnings = finalResult.warnings.map(w =>
         resolutionTracker.createCategorizedWarning(w, finalResult.tier, node.id)
@@ -1059,12 +1404,51 @@ async function recordAndReturn(
         fallbackReason: finalResult.metadata?.fallbackReason,
         warnings: detailedWarnings,
         succeeded: true,
-        attemptedTiers: attemptedTiers as any
+        attemptedTiers: attemptedTiers as any,
+        trace
     });
 
     return finalResult;
 }
 
+// ============================================================================
+// COMPONENT STATES
+// ============================================================================
+
+/**
+ * The variant property and value that put a component instance in its RSNT
+ * state, or null when the node has no state or the component has no variant for it
+ */
+export function resolveComponentState(node: RSNT_Node, component: ComponentInfo): StateVariantMatch | null {
+    if (!node.state) return null;
+    return propertyMappingService.resolveStateVariant(component.id, node.state, component.variantProperties || {});
+}
+
+/**
+ * Set the state variant on every component instance in a tree whose component
+ * is in the inventory, e.g. after a state matrix switches states.
+ * Returns a warning per instance whose component has no variant for its state.
+ */
+export function applyComponentStates(root: RSNT_Node, inventory: DesignSystemInventory): Array<{ nodeId: string; message: string }> {
+    const warnings: Array<{ nodeId: string; message: string }> = [];
+    const walk = (node: RSNT_Node) => {
+        const component = node.type === 'COMPONENT_INSTANCE' && node.state
+            ? inventory.components.find(c => c.id === node.componentId)
+            : undefined;
+        if (component) {
+            const match = resolveComponentState(node, component);
+            if (match) {
+                node.properties = { ...node.properties, [match.property]: match.value };
+            } else {
+                warnings.push({ nodeId: node.id, message: `Component "${component.name}" has no variant for state "${node.state}"` });
+            }
+        }
+        (node.children || []).forEach(walk);
+    };
+    walk(root);
+    return warnings;
+}
+
 // ============================================================================
 // STATISTICS TRACKING
 // ============================================================================
@@ -0,0 +1,89 @@
+/**
+ * Responsive Breakpoints
+ * Resolves per-node `responsive` overrides into one concrete RSNT tree per breakpoint.
+ *
+ * Overrides cascade mobile-first like Tailwind: the base node describes the
+ * smallest layout, and each breakpoint's override applies from that breakpoint
+ * upward until a larger breakpoint overrides it again.
+ */
+
+import { RSNT_Node, Breakpoint, ResponsiveOverride } from '../types/rsnt';
+import { RESPONSIVE_BREAKPOINTS, BREAKPOINT_ORDER, RESPONSIVE_OVERRIDE_PROPS } from '../types/rsnt-constants';
+
+export type BreakpointTarget = 'base' | Breakpoint;
+
+/**
+ * Whether any node in the tree declares responsive overrides
+ */
+export function hasResponsiveOverrides(node: RSNT_Node): boolean {
+    if (node.responsive && Object.keys(node.responsive).length > 0) return true;
+    return (node.children || []).some(hasResponsiveOverrides);
+}
+
+/**
+ * All breakpoints declared anywhere in the tree, smallest first (excluding base)
+ */
+export function getDeclaredBreakpoints(node: RSNT_Node): Breakpoint[] {
+    const found = new Set<string>();
+
+    const walk = (n: RSNT_Node) => {
+        for (const key of Object.keys(n.responsive || {})) found.add(key);
+        (n.children || []).forEach(walk);
+    };
+    walk(node);
+
+    return BREAKPOINT_ORDER.filter(bp => found.has(bp));
+}
+
+/**
+ * Frame width a breakpoint is rendered at
+ */
+export function getBreakpointWidth(target: BreakpointTarget): number {
+    return RESPONSIVE_BREAKPOINTS[target];
+}
+
+/**
+ * Produce a standalone RSNT tree for one breakpoint.
+ * The result is a deep copy with overrides applied and `responsive` removed.
+ * The root frame takes the breakpoint width unless an override sets one.
+ */
+export function resolveForBreakpoint(root: RSNT_Node, target: BreakpointTarget): RSNT_Node {
+    const clone: RSNT_Node = JSON.parse(JSON.stringify(root));
+    const active = target === 'base'
+        ? []
+        : BREAKPOINT_ORDER.slice(0, BREAKPOINT_ORDER.indexOf(target) + 1);
+
+    let rootWidthOverridden = false;
+
+    const apply = (node: RSNT_Node, isRoot: boolean) => {
+        const overrides = node.responsive || {};
+        for (const bp of active) {
+            const override = overrides[bp];
+            if (!override) continue;
+            applyOverride(node, override);
+            if (isRoot && override.width !== undefined) rootWidthOverridden = true;
+        }
+        delete node.responsive;
+        (node.children || []).forEach(child => apply(child, false));
+    };
+    apply(clone, true);
+
+    if (target !== 'base' && !rootWidthOverridden) {
+        clone.width = getBreakpointWidth(target);
+    }
+
+    return clone;
+}
+
+function applyOverride(node: RSNT_Node, override: ResponsiveOverride): void {
+    for (const [key, value] of Object.entries(override)) {
+        if (!RESPONSIVE_OVERRIDE_PROPS.has(key) || value === undefined) continue;
+
+        if (key === 'padding') {
+            // Merge so an override can change a single side
+            node.padding = { ...(node.padding || {}), ...(value as RSNT_Node['padding']) };
+        } else {
+            (node as any)[key] = value;
+        }
+    }
+}
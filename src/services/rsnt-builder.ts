@@ -227,6 +227,15 @@ export class RSNTBuilder {
             properties: decision.properties
         };
 
+        if (component.componentKey) node.componentKey = component.componentKey;
+
+        // Icon requirements are the icon itself; other components take icons in their slots
+        const req = decision.requirement;
+        if (req.type !== 'icon') {
+            if (req.icon) node.icon = req.icon;
+            if (req.trailingIcon) node.trailingIcon = req.trailingIcon;
+        }
+
         this.log('component', `Instantiated ${component.name}`,
             `Confidence: ${(decision.confidence * 100).toFixed(0)}% - ${decision.reasoning}`);
 
@@ -4,6 +4,7 @@
  */
 
 import { RSNT_Node, NodeType } from '../types/rsnt';
+import { rsntMetadataService } from './rsnt-metadata';
 
 export const rsntConversionService = {
     /**
@@ -76,6 +77,9 @@ export const rsntConversionService = {
             rsnt.opacity = frameParams.opacity;
             rsnt.blendMode = frameParams.blendMode as any;
             rsnt.visible = frameParams.visible;
+            if (frameParams.layoutPositioning === 'ABSOLUTE') {
+                rsnt.layoutPrimitive = 'absolute';
+            }
 
             // Instance specifics
             if (node.type === 'INSTANCE') {
@@ -119,12 +123,18 @@ export const rsntConversionService = {
             const text = node as TextNode;
             rsnt.characters = text.characters;
             rsnt.fontSize = text.fontSize as number; // Assuming single font size
-            // Font Name extraction could go here
+            if (text.fontName !== figma.mixed) {
+                rsnt.fontFamily = text.fontName.family;
+                rsnt.fontStyle = text.fontName.style;
+            }
             // Extract Layer Properties for Text too
             rsnt.opacity = text.opacity;
             rsnt.blendMode = text.blendMode as any;
             rsnt.visible = text.visible;
             rsnt.effects = this.extractEffects(text.effects);
+            if (text.layoutPositioning === 'ABSOLUTE') {
+                rsnt.layoutPrimitive = 'absolute';
+            }
 
             if (text.parent && (text.parent as FrameNode).layoutMode === 'NONE') {
                 rsnt.constraints = {
@@ -136,6 +146,12 @@ export const rsntConversionService = {
             rsnt.fills = this.extractFills(text.fills);
         }
 
+        // Prefer the semantic payload persisted at render time (roles, token bindings, intent)
+        const persisted = rsntMetadataService.read(node);
+        if (persisted) {
+            rsntMetadataService.apply(rsnt, persisted);
+        }
+
         return rsnt;
     },
 
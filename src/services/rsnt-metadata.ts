@@ -0,0 +1,189 @@
+/**
+ * RSNT Metadata Persistence
+ * Stores a compact per-node RSNT payload on rendered Figma nodes so generated
+ * designs can be exported, re-edited and audited after the plugin closes.
+ *
+ * The payload is written twice:
+ * - setPluginData: private to this plugin, always readable by us
+ * - setSharedPluginData: readable by other plugins and the REST API
+ */
+
+import { RSNT_Node } from '../types/rsnt';
+
+/** Positioning classes: positioning is read from the live node, never the payload */
+const POSITION_CLASSES = new Set(['absolute', 'relative', 'fixed', 'sticky', 'static']);
+
+/** Bump when the persisted payload shape changes incompatibly */
+export const RSNT_SCHEMA_VERSION = 1;
+
+export const RSNT_PLUGIN_DATA_KEY = 'rsnt';
+export const RSNT_SHARED_NAMESPACE = 'semantic_design_compiler';
+
+export interface PersistedRSNTMetadata {
+    /** RSNT schema version */
+    v: number;
+    /** Original RSNT node id */
+    id: string;
+    semanticRole?: string;
+    layoutPrimitive?: string;
+    tailwindClasses?: string[];
+    /** Component the node instantiates, so library changes can be traced to designs */
+    componentId?: string;
+    componentKey?: string;
+    /** Component state the node was rendered in, e.g. 'disabled' */
+    state?: string;
+    /** Raw condition expression, e.g. "items.length === 0" */
+    condition?: string;
+    /** Raw text content before {{placeholder}} substitution */
+    template?: string;
+    /** Resolution tier (1-5) that produced the node */
+    tier?: number;
+    /** User intent that generated the design (root node only) */
+    intent?: string;
+    /** Scenario data the design declares, by name (root node only) */
+    scenarios?: Record<string, Record<string, any>>;
+    /** Variable bindings by property path, e.g. { "padding.top": "VariableID:1:2" } */
+    bindings?: Record<string, string>;
+}
+
+export interface PersistOptions {
+    tier?: number;
+    intent?: string;
+    /** Component the node was instantiated from, when resolution picked it */
+    componentId?: string;
+    componentKey?: string;
+}
+
+export const rsntMetadataService = {
+    /**
+     * Build the compact payload for a single RSNT node (children are not included)
+     */
+    createPayload(rsnt: RSNT_Node, options: PersistOptions = {}): PersistedRSNTMetadata {
+        const payload: PersistedRSNTMetadata = { v: RSNT_SCHEMA_VERSION, id: rsnt.id };
+
+        if (rsnt.semanticRole) payload.semanticRole = rsnt.semanticRole;
+        if (rsnt.layoutPrimitive) payload.layoutPrimitive = rsnt.layoutPrimitive;
+        if (rsnt.tailwindClasses && rsnt.tailwindClasses.length > 0) payload.tailwindClasses = rsnt.tailwindClasses;
+        const componentId = options.componentId ?? rsnt.componentId;
+        const componentKey = options.componentKey ?? rsnt.componentKey;
+        if (componentId) payload.componentId = componentId;
+        if (componentKey) payload.componentKey = componentKey;
+        if (rsnt.state) payload.state = rsnt.state;
+        if (rsnt.condition) payload.condition = rsnt.condition;
+        if (rsnt.metadata?.contentTemplate) payload.template = rsnt.metadata.contentTemplate;
+
+        const tier = options.tier ?? rsnt.metadata?.resolutionTier;
+        if (typeof tier === 'number') payload.tier = tier;
+        if (options.intent) payload.intent = options.intent;
+        if (rsnt.scenarios) payload.scenarios = rsnt.scenarios;
+
+        const bindings = this.collectBindings(rsnt);
+        if (Object.keys(bindings).length > 0) payload.bindings = bindings;
+
+        return payload;
+    },
+
+    /**
+     * Write the payload to both private and shared plugin data
+     */
+    write(figmaNode: BaseNode, rsnt: RSNT_Node, options: PersistOptions = {}): void {
+        try {
+            const json = JSON.stringify(this.createPayload(rsnt, options));
+            figmaNode.setPluginData(RSNT_PLUGIN_DATA_KEY, json);
+            figmaNode.setSharedPluginData(RSNT_SHARED_NAMESPACE, RSNT_PLUGIN_DATA_KEY, json);
+        } catch (e) {
+            // Metadata is best-effort; never fail a render because of it
+            console.warn(`Failed to persist RSNT metadata for ${rsnt.id}:`, e);
+        }
+    },
+
+    /**
+     * Read a persisted payload, preferring private plugin data.
+     * Returns null for nodes the plugin never generated or payloads from a newer schema.
+     */
+    read(figmaNode: BaseNode): PersistedRSNTMetadata | null {
+        let raw = '';
+        try {
+            raw = figmaNode.getPluginData(RSNT_PLUGIN_DATA_KEY)
+                || figmaNode.getSharedPluginData(RSNT_SHARED_NAMESPACE, RSNT_PLUGIN_DATA_KEY);
+        } catch (e) {
+            return null;
+        }
+        if (!raw) return null;
+
+        try {
+            const payload = JSON.parse(raw) as PersistedRSNTMetadata;
+            if (!payload || typeof payload.v !== 'number' || payload.v > RSNT_SCHEMA_VERSION) {
+                return null;
+            }
+            return payload;
+        } catch (e) {
+            console.warn(`Ignoring malformed RSNT metadata on ${figmaNode.id}`);
+            return null;
+        }
+    },
+
+    /**
+     * Re-apply a persisted payload onto an RSNT node reconstructed from Figma.
+     * Only semantic fields come from the payload; what the designer has since
+     * changed on the canvas (absolute positioning, removed fills or padding)
+     * stays as read from the live node.
+     */
+    apply(rsnt: RSNT_Node, payload: PersistedRSNTMetadata): void {
+        if (payload.semanticRole) rsnt.semanticRole = payload.semanticRole;
+        if (payload.layoutPrimitive && !rsnt.layoutPrimitive && payload.layoutPrimitive !== 'absolute') {
+            rsnt.layoutPrimitive = payload.layoutPrimitive;
+        }
+        if (payload.tailwindClasses) rsnt.tailwindClasses = payload.tailwindClasses.filter(cls => !POSITION_CLASSES.has(cls));
+        if (payload.state) rsnt.state = payload.state;
+        if (payload.condition) rsnt.condition = payload.condition;
+
+        // Bindings replace live values only where the live node still has the property
+        for (const [path, variableId] of Object.entries(payload.bindings || {})) {
+            const ref = { variableId };
+            if (path === 'itemSpacing' && rsnt.itemSpacing !== undefined) {
+                rsnt.itemSpacing = ref;
+            } else if (path === 'cornerRadius' && rsnt.cornerRadius !== undefined) {
+                rsnt.cornerRadius = ref;
+            } else if (path === 'strokeWeight' && rsnt.strokeWeight !== undefined) {
+                rsnt.strokeWeight = ref;
+            } else if (path === 'fill' && rsnt.fills && rsnt.fills.length > 0) {
+                rsnt.fills = [{ type: 'VARIABLE', variableId }];
+            } else if (path.startsWith('padding.') && rsnt.padding) {
+                const side = path.slice('padding.'.length) as 'top' | 'right' | 'bottom' | 'left';
+                rsnt.padding = { ...rsnt.padding, [side]: ref };
+            }
+        }
+
+        rsnt.metadata = {
+            ...rsnt.metadata,
+            rsntSchemaVersion: payload.v,
+            sourceRSNTId: payload.id,
+            ...(payload.tier !== undefined && { resolutionTier: payload.tier }),
+            ...(payload.intent && { sourceIntent: payload.intent }),
+            ...(payload.template && { contentTemplate: payload.template })
+        };
+    },
+
+    collectBindings(rsnt: RSNT_Node): Record<string, string> {
+        const bindings: Record<string, string> = {};
+        const isRef = (value: any): value is { variableId: string } =>
+            !!value && typeof value === 'object' && typeof value.variableId === 'string';
+
+        if (isRef(rsnt.itemSpacing)) bindings['itemSpacing'] = rsnt.itemSpacing.variableId;
+        if (isRef(rsnt.cornerRadius)) bindings['cornerRadius'] = rsnt.cornerRadius.variableId;
+        if (isRef(rsnt.strokeWeight)) bindings['strokeWeight'] = rsnt.strokeWeight.variableId;
+
+        if (rsnt.padding) {
+            for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+                const value = rsnt.padding[side];
+                if (isRef(value)) bindings[`padding.${side}`] = value.variableId;
+            }
+        }
+
+        const variableFill = rsnt.fills?.find(f => f.type === 'VARIABLE' && f.variableId);
+        if (variableFill?.variableId) bindings['fill'] = variableFill.variableId;
+
+        return bindings;
+    }
+};
@@ -4,6 +4,7 @@
  */
 
 import { DesignSystemInventory, VariableInfo } from './auto-discovery';
+import { preferSemanticVariable } from './variable-resolver';
 
 export interface TokenContext {
     semanticIntent: string;          // "hero", "form", "card-grid", "sidebar"
@@ -59,12 +60,13 @@ export function resolveSpacingToken(
 
     const value = context.platform === 'mobile' ? options[0] : options[1] || options[0];
 
-    // Find matching variable
-    const variable = inventory.variables.find(v =>
+    // Find matching variable, bound to its semantic layer when one aliases it
+    const exact = inventory.variables.find(v =>
         v.resolvedType === 'FLOAT' &&
         v.value === value &&
         v.name.toLowerCase().includes('spacing')
     );
+    const variable = exact && preferSemanticVariable(exact, inventory.variables, undefined, 'itemSpacing');
 
     if (variable) {
         return {
@@ -76,7 +78,8 @@ export function resolveSpacingToken(
     }
 
     // Fallback: find closest
-    const closest = findClosestSpacing(value, inventory.variables);
+    const nearest = findClosestSpacing(value, inventory.variables);
+    const closest = nearest && preferSemanticVariable(nearest, inventory.variables, undefined, 'itemSpacing');
     return {
         variableId: closest?.id || '',
         value: closest?.value || value,
@@ -94,10 +97,12 @@ export function resolveColorToken(
 ): ResolvedToken | null {
     const colorVars = inventory.variables.filter(v => v.resolvedType === 'COLOR');
 
-    // Name-based matching
-    const match = colorVars.find(v =>
+    // Name-based matching, preferring semantic (aliasing) variables over primitives
+    const named = colorVars.filter(v =>
         v.name.toLowerCase().includes(emphasis.toLowerCase())
     );
+    const candidate = named.find(v => v.aliasOf) || named[0];
+    const match = candidate && preferSemanticVariable(candidate, inventory.variables, undefined, 'fill');
 
     if (match) {
         return {
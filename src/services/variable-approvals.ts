@@ -0,0 +1,235 @@
+/**
+ * Variable Approval Service
+ * Medium-confidence variable matches (by alias, AI reasoning or color
+ * proximity) are not bound silently: they are queued and shown to the
+ * designer after generation. Accepting binds the variable on the layers
+ * rendered from the match; answers are stored per file, so an accepted
+ * match binds at Tier 1 the next time the same token is requested and a
+ * rejected one is not suggested again.
+ */
+
+import { VariableInfo, getBindableVariable } from './auto-discovery';
+import { VariableResolutionResult } from './variable-resolver';
+import { ErrorCode, createResolutionError } from '../types/errors';
+
+const APPROVALS_KEY_PREFIX = 'variable-approvals-v1-';
+const MAX_ALTERNATIVES = 50;
+
+/** Matches in this band are asked about; better ones bind, worse ones are dropped */
+export const APPROVAL_CONFIDENCE = { min: 0.6, max: 0.8 };
+
+/** Node fields bound for each property a match was requested for */
+const PROPERTY_FIELDS: Record<string, VariableBindableNodeField[]> = {
+    padding: ['paddingTop', 'paddingRight', 'paddingBottom', 'paddingLeft'],
+    itemSpacing: ['itemSpacing'],
+    cornerRadius: ['topLeftRadius', 'topRightRadius', 'bottomLeftRadius', 'bottomRightRadius'],
+    width: ['width'],
+    height: ['height']
+};
+
+/**
+ * The designer's answer for one requested token
+ */
+export interface VariableApproval {
+    variableId?: string; // Accepted (or hand-picked) variable; binds at Tier 1
+    rejected?: string[]; // Suggestions turned down for this token
+    updatedAt: number;
+}
+
+/**
+ * A property rendered without the pending variable, e.g. the fill of "banner"
+ */
+export interface VariableMatchTarget {
+    nodeId: string; // RSNT node id
+    property: string; // fill, textFill, padding, itemSpacing, cornerRadius, width or height
+    figmaNodeId?: string; // Set once the design is on the canvas
+}
+
+/**
+ * A match waiting for the designer, e.g. "colors/primary" -> "brand/blue-600" at 72%
+ */
+export interface PendingVariableMatch {
+    token: string;
+    variableId: string;
+    variableName: string;
+    confidence: number;
+    method: VariableResolutionResult['method'];
+    reasoning?: string;
+    deltaE?: number;
+    alternatives: Array<{ id: string; name: string }>; // Variables of the same type to pick instead
+    targets: VariableMatchTarget[]; // Where to bind the variable if it is accepted
+}
+
+/**
+ * Bind a variable to the fields a property covers; text colours bind on the
+ * node's text layers
+ */
+function bindVariableToNode(node: SceneNode, property: string, variable: Variable) {
+    if (property === 'fill' || property === 'textFill') {
+        const painted = property === 'textFill' && node.type !== 'TEXT'
+            ? ('findAll' in node ? node.findAll(n => n.type === 'TEXT') : [])
+            : [node];
+        for (const target of painted) {
+            if (!('fills' in target)) continue;
+            const fills = target.fills;
+            const existingColor = fills !== figma.mixed && fills.length > 0 && fills[0].type === 'SOLID'
+                ? fills[0].color
+                : { r: 0, g: 0, b: 0 };
+            target.fills = [{
+                type: 'SOLID',
+                color: existingColor,
+                boundVariables: {
+                    color: { type: 'VARIABLE_REF', variableId: variable.id }
+                }
+            } as any]; // boundVariables supported in Figma API v1.98+
+        }
+        return;
+    }
+
+    for (const field of PROPERTY_FIELDS[property] || []) {
+        if (field in node) (node as FrameNode).setBoundVariable(field, variable);
+    }
+}
+
+export class VariableApprovalService {
+    private approvals: Record<string, VariableApproval> = {};
+    private queue: Map<string, PendingVariableMatch> = new Map();
+
+    private get storageKey(): string {
+        return APPROVALS_KEY_PREFIX + (figma.fileKey || 'local');
+    }
+
+    /**
+     * Load this file's answers, keyed by requested token
+     */
+    async load(): Promise<Record<string, VariableApproval>> {
+        try {
+            const stored = await figma.clientStorage.getAsync(this.storageKey);
+            this.approvals = stored && typeof stored === 'object' ? stored : {};
+        } catch (e) {
+            console.warn('Failed to load variable approvals', e);
+            this.approvals = {};
+        }
+        return this.approvals;
+    }
+
+    /**
+     * Variable the designer approved for a token, if any
+     */
+    getApproved(token: string): string | undefined {
+        return this.approvals[token]?.variableId;
+    }
+
+    /**
+     * Whether to ask about a match: not exact, in the medium band, and not
+     * already turned down for this token
+     */
+    needsApproval(token: string, result: VariableResolutionResult): boolean {
+        if (!result.variableId || result.tier <= 1) return false;
+        if (result.confidence < APPROVAL_CONFIDENCE.min || result.confidence >= APPROVAL_CONFIDENCE.max) return false;
+        return !(this.approvals[token]?.rejected || []).includes(result.variableId);
+    }
+
+    /**
+     * Queue a match for review, noting the property it was requested for.
+     * The first match for a token wins; later requests add their targets.
+     * Returns true when the match waits for the designer and must not be bound.
+     */
+    collect(token: string, result: VariableResolutionResult, variables: VariableInfo[], target?: VariableMatchTarget): boolean {
+        if (!this.needsApproval(token, result)) return false;
+
+        const queued = this.queue.get(token);
+        if (queued) {
+            const known = target && queued.targets.some(t => t.nodeId === target.nodeId && t.property === target.property);
+            if (target && !known) queued.targets.push(target);
+            return true;
+        }
+
+        const match = result.foundVariable || variables.find(v => v.id === result.variableId);
+        if (!match) return false;
+
+        const alternatives = variables
+            .filter(v => v.resolvedType === match.resolvedType && v.id !== match.id)
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .slice(0, MAX_ALTERNATIVES)
+            .map(v => ({ id: v.id, name: v.name }));
+
+        this.queue.set(token, {
+            token,
+            variableId: match.id,
+            variableName: match.name,
+            confidence: result.confidence,
+            method: result.method,
+            reasoning: result.reasoning,
+            ...(result.deltaE !== undefined ? { deltaE: result.deltaE } : {}),
+            alternatives,
+            targets: target ? [target] : []
+        });
+        return true;
+    }
+
+    /**
+     * Point queued targets at the layers rendered for them, keyed by RSNT id
+     */
+    attachRenderedNodes(rendered: Map<string, string>) {
+        for (const pending of this.queue.values()) {
+            pending.targets.forEach(target => { target.figmaNodeId = rendered.get(target.nodeId); });
+        }
+    }
+
+    getQueue(): PendingVariableMatch[] {
+        return Array.from(this.queue.values());
+    }
+
+    resetQueue() {
+        this.queue.clear();
+    }
+
+    /**
+     * Record the designer's answer and drop the match from the queue.
+     * Accepting takes the suggested variable unless another is picked and
+     * binds it on the rendered layers; rejecting leaves their raw values.
+     */
+    async answer(token: string, decision: 'accept' | 'reject', variableId?: string): Promise<VariableApproval> {
+        const pending = this.queue.get(token);
+        let approval: VariableApproval;
+
+        if (decision === 'accept') {
+            const chosen = variableId || pending?.variableId;
+            if (!chosen) {
+                throw createResolutionError(ErrorCode.VARIABLE_NOT_FOUND, { token }, `No variable to approve for "${token}"`);
+            }
+            approval = { variableId: chosen, updatedAt: Date.now() };
+            await this.bindTargets(pending?.targets || [], chosen);
+        } else {
+            const turnedDown = variableId || pending?.variableId;
+            const rejected = new Set(this.approvals[token]?.rejected || []);
+            if (turnedDown) rejected.add(turnedDown);
+            approval = { rejected: Array.from(rejected), updatedAt: Date.now() };
+        }
+
+        this.approvals[token] = approval;
+        this.queue.delete(token);
+        await figma.clientStorage.setAsync(this.storageKey, this.approvals);
+        return approval;
+    }
+
+    private async bindTargets(targets: VariableMatchTarget[], variableId: string) {
+        if (targets.length === 0) return;
+        const variable = await getBindableVariable(variableId);
+        if (!variable) {
+            throw createResolutionError(ErrorCode.VARIABLE_NOT_FOUND, { variableId }, `Variable ${variableId} no longer exists`);
+        }
+        for (const target of targets) {
+            const node = target.figmaNodeId ? figma.getNodeById(target.figmaNodeId) : null;
+            if (!node || !('visible' in node)) continue; // Deleted since generation
+            try {
+                bindVariableToNode(node as SceneNode, target.property, variable);
+            } catch (e) {
+                console.warn(`Could not bind ${variable.name} to ${target.property} on ${node.name}`, e);
+            }
+        }
+    }
+}
+
+export const variableApprovals = new VariableApprovalService();
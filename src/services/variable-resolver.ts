@@ -1,7 +1,8 @@
-import { VariableInfo, DesignSystemInventory } from './auto-discovery';
+import { VariableInfo, DesignSystemInventory, getVariableValue } from './auto-discovery';
 import { SEMANTIC_ALIASES } from '../data/semantic-aliases';
 import { rgbToCIELAB, calculateDeltaE, hexToRGB, RGB } from '../libs/color-utils';
 import { classificationService } from './classification'; // Reuse for AI calls if possible, or direct prompt
+import { variableApprovals } from './variable-approvals';
 
 /**
  * Result of a variable resolution attempt
@@ -11,7 +12,7 @@ export interface VariableResolutionResult {
     foundVariable?: VariableInfo;
     confidence: number;
     tier: 1 | 2 | 3 | 4 | 0; // 0 = Not Found
-    method: 'exact' | 'alias' | 'ai-reasoning' | 'proximity' | 'none';
+    method: 'approved' | 'exact' | 'alias' | 'ai-reasoning' | 'proximity' | 'none';
     reasoning?: string;
     deltaE?: number; // Only for proximity matches
 }
@@ -28,15 +29,126 @@ function normalizeToken(token: string): string {
 }
 
 /**
- * Resolve a requested token to a variable in the inventory
+ * Figma variable scopes that let a variable be bound to each property.
+ * Properties not listed here accept any variable.
+ */
+const PROPERTY_SCOPES: Record<string, string[]> = {
+    fill: ['ALL_FILLS', 'FRAME_FILL', 'SHAPE_FILL'],
+    textFill: ['ALL_FILLS', 'TEXT_FILL'],
+    stroke: ['STROKE_COLOR'],
+    padding: ['GAP'],
+    itemSpacing: ['GAP'],
+    cornerRadius: ['CORNER_RADIUS'],
+    width: ['WIDTH_HEIGHT'],
+    height: ['WIDTH_HEIGHT'],
+    fontSize: ['FONT_SIZE']
+};
+
+/**
+ * Whether a variable's scopes allow binding it to `property` (e.g. "fill")
+ */
+export function variableAllowsProperty(variable: VariableInfo, property?: string): boolean {
+    const allowed = property ? PROPERTY_SCOPES[property] : undefined;
+    if (!allowed) return true;
+    return variable.scopes.includes('ALL_SCOPES') || variable.scopes.some(scope => allowed.includes(scope));
+}
+
+/**
+ * Whether two resolved variable values are the same (colors compared by channel)
+ */
+function sameValue(a: any, b: any): boolean {
+    if (a && b && typeof a === 'object' && typeof b === 'object') {
+        return a.r === b.r && a.g === b.g && a.b === b.b && (a.a ?? 1) === (b.a ?? 1);
+    }
+    return a === b;
+}
+
+/**
+ * Swap a primitive for the semantic variable that aliases it.
+ * When `match` is referenced by other variables (e.g. "color/primary" → "blue/500"),
+ * returns the closest semantic layer - direct aliases first, then by usage.
+ * With a `mode`, only aliases that still resolve to the primitive's value in
+ * that mode qualify ("surface" may alias "gray/50" in Light but not in Dark);
+ * with a `property`, only aliases whose scopes allow binding it.
+ * Variables that are themselves aliases, or that nothing references, are returned as-is.
+ */
+export function preferSemanticVariable(match: VariableInfo, variables: VariableInfo[], mode?: string, property?: string): VariableInfo {
+    if (match.aliasOf) return match;
+
+    const byId = new Map(variables.map(v => [v.id, v]));
+    const depthTo = (v: VariableInfo): number => {
+        const seen = new Set<string>();
+        let depth = 0;
+        let current: VariableInfo | undefined = v;
+        while (current?.aliasOf && !seen.has(current.id)) {
+            seen.add(current.id);
+            depth++;
+            if (current.aliasOf === match.id) return depth;
+            current = byId.get(current.aliasOf);
+        }
+        return 0;
+    };
+
+    const semantic = variables
+        .map(v => ({ v, depth: depthTo(v) }))
+        .filter(c => c.depth > 0 && c.v.resolvedType === match.resolvedType)
+        .filter(c => !mode || sameValue(getVariableValue(c.v, mode), getVariableValue(match, mode)))
+        .filter(c => variableAllowsProperty(c.v, property))
+        .sort((a, b) => a.depth - b.depth || (b.v.usageCount || 0) - (a.v.usageCount || 0));
+
+    return semantic.length > 0 ? semantic[0].v : match;
+}
+
+/**
+ * Result for a non-exact match, bound to the semantic layer when one aliases it
+ */
+function toSemanticResult(
+    match: VariableInfo,
+    variables: VariableInfo[],
+    result: Omit<VariableResolutionResult, 'variableId' | 'foundVariable'>,
+    mode?: string,
+    property?: string
+): VariableResolutionResult {
+    const preferred = preferSemanticVariable(match, variables, mode, property);
+    return {
+        ...result,
+        variableId: preferred.id,
+        foundVariable: preferred,
+        reasoning: preferred === match ? result.reasoning : `${result.reasoning} (semantic alias of '${match.name}')`
+    };
+}
+
+/**
+ * Resolve a requested token to a variable in the inventory.
+ * A match the designer approved, or an exact name match, binds as requested;
+ * other tiers prefer semantic variables over the primitives they alias,
+ * as those variables resolve in `mode` (e.g. "Dark") and when their scopes
+ * allow `property` (e.g. "fill").
  */
 export async function resolveVariable(
     requestedToken: string,
-    inventory: DesignSystemInventory
+    inventory: DesignSystemInventory,
+    mode?: string,
+    property?: string
 ): Promise<VariableResolutionResult> {
     const variables = inventory.variables;
     const normalizedReq = normalizeToken(requestedToken);
 
+    // --- TIER 1: DESIGNER-APPROVED MATCH ---
+    // Answers from the variable approval queue, remembered per file
+    const approvedId = variableApprovals.getApproved(requestedToken);
+    const approved = approvedId ? variables.find(v => v.id === approvedId) : undefined;
+    if (approved) {
+        return {
+            variableId: approved.id,
+            foundVariable: approved,
+            confidence: 1.0,
+            tier: 1,
+            method: 'approved',
+            reasoning: 'Approved by designer'
+        };
+    }
+
     // --- TIER 1: EXACT MATCH ---
     // Check if any variable name normalizes to the same string
     // or matches exactly
@@ -68,14 +180,12 @@ export async function resolveVariable(
         for (const alias of knownAliases) {
             const aliasMatch = variables.find(v => normalizeToken(v.name) === normalizeToken(alias));
             if (aliasMatch) {
-                return {
-                    variableId: aliasMatch.id,
-                    foundVariable: aliasMatch,
+                return toSemanticResult(aliasMatch, variables, {
                     confidence: 0.85,
                     tier: 2,
                     method: 'alias',
                     reasoning: `Matched via alias '${alias}'`
-                };
+                }, mode, property);
             }
         }
     }
@@ -91,14 +201,12 @@ export async function resolveVariable(
         if (aiResult && aiResult.bestMatch && aiResult.confidence >= 0.75) {
             const aiMatchVar = variables.find(v => v.name === aiResult.bestMatch);
             if (aiMatchVar) {
-                return {
-                    variableId: aiMatchVar.id,
-                    foundVariable: aiMatchVar,
+                return toSemanticResult(aiMatchVar, variables, {
                     confidence: aiResult.confidence,
                     tier: 3,
                     method: 'ai-reasoning',
                     reasoning: aiResult.reasoning || 'AI inferred match'
-                };
+                }, mode, property);
             }
         }
     } catch (e) {
@@ -118,16 +226,20 @@ export async function resolveVariable(
 }
 
 /**
- * Resolve with visual context (Tier 4 enabled) and Frequency Weighting
+ * Resolve with visual context (Tier 4 enabled) and Frequency Weighting.
+ * Proximity compares against each variable's value in `mode` (e.g. "Dark"),
+ * falling back to the default mode.
  */
 export async function resolveVariableWithContext(
     requestedToken: string,
     referenceColorHex: string | undefined, // The color value we are looking for (e.g. from the design)
-    inventory: DesignSystemInventory
+    inventory: DesignSystemInventory,
+    mode?: string,
+    property?: string
 ): Promise<VariableResolutionResult> {
 
     // Run normal resolution first (Tiers 1, 2, 3)
-    let result = await resolveVariable(requestedToken, inventory);
+    let result = await resolveVariable(requestedToken, inventory, mode, property);
 
     // Apply Frequency Weighting Bonus to non-exact matches
     if (result.foundVariable && result.tier > 1) {
@@ -148,7 +260,7 @@ export async function resolveVariableWithContext(
     // If no good match, try Proximity (Tier 4)
     if (referenceColorHex && inventory.variables) {
         // Filter variables that are colors
-        const colorVars = inventory.variables.filter(v => v.resolvedType === 'COLOR' && v.value);
+        const colorVars = inventory.variables.filter(v => v.resolvedType === 'COLOR' && getVariableValue(v, mode));
 
         if (colorVars.length > 0) {
             try {
@@ -160,7 +272,7 @@ export async function resolveVariableWithContext(
 
                 for (const v of colorVars) {
                     // v.value is typically { r, g, b, a } or similar from Figma
-                    const vVal = v.value as any;
+                    const vVal = getVariableValue(v, mode);
                     if (typeof vVal === 'object' && 'r' in vVal) {
                         const vRGB: RGB = { r: vVal.r, g: vVal.g, b: vVal.b };
                         const vLAB = rgbToCIELAB(vRGB);
@@ -189,15 +301,13 @@ export async function resolveVariableWithContext(
 
                     // Only take proximity if it's better than what we had
                     if (confidence > result.confidence) {
-                        return {
-                            variableId: bestMatch.id,
-                            foundVariable: bestMatch,
+                        return toSemanticResult(bestMatch, inventory.variables, {
                             confidence: confidence,
                             tier: 4,
                             method: 'proximity',
                             deltaE: minDeltaE,
-                            reasoning: `Proximity match (Delta E: ${minDeltaE.toFixed(2)})`
-                        };
+                            reasoning: `Proximity match${mode ? ` in ${mode} mode` : ''} (Delta E: ${minDeltaE.toFixed(2)})`
+                        }, mode, property);
                     }
                 }
 
@@ -0,0 +1,89 @@
+import { createAIProvider, validateProviderKey } from '../services/ai-provider';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/ai-provider.test.ts --bundle --platform=node | node
+
+const schema = { type: 'object', properties: { intent: { type: 'string' } } };
+
+describe('AI Provider - request building', () => {
+    it('builds Gemini requests with system instructions and schema', () => {
+        const gemini = createAIProvider('gemini', { apiKey: 'AIzaTest' }) as any;
+        const request = gemini.buildRequest('Make a card', { systemPrompt: 'You are a designer', schema });
+
+        expect(request.url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=AIzaTest');
+        expect(request.body.systemInstruction.parts[0].text).toBe('You are a designer');
+        expect(request.body.generationConfig.responseMimeType).toBe('application/json');
+        expect(request.body.generationConfig.responseJsonSchema).toBe(schema);
+    });
+
+    it('builds OpenAI-compatible requests against a custom base URL', () => {
+        const openai = createAIProvider('openai', { apiKey: 'sk-test', baseUrl: 'http://localhost:11434/v1/', model: 'llama3' }) as any;
+        const request = openai.buildRequest('Make a card', { systemPrompt: 'You are a designer', json: true });
+
+        expect(request.url).toBe('http://localhost:11434/v1/chat/completions');
+        expect(request.headers['Authorization']).toBe('Bearer sk-test');
+        expect(request.body.model).toBe('llama3');
+        expect(request.body.messages[0].role).toBe('system');
+        expect(request.body.response_format.type).toBe('json_object');
+    });
+
+    it('asks Anthropic for JSON through the system prompt', () => {
+        const anthropic = createAIProvider('anthropic', { apiKey: 'sk-ant-test' }) as any;
+        const request = anthropic.buildRequest('Make a card', { systemPrompt: 'You are a designer', schema });
+
+        expect(request.url).toBe('https://api.anthropic.com/v1/messages');
+        expect(request.headers['x-api-key']).toBe('sk-ant-test');
+        expect(request.body.system).toContain('You are a designer');
+        expect(request.body.system).toContain('"intent"');
+        expect(anthropic.isRetryableStatus(529)).toBe(true);
+    });
+});
+
+describe('AI Provider - response parsing', () => {
+    it('normalizes text and token usage across vendors', () => {
+        const gemini = (createAIProvider('gemini', { apiKey: 'AIzaTest' }) as any).parseResponse({
+            candidates: [{ content: { parts: [{ text: '{"a":' }, { text: '1}' }] }, finishReason: 'STOP' }],
+            usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 4 }
+        });
+        const openai = (createAIProvider('openai', { apiKey: 'sk-test' }) as any).parseResponse({
+            choices: [{ message: { content: '{"a":1}' }, finish_reason: 'stop' }],
+            usage: { prompt_tokens: 10, completion_tokens: 4 }
+        });
+        const anthropic = (createAIProvider('anthropic', { apiKey: 'sk-ant-test' }) as any).parseResponse({
+            content: [{ type: 'text', text: '{"a":1}' }],
+            stop_reason: 'end_turn',
+            usage: { input_tokens: 10, output_tokens: 4 }
+        });
+
+        for (const result of [gemini, openai, anthropic]) {
+            expect(result.text).toBe('{"a":1}');
+            expect(result.usage.inputTokens).toBe(10);
+            expect(result.usage.outputTokens).toBe(4);
+        }
+    });
+
+    it('reports safety blocks as errors', () => {
+        let message = '';
+        try {
+            (createAIProvider('gemini', { apiKey: 'AIzaTest' }) as any).parseResponse({ candidates: [{ finishReason: 'SAFETY' }] });
+        } catch (e: any) {
+            message = e.message;
+        }
+        expect(message).toContain('SAFETY_FILTER');
+    });
+});
+
+describe('AI Provider - key validation', () => {
+    it('checks key formats per provider', () => {
+        expect(validateProviderKey('gemini', { apiKey: 'AIzaTest' })).toBe(null);
+        expect(validateProviderKey('anthropic', { apiKey: 'AIzaTest' }) !== null).toBe(true);
+        expect(validateProviderKey('openai', { apiKey: '', baseUrl: 'http://localhost:11434/v1' })).toBe(null);
+        expect(validateProviderKey('openai', undefined) !== null).toBe(true);
+    });
+
+    it('only accepts base URLs on hosts the manifest allows', () => {
+        expect(validateProviderKey('openai', { apiKey: 'sk-test', baseUrl: 'https://api.openai.com/v1' })).toBe(null);
+        expect(validateProviderKey('openai', { apiKey: 'sk-test', baseUrl: 'https://proxy.example.com/v1' })!).toContain('add it to networkAccess in manifest.json');
+        expect(validateProviderKey('openai', { apiKey: 'sk-test', baseUrl: 'localhost:11434' }) !== null).toBe(true);
+    });
+});
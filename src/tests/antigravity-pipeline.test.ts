@@ -0,0 +1,182 @@
+import { createAntigravityPipeline, PipelineResult } from '../services/antigravity-pipeline';
+import { DesignSystemInventory } from '../services/auto-discovery';
+import { createAIProvider, AIProviderId } from '../services/ai-provider';
+import { makeAICall } from '../services/ai-service';
+import { RSNT_Node } from '../types/rsnt';
+import { AICall, AIFixtureFile, createAIReplayHarness, getReplayMode, hashPrompt, saveFixtureFile } from '../utils/ai-replay';
+import { describe, it, expect } from '../utils/simple-test';
+import recorded from './fixtures/ai/antigravity-pipeline.json';
+
+// To run: npx esbuild src/tests/antigravity-pipeline.test.ts --bundle --platform=node | node
+// To re-record: AI_FIXTURES=record AI_PROVIDER=gemini AI_API_KEY=... (same command)
+
+const FIXTURE_PATH = 'src/tests/fixtures/ai/antigravity-pipeline.json';
+
+const inventory: DesignSystemInventory = {
+    components: [
+        {
+            id: 'button',
+            key: 'k-button',
+            name: 'Button',
+            type: 'COMPONENT_SET',
+            semanticType: 'button',
+            variantProperties: { Variant: { values: ['Primary', 'Secondary'] } }
+        },
+        { id: 'input', key: 'k-input', name: 'Input Field', type: 'COMPONENT', semanticType: 'input' },
+        { id: 'checkbox', key: 'k-checkbox', name: 'Checkbox', type: 'COMPONENT', semanticType: 'checkbox' }
+    ],
+    variables: [],
+    fileKey: 'pipeline-test',
+    scannedAt: 0
+};
+
+const existingForm: RSNT_Node = {
+    id: 'form',
+    type: 'FRAME',
+    name: 'Login Form',
+    layoutMode: 'VERTICAL',
+    itemSpacing: 16,
+    padding: { top: 24, right: 24, bottom: 24, left: 24 },
+    children: [
+        { id: 'title', type: 'TEXT', name: 'Title', characters: 'Welcome back', fontSize: 24 },
+        { id: 'email', type: 'COMPONENT_INSTANCE', name: 'Email Input', componentId: 'input', properties: { label: 'Email' } },
+        { id: 'submit', type: 'COMPONENT_INSTANCE', name: 'Submit Button', componentId: 'button', properties: { Variant: 'Primary' } }
+    ]
+};
+
+function liveAICall(): AICall {
+    const provider = createAIProvider((process.env.AI_PROVIDER || 'gemini') as AIProviderId, {
+        apiKey: process.env.AI_API_KEY || '',
+        model: process.env.AI_MODEL,
+        baseUrl: process.env.AI_BASE_URL
+    });
+    return (prompt, systemPrompt) => makeAICall(prompt, systemPrompt, provider);
+}
+
+function findNode(node: RSNT_Node, predicate: (n: RSNT_Node) => boolean): RSNT_Node | null {
+    if (predicate(node)) return node;
+    for (const child of node.children || []) {
+        const found = findNode(child, predicate);
+        if (found) return found;
+    }
+    return null;
+}
+
+const mode = getReplayMode();
+const harness = createAIReplayHarness(mode, recorded as AIFixtureFile, mode === 'record' ? liveAICall() : undefined);
+
+async function runScenario(prompt: string, context?: RSNT_Node) {
+    const before = harness.calls.length;
+    const pipeline = createAntigravityPipeline(inventory, harness.aiCall);
+    const result = await pipeline.run(prompt, context && JSON.parse(JSON.stringify(context)));
+    return { result, calls: harness.calls.length - before };
+}
+
+async function runAll() {
+    const generated = await runScenario('Create a login form with email, password and a remember me checkbox');
+    const modified = await runScenario('Make the submit button secondary', existingForm);
+    const regenerated = await runScenario('Add a phone number field', existingForm);
+
+    // An unrecorded prompt must fail loudly rather than reach the network
+    const empty = createAIReplayHarness('replay', { version: 1, fixtures: {} });
+    const missing = await createAntigravityPipeline(inventory, empty.aiCall).run('Create a pricing table');
+
+    // Re-recording drops fixtures for prompts no scenario makes any more
+    const stale: AIFixtureFile = {
+        version: 1,
+        fixtures: { [hashPrompt('Old scenario', 'system')]: { systemPromptPreview: 'system', promptPreview: 'Old scenario', response: '{}' } }
+    };
+    const rerecord = createAIReplayHarness('record', stale, async () => '{"ok": true}');
+    await rerecord.aiCall('New scenario', 'system');
+
+    return { generated, modified, regenerated, missing, missingHarness: empty, rerecorded: rerecord.toFile() };
+}
+
+runAll().then(({ generated, modified, regenerated, missing, missingHarness, rerecorded }) => {
+    describe('Antigravity Pipeline - generation (replayed)', () => {
+        const result: PipelineResult = generated.result;
+        const rsnt = result.rsnt!;
+
+        it('runs intent and reasoning phases against recorded responses', () => {
+            expect(result.success).toBe(true);
+            expect(generated.calls).toBe(2);
+            expect(harness.misses).toHaveLength(0);
+            expect(result.phases.intent.data!.type).toBe('form');
+            expect(result.phases.intent.data!.constraints.context).toBe('login');
+        });
+
+        it('selects design system components for each requirement', () => {
+            const selections = result.reasoning.componentSelections.map(s => `${s.requirement} → ${s.selection}`);
+            expect(selections).toContain('input: "Email" → Input Field');
+            expect(selections).toContain('checkbox: "Remember me" → Checkbox');
+            expect(selections).toContain('button: "Log In" → Button');
+        });
+
+        it('builds an RSNT tree in reading order with actions last', () => {
+            const instances: string[] = [];
+            const collect = (node: RSNT_Node) => {
+                if (node.type === 'COMPONENT_INSTANCE') instances.push(node.componentId!);
+                (node.children || []).forEach(collect);
+            };
+            collect(rsnt);
+
+            expect(rsnt.layoutMode).toBe('VERTICAL');
+            expect(instances.join(',')).toBe('input,input,checkbox,button');
+        });
+
+        it('surfaces the recorded design reasoning', () => {
+            expect(result.reasoning.intentSummary).toContain('**Design Goal:** Let returning users sign in quickly');
+            expect(result.reasoning.layoutRationale).toContain('F-Pattern Form');
+        });
+    });
+
+    describe('Antigravity Pipeline - refactoring (replayed)', () => {
+        it('applies a surgical delta and leaves other nodes untouched', () => {
+            const result = modified.result;
+            expect(result.success).toBe(true);
+            expect(result.usedContext).toBe(true);
+            expect(modified.calls).toBe(1);
+
+            const submit = findNode(result.rsnt!, n => n.id === 'submit')!;
+            expect(submit.properties!.Variant).toBe('Secondary');
+            expect(findNode(result.rsnt!, n => n.id === 'email')!.properties!.label).toBe('Email');
+            expect(result.reasoning.intentSummary).toContain('Surgical modification');
+            expect(existingForm.children![2].properties!.Variant).toBe('Primary');
+        });
+
+        it('falls back to full regeneration when the delta response is unusable', () => {
+            const result = regenerated.result;
+            expect(result.success).toBe(true);
+            expect(regenerated.calls).toBe(3);
+            expect(result.reasoning.warnings).toContain('Used full regeneration fallback');
+
+            const phone = result.phases.decision.data!.components.filter(c => c.requirement.inputType === 'tel');
+            expect(phone).toHaveLength(1);
+            expect(result.rsnt!.name).toBe('Login Form');
+        });
+    });
+
+    describe('Antigravity Pipeline - replay harness', () => {
+        it('reports prompts without a recording', () => {
+            expect(missing.success).toBe(false);
+            expect(missing.phases.intent.error!).toContain('AI_FIXTURE_MISSING');
+            expect(missingHarness.misses).toHaveLength(1);
+        });
+
+        it('keeps only the prompts made while recording', () => {
+            expect(Object.keys(rerecorded.fixtures).join(',')).toBe(hashPrompt('New scenario', 'system'));
+            expect(rerecorded.fixtures[hashPrompt('New scenario', 'system')].response).toBe('{"ok": true}');
+        });
+
+        it('hashes prompts deterministically and order-sensitively', () => {
+            expect(hashPrompt('a', 'b')).toBe(hashPrompt('a', 'b'));
+            expect(hashPrompt('a', 'b') === hashPrompt('b', 'a')).toBe(false);
+            expect(hashPrompt('a', 'b')).toHaveLength(16);
+        });
+    });
+
+    if (mode === 'record') {
+        saveFixtureFile(FIXTURE_PATH, harness.toFile());
+        console.log(`\nRecorded ${harness.calls.length} AI responses to ${FIXTURE_PATH}`);
+    }
+});
@@ -0,0 +1,214 @@
+import { discoverComponents, discoverVariables, discoverLibraryComponents, discoverLibraryVariables, ComponentInfo } from '../services/auto-discovery';
+import { cacheService } from '../services/cache';
+import { renderRSNT } from '../services/rendering';
+import { installFigmaFake, FakeFrameNode } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/auto-discovery.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'discovery-test' });
+
+async function buildFile() {
+    await fake.loadFontAsync({ family: 'Inter', style: 'Regular' });
+
+    const variants = ['Variant=Primary, Size=Small', 'Variant=Secondary, Size=Small', 'Variant=Primary, Size=Large'].map(name => {
+        const variant = fake.createComponent();
+        variant.name = name;
+        variant.layoutMode = 'HORIZONTAL';
+        const label = fake.createText();
+        label.characters = 'Button';
+        variant.appendChild(label);
+        return variant;
+    });
+    const button = fake.combineAsVariants(variants, fake.currentPage);
+    button.name = 'Button';
+    button.addComponentProperty('Has Icon', 'BOOLEAN', false);
+
+    const input = fake.createComponent();
+    input.name = 'Forms/Input Field';
+    input.description = 'Single-line text input';
+    input.addComponentProperty('Label', 'TEXT', 'Email');
+    input.addComponentProperty('_internal', 'BOOLEAN', true);
+
+    // Components on other pages are discovered too
+    const other = fake.createPage();
+    other.name = 'Cards';
+    const card = fake.createComponent();
+    card.name = 'Card';
+    other.appendChild(card);
+
+    const tokens = fake.variables.createVariableCollection('Tokens');
+    const dark = tokens.addMode('Dark');
+    const surface = fake.variables.createVariable('color/surface', tokens, 'COLOR');
+    surface.setValueForMode(tokens.defaultModeId, { r: 1, g: 1, b: 1, a: 1 });
+    surface.setValueForMode(dark, { r: 0, g: 0, b: 0, a: 1 });
+    const spacing = fake.variables.createVariable('spacing/md', tokens, 'FLOAT');
+    spacing.setValueForMode(tokens.defaultModeId, 16);
+    spacing.scopes = ['GAP'];
+
+    return { button, input, card };
+}
+
+/**
+ * A published design system: a Badge set and a token collection from "Acme DS",
+ * with two badge instances (different variants) placed in the file
+ */
+function buildLibrary() {
+    const tones = ['Tone=Info', 'Tone=Warning'].map(name => {
+        const variant = fake.createComponent();
+        variant.name = name;
+        return variant;
+    });
+    const badge = fake.combineAsVariants(tones, fake.currentPage);
+    badge.name = 'Badge';
+    fake.publishToLibrary(badge);
+    tones.forEach(tone => fake.currentPage.appendChild(tone.createInstance()));
+
+    const brand = fake.variables.createVariableCollection('Brand');
+    const primary = fake.variables.createVariable('brand/primary', brand, 'COLOR');
+    primary.setValueForMode(brand.defaultModeId, { r: 0.1, g: 0.3, b: 0.9, a: 1 });
+    fake.publishVariableCollection(brand, 'Acme DS');
+
+    return { badge, primary };
+}
+
+async function runAll() {
+    const { button, input, card } = await buildFile();
+
+    const full = discoverComponents(null);
+    const variables = discoverVariables();
+
+    // Cache the first scan, then touch one component
+    await cacheService.saveCache(full.components, variables, {});
+    const cache = await cacheService.loadCache();
+    input.lastModified = new Date(Date.now() + 1000).toISOString();
+    const incremental = discoverComponents(cache);
+
+    const { badge, primary } = buildLibrary();
+    const localOnly = discoverComponents(null);
+    const library = await discoverLibraryComponents(null, new Set(localOnly.components.map(c => c.key)));
+    const libraryVariables = await discoverLibraryVariables();
+    const importedByDiscovery = fake.imports.includes(primary.key);
+
+    // Binding the library variable is what imports it
+    const rendered = await renderRSNT({
+        id: 'brand-panel',
+        type: 'FRAME',
+        fills: [{ type: 'VARIABLE', variableId: libraryVariables[0].id }]
+    }, fake.currentPage as any);
+
+    return {
+        button, input, card, full, variables, incremental, cached: !!cache,
+        badge, primary, localOnly, library, libraryVariables, importedByDiscovery, rendered
+    };
+}
+
+function byName(components: ComponentInfo[], name: string): ComponentInfo {
+    return components.find(c => c.name === name)!;
+}
+
+runAll().then(({ button, input, card, full, variables, incremental, cached, badge, primary, localOnly, library, libraryVariables, importedByDiscovery, rendered }) => {
+    describe('Auto Discovery - discoverComponents', () => {
+        it('finds sets and standalone components on every page, skipping variants', () => {
+            expect(full.components.map(c => c.name).sort().join(',')).toBe('Button,Card,Forms/Input Field');
+            expect(full.newlyScannedCount).toBe(3);
+        });
+
+        it('classifies components by name', () => {
+            const info = byName(full.components, 'Button');
+            expect(info.id).toBe(button.id);
+            expect(info.type).toBe('COMPONENT_SET');
+            expect(info.semanticType).toBe('button');
+            expect(info.suggestedRole).toBe('PrimaryButton');
+            expect(byName(full.components, 'Forms/Input Field').semanticType).toBe('input');
+            expect(byName(full.components, 'Card').suggestedRole).toBe('Card');
+        });
+
+        it('extracts variant, boolean and text properties', () => {
+            const info = byName(full.components, 'Button');
+            expect(info.properties!.Variant.values!.join(',')).toBe('Primary,Secondary');
+            expect(info.properties!.Size.defaultValue).toBe('Small');
+            expect(info.variantProperties!.Size.values!.join(',')).toBe('Small,Large');
+
+            const hasIcon = Object.keys(info.variantProperties!).filter(k => k.startsWith('Has Icon'));
+            expect(hasIcon).toHaveLength(1);
+            expect(info.variantProperties![hasIcon[0]].values.join(',')).toBe('True,False');
+        });
+
+        it('skips hidden properties on plain components', () => {
+            const info = byName(full.components, 'Forms/Input Field');
+            const keys = Object.keys(info.properties!);
+            expect(keys).toHaveLength(1);
+            expect(info.properties![keys[0]].type).toBe('TEXT');
+            expect(info.description).toBe('Single-line text input');
+            expect(info.variantProperties === undefined).toBe(true);
+        });
+
+        it('reuses cached entries for unmodified components', () => {
+            expect(cached).toBe(true);
+            expect(incremental.newlyScannedCount).toBe(1);
+            expect(byName(incremental.components, 'Card').id).toBe(card.id);
+            expect(byName(incremental.components, 'Forms/Input Field').id).toBe(input.id);
+        });
+    });
+
+    describe('Auto Discovery - discoverVariables', () => {
+        it('reads values from the default mode', () => {
+            const surface = variables.find(v => v.name === 'color/surface')!;
+            expect(variables).toHaveLength(2);
+            expect(surface.resolvedType).toBe('COLOR');
+            expect(surface.value.r).toBe(1);
+        });
+
+        it('records values for every mode by mode name', () => {
+            const surface = variables.find(v => v.name === 'color/surface')!;
+            expect(Object.keys(surface.valuesByMode!).join(',')).toBe('Mode 1,Dark');
+            expect(surface.valuesByMode!.Dark.r).toBe(0);
+            expect(surface.collectionName).toBe('Tokens');
+        });
+
+        it('keeps scopes for token matching', () => {
+            const spacing = variables.find(v => v.name === 'spacing/md')!;
+            expect(spacing.value).toBe(16);
+            expect(spacing.scopes.join(',')).toBe('GAP');
+        });
+    });
+
+    describe('Auto Discovery - team libraries', () => {
+        it('finds library components through the instances that use them', () => {
+            expect(localOnly.components).toHaveLength(3);
+            expect(library.components).toHaveLength(1);
+            expect(library.newlyScannedCount).toBe(1);
+
+            const info = library.components[0];
+            expect(info.name).toBe('Badge');
+            expect(info.key).toBe(badge.key);
+            expect(info.source).toBe('library');
+            expect(info.properties!.Tone.values!.join(',')).toBe('Info,Warning');
+        });
+
+        it('imports the published set by key and tags local components', () => {
+            expect(fake.imports).toContain(badge.key);
+            expect(full.components.map(c => c.source).join(',')).toBe('local,local,local');
+        });
+
+        it('lists library variables from their metadata without importing them', () => {
+            expect(variables.filter(v => v.name === 'brand/primary')).toHaveLength(0);
+            expect(libraryVariables).toHaveLength(1);
+            expect(libraryVariables[0].id).toBe(`library:${primary.key}`);
+            expect(libraryVariables[0].key).toBe(primary.key);
+            expect(libraryVariables[0].resolvedType).toBe('COLOR');
+            expect(libraryVariables[0].collectionName).toBe('Brand');
+            expect(libraryVariables[0].libraryName).toBe('Acme DS');
+            expect(importedByDiscovery).toBe(false);
+        });
+
+        it('imports a library variable by key when a render binds it', () => {
+            const frame = rendered.node as unknown as FakeFrameNode;
+            expect(rendered.errors).toHaveLength(0);
+            expect(fake.imports).toContain(primary.key);
+            expect(frame.fills[0].boundVariables.color.variableId).toBe(primary.id);
+            expect(frame.fills[0].color.b).toBe(0.9);
+        });
+    });
+});
@@ -0,0 +1,98 @@
+import { CacheService } from '../services/cache';
+import { ComponentInfo } from '../services/auto-discovery';
+import { DiscoveryCache } from '../types/cache';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/cache.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'cache-test' });
+const STORAGE_KEY = 'discovery-cache-v1-cache-test';
+const DAY = 24 * 60 * 60 * 1000;
+
+const button = fake.createComponent();
+button.name = 'Button';
+button.lastModified = '2024-05-01T10:00:00.000Z';
+
+const components: ComponentInfo[] = [{ id: button.id, key: button.key, name: 'Button', type: 'COMPONENT' }];
+const service = new CacheService();
+
+async function age(ms: number) {
+    const stored = await fake.clientStorage.getAsync(STORAGE_KEY);
+    await fake.clientStorage.setAsync(STORAGE_KEY, { ...stored, timestamp: stored.timestamp - ms });
+}
+
+async function runAll() {
+    await service.saveCache(components, [], { PrimaryButton: button.id });
+    const fresh = await service.loadCache();
+
+    await age(DAY - 60 * 1000);
+    const almostExpired = await service.loadCache();
+    await age(2 * 60 * 1000);
+    const expired = await service.loadCache();
+
+    await service.saveCache(components, [], {});
+    fake.createPage().name = 'Archive';
+    const restructured = await service.loadCache();
+
+    await service.saveCache(components, [], {});
+    const beforeClear = await service.loadCache();
+    await service.clearCache();
+    const cleared = await service.loadCache();
+
+    await fake.clientStorage.setAsync(STORAGE_KEY, 'not a cache');
+    const corrupt = await service.loadCache();
+
+    return { fresh, almostExpired, expired, restructured, beforeClear, cleared, corrupt };
+}
+
+runAll().then(({ fresh, almostExpired, expired, restructured, beforeClear, cleared, corrupt }) => {
+    describe('Cache Service - load/save', () => {
+        it('round-trips components, fingerprints and mappings', () => {
+            const cache = fresh!;
+            expect(cache.fileKey).toBe('cache-test');
+            expect(cache.components[button.id].name).toBe('Button');
+            expect(cache.componentFingerprints[button.id].lastModified).toBe('2024-05-01T10:00:00.000Z');
+            expect(cache.approvedMappings.PrimaryButton).toBe(button.id);
+            expect(cache.ttl).toBe(DAY);
+        });
+
+        it('clears the stored cache', () => {
+            expect(beforeClear === null).toBe(false);
+            expect(cleared).toBe(null);
+        });
+
+        it('treats unreadable entries as a miss', () => {
+            expect(corrupt).toBe(null);
+        });
+    });
+
+    describe('Cache Service - invalidation', () => {
+        it('keeps the cache until the TTL elapses', () => {
+            expect(almostExpired === null).toBe(false);
+            expect(expired).toBe(null);
+        });
+
+        it('invalidates when pages are added or removed', () => {
+            expect(restructured).toBe(null);
+        });
+    });
+
+    describe('Cache Service - component fingerprints', () => {
+        const cache = fresh as DiscoveryCache;
+
+        it('reports unchanged components as unmodified', () => {
+            expect(service.isComponentModified(button.id, cache)).toBe(false);
+        });
+
+        it('reports edited, unknown and deleted components as modified', () => {
+            expect(service.isComponentModified('9:99', cache)).toBe(true);
+
+            button.lastModified = '2024-05-02T08:30:00.000Z';
+            expect(service.isComponentModified(button.id, cache)).toBe(true);
+
+            button.remove();
+            expect(service.isComponentModified(button.id, cache)).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,178 @@
+import { codeExportService } from '../services/code-export';
+import { DesignSystemInventory } from '../services/auto-discovery';
+import { RSNT_Node } from '../types/rsnt';
+import { ErrorCode } from '../types/errors';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/code-export.test.ts --bundle --platform=node | node
+
+const inventory: DesignSystemInventory = {
+    components: [
+        { id: 'c1', key: 'k1', name: 'Button', type: 'COMPONENT_SET' }
+    ],
+    variables: [
+        { id: 'v-gap', name: 'spacing/md', resolvedType: 'FLOAT', value: 12, scopes: [] },
+        { id: 'v-bg', name: 'colors/primary/500', resolvedType: 'COLOR', value: null, scopes: [] }
+    ],
+    fileKey: 'test',
+    scannedAt: 0
+};
+
+const loginForm: RSNT_Node = {
+    id: 'root',
+    type: 'FRAME',
+    name: 'Login Form',
+    semanticRole: 'form',
+    layoutMode: 'VERTICAL',
+    primaryAxisSizingMode: 'AUTO',
+    counterAxisSizingMode: 'FIXED',
+    counterAxisAlignItems: 'CENTER',
+    width: 320,
+    itemSpacing: { variableId: 'v-gap' },
+    padding: { top: 24, right: 24, bottom: 24, left: 24 },
+    fills: [{ type: 'VARIABLE', variableId: 'v-bg' }],
+    cornerRadius: 8,
+    children: [
+        { id: 't1', type: 'TEXT', characters: 'Welcome back', fontSize: 24, fontStyle: 'Bold' },
+        { id: 't2', type: 'TEXT', semanticRole: 'label', characters: 'Email', fontSize: 14 },
+        {
+            id: 'b1',
+            type: 'COMPONENT_INSTANCE',
+            componentId: 'c1',
+            properties: { 'Variant': 'primary', 'Show Icon#12:3': 'false', 'Label#4:0': 'Sign in' }
+        }
+    ]
+};
+
+describe('Code Export - React + Tailwind', () => {
+    const result = codeExportService.exportToReact(loginForm, { inventory });
+
+    it('names the component after the root node', () => {
+        expect(result.componentName).toBe('LoginForm');
+        expect(result.code).toContain('export function LoginForm() {');
+    });
+
+    it('maps auto-layout frames to flex containers', () => {
+        expect(result.code).toContain('<form className="flex flex-col items-center gap-md w-80 p-6 bg-primary-500 rounded-lg">');
+    });
+
+    it('maps TEXT nodes to semantic elements', () => {
+        expect(result.code).toContain('<h2 className="text-2xl font-bold">Welcome back</h2>');
+        expect(result.code).toContain('<label className="text-sm">Email</label>');
+    });
+
+    it('imports component instances and passes properties as props', () => {
+        expect(result.imports[0]).toBe("import { Button } from '@/components/ui/button';");
+        expect(result.code).toContain('<Button variant="primary" showIcon={false} label="Sign in" />');
+    });
+
+    it('reports no warnings when everything resolves', () => {
+        expect(result.warnings).toHaveLength(0);
+    });
+
+    it('warns when a bound variable is missing from the inventory', () => {
+        const missing = codeExportService.exportToReact(loginForm, { inventory: { ...inventory, variables: [] } });
+        expect(missing.warnings).toHaveLength(2);
+        expect(missing.warnings[0].code).toBe(ErrorCode.EXPORT_VALIDATION_FAILED);
+        expect(missing.warnings[0].feature).toBe('variable');
+    });
+});
+
+describe('Code Export - component identifiers', () => {
+    const library: DesignSystemInventory = {
+        ...inventory,
+        components: [
+            { id: 'c-primary', key: 'k-primary', name: 'Button/Primary', type: 'COMPONENT' },
+            { id: 'c-secondary', key: 'k-secondary', name: 'Button/Secondary', type: 'COMPONENT' },
+            { id: 'c-badge', key: 'k-badge', name: 'Badge/Primary', type: 'COMPONENT' }
+        ]
+    };
+    const toolbar: RSNT_Node = {
+        id: 'toolbar',
+        type: 'FRAME',
+        name: 'Toolbar',
+        layoutMode: 'HORIZONTAL',
+        children: [
+            { id: 'save', type: 'COMPONENT_INSTANCE', componentId: 'c-primary' },
+            { id: 'cancel', type: 'COMPONENT_INSTANCE', componentId: 'c-secondary' },
+            { id: 'status', type: 'COMPONENT_INSTANCE', componentKey: 'k-badge' },
+            { id: 'again', type: 'COMPONENT_INSTANCE', componentId: 'c-primary' }
+        ]
+    };
+    const result = codeExportService.exportToReact(toolbar, { inventory: library });
+
+    it('names components after the last segment of their path', () => {
+        expect(result.code).toContain('<Primary />');
+        expect(result.code).toContain('<Secondary />');
+    });
+
+    it('gives different components with the same name distinct imports', () => {
+        expect(result.imports.join('\n')).toBe([
+            "import { BadgePrimary } from '@/components/ui/badge-primary';",
+            "import { Primary } from '@/components/ui/primary';",
+            "import { Secondary } from '@/components/ui/secondary';"
+        ].join('\n'));
+        expect(result.code).toContain('<BadgePrimary />');
+    });
+});
+
+describe('Code Export - props and the exported name', () => {
+    const button: RSNT_Node = {
+        id: 'button-row',
+        type: 'FRAME',
+        name: 'Button',
+        layoutMode: 'HORIZONTAL',
+        children: [
+            { id: 'inner', type: 'COMPONENT_INSTANCE', componentId: 'c1', properties: { 'Count#1:2': 3, 'Disabled': false, 'Loading': true } as Record<string, any> }
+        ]
+    };
+    const result = codeExportService.exportToReact(button, { inventory });
+
+    it('does not import a component under the exported component\'s name', () => {
+        expect(result.componentName).toBe('Button');
+        expect(result.imports.join('\n')).toBe("import { Button2 } from '@/components/ui/button2';");
+        expect(result.code).toContain('<Button2 ');
+    });
+
+    it('passes numbers and booleans as expressions', () => {
+        expect(result.code).toContain('count={3} disabled={false} loading');
+    });
+});
+
+describe('Code Export - unmappable features', () => {
+    const card: RSNT_Node = {
+        id: 'card',
+        type: 'FRAME',
+        name: 'Hero Card',
+        layoutMode: 'NONE',
+        width: 200,
+        height: 120,
+        blendMode: 'LINEAR_BURN',
+        effects: [
+            { type: 'DROP_SHADOW', radius: 8, visible: true },
+            { type: 'DROP_SHADOW', radius: 24, visible: true },
+            { type: 'BACKGROUND_BLUR', radius: 16, visible: true }
+        ],
+        children: [
+            { id: 'badge', type: 'TEXT', characters: 'New', layoutPrimitive: 'absolute', blendMode: 'MULTIPLY' }
+        ]
+    };
+    const result = codeExportService.exportToReact(card);
+    const features = result.warnings.map(w => w.feature);
+
+    it('exports supported effects and blend modes as utilities', () => {
+        expect(result.code).toContain('shadow-md backdrop-blur-lg');
+        expect(result.code).toContain('absolute mix-blend-multiply');
+    });
+
+    it('reports absolute positioning, blend modes and extra effects', () => {
+        expect(features).toContain('absolute-position');
+        expect(features).toContain('blend-mode');
+        expect(features).toContain('effect');
+        expect(result.warnings).toHaveLength(4);
+    });
+
+    it('gives unmappable features their own code', () => {
+        expect(result.warnings.every(w => w.code === ErrorCode.EXPORT_FEATURE_UNSUPPORTED)).toBe(true);
+    });
+});
@@ -0,0 +1,195 @@
+import { getOrDiscoverInventory, refreshInventory, DesignSystemInventory, ComponentInfo } from '../services/auto-discovery';
+import {
+    applyComponentOverrides,
+    saveComponentOverride,
+    clearComponentOverride,
+    componentOverrides
+} from '../services/component-overrides';
+import { aiProviderService } from '../services/ai-provider';
+import { cacheService } from '../services/cache';
+import { propertyMappingService } from '../services/property-mapping';
+import { PropertyType, PropertyAnalysis } from '../types/classification';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/component-overrides.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'overrides-test' });
+
+// Classifier stub: records prompts and calls everything a Badge
+const prompts: string[] = [];
+aiProviderService.getActiveProvider = async () => aiProviderService.offline ? null : ({
+    generateJSON: async (prompt: string) => {
+        prompts.push(prompt);
+        const ids = Array.from(prompt.matchAll(/"componentId": "([^"]+)"/g)).map(match => match[1]);
+        return { data: ids.map(componentId => ({ componentId, semanticRole: 'Badge', confidence: 0.9, reasoning: 'Stub' })) };
+    }
+} as any);
+
+const emphasis: Record<string, PropertyAnalysis> = {
+    Emphasis: {
+        propertyType: PropertyType.SEMANTIC_VARIANT,
+        reasoning: 'Approved by designer',
+        valueMappings: [{ clientValue: 'High', semanticValue: 'primary', confidence: 1 }]
+    }
+};
+
+function component(id: string, name: string, extra: Partial<ComponentInfo> = {}): ComponentInfo {
+    return { id, key: `k-${id}`, name, type: 'COMPONENT', ...extra };
+}
+
+async function buildFile() {
+    await fake.loadFontAsync({ family: 'Inter', style: 'Regular' });
+    const variants = ['Emphasis=High', 'Emphasis=Low'].map(name => {
+        const variant = fake.createComponent();
+        variant.name = name;
+        return variant;
+    });
+    const button = fake.combineAsVariants(variants, fake.currentPage);
+    button.name = 'Action';
+    const card = fake.createComponent();
+    card.name = 'Tile';
+    return { button, variants, card };
+}
+
+/** Give a component a new layer so its structure hash no longer matches */
+function reshape(node: any) {
+    const text = fake.createText();
+    text.characters = 'New';
+    node.appendChild(text);
+    node.lastModified = new Date(Date.now() + 1000).toISOString();
+}
+
+async function runAll() {
+    const synthetic: DesignSystemInventory = {
+        components: [component('1', 'Button', { suggestedRole: 'Badge' }), component('2', 'Badge', { suggestedRole: 'Badge' })],
+        variables: [],
+        fileKey: 'overrides-test',
+        scannedAt: 0,
+        suggestedMappings: { Badge: '1', Card: '2' }
+    };
+    const applied = applyComponentOverrides(synthetic, {
+        '1': { role: 'PrimaryButton', updatedAt: 0 },
+        'gone': { role: 'Tooltip', updatedAt: 0 }
+    });
+
+    const { button, variants, card } = await buildFile();
+    const initial = await getOrDiscoverInventory();
+    const firstPrompts = prompts.length;
+
+    const saved = await saveComponentOverride(initial, button.id, { role: ' PrimaryButton ', propertyMappings: emphasis });
+    const stored = await componentOverrides.load();
+    const cache = await cacheService.loadCache();
+    const mappingsAfterSave = propertyMappingService.getMappings(button.id);
+
+    // Both components change; only the unapproved one goes back to the AI
+    reshape(variants[0]);
+    reshape(card);
+    prompts.length = 0;
+    const refreshed = await refreshInventory();
+    const classifyPrompts = prompts.filter(p => p.includes('Allowed Semantic Roles'));
+
+    // Force refresh on an expired cache: unchanged structure hashes keep their classification
+    const storedCache = await fake.clientStorage.getAsync('discovery-cache-v1-overrides-test') as any;
+    await fake.clientStorage.setAsync('discovery-cache-v1-overrides-test', { ...storedCache, timestamp: 0 });
+    prompts.length = 0;
+    const refreshedAfterExpiry = await refreshInventory();
+    const expiryPrompts = prompts.filter(p => p.includes('Allowed Semantic Roles'));
+
+    // Offline: no provider, but earlier classifications and corrections still apply
+    propertyMappingService.clearMappings(button.id);
+    await propertyMappingService.saveMappings();
+    aiProviderService.setOffline(true);
+    prompts.length = 0;
+    const offline = await getOrDiscoverInventory();
+    const offlinePrompts = prompts.length;
+    const mappingsOffline = propertyMappingService.getMappings(button.id);
+    aiProviderService.setOffline(false);
+
+    const cleared = await clearComponentOverride(refreshed, button.id);
+    const storedAfterClear = await componentOverrides.load();
+    const mappingsAfterClear = propertyMappingService.getMappings(button.id);
+
+    return {
+        button, card, applied, initial, firstPrompts, saved, stored, cache, mappingsAfterSave,
+        refreshed, classifyPrompts, refreshedAfterExpiry, expiryPrompts, offline, offlinePrompts, mappingsOffline, cleared, storedAfterClear, mappingsAfterClear
+    };
+}
+
+runAll().then(r => {
+    const find = (inventory: DesignSystemInventory, id: string) => inventory.components.find(c => c.id === id)!;
+
+    describe('Component Overrides - applyComponentOverrides', () => {
+        it('applies the role at full confidence and marks the component approved', () => {
+            const button = find(r.applied, '1');
+            expect(button.suggestedRole).toBe('PrimaryButton');
+            expect(button.aiClassification!.confidence).toBe(1);
+            expect(button.approved).toBe(true);
+            expect(find(r.applied, '2').approved === undefined).toBe(true);
+        });
+
+        it('points overridden roles at their component and drops its other roles', () => {
+            expect(r.applied.suggestedMappings!.PrimaryButton).toBe('1');
+            expect(r.applied.suggestedMappings!.Badge === undefined).toBe(true);
+            expect(r.applied.suggestedMappings!.Card).toBe('2');
+            expect(r.applied.suggestedMappings!.Tooltip === undefined).toBe(true);
+        });
+    });
+
+    describe('Component Overrides - saving', () => {
+        it('persists the correction and the approved role mapping', () => {
+            expect(r.firstPrompts).toBeGreaterThan(0);
+            expect(find(r.initial, r.button.id).suggestedRole).toBe('Badge');
+            expect(r.stored[r.button.id].role).toBe('PrimaryButton');
+            expect(r.cache!.approvedMappings.PrimaryButton).toBe(r.button.id);
+            expect(r.cache!.components[r.button.id].approved).toBe(true);
+        });
+
+        it('seeds the property mappings used for rendering', () => {
+            expect(find(r.saved, r.button.id).propertyMappings!.Emphasis.valueMappings[0].semanticValue).toBe('primary');
+            expect(r.mappingsAfterSave!.Emphasis.valueMappings[0].clientValue).toBe('High');
+        });
+    });
+
+    describe('Component Overrides - rediscovery', () => {
+        it('keeps approved components out of AI classification', () => {
+            expect(r.classifyPrompts).toHaveLength(1);
+            expect(r.classifyPrompts[0].includes(r.card.id)).toBe(true);
+            expect(r.classifyPrompts[0].includes(r.button.id)).toBe(false);
+        });
+
+        it('re-applies the correction after a refresh', () => {
+            const button = find(r.refreshed, r.button.id);
+            expect(button.suggestedRole).toBe('PrimaryButton');
+            expect(button.approved).toBe(true);
+            expect(button.propertyMappings!.Emphasis.valueMappings[0].semanticValue).toBe('primary');
+            expect(r.refreshed.suggestedMappings!.PrimaryButton).toBe(r.button.id);
+        });
+
+        it('reuses classifications for unchanged hashes when refreshing an expired cache', () => {
+            expect(r.expiryPrompts).toHaveLength(0);
+            expect(find(r.refreshedAfterExpiry, r.card.id).suggestedRole).toBe('Badge');
+            expect(find(r.refreshedAfterExpiry, r.button.id).suggestedRole).toBe('PrimaryButton');
+        });
+    });
+
+    describe('Component Overrides - offline', () => {
+        it('reuses classifications and re-applies corrections without a provider', () => {
+            expect(r.offlinePrompts).toBe(0);
+            expect(find(r.offline, r.card.id).suggestedRole).toBe('Badge');
+            expect(find(r.offline, r.button.id).suggestedRole).toBe('PrimaryButton');
+            expect(r.mappingsOffline!.Emphasis.valueMappings[0].clientValue).toBe('High');
+        });
+    });
+
+    describe('Component Overrides - reset', () => {
+        it('forgets the correction so the AI classifies again', () => {
+            const button = find(r.cleared, r.button.id);
+            expect(button.approved === undefined).toBe(true);
+            expect(button.aiClassification === undefined).toBe(true);
+            expect(r.storedAfterClear[r.button.id] === undefined).toBe(true);
+            expect(r.mappingsAfterClear === undefined).toBe(true);
+            expect(r.cleared.suggestedMappings!.PrimaryButton === undefined).toBe(true);
+        });
+    });
+});
@@ -0,0 +1,139 @@
+import { resolveForState, getDeclaredStates, matchStateValue } from '../services/component-states';
+import { propertyMappingService } from '../services/property-mapping';
+import { resolveNode, applyComponentStates } from '../services/resolution';
+import { ComponentInfo, DesignSystemInventory } from '../services/auto-discovery';
+import { ComponentInstructions } from '../types/resolution-types';
+import { validateRSNT, RSNT_Node } from '../types/rsnt';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/component-states.test.ts --bundle --platform=node | node
+
+installFigmaFake({ fileKey: 'states-test' });
+
+const form: RSNT_Node = {
+    id: 'form',
+    type: 'FRAME',
+    name: 'Sign Up',
+    layoutMode: 'VERTICAL',
+    states: ['error', 'default'],
+    children: [
+        { id: 'email', type: 'COMPONENT_INSTANCE', componentId: 'input' },
+        {
+            id: 'submit',
+            type: 'COMPONENT_INSTANCE',
+            componentId: 'button',
+            state: 'default',
+            states: ['loading', 'disabled']
+        }
+    ]
+};
+
+describe('Component States - resolution', () => {
+    it('lists declared states in canonical order', () => {
+        expect(getDeclaredStates(form).join(',')).toBe('default,disabled,error,loading');
+    });
+
+    it('cascades a frame state onto descendant instances', () => {
+        const error = resolveForState(form, 'error');
+        expect(error.children![0].state).toBe('error');
+        expect(error.children![1].state).toBe('default');
+    });
+
+    it('switches only the nodes that declare the target state', () => {
+        const loading = resolveForState(form, 'loading');
+        expect(loading.children![0].state).toBe(undefined);
+        expect(loading.children![1].state).toBe('loading');
+    });
+
+    it('does not mutate the source tree', () => {
+        resolveForState(form, 'error');
+        expect(form.state).toBe(undefined);
+        expect(form.children![0].state).toBe(undefined);
+    });
+});
+
+describe('Component States - variant matching', () => {
+    it('matches state names and aliases case-insensitively', () => {
+        expect(matchStateValue('disabled', ['Enabled', 'Disabled'])).toBe('Disabled');
+        expect(matchStateValue('default', ['Enabled', 'Hovered'])).toBe('Enabled');
+        expect(matchStateValue('hover', ['Enabled', 'Hovered'])).toBe('Hovered');
+        expect(matchStateValue('error', ['Enabled'])).toBe(null);
+    });
+
+    it('falls back to a State-named variant property without analyzed mappings', () => {
+        const match = propertyMappingService.resolveStateVariant('unanalyzed', 'pressed', {
+            Size: { values: ['Small', 'Large'] },
+            State: { values: ['Rest', 'Active'] }
+        });
+        expect(match!.property).toBe('State');
+        expect(match!.value).toBe('Active');
+        expect(match!.source).toBe('name');
+    });
+});
+
+describe('Component States - validation', () => {
+    const context = { availableComponents: new Set(['input', 'button']), availableVariables: new Set<string>() };
+
+    it('accepts declared states', () => {
+        const result = validateRSNT(form, context);
+        expect(result.valid).toBe(true);
+        expect(result.warnings.filter(w => w.rule === 'unknown-state')).toHaveLength(0);
+    });
+
+    it('rejects malformed states and warns on unknown ones', () => {
+        const node: RSNT_Node = { id: 'x', type: 'FRAME', state: 'wobbly', states: ['hover', ''] };
+        const result = validateRSNT(node, context);
+        expect(result.errors).toHaveLength(1);
+        expect(result.warnings.filter(w => w.rule === 'unknown-state')).toHaveLength(1);
+    });
+});
+
+const button: ComponentInfo = {
+    id: 'button',
+    key: 'key-button',
+    name: 'Button',
+    type: 'COMPONENT_SET',
+    suggestedRole: 'PrimaryButton',
+    variantProperties: { State: { values: ['Enabled', 'Hovered', 'Disabled'] } }
+};
+const badge: ComponentInfo = { id: 'badge', key: 'key-badge', name: 'Badge', type: 'COMPONENT', suggestedRole: 'Badge' };
+const inventory: DesignSystemInventory = { components: [button, badge], variables: [], fileKey: 'states-test', scannedAt: 0 };
+
+async function runAll() {
+    const hovered = await resolveNode({ id: 'cta', type: 'COMPONENT_INSTANCE', semanticRole: 'PrimaryButton', state: 'hover' }, inventory);
+    const stateless = await resolveNode({ id: 'tag', type: 'COMPONENT_INSTANCE', semanticRole: 'Badge', state: 'disabled' }, inventory);
+
+    const matrix = resolveForState({
+        id: 'toolbar',
+        type: 'FRAME',
+        children: [
+            { id: 'save', type: 'COMPONENT_INSTANCE', componentId: 'button', states: ['disabled'] },
+            { id: 'count', type: 'COMPONENT_INSTANCE', componentId: 'badge', states: ['disabled'] }
+        ]
+    }, 'disabled');
+    const missing = applyComponentStates(matrix, inventory);
+
+    return { hovered, stateless, matrix, missing };
+}
+
+runAll().then(({ hovered, stateless, matrix, missing }) => {
+    describe('Component States - resolving variants', () => {
+        it('sets the state variant on the resolved component and traces it', () => {
+            const instructions = hovered.instructions as ComponentInstructions;
+            expect(instructions.properties.State).toBe('Hovered');
+            expect(hovered.trace!.tiers[0].notes.join(' ')).toContain('State "hover" → State=Hovered');
+        });
+
+        it('warns when the component has no variant for the state', () => {
+            expect(Object.keys((stateless.instructions as ComponentInstructions).properties)).toHaveLength(0);
+            expect(stateless.warnings.join(' ')).toContain('"Badge" has no variant for state "disabled"');
+        });
+
+        it('switches already-resolved instances when a state matrix changes state', () => {
+            expect(matrix.children![0].properties!.State).toBe('Disabled');
+            expect(missing).toHaveLength(1);
+            expect(missing[0].nodeId).toBe('count');
+        });
+    });
+});
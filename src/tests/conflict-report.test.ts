@@ -0,0 +1,150 @@
+import { discoverVariables, ComponentInfo, DesignSystemInventory } from '../services/auto-discovery';
+import { ComponentAnatomy } from '../services/anatomy';
+import { resolveNode } from '../services/resolution';
+import { Conflict, conflictSubject, applyConflictValueToNode, resolveWrittenNodeConflicts, applyResolutionToRSNT } from '../services/conflicts';
+import { conflictPreferences } from '../services/conflict-preferences';
+import { designPresets } from '../services/design-presets';
+import { CompilerError, ErrorCode } from '../types/errors';
+import { ComponentInstructions, ResolutionResult } from '../types/resolution-types';
+import { RSNT_Node } from '../types/rsnt';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/conflict-report.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'conflict-report-test' });
+
+function card(): ComponentInfo {
+    const anatomy: ComponentAnatomy = {
+        hasIcon: false,
+        hasLabel: true,
+        hasImage: false,
+        hasContainer: true,
+        layerCount: 2,
+        textNodeCount: 1,
+        instanceCount: 0,
+        structureSignature: 'F>T',
+        layoutInfo: {
+            mode: 'VERTICAL',
+            primaryAxisAlignItems: 'MIN',
+            counterAxisAlignItems: 'MIN',
+            itemSpacing: 12,
+            padding: { top: 20, right: 20, bottom: 20, left: 20 }
+        },
+        dimensionInfo: {} as ComponentAnatomy['dimensionInfo']
+    };
+    return { id: 'card', key: 'key-card', name: 'Card', type: 'COMPONENT', suggestedRole: 'Card', anatomy };
+}
+
+function paddingConflict(result: ResolutionResult): Conflict {
+    return result.metadata!.conflicts!.find(c => c.property === 'padding')!;
+}
+
+async function runAll() {
+    const theme = fake.variables.createVariableCollection('Theme');
+    const radius = fake.variables.createVariable('radius/md', theme, 'FLOAT');
+    radius.setValueForMode(theme.defaultModeId, 6);
+    const inventory: DesignSystemInventory = { components: [card()], variables: discoverVariables(), fileKey: 'conflict-report-test', scannedAt: 0 };
+    const dense = (await designPresets.find('dense-enterprise'))!;
+    const summary = () => ({ id: 'summary', type: 'COMPONENT_INSTANCE' as const, semanticRole: 'Card' });
+
+    // By priority the component's padding wins; a remembered rule flips it
+    const byPriority = await resolveNode(summary(), inventory, undefined, undefined, dense);
+    let withoutSubject: unknown = null;
+    try {
+        conflictPreferences.save(undefined, 'padding', 'preset');
+    } catch (e) {
+        withoutSubject = e;
+    }
+    conflictPreferences.save('Card', 'padding', 'preset', 'Client wants dense cards');
+    conflictPreferences.save('Badge', 'cornerRadius', 'ai');
+    const stored = JSON.parse(fake.root.getPluginData('conflict-preferences'));
+    const byPreference = await resolveNode(summary(), inventory, undefined, undefined, dense);
+    const remaining = conflictPreferences.remove('Badge.cornerRadius');
+
+    // Rules reach nodes the tree walk renders as written too
+    conflictPreferences.save('Hero', 'padding', 'system');
+    const placed: RSNT_Node = { id: 'placed', type: 'COMPONENT_INSTANCE', componentId: 'card' };
+    const hero: RSNT_Node = { id: 'hero', type: 'FRAME', semanticRole: 'Hero', tailwindClasses: ['p-6'] };
+    for (const node of [placed, hero]) {
+        const log = await resolveWrittenNodeConflicts(node, inventory, dense);
+        if (log) applyResolutionToRSNT(node, log.conflicts);
+    }
+    conflictPreferences.remove('Hero.padding');
+
+    // Subjects: the instantiated component, else the semantic role
+    const frameSubject = conflictSubject({ id: 'hero', type: 'FRAME', semanticRole: 'Hero' }, byPriority, { ...inventory, components: [] });
+    const componentSubject = conflictSubject({ id: 'summary', type: 'COMPONENT_INSTANCE' }, byPriority, inventory);
+
+    // Flipping a winner on the canvas replaces the bound variable
+    const frame = fake.createFrame();
+    frame.layoutMode = 'VERTICAL';
+    frame.setBoundVariable('topLeftRadius', radius);
+    const target = frame as unknown as SceneNode;
+    const applied = {
+        padding: await applyConflictValueToNode(target, 'padding', 24),
+        radius: await applyConflictValueToNode(target, 'cornerRadius', 2),
+        fill: await applyConflictValueToNode(target, 'fill', [{ type: 'SOLID', color: { r: 1, g: 0, b: 0 } }]),
+        fontSize: await applyConflictValueToNode(target, 'fontSize', 12)
+    };
+
+    return { byPriority, withoutSubject, stored, byPreference, remaining, placed, hero, frameSubject, componentSubject, frame, applied };
+}
+
+runAll().then(({ byPriority, withoutSubject, stored, byPreference, remaining, placed, hero, frameSubject, componentSubject, frame, applied }) => {
+    describe('Conflict Report - preferences', () => {
+        it('stores rules on the document keyed by subject and property', () => {
+            expect(stored['Card.padding'].always).toBe('preset');
+            expect(stored['Card.padding'].reason).toBe('Client wants dense cards');
+            expect(remaining.map(p => `${p.subject}.${p.property}`).join(',')).toBe('Card.padding');
+        });
+
+        it('requires a component or role to key the rule by', () => {
+            expect(withoutSubject instanceof CompilerError).toBe(true);
+            expect((withoutSubject as CompilerError).code).toBe(ErrorCode.MISSING_REQUIRED_PROPERTY);
+        });
+
+        it('keys subjects by component name, then semantic role', () => {
+            expect(componentSubject).toBe('Card');
+            expect(frameSubject).toBe('Hero');
+        });
+    });
+
+    describe('Conflict Report - resolution', () => {
+        it('lets the component win by priority without a rule', () => {
+            const padding = paddingConflict(byPriority);
+            expect(padding.winner.source).toBe('component');
+            expect(padding.preferred === undefined).toBe(true);
+            expect(padding.sources.map(s => s.source).join(',')).toBe('component,preset,system');
+        });
+
+        it('lets a remembered rule pick the winner', () => {
+            const padding = paddingConflict(byPreference);
+            expect(padding.winner.source).toBe('preset');
+            expect(padding.preferred).toBe(true);
+            expect(padding.reason).toContain('always use the preset padding for Card');
+            expect((byPreference.instructions as ComponentInstructions).overrides!.padding!.top).toBe(8);
+        });
+
+        it('applies remembered rules to instances and frames that skip resolution', () => {
+            expect(placed.padding!.top).toBe(8);
+            expect(hero.padding!.left).toBe(16);
+        });
+    });
+
+    describe('Conflict Report - applying to the canvas', () => {
+        it('sets padding, radius and fills and drops bound variables', () => {
+            expect(applied.padding).toBe(true);
+            expect(frame.paddingLeft).toBe(24);
+            expect(applied.radius).toBe(true);
+            expect(frame.cornerRadius).toBe(2);
+            expect(frame.boundVariables.topLeftRadius === undefined).toBe(true);
+            expect(applied.fill).toBe(true);
+            expect((frame.fills[0] as SolidPaint).color.r).toBe(1);
+        });
+
+        it('refuses properties the node cannot take', () => {
+            expect(applied.fontSize).toBe(false);
+        });
+    });
+});
@@ -0,0 +1,175 @@
+import { discoverVariables, ComponentInfo, DesignSystemInventory } from '../services/auto-discovery';
+import { ComponentAnatomy } from '../services/anatomy';
+import { resolveNode } from '../services/resolution';
+import { Conflict, resolveWrittenNodeConflicts, applyResolutionToRSNT } from '../services/conflicts';
+import { designPresets, buildPresetValues, describePreset, DesignPresetService } from '../services/design-presets';
+import { CompilerError, ErrorCode } from '../types/errors';
+import { FrameInstructions, ComponentInstructions, ResolutionResult } from '../types/resolution-types';
+import { RSNT_Node } from '../types/rsnt';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/design-presets.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'presets-test' });
+
+function buildTokens() {
+    const theme = fake.variables.createVariableCollection('Theme');
+    const blue = fake.variables.createVariable('colors/blue/500', theme, 'COLOR');
+    blue.setValueForMode(theme.defaultModeId, { r: 0x3B / 255, g: 0x82 / 255, b: 0xF6 / 255, a: 1 });
+    const spacing = fake.variables.createVariable('spacing/6', theme, 'FLOAT');
+    spacing.setValueForMode(theme.defaultModeId, 24);
+    return { blue, spacing };
+}
+
+function card(): ComponentInfo {
+    const anatomy: ComponentAnatomy = {
+        hasIcon: false,
+        hasLabel: true,
+        hasImage: false,
+        hasContainer: true,
+        layerCount: 2,
+        textNodeCount: 1,
+        instanceCount: 0,
+        structureSignature: 'F>T',
+        layoutInfo: {
+            mode: 'VERTICAL',
+            primaryAxisAlignItems: 'MIN',
+            counterAxisAlignItems: 'MIN',
+            itemSpacing: 12,
+            padding: { top: 20, right: 20, bottom: 20, left: 20 }
+        },
+        dimensionInfo: {} as ComponentAnatomy['dimensionInfo']
+    };
+    return { id: 'card', key: 'key-card', name: 'Card', type: 'COMPONENT', suggestedRole: 'Card', anatomy };
+}
+
+function conflictsOf(result: ResolutionResult): Conflict[] {
+    return result.metadata?.conflicts || [];
+}
+
+async function runAll() {
+    const tokens = buildTokens();
+    const inventory: DesignSystemInventory = { components: [card()], variables: discoverVariables(), fileKey: 'presets-test', scannedAt: 0 };
+    const dense = (await designPresets.find('dense-enterprise'))!;
+    const panel = () => ({ id: 'panel', type: 'FRAME' as const, tailwindClasses: ['bg-blue-500', 'p-6'] });
+
+    // Saved presets: one for this file, one for every file
+    await designPresets.save('Client dashboard', { padding: 10, fill: '#0f172a' }, 'file');
+    const listed = await designPresets.save('Compact', { padding: 4, cornerRadius: 0 }, 'global');
+    const reloaded = await new DesignPresetService().list();
+    const fileStored = await fake.clientStorage.getAsync('design-presets-v1-file-presets-test');
+    let unnamed: unknown = null;
+    await designPresets.save('  ', { padding: 4 }, 'file').catch(e => { unnamed = e; });
+    const afterDelete = await designPresets.remove('global:compact');
+
+    // Tier 3: AI classes bind tokens; the preset overrides the padding only
+    const plain = await resolveNode(panel(), inventory);
+    const withDense = await resolveNode(panel(), inventory, undefined, undefined, dense);
+
+    // Tier 5: the preset beats the system default radius
+    const fallback = await resolveNode({ id: 'box', type: 'FRAME', name: 'Box' }, inventory, undefined, undefined, dense);
+
+    // Tier 1: the component keeps its own padding
+    const component = await resolveNode({ id: 'summary', type: 'COMPONENT_INSTANCE', semanticRole: 'Card' }, inventory, undefined, undefined, dense);
+
+    // Nodes the tree walk renders as written
+    const written: Record<string, RSNT_Node> = {
+        frame: { id: 'list', type: 'FRAME', layoutMode: 'VERTICAL', padding: { top: 24, right: 24, bottom: 24, left: 24 }, itemSpacing: 12 },
+        wrapper: { id: 'wrapper', type: 'FRAME' },
+        text: { id: 'label', type: 'TEXT', characters: 'Total', fontSize: 16, fills: [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 } }] },
+        instance: { id: 'summary', type: 'COMPONENT_INSTANCE', componentId: 'card' }
+    };
+    const writtenLogs: Record<string, Awaited<ReturnType<typeof resolveWrittenNodeConflicts>>> = {};
+    for (const [key, node] of Object.entries(written)) {
+        writtenLogs[key] = await resolveWrittenNodeConflicts(node, inventory, dense);
+        if (writtenLogs[key]) applyResolutionToRSNT(node, writtenLogs[key]!.conflicts);
+    }
+    const withoutPreset = await resolveWrittenNodeConflicts({ id: 'list', type: 'FRAME', itemSpacing: 12 }, inventory);
+
+    return { tokens, dense, listed, reloaded, fileStored, unnamed, afterDelete, plain, withDense, fallback, component, written, writtenLogs, withoutPreset };
+}
+
+runAll().then(({ tokens, dense, listed, reloaded, fileStored, unnamed, afterDelete, plain, withDense, fallback, component, written, writtenLogs, withoutPreset }) => {
+    describe('Design Presets - storage', () => {
+        it('lists built-in presets, then global, then this file', () => {
+            expect(listed.map(p => p.id).join(',')).toBe('shadcn-default,dense-enterprise,spacious-marketing,global:compact,file:client-dashboard');
+            expect(reloaded).toHaveLength(5);
+            expect((fileStored as any[])[0].name).toBe('Client dashboard');
+        });
+
+        it('requires a name and deletes saved presets', () => {
+            expect(unnamed instanceof CompilerError).toBe(true);
+            expect((unnamed as CompilerError).code).toBe(ErrorCode.MISSING_REQUIRED_PROPERTY);
+            expect(afterDelete.map(p => p.id).join(',')).toBe('shadcn-default,dense-enterprise,spacious-marketing,file:client-dashboard');
+        });
+
+        it('stores fills as solid paints and describes values', () => {
+            const values = buildPresetValues({ padding: 10, itemSpacing: -1, fill: '0f172a' });
+            expect(values.itemSpacing === undefined).toBe(true);
+            expect(values.fill[0].color.b).toBeCloseTo(0x2a / 255, 3);
+            expect(describePreset({ name: 'x', values })).toBe('10px padding · fill #0F172A');
+            expect(describePreset(dense)).toBe('8px padding · 4px gap · 2px radius · 12px text');
+        });
+    });
+
+    describe('Design Presets - conflict resolution', () => {
+        it('keeps AI values and their tokens without a preset', () => {
+            const instructions = plain.instructions as FrameInstructions;
+            expect(plain.tier).toBe(3);
+            expect(instructions.styling.padding!.top).toBe(24);
+            expect(instructions.variableBindings!.padding).toBe(tokens.spacing.id);
+        });
+
+        it('overrides AI padding and drops the token bound for it', () => {
+            const instructions = withDense.instructions as FrameInstructions;
+            const padding = conflictsOf(withDense).find(c => c.property === 'padding')!;
+            expect(padding.winner.source).toBe('preset');
+            expect(padding.reason).toContain('Dense enterprise');
+            expect(instructions.styling.padding!.left).toBe(8);
+            expect(instructions.variableBindings!.padding === undefined).toBe(true);
+            expect(instructions.variableBindings!.fill).toBe(tokens.blue.id);
+        });
+
+        it('applies preset values nothing else sets and beats system defaults', () => {
+            const instructions = fallback.instructions as FrameInstructions;
+            expect(fallback.tier).toBe(5);
+            expect(instructions.styling.cornerRadius).toBe(2);
+            expect(instructions.styling.itemSpacing).toBe(4);
+        });
+
+        it('leaves component values ahead of the preset', () => {
+            const instructions = component.instructions as ComponentInstructions;
+            const padding = conflictsOf(component).find(c => c.property === 'padding')!;
+            expect(padding.winner.source).toBe('component');
+            expect(instructions.overrides!.padding!.top).toBe(20);
+        });
+    });
+
+    describe('Design Presets - nodes rendered as written', () => {
+        it('overrides the values AI frames set and leaves the rest', () => {
+            expect(written.frame.padding!.left).toBe(8);
+            expect(written.frame.itemSpacing).toBe(4);
+            expect(written.frame.cornerRadius === undefined).toBe(true);
+            expect(writtenLogs.frame!.conflicts.map(c => c.property).join(',')).toBe('padding,itemSpacing');
+        });
+
+        it('does not touch frames that set nothing or runs without a preset', () => {
+            expect(writtenLogs.wrapper === null).toBe(true);
+            expect(written.wrapper.fills === undefined).toBe(true);
+            expect(withoutPreset === null).toBe(true);
+        });
+
+        it('sets text size only on text', () => {
+            expect(written.text.fontSize).toBe(12);
+            expect(written.text.fills![0].color!.r).toBe(0);
+        });
+
+        it('keeps component values on instances that already resolved', () => {
+            const padding = writtenLogs.instance!.conflicts.find(c => c.property === 'padding')!;
+            expect(padding.winner.source).toBe('component');
+            expect(writtenLogs.instance!.subject).toBe('Card');
+            expect(written.instance.padding === undefined).toBe(true);
+        });
+    });
+});
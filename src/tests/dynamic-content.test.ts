@@ -0,0 +1,143 @@
+import { evaluateCondition, interpolate, resolveForScenario, getScenarioData, scenarioService, applyScenarioToRendered } from '../services/dynamic-content';
+import { codeExportService } from '../services/code-export';
+import { renderRSNT } from '../services/rendering';
+import { validateRSNT, RSNT_Node } from '../types/rsnt';
+import { ErrorCode } from '../types/errors';
+import { installFigmaFake, FakeFrameNode, FakeTextNode } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/dynamic-content.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'dynamic-content-test' });
+
+const inbox: RSNT_Node = {
+    id: 'inbox',
+    type: 'FRAME',
+    name: 'Inbox',
+    layoutMode: 'VERTICAL',
+    scenarios: {
+        empty: { user: { name: 'Ada' }, items: [] },
+        populated: { user: { name: 'Grace' }, items: [{ title: 'Hello' }] }
+    },
+    children: [
+        { id: 'greeting', type: 'TEXT', characters: 'Welcome, {{user.name}}' },
+        { id: 'empty', type: 'TEXT', condition: 'items.length === 0', characters: 'Nothing here yet' },
+        { id: 'first', type: 'TEXT', condition: 'items.length > 0', characters: 'Latest: {{items[0].title}}' }
+    ]
+};
+
+describe('Dynamic Content - expressions', () => {
+    const data = { user: { isLoggedIn: true, role: 'admin' }, items: [1, 2] };
+
+    it('evaluates paths, comparisons and logic', () => {
+        expect(evaluateCondition('user.isLoggedIn', data)).toBe(true);
+        expect(evaluateCondition('items.length === 0', data)).toBe(false);
+        expect(evaluateCondition("!user.isLoggedIn || user.role === 'admin'", data)).toBe(true);
+        expect(evaluateCondition('(items.length >= 2) && missing.value', data)).toBe(false);
+    });
+
+    it('does not reach into prototypes', () => {
+        expect(evaluateCondition('user.constructor', data)).toBe(false);
+        expect(evaluateCondition('user.toString', data)).toBe(false);
+    });
+
+    it('leaves unresolved placeholders visible', () => {
+        expect(interpolate('Hi {{ user.role }}, {{user.name}}', data)).toBe('Hi admin, {{user.name}}');
+    });
+
+    it('rejects unsupported syntax', () => {
+        let code = 0;
+        try {
+            evaluateCondition('items.map(x => x)', data);
+        } catch (e: any) {
+            code = e.code;
+        }
+        expect(code).toBe(ErrorCode.INVALID_EXPRESSION);
+    });
+});
+
+describe('Dynamic Content - scenarios', () => {
+    it('defaults to the first declared scenario', () => {
+        expect(getScenarioData(inbox).user.name).toBe('Ada');
+        expect(getScenarioData(inbox, { name: 'populated' }).user.name).toBe('Grace');
+        expect(getScenarioData(inbox, { name: 'populated', data: { user: { name: 'Linus' } } }).user.name).toBe('Linus');
+    });
+
+    it('hides inactive branches and substitutes placeholders', () => {
+        const empty = resolveForScenario(inbox, getScenarioData(inbox, { name: 'empty' }));
+        expect(empty.children![0].characters).toBe('Welcome, Ada');
+        expect(empty.children![0].metadata!.contentTemplate).toBe('Welcome, {{user.name}}');
+        expect(empty.children![1].visible).toBe(undefined);
+        expect(empty.children![2].visible).toBe(false);
+
+        const populated = resolveForScenario(empty, getScenarioData(inbox, { name: 'populated' }));
+        expect(populated.children![0].characters).toBe('Welcome, Grace');
+        expect(populated.children![1].visible).toBe(false);
+        expect(populated.children![2].visible).toBe(true);
+        expect(populated.children![2].characters).toBe('Latest: Hello');
+    });
+
+    it('validates expressions', () => {
+        const context = { availableComponents: new Set<string>(), availableVariables: new Set<string>() };
+        expect(validateRSNT(inbox, context).valid).toBe(true);
+
+        const bad: RSNT_Node = { id: 'bad', type: 'TEXT', condition: 'a ==', characters: '{{ user..name }}' };
+        const result = validateRSNT(bad, context);
+        expect(result.errors.filter(e => e.code === ErrorCode.INVALID_EXPRESSION)).toHaveLength(2);
+    });
+});
+
+describe('Dynamic Content - code export', () => {
+    const rendered = resolveForScenario(inbox, getScenarioData(inbox));
+    const result = codeExportService.exportToReact(rendered);
+
+    it('exposes referenced data as props', () => {
+        expect(result.code).toContain('export function Inbox({ user, items }: { user: any; items: any }) {');
+    });
+
+    it('emits conditionals and placeholder expressions', () => {
+        expect(result.code).toContain('<p>Welcome, {user.name}</p>');
+        expect(result.code).toContain('{items.length > 0 && (');
+        expect(result.code).toContain('<p>Latest: {items[0].title}</p>');
+        expect(result.code.includes('hidden')).toBe(false);
+    });
+});
+
+async function runAll() {
+    await fake.loadFontAsync({ family: 'Inter', style: 'Regular' });
+
+    // Rendered in the empty scenario, then switched on the canvas
+    scenarioService.setActive({ name: 'empty' });
+    const result = await renderRSNT(inbox);
+    const frame = result.node as unknown as FakeFrameNode;
+    const texts = () => frame.children as FakeTextNode[];
+    const before = texts().map(t => `${t.visible}:${t.characters}`);
+
+    const toPopulated = await applyScenarioToRendered(result.node, { name: 'populated' });
+    const populated = texts().map(t => `${t.visible}:${t.characters}`);
+    const unchanged = await applyScenarioToRendered(result.node, { name: 'populated' });
+    const custom = await applyScenarioToRendered(result.node, { data: { user: { name: 'Linus' }, items: [] } });
+    const withData = texts().map(t => `${t.visible}:${t.characters}`);
+    scenarioService.setActive(null);
+
+    return { before, toPopulated, populated, unchanged, custom, withData };
+}
+
+runAll().then(({ before, toPopulated, populated, unchanged, custom, withData }) => {
+    describe('Dynamic Content - switching scenarios on the canvas', () => {
+        it('renders the active scenario', () => {
+            expect(before.join('|')).toBe('true:Welcome, Ada|true:Nothing here yet|false:Latest: {{items[0].title}}');
+        });
+
+        it('re-applies conditions and text from the persisted templates', () => {
+            expect(populated.join('|')).toBe('true:Welcome, Grace|false:Nothing here yet|true:Latest: Hello');
+            expect(toPopulated).toBe(3);
+            expect(unchanged).toBe(0);
+        });
+
+        it('uses explicit data over the declared scenarios', () => {
+            expect(withData.join('|')).toBe('true:Welcome, Linus|true:Nothing here yet|false:Latest: {{items[0].title}}');
+            expect(custom).toBe(3);
+        });
+    });
+});
@@ -0,0 +1,204 @@
+import { getOrDiscoverInventory } from '../services/auto-discovery';
+import { normalizeIconName, findIcon, IconInfo } from '../services/icon-library';
+import { createIntentParser } from '../services/intent-parser';
+import { createDecisionEngine } from '../services/decision-engine';
+import { createRSNTBuilder } from '../services/rsnt-builder';
+import { renderRSNT } from '../services/rendering';
+import { RSNT_Node } from '../types/rsnt';
+import { installFigmaFake, FakeFrameNode, FakeInstanceNode } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/icon-library.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'icon-test' });
+
+async function buildFile() {
+    await fake.loadFontAsync({ family: 'Inter', style: 'Regular' });
+
+    // An icon set keyed by a Name variant, plus loose icon components
+    const glyphs = ['Name=Search, Size=24', 'Name=Search, Size=16', 'Name=Chevron Right, Size=24', 'Name=Close, Size=24'].map(name => {
+        const variant = fake.createComponent();
+        variant.name = name;
+        return variant;
+    });
+    const iconSet = fake.combineAsVariants(glyphs, fake.currentPage);
+    iconSet.name = 'Icon';
+    const arrow = fake.createComponent();
+    arrow.name = 'Icons / ArrowRight 24';
+    const heart = fake.createComponent();
+    heart.name = 'ic_heart';
+
+    // A button with leading and trailing slots, an input with one unpositioned slot
+    const button = fake.createComponent();
+    button.name = 'Button';
+    const label = fake.createText();
+    label.characters = 'Button';
+    button.appendChild(label);
+    const slots = {
+        leading: button.addComponentProperty('Leading Icon', 'INSTANCE_SWAP', heart.id),
+        trailing: button.addComponentProperty('Trailing Icon', 'INSTANCE_SWAP', heart.id),
+        showLeading: button.addComponentProperty('Show Leading Icon', 'BOOLEAN', false),
+        showTrailing: button.addComponentProperty('Show Trailing Icon', 'BOOLEAN', false)
+    };
+    const input = fake.createComponent();
+    input.name = 'Input';
+    const inputSlot = input.addComponentProperty('Icon', 'INSTANCE_SWAP', heart.id);
+
+    const iconButton = fake.createComponent();
+    iconButton.name = 'Icon Button';
+
+    // A swap slot that is not for icons
+    const profile = fake.createComponent();
+    profile.name = 'Profile Row';
+    const avatarSlot = profile.addComponentProperty('Avatar', 'INSTANCE_SWAP', heart.id);
+
+    return { glyphs, iconSet, arrow, heart, button, slots, input, inputSlot, profile, avatarSlot };
+}
+
+function findNode(node: RSNT_Node, predicate: (n: RSNT_Node) => boolean): RSNT_Node | undefined {
+    if (predicate(node)) return node;
+    for (const child of node.children || []) {
+        const found = findNode(child, predicate);
+        if (found) return found;
+    }
+    return undefined;
+}
+
+async function runAll() {
+    const file = await buildFile();
+    const inventory = await getOrDiscoverInventory();
+    const icons = inventory.icons || [];
+
+    // Intent parsing: icon names reach the prompt only when there are icons
+    const systemPrompts: string[] = [];
+    const aiCall = async (_prompt: string, systemPrompt: string) => {
+        systemPrompts.push(systemPrompt);
+        return JSON.stringify({
+            type: 'section',
+            components: [
+                { type: 'icon', icon: 'magnifying glass' },
+                { type: 'button', label: 'Next', variant: 'primary', icon: 'heart', trailingIcon: 'next' }
+            ]
+        });
+    };
+    const intent = await createIntentParser(inventory, aiCall).parse('A search section with a next button');
+    await createIntentParser({ ...inventory, icons: [] }, aiCall).parse('A search section with a next button');
+
+    // Decisions and build: the icon requirement picks the Search variant
+    const decision = await createDecisionEngine(inventory).makeDecisions(intent);
+    const built = createRSNTBuilder(inventory).build(decision).rsnt;
+    const page = fake.currentPage as any;
+    const rendered = await renderRSNT(built, page, undefined, undefined, inventory);
+
+    // AI-style RSNT: an icon node by name and an input with an unpositioned slot
+    const direct = await renderRSNT({
+        id: 'toolbar',
+        type: 'FRAME',
+        layoutMode: 'HORIZONTAL',
+        children: [
+            { id: 'close', type: 'COMPONENT_INSTANCE', icon: 'x' },
+            { id: 'query', type: 'COMPONENT_INSTANCE', componentId: file.input.id, icon: 'search', trailingIcon: 'close' },
+            { id: 'missing', type: 'COMPONENT_INSTANCE', componentId: file.button.id, icon: 'unicorn' },
+            { id: 'profile', type: 'COMPONENT_INSTANCE', componentId: file.profile.id, icon: 'search' }
+        ]
+    }, page, undefined, undefined, inventory);
+
+    return { file, icons, intent, systemPrompts, decision, built, rendered, direct };
+}
+
+runAll().then(({ file, icons, intent, systemPrompts, decision, built, rendered, direct }) => {
+    const byName = (name: string) => icons.find(icon => icon.name === name) as IconInfo;
+    const instances = (frame: any): FakeInstanceNode[] =>
+        (frame as FakeFrameNode).findAll(n => n.type === 'INSTANCE') as unknown as FakeInstanceNode[];
+
+    describe('Icon Library - normalizeIconName', () => {
+        it('kebab-cases names and drops icon prefixes and sizes', () => {
+            expect(normalizeIconName('Icons / ArrowRight 24')).toBe('arrow-right');
+            expect(normalizeIconName('ic_heart')).toBe('heart');
+            expect(normalizeIconName('Chevron Right')).toBe('chevron-right');
+            expect(normalizeIconName('search-icon')).toBe('search');
+        });
+    });
+
+    describe('Icon Library - index', () => {
+        it('indexes icon set variants by name and loose icon components', () => {
+            expect(icons.map(icon => icon.name).join(',')).toBe('search,chevron-right,close,arrow-right,heart');
+        });
+
+        it('records the variant to swap in and the values that select it', () => {
+            const search = byName('search');
+            expect(search.id).toBe(file.glyphs[0].id);
+            expect(search.componentId).toBe(file.iconSet.id);
+            expect(search.properties!.Name).toBe('Search');
+            expect(byName('heart').componentId).toBe(file.heart.id);
+        });
+
+        it('expands names with their aliases', () => {
+            expect(byName('close').tokens).toContain('x');
+            expect(byName('search').tokens).toContain('magnifying-glass');
+        });
+    });
+
+    describe('Icon Library - findIcon', () => {
+        it('matches exact names, aliases and words', () => {
+            expect(findIcon('Chevron Right', icons)!.name).toBe('chevron-right');
+            expect(findIcon('magnifying glass', icons)!.name).toBe('search');
+            expect(findIcon('next', icons)!.name).toBe('chevron-right');
+            expect(findIcon('arrow', icons)!.name).toBe('arrow-right');
+            expect(findIcon('unicorn', icons) === null).toBe(true);
+        });
+    });
+
+    describe('Icon Library - intent and decisions', () => {
+        it('lists icons in the intent prompt only when the system has them', () => {
+            expect(systemPrompts[0]).toContain('AVAILABLE ICONS: search, chevron-right, close, arrow-right, heart');
+            expect(systemPrompts[1].includes('AVAILABLE ICONS')).toBe(false);
+            expect(intent.components[1].trailingIcon).toBe('next');
+        });
+
+        it('selects the icon set with the matching variant for icon requirements', () => {
+            const icon = decision.components.find(c => c.requirement.type === 'icon')!;
+            expect(icon.selectedComponent!.id).toBe(file.iconSet.id);
+            expect(icon.properties.Name).toBe('Search');
+        });
+
+        it('carries icon names onto built instances', () => {
+            const button = findNode(built, n => n.componentId === file.button.id)!;
+            expect(button.icon).toBe('heart');
+            expect(button.trailingIcon).toBe('next');
+        });
+    });
+
+    describe('Icon Library - rendering', () => {
+        it('renders icon requirements as the icon variant', () => {
+            const icon = instances(rendered.node).find(i => i.mainComponent.parent === file.iconSet)!;
+            expect(icon.mainComponent.name).toBe('Name=Search, Size=24');
+        });
+
+        it('swaps leading and trailing slots and shows them', () => {
+            const button = instances(rendered.node).find(i => i.mainComponent === file.button)!;
+            expect(button.componentProperties[file.slots.leading].value).toBe(file.heart.id);
+            expect(button.componentProperties[file.slots.trailing].value).toBe(byName('chevron-right').id);
+            expect(button.componentProperties[file.slots.showLeading].value).toBe(true);
+            expect(button.componentProperties[file.slots.showTrailing].value).toBe(true);
+        });
+
+        it('resolves icon nodes by alias and fills unpositioned slots with the leading icon', () => {
+            const [close, query, missing] = instances(direct.node);
+            expect(close.mainComponent.name).toBe('Name=Close, Size=24');
+            expect(query.componentProperties[file.inputSlot].value).toBe(file.glyphs[0].id);
+            expect(missing.componentProperties[file.slots.showLeading].value).toBe(false);
+            expect(direct.errors).toHaveLength(0);
+        });
+
+        it('leaves non-icon swaps alone and warns about icons it could not place', () => {
+            const profile = instances(direct.node)[3];
+            expect(profile.componentProperties[file.avatarSlot].value).toBe(file.heart.id);
+            const unplaced = direct.warnings.map(w => `${w.nodeId}: ${w.message}`).sort();
+            expect(unplaced).toHaveLength(3);
+            expect(unplaced[0]).toBe('missing: Icon "unicorn" was not placed: no icon matches "unicorn"');
+            expect(unplaced[1]).toBe('profile: Icon "search" was not placed: "Profile Row" has no leading icon slot');
+            expect(unplaced[2]).toBe('query: Icon "close" was not placed: "Input" has no trailing icon slot');
+        });
+    });
+});
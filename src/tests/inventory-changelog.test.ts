@@ -0,0 +1,172 @@
+import { computeInventoryDiff, getOrDiscoverInventory, refreshInventory, DesignSystemInventory, ComponentInfo, VariableInfo } from '../services/auto-discovery';
+import { summarizeInventoryDiff, findAffectedDesigns, inventoryChangelog } from '../services/inventory-changelog';
+import { rsntMetadataService } from '../services/rsnt-metadata';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/inventory-changelog.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'changelog-test' });
+
+function component(id: string, name: string, extra: Partial<ComponentInfo> = {}): ComponentInfo {
+    return { id, key: `k-${id}`, name, type: 'COMPONENT', ...extra };
+}
+
+function variable(id: string, name: string, value: any): VariableInfo {
+    return { id, name, resolvedType: typeof value === 'number' ? 'FLOAT' : 'COLOR', value, scopes: [] };
+}
+
+const before: DesignSystemInventory = {
+    components: [
+        component('1', 'Button', { type: 'COMPONENT_SET', variantProperties: { Size: { values: ['S', 'M'] } } }),
+        component('2', 'Card'),
+        component('3', 'Tile'),
+        component('4', 'Badge', { source: 'library' }),
+        component('5', 'Input', { description: 'Text field' })
+    ],
+    variables: [variable('v1', 'spacing/md', 16), variable('v2', 'spacing/lg', 24), variable('v3', 'radius/sm', 4)],
+    fileKey: 'changelog-test',
+    scannedAt: 0
+};
+
+const after: DesignSystemInventory = {
+    components: [
+        component('1', 'Button', { type: 'COMPONENT_SET', variantProperties: { Size: { values: ['S', 'M', 'L'] } } }),
+        component('3', 'Tile v2'),
+        // Re-imported library component: new id, same key
+        { ...component('40', 'Badge', { source: 'library' }), key: 'k-4' },
+        component('5', 'Input', { description: 'Text field' }),
+        component('6', 'Avatar'),
+        component('7', 'Toast'),
+        component('8', 'Tabs')
+    ],
+    variables: [variable('v1', 'spacing/md', 20), variable('v4', 'color/brand', { r: 0, g: 0, b: 1, a: 1 })],
+    fileKey: 'changelog-test',
+    scannedAt: 1
+};
+
+async function runAll() {
+    const diff = computeInventoryDiff(before, after);
+
+    // Rendered designs: the payload on each node names the component it instantiates
+    const rendered = (intent: string, componentId: string) => {
+        const root = fake.createFrame();
+        const wrapper = fake.createFrame();
+        const instance = fake.createFrame();
+        wrapper.appendChild(instance);
+        root.appendChild(wrapper);
+        fake.currentPage.appendChild(root);
+        rsntMetadataService.write(root as any, { id: 'root', type: 'FRAME' }, { intent });
+        rsntMetadataService.write(instance as any, { id: 'c', type: 'COMPONENT_INSTANCE' }, { componentId });
+        return root;
+    };
+    const pricing = rendered('Create a pricing card', '2');
+    rendered('Create a login form', '1');
+    const affected = findAffectedDesigns(diff);
+
+    const unchanged = await inventoryChangelog.record(computeInventoryDiff(before, before));
+    const first = await inventoryChangelog.record(diff);
+    for (let i = 0; i < 25; i++) await inventoryChangelog.record(diff);
+    const entries = await inventoryChangelog.load();
+
+    // Discovery diffs against the cached scan, and against it across a forced refresh
+    const button = fake.createComponent();
+    button.name = 'Button';
+    const card = fake.createComponent();
+    card.name = 'Card';
+    await getOrDiscoverInventory();
+    card.remove();
+    button.description = 'Primary action';
+    button.lastModified = new Date(Date.now() + 1000).toISOString();
+    const rescanned = await getOrDiscoverInventory();
+    fake.createComponent().name = 'Avatar';
+    const refreshed = await refreshInventory();
+
+    // An expired cache is still the baseline to diff against
+    const stored = await fake.clientStorage.getAsync('discovery-cache-v1-changelog-test') as any;
+    await fake.clientStorage.setAsync('discovery-cache-v1-changelog-test', { ...stored, timestamp: 0 });
+    fake.createComponent().name = 'Toast';
+    const afterExpiry = await getOrDiscoverInventory();
+
+    // ...including across a forced refresh
+    const latest = await fake.clientStorage.getAsync('discovery-cache-v1-changelog-test') as any;
+    await fake.clientStorage.setAsync('discovery-cache-v1-changelog-test', { ...latest, timestamp: 0 });
+    fake.createComponent().name = 'Tabs';
+    const refreshedAfterExpiry = await refreshInventory();
+
+    return { diff, pricing, affected, unchanged, first, entries, rescanned, refreshed, afterExpiry, refreshedAfterExpiry };
+}
+
+runAll().then(({ diff, pricing, affected, unchanged, first, entries, rescanned, refreshed, afterExpiry, refreshedAfterExpiry }) => {
+    describe('Inventory Changelog - computeInventoryDiff', () => {
+        it('finds added, removed and modified components', () => {
+            expect(diff.added.components.map(c => c.name).join(',')).toBe('Avatar,Toast,Tabs');
+            expect(diff.removed.componentIds.join(',')).toBe('2');
+            expect(diff.removed.components[0].name).toBe('Card');
+            expect(diff.modified.components.map(c => c.name).join(',')).toBe('Button,Tile v2');
+        });
+
+        it('records what changed, matching library components by key', () => {
+            expect(diff.changes['1'].join(',')).toBe('variants');
+            expect(diff.changes['3'].join(',')).toBe('renamed');
+            expect(diff.unchanged).toBe(2);
+        });
+
+        it('diffs variables by id and value', () => {
+            expect(diff.added.variables[0].name).toBe('color/brand');
+            expect(diff.removed.variableIds.join(',')).toBe('v2,v3');
+            expect(diff.changes['v1'].join(',')).toBe('value');
+        });
+    });
+
+    describe('Inventory Changelog - summary', () => {
+        it('summarizes counts and names modified components', () => {
+            expect(summarizeInventoryDiff(diff).join('; ')).toBe(
+                '3 components added; 1 component removed; Button variants changed; Tile v2 renamed; 1 variable added; 2 variables removed; 1 variable changed'
+            );
+        });
+
+        it('finds rendered designs that use removed components', () => {
+            expect(affected).toHaveLength(1);
+            expect(affected[0].intent).toBe('Create a pricing card');
+            expect(affected[0].figmaNodeId).toBe(pricing.id);
+            expect(affected[0].components.join(',')).toBe('Card');
+        });
+    });
+
+    describe('Inventory Changelog - storage', () => {
+        it('skips empty diffs and keeps a rolling log, newest first', () => {
+            expect(unchanged).toBe(null);
+            expect(first!.affectedDesigns).toHaveLength(1);
+            expect(first!.counts.removed).toBe(3);
+            expect(entries).toHaveLength(20);
+            expect(entries[19].removedComponents.join(',')).toBe('Card');
+        });
+    });
+
+    describe('Inventory Changelog - discovery', () => {
+        it('diffs a scan against the cached inventory', () => {
+            const changes = rescanned.diff!;
+            expect(changes.removed.components.map(c => c.name).join(',')).toBe('Card');
+            expect(changes.modified.components.map(c => c.name).join(',')).toBe('Button');
+            expect(changes.changes[changes.modified.components[0].id].join(',')).toBe('description');
+        });
+
+        it('keeps the diff across a refresh that clears the cache', () => {
+            expect(refreshed.diff!.added.components.map(c => c.name).join(',')).toBe('Avatar');
+            expect(refreshed.diff!.removed.componentIds).toHaveLength(0);
+        });
+
+        it('diffs against an expired cache', () => {
+            expect(afterExpiry.discoveryStats!.cachedComponents).toBe(0);
+            expect(afterExpiry.diff!.added.components.map(c => c.name).join(',')).toBe('Toast');
+            expect(afterExpiry.diff!.unchanged).toBe(2);
+        });
+
+        it('diffs a forced refresh against an expired cache', () => {
+            expect(refreshedAfterExpiry.diff!.added.components.map(c => c.name).join(',')).toBe('Tabs');
+            expect(refreshedAfterExpiry.diff!.removed.componentIds).toHaveLength(0);
+            expect(refreshedAfterExpiry.diff!.unchanged).toBe(3);
+        });
+    });
+});
@@ -0,0 +1,176 @@
+import { DesignSystemInventory, ComponentInfo, getOrDiscoverInventory } from '../services/auto-discovery';
+import {
+    exportInventoryManifest,
+    parseInventoryManifest,
+    importInventoryManifest,
+    saveImportedInventory,
+    MANIFEST_VERSION
+} from '../services/inventory-manifest';
+import { cacheService } from '../services/cache';
+import { propertyMappingService } from '../services/property-mapping';
+import { PropertyType } from '../types/classification';
+import { CompilerError, ErrorCode } from '../types/errors';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/inventory-manifest.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'target-file' });
+
+const classified: Partial<ComponentInfo> = {
+    semanticType: 'button',
+    suggestedRole: 'PrimaryButton',
+    aiClassification: { semanticRole: 'PrimaryButton', confidence: 0.92, reasoning: 'CTA styling' },
+    propertyMappings: {
+        Kind: {
+            propertyType: PropertyType.SEMANTIC_VARIANT,
+            reasoning: 'Visual emphasis',
+            valueMappings: [{ clientValue: 'Filled', semanticValue: 'primary', confidence: 0.9 }]
+        }
+    }
+};
+
+/**
+ * The classified source file: a local button and card, a library badge, and
+ * a semantic color aliasing a primitive
+ */
+const source: DesignSystemInventory = {
+    components: [
+        { id: '1:1', key: 'k-button', name: 'Button', type: 'COMPONENT_SET', source: 'local', ...classified },
+        { id: '1:2', key: 'k-card', name: 'Card', type: 'COMPONENT', source: 'local', semanticType: 'card', suggestedRole: 'Card' },
+        { id: '1:3', key: 'k-badge', name: 'Badge', type: 'COMPONENT_SET', source: 'library', suggestedRole: 'Badge' }
+    ],
+    variables: [
+        { id: 'V:1', name: 'blue/500', resolvedType: 'COLOR', value: { r: 0, g: 0, b: 1, a: 1 }, collectionName: 'Primitives', scopes: [] },
+        { id: 'V:2', name: 'action/primary', resolvedType: 'COLOR', value: { r: 0, g: 0, b: 1, a: 1 }, aliasOf: 'V:1', collectionName: 'Theme', scopes: [], semanticTokens: ['colors/primary'] },
+        { id: 'V:3', name: 'spacing/md', resolvedType: 'FLOAT', value: 16, collectionName: 'Primitives', scopes: [] }
+    ],
+    styles: [{ id: 'S:1', key: 'sk-h1', name: 'Heading/H1', type: 'TEXT', fontSize: 32 }],
+    fileKey: 'source-file',
+    scannedAt: 0,
+    guidelines: {
+        spacing: { scale: [4, 8, 16], default: 16 },
+        typography: { scale: [], sizes: [32] },
+        borderRadius: { scale: [4] },
+        layout: { maxContentWidth: 1200, defaultPadding: 16 }
+    },
+    suggestedMappings: { PrimaryButton: '1:1', Card: '1:2', Badge: '1:3' }
+};
+
+async function runAll() {
+    // The target file has the same button (different id), no card, and unclassified components
+    const button = fake.createComponent();
+    button.name = 'Button';
+    const target: DesignSystemInventory = {
+        components: [
+            { id: button.id, key: 'k-button', name: 'Button', type: 'COMPONENT_SET', source: 'local', semanticType: 'button', suggestedRole: 'SecondaryButton' },
+            { id: '9:9', key: 'k-other', name: 'Toggle', type: 'COMPONENT', source: 'local', semanticType: 'checkbox' }
+        ],
+        variables: [
+            { id: 'VariableID:a', name: 'blue/500', resolvedType: 'COLOR', value: { r: 0, g: 0, b: 0.9, a: 1 }, collectionName: 'Primitives', scopes: [] },
+            { id: 'VariableID:b', name: 'action/primary', resolvedType: 'COLOR', value: { r: 0, g: 0, b: 0.9, a: 1 }, aliasOf: 'VariableID:a', collectionName: 'Theme', scopes: [] }
+        ],
+        styles: [{ id: 'S:77', key: 'sk-h1', name: 'Heading/H1', type: 'TEXT', fontSize: 32 }],
+        fileKey: 'target-file',
+        scannedAt: 0,
+        suggestedMappings: { Toggle: '9:9' }
+    };
+
+    const manifest = exportInventoryManifest(source);
+    const json = JSON.stringify(manifest);
+    const parsed = parseInventoryManifest(json);
+    const result = importInventoryManifest(parsed, target);
+
+    await saveImportedInventory(result.inventory);
+    const cache = await cacheService.loadCache();
+    const rediscovered = await getOrDiscoverInventory();
+
+    const failures = ['{ not json', JSON.stringify({ format: 'other' }), JSON.stringify({ ...manifest, version: MANIFEST_VERSION + 1 })]
+        .map(text => {
+            try {
+                parseInventoryManifest(text);
+                return null;
+            } catch (e) {
+                return e as CompilerError;
+            }
+        });
+
+    return { button, manifest, json, result, cache, rediscovered, failures };
+}
+
+runAll().then(({ button, manifest, json, result, cache, rediscovered, failures }) => {
+    const { inventory, report } = result;
+
+    describe('Inventory Manifest - export', () => {
+        it('writes a versioned manifest', () => {
+            expect(manifest.format).toBe('design-system-manifest');
+            expect(manifest.version).toBe(MANIFEST_VERSION);
+            expect(manifest.sourceFileKey).toBe('source-file');
+            expect(manifest.components).toHaveLength(3);
+        });
+
+        it('replaces file-specific ids with keys and names', () => {
+            expect(manifest.suggestedMappings!.PrimaryButton).toBe('k-button');
+            const semantic = manifest.variables.find(v => v.name === 'action/primary')!;
+            expect(semantic.aliasOf).toBe('blue/500');
+            expect(json.includes('"V:1"')).toBe(false);
+        });
+    });
+
+    describe('Inventory Manifest - import', () => {
+        it('re-links components by key, keeping this file\'s id', () => {
+            const linked = inventory.components.find(c => c.key === 'k-button')!;
+            expect(linked.id).toBe(button.id);
+            expect(linked.suggestedRole).toBe('PrimaryButton');
+            expect(linked.aiClassification!.confidence).toBe(0.92);
+            expect(linked.propertyMappings!.Kind.valueMappings[0].semanticValue).toBe('primary');
+            expect(inventory.components.find(c => c.key === 'k-other')!.semanticType).toBe('checkbox');
+        });
+
+        it('keeps library components for import by key and reports missing local ones', () => {
+            const badge = inventory.components.find(c => c.key === 'k-badge')!;
+            expect(badge.source).toBe('library');
+            expect(badge.id).toBe('library:k-badge');
+            expect(report.components.linked).toBe(1);
+            expect(report.components.library).toBe(1);
+            expect(report.components.missing.join(',')).toBe('Card');
+        });
+
+        it('re-links variables by name, keeping this file\'s values', () => {
+            const semantic = inventory.variables.find(v => v.name === 'action/primary')!;
+            expect(semantic.id).toBe('VariableID:b');
+            expect(semantic.value.b).toBe(0.9);
+            expect(semantic.semanticTokens!.join(',')).toBe('colors/primary');
+            expect(report.variables.linked).toBe(2);
+            expect(report.variables.missing.join(',')).toBe('spacing/md');
+            expect(report.styles.linked).toBe(1);
+        });
+
+        it('maps roles to re-linked ids and carries guidelines', () => {
+            expect(inventory.suggestedMappings!.PrimaryButton).toBe(button.id);
+            expect(inventory.suggestedMappings!.Badge).toBe('library:k-badge');
+            expect(inventory.suggestedMappings!.Card === undefined).toBe(true);
+            expect(inventory.suggestedMappings!.Toggle).toBe('9:9');
+            expect(inventory.guidelines!.layout.maxContentWidth).toBe(1200);
+            expect(inventory.fileKey).toBe('target-file');
+        });
+
+        it('saves classifications and property mappings for the next discovery', () => {
+            expect(cache!.components[button.id].aiClassification!.semanticRole).toBe('PrimaryButton');
+            expect(cache!.approvedMappings.PrimaryButton).toBe(button.id);
+            expect(propertyMappingService.getMappings(button.id)!.Kind.propertyType).toBe(PropertyType.SEMANTIC_VARIANT);
+        });
+
+        it('keeps re-linked library components through the next discovery', () => {
+            const badge = rediscovered.components.find(c => c.key === 'k-badge')!;
+            expect(badge.id).toBe('library:k-badge');
+            expect(badge.suggestedRole).toBe('Badge');
+            expect(rediscovered.suggestedMappings!.Badge).toBe('library:k-badge');
+        });
+
+        it('rejects invalid JSON, other formats and newer versions', () => {
+            expect(failures.filter(e => e instanceof CompilerError && e.code === ErrorCode.MANIFEST_INVALID)).toHaveLength(3);
+            expect(failures[2]!.message).toContain('not supported');
+        });
+    });
+});
@@ -0,0 +1,159 @@
+import { getOrDiscoverInventory, DesignSystemInventory } from '../services/auto-discovery';
+import { liveInventory, owningComponentId } from '../services/live-inventory';
+import { classificationService } from '../services/classification';
+import { cacheService } from '../services/cache';
+import { QueuePriority } from '../libs/rate-limiter';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/live-inventory.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'live-test' });
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function change(type: string, node: any) {
+    return { type, id: node.id, origin: 'LOCAL', node, properties: [] };
+}
+
+async function buildFile() {
+    await fake.loadFontAsync({ family: 'Inter', style: 'Regular' });
+
+    const variants = ['Size=Small', 'Size=Large'].map(name => {
+        const variant = fake.createComponent();
+        variant.name = name;
+        const label = fake.createText();
+        label.characters = 'Button';
+        variant.appendChild(label);
+        return variant;
+    });
+    const button = fake.combineAsVariants(variants, fake.currentPage);
+    button.name = 'Button';
+
+    const card = fake.createComponent();
+    card.name = 'Card';
+    const loose = fake.createFrame();
+
+    return { button, variants, card, loose };
+}
+
+async function runAll() {
+    const { button, variants, card, loose } = await buildFile();
+    const owners = [variants[0].children[0], variants[1], card, loose].map(node => owningComponentId(node as any));
+
+    let inventory: DesignSystemInventory | null = await getOrDiscoverInventory();
+    inventory = { ...inventory, suggestedMappings: { ...inventory.suggestedMappings, Card: card.id } };
+    const initial = inventory;
+    const updates: DesignSystemInventory[] = [];
+    liveInventory.start({
+        getInventory: () => inventory,
+        onUpdate: updated => {
+            inventory = updated;
+            updates.push(updated);
+        },
+        debounceMs: 10
+    });
+
+    // Add a Large+ variant, delete the card, create an avatar, add a variable
+    const large = fake.createComponent();
+    large.name = 'Size=X-Large';
+    button.appendChild(large);
+    card.remove();
+    const avatar = fake.createComponent();
+    avatar.name = 'Avatar';
+    const collection = fake.variables.createVariableCollection('Spacing');
+    fake.variables.createVariable('spacing/md', collection, 'FLOAT').setValueForMode(collection.defaultModeId, 16);
+
+    fake.emit('documentchange', {
+        documentChanges: [
+            change('CREATE', large),
+            change('PROPERTY_CHANGE', variants[0].children[0]),
+            change('DELETE', { removed: true, type: 'COMPONENT', id: card.id }),
+            change('CREATE', avatar),
+            change('PROPERTY_CHANGE', loose)
+        ]
+    });
+    const debounced = updates.length;
+    await wait(50);
+    const applied = updates[0];
+    const cache = await cacheService.loadCache();
+
+    // Flushing with nothing queued still picks up variable edits
+    fake.variables.createVariable('spacing/lg', collection, 'FLOAT').setValueForMode(collection.defaultModeId, 24);
+    const flushed = await liveInventory.flush();
+
+    // Stopped: changes are ignored
+    liveInventory.stop();
+    avatar.name = 'Profile Picture';
+    fake.emit('documentchange', { documentChanges: [change('PROPERTY_CHANGE', avatar)] });
+    await wait(50);
+
+    // Classification forwards the queue priority to the provider
+    const priorities: Array<QueuePriority | undefined> = [];
+    classificationService.setProvider({
+        generateJSON: async (_prompt: string, options: any) => {
+            priorities.push(options.priority);
+            return { data: [] };
+        }
+    } as any);
+    await classificationService.classifyAll(initial.components, undefined, QueuePriority.LOW);
+    classificationService.setProvider(null);
+
+    return { button, card, avatar, owners, initial, updates, debounced, applied, cache, flushed, priorities };
+}
+
+runAll().then(({ button, card, avatar, owners, initial, updates, debounced, applied, cache, flushed, priorities }) => {
+    describe('Live Inventory - owningComponentId', () => {
+        it('maps layers and variants to their top-level component', () => {
+            expect(owners[0]).toBe(button.id);
+            expect(owners[1]).toBe(button.id);
+            expect(owners[2]).toBe(card.id);
+            expect(owners[3]).toBe(null);
+        });
+    });
+
+    describe('Live Inventory - document changes', () => {
+        it('debounces changes into one update', () => {
+            expect(debounced).toBe(0);
+            expect(updates).toHaveLength(2);
+        });
+
+        it('re-describes edited components and adds new ones', () => {
+            const updated = applied.components.find(c => c.id === button.id)!;
+            expect(updated.variantProperties!.Size.values.join(',')).toBe('Small,Large,X-Large');
+            expect(applied.diff!.changes[button.id].join(',')).toBe('variants');
+            expect(applied.diff!.added.components.map(c => c.name).join(',')).toBe('Avatar');
+        });
+
+        it('drops deleted components and the roles mapped to them', () => {
+            expect(applied.components.some(c => c.id === card.id)).toBe(false);
+            expect(applied.diff!.removed.components.map(c => c.name).join(',')).toBe('Card');
+            expect(initial.suggestedMappings!.Card).toBe(card.id);
+            expect(applied.suggestedMappings!.Card === undefined).toBe(true);
+        });
+
+        it('re-reads local variables and saves the cache', () => {
+            expect(applied.variables.map(v => v.name).join(',')).toBe('spacing/md');
+            expect(cache!.components[avatar.id].name).toBe('Avatar');
+            expect(cache!.components[card.id] === undefined).toBe(true);
+        });
+    });
+
+    describe('Live Inventory - flush', () => {
+        it('applies variable edits without queued components', () => {
+            expect(flushed!.diff!.added.variables.map(v => v.name).join(',')).toBe('spacing/lg');
+            expect(flushed!.diff!.unchanged).toBe(initial.components.length + 1);
+        });
+
+        it('ignores changes after stopping', () => {
+            expect(updates[updates.length - 1].components.find(c => c.id === avatar.id)!.name).toBe('Avatar');
+        });
+    });
+
+    describe('Live Inventory - classification priority', () => {
+        it('sends background classification at LOW priority', () => {
+            expect(priorities).toHaveLength(1);
+            expect(priorities[0]).toBe(QueuePriority.LOW);
+        });
+    });
+});
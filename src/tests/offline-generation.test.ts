@@ -0,0 +1,146 @@
+import { createIntentParser } from '../services/intent-parser';
+import { inferDesignReasoning } from '../services/design-reasoning';
+import { detectPattern } from '../services/design-patterns';
+import { createOfflinePipeline, PipelineResult } from '../services/antigravity-pipeline';
+import { DesignSystemInventory } from '../services/auto-discovery';
+import { AIProvider, aiProviderService } from '../services/ai-provider';
+import { classificationService } from '../services/classification';
+import { propertyMappingService } from '../services/property-mapping';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/offline-generation.test.ts --bundle --platform=node | node
+
+installFigmaFake({ fileKey: 'offline-test' });
+
+const inventory: DesignSystemInventory = {
+    components: [
+        { id: 'btn', key: 'k-btn', name: 'Button', type: 'COMPONENT_SET', variantProperties: { Variant: { values: ['Primary', 'Secondary'] } } },
+        { id: 'input', key: 'k-input', name: 'Input', type: 'COMPONENT' }
+    ],
+    variables: [],
+    fileKey: 'test',
+    scannedAt: 0
+};
+
+const parser = createIntentParser(inventory);
+
+describe('Offline Generation - rule grammar', () => {
+    it('parses a login form with quoted button text', () => {
+        const intent = parser.parseWithRules('Create a login form with email, password, remember me and a "Sign in" button');
+        const summary = intent.components.map(c => `${c.type}:${c.label || c.text}`);
+
+        expect(intent.type).toBe('form');
+        expect(intent.constraints.context).toBe('login');
+        expect(intent.constraints.purpose).toBe('authentication');
+        expect(summary.join(',')).toBe('heading:Welcome back,input:Email,input:Password,checkbox:Remember me,button:Sign in');
+    });
+
+    it('lets specific phrases win over general keywords', () => {
+        const intent = parser.parseWithRules('Sign in form with a forgot password link');
+        const passwords = intent.components.filter(c => c.inputType === 'password');
+        const ghost = intent.components.filter(c => c.variant === 'ghost');
+
+        expect(passwords).toHaveLength(1);
+        expect(ghost[0].label).toBe('Forgot password?');
+    });
+
+    it('expands repeated cards into a grid', () => {
+        const intent = parser.parseWithRules('Analytics dashboard with three stat cards');
+
+        expect(intent.type).toBe('dashboard');
+        expect(intent.components.filter(c => c.type === 'card')).toHaveLength(3);
+        expect(intent.layout.direction).toBe('grid');
+        expect(intent.layout.columns).toBe(3);
+    });
+
+    it('falls back to a low-confidence intent when nothing is recognised', () => {
+        const intent = parser.parseWithRules('qwerty zxcvb');
+        expect(intent.confidence).toBe(0.3);
+        expect(intent.components).toHaveLength(0);
+    });
+});
+
+describe('Offline Generation - heuristic reasoning', () => {
+    it('places CTAs after content for form patterns', () => {
+        const prompt = 'Contact form with name, email and message';
+        const intent = parser.parseWithRules(prompt);
+        const reasoning = inferDesignReasoning(intent, detectPattern(prompt));
+
+        expect(reasoning.pattern).toBe('F-Pattern');
+        expect(reasoning.layoutStrategy).toBe('stack');
+        expect(reasoning.spatialRules.map(r => r.rule)).toContain('CTAs follow content');
+    });
+});
+
+const prompt = 'Create a login form with email, password and a "Sign in" button';
+const pipeline = createOfflinePipeline(inventory);
+
+Promise.all([pipeline.run(prompt), pipeline.run(prompt)]).then(([first, second]: PipelineResult[]) => {
+    describe('Offline Generation - pipeline', () => {
+        it('builds an RSNT tree without AI calls', () => {
+            expect(first.success).toBe(true);
+            expect(first.offline).toBe(true);
+            expect(first.reasoning.warnings).toContain('Generated offline');
+            expect(first.rsnt!.children!.length).toBeGreaterThan(0);
+        });
+
+        it('is deterministic for the same prompt and inventory', () => {
+            expect(JSON.stringify(first.rsnt)).toBe(JSON.stringify(second.rsnt));
+            expect(first.reasoning.overallConfidence).toBe(second.reasoning.overallConfidence);
+        });
+    });
+});
+
+// A configured provider that counts the calls it receives
+let aiCalls = 0;
+const countingProvider: AIProvider = {
+    id: 'gemini',
+    label: 'Counting',
+    model: 'test',
+    usage: { inputTokens: 0, outputTokens: 0 },
+    generateText: async () => { aiCalls++; return { text: '' }; },
+    generateJSON: async () => { aiCalls++; return { data: { bestMatch: 'blue', confidence: 0.9, reasoning: 'test' } as any, text: '' }; }
+};
+
+async function runOffline() {
+    await aiProviderService.saveSettings({ active: 'gemini', providers: { gemini: { apiKey: 'AIzaTest' } } });
+    classificationService.setProvider(countingProvider);
+
+    aiProviderService.setOffline(true);
+    const offlineProvider = await aiProviderService.getActiveProvider();
+    const offlineMatch = await classificationService.analyzeVariableMatch('primary', ['blue']);
+    const offlineMappings = await propertyMappingService.analyzeComponentProperties(inventory.components[0], false);
+    const cachedOffline = propertyMappingService.getMappings('btn');
+    const offlineCalls = aiCalls;
+
+    aiProviderService.setOffline(false);
+    const onlineProvider = await aiProviderService.getActiveProvider();
+    const onlineMatch = await classificationService.analyzeVariableMatch('primary', ['blue']);
+
+    return { offlineProvider, offlineMatch, offlineMappings, cachedOffline, offlineCalls, onlineProvider, onlineMatch };
+}
+
+runOffline().then(r => {
+    describe('Offline Generation - no AI calls', () => {
+        it('hands out no provider while offline, even with a valid key', () => {
+            expect(r.offlineProvider).toBe(null);
+            expect(r.onlineProvider === null).toBe(false);
+        });
+
+        it('skips AI variable matching and property analysis', () => {
+            expect(r.offlineMatch).toBe(null);
+            expect(Object.keys(r.offlineMappings)).toHaveLength(0);
+            expect(r.offlineCalls).toBe(0);
+        });
+
+        it('leaves property analysis uncached for the next online scan', () => {
+            expect(r.cachedOffline).toBe(undefined);
+        });
+
+        it('uses the provider again once back online', () => {
+            expect(r.onlineMatch!.bestMatch).toBe('blue');
+            expect(aiCalls).toBe(1);
+        });
+    });
+});
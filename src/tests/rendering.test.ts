@@ -0,0 +1,305 @@
+import { renderRSNT, executeInstructions } from '../services/rendering';
+import { rsntMetadataService } from '../services/rsnt-metadata';
+import { RenderResult } from '../types/errors';
+import { RSNT_Node } from '../types/rsnt';
+import { installFigmaFake, FakeFrameNode, FakeInstanceNode, FakeTextNode, FakeComponentSetNode } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/rendering.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'rendering-test' });
+
+async function buildFixtures() {
+    await fake.loadFontAsync({ family: 'Inter', style: 'Regular' });
+
+    const variants = ['Primary', 'Secondary'].map(variant => {
+        const component = fake.createComponent();
+        component.name = `Variant=${variant}`;
+        const label = fake.createText();
+        label.characters = 'Button';
+        component.appendChild(label);
+        return component;
+    });
+    const button = fake.combineAsVariants(variants, fake.currentPage);
+    button.name = 'Button';
+
+    const tokens = fake.variables.createVariableCollection('Tokens');
+    const dark = tokens.addMode('Dark');
+    const spacing = fake.variables.createVariable('spacing/md', tokens, 'FLOAT');
+    spacing.setValueForMode(tokens.defaultModeId, 16);
+    const brand = fake.variables.createVariable('color/brand', tokens, 'COLOR');
+    brand.setValueForMode(tokens.defaultModeId, { r: 0.2, g: 0.4, b: 1, a: 1 });
+    brand.setValueForMode(dark, { r: 0.5, g: 0.7, b: 1, a: 1 });
+
+    return { button, spacingId: spacing.id, brandId: brand.id, tokens, dark };
+}
+
+function asFrame(result: RenderResult): FakeFrameNode {
+    return result.node as unknown as FakeFrameNode;
+}
+
+async function runAll() {
+    const { button, spacingId, brandId, tokens, dark } = await buildFixtures();
+    const page = fake.currentPage as any;
+
+    const form = await renderRSNT({
+        id: 'form',
+        type: 'FRAME',
+        name: 'Login Form',
+        width: 360,
+        layoutMode: 'VERTICAL',
+        itemSpacing: 12,
+        padding: { top: 24, right: 24, bottom: 24, left: { variableId: spacingId } },
+        primaryAxisAlignItems: 'FLEX_START' as any,
+        counterAxisAlignItems: 'CENTER',
+        fills: [{ type: 'VARIABLE', variableId: brandId }],
+        children: [
+            { id: 'title', type: 'TEXT', name: 'Title', characters: 'Welcome back', fontSize: 24 },
+            {
+                id: 'fields',
+                type: 'FRAME',
+                name: 'Fields',
+                layoutMode: 'VERTICAL',
+                counterAxisSizingMode: 'STRETCH' as any,
+                children: [{ id: 'hint', type: 'TEXT', characters: 'Use your work email' }]
+            },
+            { id: 'row', type: 'FRAME', name: 'Row', layoutMode: 'HORIZONTAL' },
+            {
+                id: 'submit',
+                type: 'COMPONENT_INSTANCE',
+                name: 'Submit',
+                componentId: button.id,
+                properties: { variant: 'secondary', text: 'Sign in' }
+            }
+        ]
+    }, page, undefined, undefined, undefined, 'Create a login form');
+
+    const fallback = await renderRSNT({ id: 'note', type: 'TEXT', characters: 'Fine print', fontFamily: 'Papyrus', fontStyle: 'Bold' }, page);
+
+    const broken = await renderRSNT({
+        id: 'card',
+        type: 'FRAME',
+        children: [
+            { id: 'ghost', type: 'COMPONENT_INSTANCE', componentId: '404:1' },
+            { id: 'body', type: 'TEXT', characters: 'Still rendered' }
+        ]
+    }, page);
+
+    const rows: RSNT_Node[] = [];
+    for (let i = 0; i < 30; i++) rows.push({ id: `row-${i}`, type: 'TEXT', characters: `Row ${i}` });
+    let checks = 0;
+    let cancelError = '';
+    const before = fake.currentPage.children.length;
+    try {
+        await renderRSNT({ id: 'list', type: 'FRAME', children: rows }, page, undefined, () => checks++ > 0);
+    } catch (e: any) {
+        cancelError = e.message;
+    }
+    const cancelledLeftovers = fake.currentPage.children.length - before;
+
+    const frame = await executeInstructions({
+        type: 'CREATE_FRAME',
+        layoutMode: 'HORIZONTAL',
+        styling: { cornerRadius: 8, padding: { top: 4, right: 8, bottom: 4, left: 8 } },
+        variableBindings: { paddingTop: spacingId, fill: brandId }
+    }, { id: 'chip', type: 'FRAME', name: 'Chip', width: 120 }, 3);
+
+    // Library components: an explicit componentKey, or a stale id the inventory knows the key for
+    const chip = fake.createComponent();
+    chip.name = 'Chip';
+    const chipSet = fake.combineAsVariants([chip], fake.currentPage);
+    chipSet.name = 'Chip';
+    fake.publishToLibrary(chipSet);
+    const library = await renderRSNT({
+        id: 'tags',
+        type: 'FRAME',
+        layoutMode: 'HORIZONTAL',
+        children: [
+            { id: 'by-key', type: 'COMPONENT_INSTANCE', componentId: 'gone:1', componentKey: chip.key },
+            { id: 'by-inventory', type: 'COMPONENT_INSTANCE', componentId: 'gone:2' }
+        ]
+    }, page, undefined, undefined, {
+        components: [{ id: 'gone:2', key: chipSet.key, name: 'Chip', type: 'COMPONENT_SET', source: 'library' }],
+        variables: [],
+        fileKey: 'rendering-test',
+        scannedAt: 0
+    });
+
+    const darkCard = await renderRSNT({ id: 'dark-card', type: 'FRAME', variableMode: 'dark', fills: [{ type: 'VARIABLE', variableId: brandId }] }, page);
+    const unknownMode = await renderRSNT({ id: 'sepia-card', type: 'FRAME', variableMode: 'Sepia' }, page);
+
+    const instance = await executeInstructions({
+        type: 'INSTANTIATE_COMPONENT',
+        componentId: button.id,
+        properties: { Variant: 'Secondary' },
+        overrides: { text: 'Continue' }
+    }, { id: 'cta', type: 'COMPONENT_INSTANCE', name: 'CTA' }, 1);
+
+    return {
+        button, spacingId, brandId, form, fallback, library, chipSet, broken, cancelError, cancelledLeftovers, frame, instance,
+        tokens, dark, darkCard, unknownMode
+    };
+}
+
+runAll().then(({
+    button, spacingId, brandId, form, fallback, library, chipSet, broken, cancelError, cancelledLeftovers, frame, instance,
+    tokens, dark, darkCard, unknownMode
+}) => {
+    describe('Rendering - renderRSNT layout', () => {
+        const root = asFrame(form);
+
+        it('renders the tree in order under the given parent', () => {
+            expect(form.errors).toHaveLength(0);
+            expect(root.parent === fake.currentPage).toBe(true);
+            expect(root.name).toBe('Login Form');
+            expect(root.children.map(c => c.type).join(',')).toBe('TEXT,FRAME,FRAME,INSTANCE');
+            expect((root.children[1] as FakeFrameNode).children[0].type).toBe('TEXT');
+        });
+
+        it('applies auto-layout, spacing and padding', () => {
+            expect(root.layoutMode).toBe('VERTICAL');
+            expect(root.itemSpacing).toBe(12);
+            expect(root.paddingTop).toBe(24);
+            expect(root.boundVariables.paddingLeft.id).toBe(spacingId);
+            expect(root.width).toBe(360);
+        });
+
+        it('maps CSS alignment values onto Figma enums', () => {
+            expect(root.primaryAxisAlignItems).toBe('MIN');
+            expect(root.counterAxisAlignItems).toBe('CENTER');
+        });
+
+        it('stretches auto-layout children that have no width', () => {
+            const [, fields, row] = root.children as FakeFrameNode[];
+            expect(fields.layoutAlign).toBe('STRETCH');
+            expect(fields.counterAxisSizingMode).toBe('AUTO');
+            expect(row.layoutAlign).toBe('STRETCH');
+        });
+
+        it('binds variable fills with the resolved color as fallback', () => {
+            expect(root.fills[0].boundVariables.color.variableId).toBe(brandId);
+            expect(root.fills[0].color.b).toBe(1);
+        });
+
+        it('writes text with a loaded font', () => {
+            const title = root.children[0] as FakeTextNode;
+            expect(title.characters).toBe('Welcome back');
+            expect(title.fontSize).toBe(24);
+            expect(title.fontName.family).toBe('Inter');
+        });
+
+        it('falls back to an available font', () => {
+            const note = fallback.node as unknown as FakeTextNode;
+            expect(fallback.errors).toHaveLength(0);
+            expect(note.fontName.family).toBe('Inter');
+            expect(note.characters).toBe('Fine print');
+        });
+    });
+
+    describe('Rendering - renderRSNT instances', () => {
+        const submit = asFrame(form).children[3] as FakeInstanceNode;
+
+        it('resolves semantic properties against variant options', () => {
+            expect(submit.mainComponent.name).toBe('Variant=Secondary');
+            expect(submit.componentProperties.Variant.value).toBe('Secondary');
+            expect(submit.mainComponent.parent === button).toBe(true);
+        });
+
+        it('writes text from properties into the instance label', () => {
+            expect((submit.findAll(n => n.type === 'TEXT')[0] as FakeTextNode).characters).toBe('Sign in');
+        });
+
+        it('persists RSNT metadata with the intent on the root only', () => {
+            expect(rsntMetadataService.read(asFrame(form) as any)!.intent).toBe('Create a login form');
+            expect(rsntMetadataService.read(submit as any)!.id).toBe('submit');
+            expect(rsntMetadataService.read(submit as any)!.intent === undefined).toBe(true);
+        });
+    });
+
+    describe('Rendering - library components', () => {
+        it('imports components by key when the id is not in the file', () => {
+            const instances = asFrame(library).children as FakeInstanceNode[];
+            expect(library.errors).toHaveLength(0);
+            expect(instances).toHaveLength(2);
+            expect(instances[0].mainComponent.remote).toBe(true);
+            expect(instances[1].mainComponent.parent === chipSet).toBe(true);
+            expect(fake.imports).toContain(chipSet.key);
+        });
+    });
+
+    describe('Rendering - variable modes', () => {
+        it('pins the root frame to the requested mode', () => {
+            expect(darkCard.errors).toHaveLength(0);
+            expect(darkCard.warnings).toHaveLength(0);
+            expect(asFrame(darkCard).explicitVariableModes[tokens.id]).toBe(dark);
+        });
+
+        it('warns when no collection declares the mode', () => {
+            expect(unknownMode.warnings).toHaveLength(1);
+            expect(unknownMode.warnings[0].message).toContain('"Sepia"');
+            expect(Object.keys(asFrame(unknownMode).explicitVariableModes)).toHaveLength(0);
+        });
+    });
+
+    describe('Rendering - renderRSNT failures', () => {
+        it('reports missing components and keeps rendering siblings', () => {
+            const card = asFrame(broken);
+            expect(broken.errors).toHaveLength(1);
+            expect(broken.errors[0].nodeId).toBe('ghost');
+            expect(card.children.map(c => c.type).join(',')).toBe('TEXT');
+        });
+
+        it('removes the partial tree when cancelled', () => {
+            expect(cancelError).toBe('Operation cancelled');
+            expect(cancelledLeftovers).toBe(0);
+        });
+    });
+
+    describe('Rendering - executeInstructions', () => {
+        const chip = frame as unknown as FakeFrameNode;
+        const cta = instance as unknown as FakeInstanceNode;
+
+        it('creates styled frames with variable bindings', () => {
+            expect(chip.layoutMode).toBe('HORIZONTAL');
+            expect(chip.width).toBe(120);
+            expect(chip.cornerRadius).toBe(8);
+            expect(chip.paddingRight).toBe(8);
+            expect(chip.boundVariables.paddingTop.id).toBe(spacingId);
+            expect(chip.fills[0].boundVariables.color.variableId).toBe(brandId);
+            expect(rsntMetadataService.read(chip as any)!.tier).toBe(3);
+        });
+
+        it('instantiates components with properties and text overrides', () => {
+            expect(cta.type).toBe('INSTANCE');
+            expect(cta.mainComponent.name).toBe('Variant=Secondary');
+            expect((cta.findAll(n => n.type === 'TEXT')[0] as FakeTextNode).characters).toBe('Continue');
+            expect(rsntMetadataService.read(cta as any)!.tier).toBe(1);
+        });
+    });
+
+    describe('Rendering - Figma fake', () => {
+        it('rejects values Figma would reject', () => {
+            const probe = fake.createFrame();
+            let message = '';
+            try {
+                (probe as any).counterAxisSizingMode = 'STRETCH';
+            } catch (e: any) {
+                message = e.message;
+            }
+            expect(message).toContain('Expected "FIXED" | "AUTO"');
+            probe.remove();
+            expect(fake.getNodeById(probe.id)).toBe(null);
+        });
+
+        it('rejects unknown component properties', () => {
+            const probe = (button as FakeComponentSetNode).defaultVariant.createInstance();
+            let message = '';
+            try {
+                probe.setProperties({ Size: 'Large' });
+            } catch (e: any) {
+                message = e.message;
+            }
+            expect(message).toContain("'Size'");
+        });
+    });
+});
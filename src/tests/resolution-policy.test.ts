@@ -0,0 +1,154 @@
+import { discoverStyles, DesignSystemInventory } from '../services/auto-discovery';
+import { resolveNode } from '../services/resolution';
+import {
+    RESOLUTION_POLICIES,
+    getResolutionPolicy,
+    isPolicyViolation,
+    checkRawValues,
+    formatPolicyViolations
+} from '../services/resolution-policy';
+import { ResolutionPolicy, PolicyViolation } from '../types/resolution-types';
+import { ErrorCode } from '../types/errors';
+import { RSNT_Node } from '../types/rsnt';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/resolution-policy.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'policy-test' });
+
+/**
+ * A small style-based system: a brand color and a card shadow, no spacing tokens
+ */
+function buildStyles() {
+    const brand = fake.createPaintStyle();
+    brand.name = 'Brand/Blue';
+    brand.paints = [{ type: 'SOLID', color: { r: 0x3B / 255, g: 0x82 / 255, b: 0xF6 / 255 }, opacity: 1 }];
+
+    const card = fake.createEffectStyle();
+    card.name = 'Elevation/Card';
+    card.effects = [{ type: 'DROP_SHADOW', radius: 6, color: { r: 0, g: 0, b: 0, a: 0.1 }, offset: { x: 0, y: 2 } }];
+}
+
+const NODES: Record<string, RSNT_Node> = {
+    // Every class has a style: Tier 3
+    tokens: { id: 'tokens', type: 'FRAME', tailwindClasses: ['bg-blue-500', 'shadow-md'] },
+    // Enough classes resolve for Tier 3, but p-4 keeps a raw value
+    partial: { id: 'partial', type: 'FRAME', tailwindClasses: ['bg-blue-500', 'shadow-md', 'bg-blue-500', 'p-4'] },
+    // Only a raw fill: Tier 4 or 5
+    raw: { id: 'raw', type: 'FRAME', name: 'Hero', semanticRole: 'Button', fills: [{ type: 'SOLID', color: { r: 0.95, g: 0.1, b: 0.96 } }] }
+};
+
+async function resolveWith(policy: ResolutionPolicy, inventory: DesignSystemInventory) {
+    const results: Record<string, { tier?: number; violation?: PolicyViolation; code?: number }> = {};
+    for (const [key, node] of Object.entries(NODES)) {
+        try {
+            const result = await resolveNode(JSON.parse(JSON.stringify(node)), inventory, undefined, policy);
+            results[key] = { tier: result.tier };
+        } catch (error) {
+            results[key] = isPolicyViolation(error) ? { violation: error.details, code: error.code } : {};
+        }
+    }
+    return results;
+}
+
+async function runAll() {
+    buildStyles();
+    const inventory: DesignSystemInventory = {
+        components: [],
+        variables: [],
+        styles: discoverStyles(),
+        fileKey: 'policy-test',
+        scannedAt: 0
+    };
+
+    const prototype = await resolveWith(RESOLUTION_POLICIES.prototype, inventory);
+    const defaulted = await resolveNode(JSON.parse(JSON.stringify(NODES.raw)), inventory);
+    const strict = await resolveWith(RESOLUTION_POLICIES.strict, inventory);
+    const tokensOnly = await resolveWith(RESOLUTION_POLICIES['tokens-only'], inventory);
+
+    return { prototype, defaulted, strict, tokensOnly };
+}
+
+runAll().then(({ prototype, defaulted, strict, tokensOnly }) => {
+    describe('Resolution Policy - lookup', () => {
+        it('finds policies by name and falls back to prototype', () => {
+            expect(getResolutionPolicy('strict').maxTier).toBe(3);
+            expect(getResolutionPolicy('tokens-only').allowRawValues).toBe(false);
+            expect(getResolutionPolicy('anything').name).toBe('prototype');
+            expect(getResolutionPolicy(undefined).name).toBe('prototype');
+        });
+    });
+
+    describe('Resolution Policy - prototype', () => {
+        it('allows every tier, as resolveNode does by default', () => {
+            expect(prototype.tokens.tier).toBe(3);
+            expect(prototype.partial.tier).toBe(3);
+            expect(prototype.raw.tier).toBeGreaterThan(3);
+            expect(defaulted.tier).toBe(prototype.raw.tier!);
+        });
+    });
+
+    describe('Resolution Policy - strict', () => {
+        it('keeps tiers 1-3, including Tier 3 with some raw values', () => {
+            expect(strict.tokens.tier).toBe(3);
+            expect(strict.partial.tier).toBe(3);
+        });
+
+        it('throws a policy violation listing what each allowed tier was missing', () => {
+            const violation = strict.raw.violation!;
+            expect(strict.raw.code).toBe(ErrorCode.POLICY_VIOLATION);
+            expect(violation.nodeName).toBe('Hero');
+            expect(violation.policy).toBe('strict');
+            expect(violation.requiredTier).toBe(4);
+            expect(violation.missing).toHaveLength(3);
+            expect(violation.missing[0]).toBe('No component with role "Button"');
+            expect(violation.missing[2]).toBe('No Tailwind classes to build from design tokens');
+        });
+    });
+
+    describe('Resolution Policy - tokens-only', () => {
+        it('rejects Tier 3 results that leave classes without tokens', () => {
+            expect(tokensOnly.tokens.tier).toBe(3);
+            expect(tokensOnly.partial.violation!.requiredTier).toBe(4);
+            expect(tokensOnly.partial.violation!.missing).toContain('No design tokens for p-4');
+        });
+    });
+
+    describe('Resolution Policy - frames and text written by the AI', () => {
+        const tokensOnlyPolicy = RESOLUTION_POLICIES['tokens-only'];
+        const heroFrame: RSNT_Node = {
+            id: 'hero',
+            type: 'FRAME',
+            name: 'Hero',
+            fills: [{ type: 'SOLID', color: { r: 1, g: 0, b: 0 } }],
+            padding: { top: 24, right: 24, bottom: 24, left: 24 },
+            itemSpacing: { variableId: 'VariableID:1:1' },
+            cornerRadius: 0
+        };
+
+        it('blocks a tokens-only render of a raw hex frame', () => {
+            const violation = checkRawValues(heroFrame, tokensOnlyPolicy)!;
+            expect(violation.nodeName).toBe('Hero');
+            expect(violation.policy).toBe('tokens-only');
+            expect(violation.requiredTier).toBe(4);
+            expect(violation.missing.join('; ')).toBe('Raw fill #FF0000; Raw padding 24px');
+        });
+
+        it('accepts styled and token-bound values, and raw values under other policies', () => {
+            expect(checkRawValues({ ...heroFrame, fillStyleId: 'S:1,', padding: undefined }, tokensOnlyPolicy)).toBe(null);
+            expect(checkRawValues(heroFrame, RESOLUTION_POLICIES.strict)).toBe(null);
+            expect(checkRawValues({ id: 'label', type: 'TEXT', fontSize: 13 }, tokensOnlyPolicy)!.missing[0]).toBe('No text style for 13px text');
+            expect(checkRawValues({ id: 'label', type: 'TEXT', textStyleId: 'S:2,' }, tokensOnlyPolicy)).toBe(null);
+        });
+    });
+
+    describe('Resolution Policy - reporting', () => {
+        it('formats one line per violating node', () => {
+            const text = formatPolicyViolations([strict.raw.violation!, tokensOnly.partial.violation!]);
+            expect(text.split('\n')).toHaveLength(2);
+            expect(text).toContain('- Hero (needs Tier 4): No component with role "Button"; No structurally similar component');
+            expect(text).toContain('- partial (needs Tier 4): ');
+        });
+    });
+});
@@ -0,0 +1,136 @@
+import { discoverStyles, ComponentInfo, DesignSystemInventory } from '../services/auto-discovery';
+import { ComponentAnatomy } from '../services/anatomy';
+import { resolveNode } from '../services/resolution';
+import { resolutionTracker } from '../services/resolution-tracker';
+import { RESOLUTION_POLICIES } from '../services/resolution-policy';
+import { ResolutionTrace } from '../types/resolution-types';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/resolution-trace.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'trace-test' });
+
+function component(id: string, name: string, extra: Partial<ComponentInfo> = {}): ComponentInfo {
+    return { id, key: `key-${id}`, name, type: 'COMPONENT', ...extra };
+}
+
+function horizontal(layerCount: number, hasIcon = false): ComponentAnatomy {
+    return {
+        hasIcon,
+        hasLabel: true,
+        hasImage: false,
+        hasContainer: true,
+        layerCount,
+        textNodeCount: 1,
+        instanceCount: 0,
+        structureSignature: 'F>T',
+        layoutInfo: {
+            mode: 'HORIZONTAL',
+            primaryAxisAlignItems: 'CENTER',
+            counterAxisAlignItems: 'CENTER',
+            itemSpacing: 8,
+            padding: { top: 8, right: 16, bottom: 8, left: 16 }
+        },
+        dimensionInfo: {} as ComponentAnatomy['dimensionInfo']
+    };
+}
+
+async function runAll() {
+    const brand = fake.createPaintStyle();
+    brand.name = 'Brand/Blue';
+    brand.paints = [{ type: 'SOLID', color: { r: 0x3B / 255, g: 0x82 / 255, b: 0xF6 / 255 }, opacity: 1 }];
+
+    const inventory: DesignSystemInventory = {
+        components: [
+            component('badge', 'Badge', { suggestedRole: 'Badge', anatomy: horizontal(1) }),
+            component('icon-base', 'Icon Base', { suggestedRole: 'Icon', anatomy: horizontal(2, true) }),
+            component('slot', 'Base Slot', { suggestedRole: 'Container', anatomy: horizontal(3) })
+        ],
+        variables: [],
+        styles: discoverStyles(),
+        fileKey: 'trace-test',
+        scannedAt: 0
+    };
+
+    resolutionTracker.reset();
+
+    const exact = await resolveNode({ id: 'status', type: 'COMPONENT_INSTANCE', semanticRole: 'Badge' }, inventory);
+    const structural = await resolveNode({
+        id: 'toolbar',
+        type: 'COMPONENT_INSTANCE',
+        name: 'Toolbar',
+        layoutMode: 'HORIZONTAL',
+        primaryAxisAlignItems: 'CENTER',
+        counterAxisAlignItems: 'CENTER',
+        fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }]
+    }, inventory);
+    const tokens = await resolveNode({ id: 'banner', type: 'COMPONENT_INSTANCE', tailwindClasses: ['bg-blue-500', 'bg-blue-500', 'bg-blue-500', 'p-4'] }, inventory);
+    const defaults = await resolveNode({ id: 'hero', type: 'COMPONENT_INSTANCE', semanticRole: 'Hero', tailwindClasses: ['p-4'] }, inventory);
+
+    let blocked: ResolutionTrace | undefined;
+    try {
+        await resolveNode({ id: 'promo', type: 'COMPONENT_INSTANCE', tailwindClasses: ['bg-blue-500', 'bg-blue-500', 'bg-blue-500', 'p-4'] }, inventory, undefined, RESOLUTION_POLICIES['tokens-only']);
+    } catch (e) {
+        blocked = resolutionTracker.getLog().find(entry => entry.nodeId === 'promo')!.trace;
+    }
+
+    const summary = resolutionTracker.createSummary();
+
+    return { exact: exact.trace!, structural: structural.trace!, tokens: tokens.trace!, defaults: defaults.trace!, blocked: blocked!, summary };
+}
+
+runAll().then(({ exact, structural, tokens, defaults, blocked, summary }) => {
+    describe('Resolution Trace - tiers', () => {
+        it('records the component an exact match chose', () => {
+            expect(exact.tiers).toHaveLength(1);
+            expect(exact.tiers[0].outcome).toBe('selected');
+            expect(exact.tiers[0].candidates[0].name).toBe('Badge');
+            expect(exact.outcome!.componentName).toBe('Badge');
+        });
+
+        it('scores structural candidates and keeps the rejection reason', () => {
+            const [tier1, tier2] = structural.tiers;
+            expect(tier1.reason).toBe('No matching component');
+            expect(tier2.outcome).toBe('selected');
+            const [icon, slot] = tier2.candidates;
+            expect(icon.name).toBe('Icon Base');
+            expect(icon.accepted).toBe(false);
+            expect(icon.reason).toBe('Override safety check failed');
+            expect(icon.details!.join(' ')).toContain('Unsafe: fills');
+            expect(slot.accepted).toBe(true);
+            expect(slot.score).toBe(100);
+            expect(structural.outcome!.componentName).toBe('Base Slot');
+        });
+
+        it('lists each class Tier 3 resolved or could not', () => {
+            const tier3 = tokens.tiers[2];
+            expect(tier3.outcome).toBe('selected');
+            expect(tier3.candidates).toHaveLength(4);
+            expect(tier3.candidates[0].details![0]).toBe('Style for fillStyleId');
+            expect(tier3.candidates[3].reason).toBe('No matching variable or style');
+            expect(tier3.notes[0]).toBe('3 of 4 classes resolved (threshold: 70%)');
+        });
+
+        it('explains every tier before system defaults', () => {
+            expect(defaults.tiers.map(t => t.outcome).join(',')).toBe('rejected,rejected,rejected,rejected,selected');
+            expect(defaults.tiers[2].reason).toBe('Insufficient variables (<70% resolved)');
+            expect(defaults.outcome!.tier).toBe(5);
+            expect(defaults.outcome!.method).toBe('system_defaults');
+        });
+
+        it('marks tiers a policy forbade', () => {
+            expect(blocked.outcome === null).toBe(true);
+            expect(blocked.tiers[2].outcome).toBe('forbidden');
+            expect(blocked.tiers[2].reason).toBe('Tokens only policy forbids raw values for p-4');
+            expect(blocked.tiers[3].reason).toBe('Tokens only policy forbids Tier 4');
+        });
+    });
+
+    describe('Resolution Trace - summary', () => {
+        it('carries traces in the node breakdown for the inspector', () => {
+            expect(summary.nodeBreakdown).toHaveLength(5);
+            expect(summary.nodeBreakdown[1].trace!.nodeName).toBe('Toolbar');
+        });
+    });
+});
@@ -0,0 +1,167 @@
+import { resolveForBreakpoint, getDeclaredBreakpoints } from '../services/responsive';
+import { renderResponsiveRSNT } from '../services/rendering';
+import { fixDesign } from '../services/design-fixer';
+import { DesignSystemGuidelines } from '../services/auto-discovery';
+import { validateRSNT, RSNT_Node } from '../types/rsnt';
+import { ErrorCode } from '../types/errors';
+import { installFigmaFake, FakeFrameNode } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/responsive.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'responsive-test' });
+
+const page: RSNT_Node = {
+    id: 'page',
+    type: 'FRAME',
+    name: 'Pricing',
+    width: 375,
+    layoutMode: 'VERTICAL',
+    padding: { top: 16, right: 16, bottom: 16, left: 16 },
+    responsive: {
+        lg: { padding: { left: 64, right: 64 } }
+    },
+    children: [
+        {
+            id: 'plans',
+            type: 'FRAME',
+            layoutMode: 'VERTICAL',
+            responsive: {
+                md: { layoutMode: 'HORIZONTAL', itemSpacing: 24 }
+            }
+        },
+        {
+            id: 'sidebar',
+            type: 'FRAME',
+            visible: false,
+            responsive: {
+                xl: { visible: true }
+            }
+        }
+    ]
+};
+
+describe('Responsive - breakpoint resolution', () => {
+    it('lists declared breakpoints smallest first', () => {
+        expect(getDeclaredBreakpoints(page).join(',')).toBe('md,lg,xl');
+    });
+
+    it('leaves the base layout untouched', () => {
+        const base = resolveForBreakpoint(page, 'base');
+        expect(base.width).toBe(375);
+        expect(base.children![0].layoutMode).toBe('VERTICAL');
+        expect(base.responsive).toBe(undefined);
+    });
+
+    it('cascades overrides mobile-first', () => {
+        const lg = resolveForBreakpoint(page, 'lg');
+        expect(lg.width).toBe(1024);
+        expect(lg.children![0].layoutMode).toBe('HORIZONTAL');
+        expect(lg.padding!.left).toBe(64);
+        expect(lg.padding!.top).toBe(16);
+        expect(lg.children![1].visible).toBe(false);
+    });
+
+    it('does not mutate the source tree', () => {
+        resolveForBreakpoint(page, 'xl');
+        expect(page.children![1].visible).toBe(false);
+    });
+});
+
+describe('Responsive - validation', () => {
+    const context = { availableComponents: new Set<string>(), availableVariables: new Set<string>() };
+
+    it('accepts known breakpoints', () => {
+        expect(validateRSNT(page, context).valid).toBe(true);
+    });
+
+    it('rejects unknown breakpoints and invalid widths', () => {
+        const invalid: RSNT_Node = {
+            id: 'bad',
+            type: 'FRAME',
+            responsive: { tablet: { width: 800 }, md: { width: -1 } } as any
+        };
+        const result = validateRSNT(invalid, context);
+        expect(result.valid).toBe(false);
+        expect(result.errors).toHaveLength(2);
+        expect(result.errors.map(e => e.code).join(',')).toBe(`${ErrorCode.INVALID_BREAKPOINT},${ErrorCode.INVALID_BREAKPOINT}`);
+    });
+
+    it('reports bad layouts and non-object overrides as breakpoint errors', () => {
+        const invalid: RSNT_Node = {
+            id: 'bad',
+            type: 'FRAME',
+            responsive: { md: { layoutMode: 'GRID' }, lg: 'wide' } as any
+        };
+        const result = validateRSNT(invalid, context);
+        expect(result.errors.map(e => e.rule).join(',')).toBe('invalid-responsive-layout,invalid-responsive-override');
+        expect(result.errors.every(e => e.code === ErrorCode.INVALID_BREAKPOINT)).toBe(true);
+    });
+});
+
+describe('Responsive - design fixer', () => {
+    const guidelines: DesignSystemGuidelines = {
+        spacing: { scale: [4, 8, 16, 24, 32, 64], default: 16 },
+        typography: { scale: [], sizes: [14, 16, 24] },
+        borderRadius: { scale: [4, 8] },
+        layout: { maxContentWidth: 1200, defaultPadding: 16 }
+    };
+
+    it('sizes a responsive root to the base breakpoint, not the desktop target', () => {
+        const root: RSNT_Node = { id: 'root', type: 'FRAME', responsive: { lg: { width: 1024 } } };
+        fixDesign(root, { guidelines });
+        expect(root.width).toBe(375);
+        expect(root.responsive!.lg!.width).toBe(1024);
+    });
+
+    it('keeps the base narrower than the first breakpoint and repairs tiny breakpoint widths', () => {
+        const root: RSNT_Node = { id: 'root', type: 'FRAME', width: 1440, height: 900, responsive: { md: { width: 40 }, xl: {} } };
+        const report = fixDesign(root, { guidelines });
+        const rootFixes = report.fixesApplied.filter(f => f.fixType === 'ROOT_FRAME');
+        expect(root.width).toBe(375);
+        expect(root.responsive!.md!.width).toBe(768);
+        expect(rootFixes).toHaveLength(2);
+        expect(rootFixes[1].description).toContain('at md');
+    });
+
+    it('leaves non-responsive roots at the desktop target', () => {
+        const root: RSNT_Node = { id: 'root', type: 'FRAME' };
+        fixDesign(root, { guidelines });
+        expect(root.width).toBe(1440);
+    });
+});
+
+async function runAll() {
+    const progress: number[] = [];
+    const result = await renderResponsiveRSNT(page, fake.currentPage as any, p => progress.push(p.total));
+    return { result, progress };
+}
+
+runAll().then(({ result, progress }) => {
+    describe('Responsive - rendering', () => {
+        const wrapper = result.node as unknown as FakeFrameNode;
+        const frames = wrapper.children as FakeFrameNode[];
+
+        it('renders one frame per breakpoint side by side', () => {
+            expect(wrapper.name).toBe('Pricing (Responsive)');
+            expect(wrapper.layoutMode).toBe('HORIZONTAL');
+            expect(frames.map(f => f.getPluginData('breakpoint')).join(',')).toBe('base,md,lg,xl');
+            expect(frames.map(f => f.width).join(',')).toBe('375,768,1024,1280');
+            expect(frames[1].name).toBe('Pricing — md (768)');
+        });
+
+        it('applies each breakpoint\'s overrides to its own frame', () => {
+            const plans = frames.map(f => (f.children[0] as FakeFrameNode).layoutMode);
+            expect(plans.join(',')).toBe('VERTICAL,HORIZONTAL,HORIZONTAL,HORIZONTAL');
+            expect(frames[0].paddingLeft).toBe(16);
+            expect(frames[2].paddingLeft).toBe(64);
+            expect((frames[3].children[1] as FakeFrameNode).visible).toBe(true);
+            expect((frames[2].children[1] as FakeFrameNode).visible).toBe(false);
+        });
+
+        it('reports progress across every breakpoint', () => {
+            expect(progress[0]).toBe(12);
+            expect(result.errors).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,109 @@
+import { rsntConversionService } from '../services/rsnt-conversion';
+import { rsntMetadataService, RSNT_PLUGIN_DATA_KEY, RSNT_SCHEMA_VERSION } from '../services/rsnt-metadata';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/rsnt-conversion.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'conversion-test' });
+
+function card(name: string) {
+    const frame = fake.createFrame();
+    frame.name = name;
+    frame.layoutMode = 'VERTICAL';
+    frame.itemSpacing = 8;
+    frame.paddingTop = frame.paddingRight = frame.paddingBottom = frame.paddingLeft = 16;
+    fake.currentPage.appendChild(frame);
+    return frame;
+}
+
+const theme = fake.variables.createVariableCollection('Theme');
+const gap = fake.variables.createVariable('spacing/md', theme, 'FLOAT');
+gap.setValueForMode(theme.defaultModeId, 8);
+
+// Rendered by the plugin: the persisted payload carries what Figma cannot
+const rendered = card('Pricing Card');
+rsntMetadataService.write(rendered as any, {
+    id: 'pricing',
+    type: 'FRAME',
+    semanticRole: 'Card',
+    tailwindClasses: ['p-4', 'gap-md'],
+    itemSpacing: { variableId: gap.id },
+    metadata: { resolutionTier: 3 }
+}, { intent: 'A pricing card' });
+
+// Edited on the canvas after rendering: made absolute, fill removed, pinned back into flow
+const moved = card('Moved Badge');
+rsntMetadataService.write(moved as any, {
+    id: 'badge',
+    type: 'FRAME',
+    layoutPrimitive: 'stack',
+    tailwindClasses: ['relative', 'p-4']
+});
+moved.layoutPositioning = 'ABSOLUTE';
+const unpinned = card('Unpinned Banner');
+rsntMetadataService.write(unpinned as any, {
+    id: 'banner',
+    type: 'FRAME',
+    layoutPrimitive: 'absolute',
+    tailwindClasses: ['absolute'],
+    fills: [{ type: 'VARIABLE', variableId: gap.id }]
+});
+unpinned.fills = [];
+
+const plain = card('Hand-drawn Card');
+const corrupt = card('Corrupt Card');
+corrupt.setPluginData(RSNT_PLUGIN_DATA_KEY, '{"v": 1, "id": ');
+const future = card('Future Card');
+future.setPluginData(RSNT_PLUGIN_DATA_KEY, JSON.stringify({ v: RSNT_SCHEMA_VERSION + 1, id: 'future', semanticRole: 'Card' }));
+
+describe('RSNT Conversion - persisted metadata', () => {
+    const rsnt = rsntConversionService.convertNodeToRSNT(rendered as any);
+
+    it('prefers the stored role, classes and token bindings over the node', () => {
+        expect(rsnt.semanticRole).toBe('Card');
+        expect(rsnt.tailwindClasses!.join(' ')).toBe('p-4 gap-md');
+        expect((rsnt.itemSpacing as any).variableId).toBe(gap.id);
+    });
+
+    it('keeps the source id, tier and intent as metadata', () => {
+        expect(rsnt.id).toBe(rendered.id);
+        expect(rsnt.metadata!.sourceRSNTId).toBe('pricing');
+        expect(rsnt.metadata!.resolutionTier).toBe(3);
+        expect(rsnt.metadata!.sourceIntent).toBe('A pricing card');
+    });
+});
+
+describe('RSNT Conversion - live structure wins', () => {
+    it('keeps absolute positioning set after rendering', () => {
+        const rsnt = rsntConversionService.convertNodeToRSNT(moved as any);
+        expect(rsnt.layoutPrimitive).toBe('absolute');
+        expect(rsnt.tailwindClasses!.join(' ')).toBe('p-4');
+    });
+
+    it('drops stored positioning and bindings for what the node no longer has', () => {
+        const rsnt = rsntConversionService.convertNodeToRSNT(unpinned as any);
+        expect(rsnt.layoutPrimitive === undefined).toBe(true);
+        expect(rsnt.tailwindClasses).toHaveLength(0);
+        expect(rsnt.fills).toHaveLength(0);
+    });
+});
+
+describe('RSNT Conversion - fallback', () => {
+    it('reverse-engineers nodes without metadata', () => {
+        const rsnt = rsntConversionService.convertNodeToRSNT(plain as any);
+        expect(rsnt.semanticRole === undefined).toBe(true);
+        expect(rsnt.itemSpacing).toBe(8);
+        expect(rsnt.padding!.top).toBe(16);
+        expect(rsnt.metadata === undefined).toBe(true);
+    });
+
+    it('ignores corrupt payloads and payloads from a newer schema', () => {
+        for (const node of [corrupt, future]) {
+            const rsnt = rsntConversionService.convertNodeToRSNT(node as any);
+            expect(rsnt.semanticRole === undefined).toBe(true);
+            expect(rsnt.itemSpacing).toBe(8);
+            expect(rsnt.layoutMode).toBe('VERTICAL');
+        }
+    });
+});
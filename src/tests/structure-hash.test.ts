@@ -0,0 +1,142 @@
+import { discoverComponents, reuseClassifications, getOrDiscoverInventory, ComponentInfo, DesignSystemInventory } from '../services/auto-discovery';
+import { analyzeComponentAnatomy, calculateStructureHash, LayerNode } from '../services/anatomy';
+import { cacheService } from '../services/cache';
+import { propertyMappingService } from '../services/property-mapping';
+import { PropertyType } from '../types/classification';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/structure-hash.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'structure-test' });
+const STORAGE_KEY = 'discovery-cache-v1-structure-test';
+
+function layer(type: string, children: LayerNode[] = [], size = 40): LayerNode {
+    return { id: `${type}-${size}`, name: type.toLowerCase(), type, width: size, height: size, children };
+}
+
+const classification = { semanticRole: 'PrimaryButton', confidence: 0.9, reasoning: 'Filled CTA' };
+const mappings = {
+    Kind: { propertyType: PropertyType.SEMANTIC_VARIANT, reasoning: 'Emphasis', valueMappings: [] }
+};
+
+async function buildFile() {
+    await fake.loadFontAsync({ family: 'Inter', style: 'Regular' });
+    const make = (name: string, labels: number) => {
+        const component = fake.createComponent();
+        component.name = name;
+        component.layoutMode = 'HORIZONTAL';
+        for (let i = 0; i < labels; i++) {
+            const text = fake.createText();
+            text.characters = 'Label';
+            component.appendChild(text);
+        }
+        return component;
+    };
+    return { button: make('Button', 1), chip: make('Chip', 2), tag: make('Tag', 2) };
+}
+
+function previous(component: ComponentInfo, extra: Partial<ComponentInfo> = {}): ComponentInfo {
+    return { ...component, aiClassification: classification, propertyMappings: mappings, ...extra };
+}
+
+async function runAll() {
+    const { button, chip, tag } = await buildFile();
+    const first = discoverComponents(null).components;
+    const byName = (list: ComponentInfo[], name: string) => list.find(c => c.name === name)!;
+
+    // Rename and touch the button; give the chip a new layer
+    button.name = 'Action / Button';
+    const icon = fake.createText();
+    icon.characters = 'x';
+    chip.appendChild(icon);
+    const second = discoverComponents(null).components;
+
+    const lastInventory: DesignSystemInventory = {
+        components: [
+            previous(byName(first, 'Button')),
+            previous(byName(first, 'Chip')),
+            // Gone from the file: a moved copy of the button (new id) and two same-structure tags
+            previous(byName(first, 'Button'), { id: 'old:1', name: 'Old Button', aiClassification: { ...classification, semanticRole: 'SecondaryButton' } }),
+            previous(byName(first, 'Tag'), { id: 'old:2' }),
+            previous(byName(first, 'Tag'), { id: 'old:3' })
+        ],
+        variables: [],
+        fileKey: 'structure-test',
+        scannedAt: 0
+    };
+    const reused = reuseClassifications(second, lastInventory);
+
+    // Moved component: a new id whose hash matches a removed one
+    const moved: ComponentInfo = { ...byName(second, 'Action / Button'), id: 'new:1' };
+    const carried = reuseClassifications([moved], { ...lastInventory, components: [lastInventory.components[2]] });
+
+    // Cache: fingerprints keep the hash; expired caches still expose their components
+    await cacheService.saveCache(second, [], {});
+    const saved = await fake.clientStorage.getAsync(STORAGE_KEY);
+    await fake.clientStorage.setAsync(STORAGE_KEY, { ...saved, timestamp: 0 });
+    const expired = await cacheService.loadCache();
+    const stale = await cacheService.loadStaleComponents();
+    const inventory = await getOrDiscoverInventory();
+    const resaved = await cacheService.loadCache();
+
+    return { button, first, second, byName, reused, carried, expired, stale, inventory, resaved };
+}
+
+runAll().then(({ button, first, second, byName, reused, carried, expired, stale, inventory, resaved }) => {
+    describe('Structure Hash - calculateStructureHash', () => {
+        const hashOf = (node: LayerNode, properties?: Record<string, unknown>) =>
+            calculateStructureHash(analyzeComponentAnatomy(node), properties);
+        const base = layer('COMPONENT', [layer('TEXT'), layer('INSTANCE', [], 16)]);
+
+        it('ignores names and sizes', () => {
+            expect(hashOf({ ...base, name: 'Renamed', width: 200 })).toBe(hashOf(base));
+        });
+
+        it('changes with layers, layout and property definitions', () => {
+            expect(hashOf(layer('COMPONENT', [layer('TEXT')])) === hashOf(base)).toBe(false);
+            expect(hashOf({ ...base, layoutMode: 'VERTICAL' }) === hashOf(base)).toBe(false);
+            const size = { Size: { type: 'VARIANT', values: ['S', 'M'] } };
+            expect(hashOf(base, size) === hashOf(base, { Size: { type: 'VARIANT', values: ['S', 'M', 'L'] } })).toBe(false);
+            expect(hashOf(base, { A: 1, B: 2 })).toBe(hashOf(base, { B: 2, A: 1 }));
+        });
+
+        it('is recorded on discovered components', () => {
+            expect(byName(second, 'Action / Button').structureHash).toBe(byName(first, 'Button').structureHash);
+            expect(byName(second, 'Chip').structureHash === byName(first, 'Chip').structureHash).toBe(false);
+            expect(byName(first, 'Tag').structureHash).toBe(byName(first, 'Chip').structureHash);
+        });
+    });
+
+    describe('Structure Hash - reuseClassifications', () => {
+        it('reuses classifications for touched components whose structure is unchanged', () => {
+            const reusedButton = byName(reused.components, 'Action / Button');
+            expect(reusedButton.aiClassification!.semanticRole).toBe('PrimaryButton');
+            expect(reusedButton.suggestedRole).toBe('PrimaryButton');
+            expect(reusedButton.propertyMappings!.Kind.reasoning).toBe('Emphasis');
+        });
+
+        it('reclassifies changed components and ambiguous matches', () => {
+            expect(reused.unclassified.map(c => c.name).join(',')).toBe('Chip,Tag');
+            expect(byName(reused.components, 'Tag').aiClassification === undefined).toBe(true);
+        });
+
+        it('carries classifications across moves by structure hash', () => {
+            expect(carried.unclassified).toHaveLength(0);
+            expect(carried.components[0].aiClassification!.semanticRole).toBe('SecondaryButton');
+            expect(propertyMappingService.getMappings('new:1')!.Kind.reasoning).toBe('Emphasis');
+        });
+    });
+
+    describe('Structure Hash - cache', () => {
+        it('keeps hashes in fingerprints and components from expired caches', () => {
+            expect(expired).toBe(null);
+            expect(stale).toHaveLength(3);
+            expect(stale.find(c => c.id === button.id)!.structureHash).toBe(byName(second, 'Action / Button').structureHash);
+        });
+
+        it('fills fingerprints when the cache is saved again', () => {
+            expect(resaved!.componentFingerprints[button.id].structureHash).toBe(byName(inventory.components, 'Action / Button').structureHash);
+        });
+    });
+});
@@ -0,0 +1,188 @@
+import { discoverStyles, getOrDiscoverInventory, DesignSystemInventory } from '../services/auto-discovery';
+import { resolveNode, resolveTextStyle } from '../services/resolution';
+import { renderRSNT, executeInstructions } from '../services/rendering';
+import { fontManager } from '../services/font-manager';
+import { FrameInstructions } from '../types/resolution-types';
+import { installFigmaFake, FakeFrameNode, FakeTextNode } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/styles.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({
+    fileKey: 'styles-test',
+    availableFonts: [
+        { family: 'Inter', style: 'Regular' },
+        { family: 'Inter', style: 'Bold' },
+        { family: 'Roboto', style: 'Regular' },
+        { family: 'Roboto', style: 'Bold' }
+    ]
+});
+
+/**
+ * A style-based design system: no variables, only paint, text and effect styles
+ */
+function buildStyles() {
+    const brand = fake.createPaintStyle();
+    brand.name = 'Brand/Blue';
+    brand.paints = [{ type: 'SOLID', color: { r: 0x3B / 255, g: 0x82 / 255, b: 0xF6 / 255 }, opacity: 1 }];
+
+    const surface = fake.createPaintStyle();
+    surface.name = 'Surface/Muted';
+    surface.description = 'Card backgrounds';
+    surface.paints = [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.96 }, opacity: 1 }];
+
+    const headings = [['Heading/H1', 32, 'Bold'], ['Heading/H2', 24, 'Bold'], ['Body/Regular', 16, 'Regular'], ['Caption', 12, 'Regular']] as const;
+    const [h1, h2, body, caption] = headings.map(([name, size, style]) => {
+        const text = fake.createTextStyle();
+        text.name = name;
+        text.fontName = { family: 'Roboto', style };
+        text.fontSize = size;
+        return text;
+    });
+
+    const card = fake.createEffectStyle();
+    card.name = 'Elevation/Card';
+    card.effects = [{ type: 'DROP_SHADOW', radius: 6, color: { r: 0, g: 0, b: 0, a: 0.1 }, offset: { x: 0, y: 2 } }];
+    const modal = fake.createEffectStyle();
+    modal.name = 'Elevation/Modal';
+    modal.effects = [{ type: 'DROP_SHADOW', radius: 24, color: { r: 0, g: 0, b: 0, a: 0.2 }, offset: { x: 0, y: 8 } }];
+
+    return { brand, surface, h1, h2, body, caption, card, modal };
+}
+
+async function runAll() {
+    const styles = buildStyles();
+    const discovered = discoverStyles();
+    const inventory: DesignSystemInventory = {
+        components: [],
+        variables: [],
+        styles: discovered,
+        fileKey: 'styles-test',
+        scannedAt: 0
+    };
+
+    // Tier 3: classes with no variable fall back to paint/effect styles
+    const classes = await resolveNode({ id: 'banner', type: 'FRAME', tailwindClasses: ['bg-blue-500', 'shadow-md'] }, inventory);
+    // Tier 4: a raw fill that matches a paint style exactly
+    const raw = await resolveNode({
+        id: 'panel',
+        type: 'FRAME',
+        fills: [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.96 } }],
+        effects: [{ type: 'DROP_SHADOW', radius: 20 }]
+    }, inventory);
+
+    // Shadows a few px off reuse a style only within the blur/offset tolerance
+    const nearShadow = await resolveNode({ id: 'near', type: 'FRAME', tailwindClasses: ['bg-blue-500', 'shadow-xl'] }, inventory);
+    const farShadow = await resolveNode({
+        id: 'far',
+        type: 'FRAME',
+        fills: [{ type: 'SOLID', color: { r: 0.95, g: 0.95, b: 0.96 } }],
+        effects: [{ type: 'DROP_SHADOW', radius: 24, offset: { x: 0, y: 20 } }]
+    }, inventory);
+
+    const frame = await executeInstructions(classes.instructions, { id: 'banner', type: 'FRAME', name: 'Banner' }, classes.tier);
+    const rendered = await renderRSNT({
+        id: 'card',
+        type: 'FRAME',
+        layoutMode: 'VERTICAL',
+        fills: [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 } }],
+        fillStyleId: styles.surface.id,
+        effectStyleId: styles.card.id,
+        children: [
+            { id: 'title', type: 'TEXT', characters: 'Plans', fontSize: 99, textStyleId: styles.h2.id },
+            { id: 'stale', type: 'TEXT', characters: 'Fine print', strokeStyleId: 'S:missing,' }
+        ]
+    }, fake.currentPage as any, undefined, undefined, inventory);
+
+    const detected = fontManager.detectFontsFromDesignSystem(inventory);
+    const full = await getOrDiscoverInventory();
+
+    return { styles, discovered, inventory, classes, raw, nearShadow, farShadow, frame, rendered, detected, full };
+}
+
+runAll().then(({ styles, discovered, inventory, classes, raw, nearShadow, farShadow, frame, rendered, detected, full }) => {
+    describe('Styles - discovery', () => {
+        it('collects paint, text and effect styles', () => {
+            expect(discovered.map(s => s.type).join(',')).toBe('PAINT,PAINT,TEXT,TEXT,TEXT,TEXT,EFFECT,EFFECT');
+            const surface = discovered.find(s => s.name === 'Surface/Muted')!;
+            expect(surface.color!.r).toBe(0.95);
+            expect(surface.description).toBe('Card backgrounds');
+        });
+
+        it('keeps fonts, sizes and effect radii', () => {
+            const h1 = discovered.find(s => s.name === 'Heading/H1')!;
+            expect(h1.fontName!.family).toBe('Roboto');
+            expect(h1.fontSize).toBe(32);
+            expect(discovered.find(s => s.name === 'Elevation/Modal')!.effects![0].radius).toBe(24);
+        });
+
+        it('builds the typography scale from text styles, largest first', () => {
+            const typography = full.guidelines!.typography;
+            expect(full.styles!).toHaveLength(8);
+            expect(typography.scale.map(t => `${t.level}:${t.fontSize}`).join(',')).toBe('h1:32,h2:24,body:16,caption:12');
+            expect(typography.scale[0].styleId).toBe(styles.h1.id);
+            expect(typography.sizes.join(',')).toBe('12,16,24,32');
+        });
+
+        it('detects the default font from text styles', () => {
+            expect(detected[0].family).toBe('Roboto');
+            expect(detected[0].style).toBe('Bold');
+            expect(detected).toHaveLength(2);
+        });
+    });
+
+    describe('Styles - resolution', () => {
+        it('binds paint and effect styles for classes with no variable (Tier 3)', () => {
+            const instructions = classes.instructions as FrameInstructions;
+            expect(classes.tier).toBe(3);
+            expect(instructions.styleBindings!.fillStyleId).toBe(styles.brand.id);
+            expect(instructions.styleBindings!.effectStyleId).toBe(styles.card.id);
+        });
+
+        it('binds styles that match raw colors and shadows (Tier 4)', () => {
+            const instructions = raw.instructions as FrameInstructions;
+            expect(raw.tier).toBe(4);
+            expect(instructions.styleBindings!.fillStyleId).toBe(styles.surface.id);
+            expect(instructions.styleBindings!.effectStyleId).toBe(styles.modal.id);
+        });
+
+        it('does not bind effect styles on a near or distant shadow', () => {
+            const near = nearShadow.trace!.tiers[2].candidates.find(c => c.name === 'shadow-xl')!;
+            expect(near.confidence!).toBeLessThan(0.8);
+            expect(near.accepted).toBe(false);
+            expect((farShadow.instructions as FrameInstructions).styleBindings!.effectStyleId === undefined).toBe(true);
+            expect((farShadow.instructions as FrameInstructions).styleBindings!.fillStyleId).toBe(styles.surface.id);
+        });
+
+        it('matches text styles by size, preferring the requested font', () => {
+            expect(resolveTextStyle({ id: 't', type: 'TEXT', fontSize: 24 }, inventory)!.id).toBe(styles.h2.id);
+            expect(resolveTextStyle({ id: 't', type: 'TEXT', fontSize: 24, fontFamily: 'Inter' }, inventory)).toBe(null);
+            expect(resolveTextStyle({ id: 't', type: 'TEXT', fontSize: 18 }, inventory)).toBe(null);
+        });
+    });
+
+    describe('Styles - rendering', () => {
+        const card = rendered.node as unknown as FakeFrameNode;
+
+        it('binds style ids over raw values', () => {
+            expect((frame as unknown as FakeFrameNode).fillStyleId).toBe(styles.brand.id);
+            expect(card.fillStyleId).toBe(styles.surface.id);
+            expect(card.fills[0].color.r).toBe(0.95);
+            expect(card.effectStyleId).toBe(styles.card.id);
+        });
+
+        it('applies text styles with their font instead of the node font size', () => {
+            const title = card.children[0] as FakeTextNode;
+            expect(title.textStyleId).toBe(styles.h2.id);
+            expect(title.fontSize).toBe(24);
+            expect(title.fontName.family).toBe('Roboto');
+            expect(title.characters).toBe('Plans');
+        });
+
+        it('warns and keeps raw values when a style is missing', () => {
+            expect(rendered.errors).toHaveLength(0);
+            expect(rendered.warnings).toHaveLength(1);
+            expect(rendered.warnings[0].nodeId).toBe('stale');
+        });
+    });
+});
@@ -0,0 +1,171 @@
+import { discoverVariables, getOrDiscoverInventory, DesignSystemInventory } from '../services/auto-discovery';
+import { resolveVariable, resolveVariableWithContext, preferSemanticVariable } from '../services/variable-resolver';
+import { resolveColorToken, resolveSpacingToken } from '../services/token-resolver';
+import { renderRSNT } from '../services/rendering';
+import { installFigmaFake, FakeFrameNode } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/variable-aliases.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'aliases-test' });
+
+/**
+ * A layered token setup: primitives, a two-mode palette, and a semantic theme
+ * collection whose variables only alias the layers below
+ */
+function buildTokens() {
+    const primitives = fake.variables.createVariableCollection('Primitives');
+    const blue500 = fake.variables.createVariable('blue/500', primitives, 'COLOR');
+    blue500.setValueForMode(primitives.defaultModeId, { r: 0x3B / 255, g: 0x82 / 255, b: 0xF6 / 255, a: 1 });
+    const blue300 = fake.variables.createVariable('blue/300', primitives, 'COLOR');
+    blue300.setValueForMode(primitives.defaultModeId, { r: 0x93 / 255, g: 0xC5 / 255, b: 0xFD / 255, a: 1 });
+    const space24 = fake.variables.createVariable('spacing/24', primitives, 'FLOAT');
+    space24.setValueForMode(primitives.defaultModeId, 24);
+
+    const palette = fake.variables.createVariableCollection('Palette');
+    const paletteDark = palette.addMode('Dark');
+    palette.renameMode(palette.defaultModeId, 'Light');
+    const canvas = fake.variables.createVariable('canvas/base', palette, 'COLOR');
+    canvas.setValueForMode(palette.defaultModeId, { r: 1, g: 1, b: 1, a: 1 });
+    canvas.setValueForMode(paletteDark, { r: 0.1, g: 0.1, b: 0.1, a: 1 });
+
+    const theme = fake.variables.createVariableCollection('Theme');
+    const themeDark = theme.addMode('Dark');
+    theme.renameMode(theme.defaultModeId, 'Light');
+    const alias = fake.variables.createVariableAlias;
+
+    const actionPrimary = fake.variables.createVariable('action/primary', theme, 'COLOR');
+    actionPrimary.setValueForMode(theme.defaultModeId, alias(blue500));
+    actionPrimary.setValueForMode(themeDark, alias(blue300));
+    const buttonBg = fake.variables.createVariable('button/background', theme, 'COLOR');
+    buttonBg.setValueForMode(theme.defaultModeId, alias(actionPrimary));
+    buttonBg.setValueForMode(themeDark, alias(actionPrimary));
+    const surface = fake.variables.createVariable('surface/page', theme, 'COLOR');
+    surface.setValueForMode(theme.defaultModeId, alias(canvas));
+    surface.setValueForMode(themeDark, alias(canvas));
+    const formGap = fake.variables.createVariable('spacing/form-gap', theme, 'FLOAT');
+    formGap.setValueForMode(theme.defaultModeId, alias(space24));
+    formGap.setValueForMode(themeDark, alias(space24));
+
+    // A semantic layer scoped to text only
+    const red500 = fake.variables.createVariable('red/500', primitives, 'COLOR');
+    red500.setValueForMode(primitives.defaultModeId, { r: 0xEF / 255, g: 0x44 / 255, b: 0x44 / 255, a: 1 });
+    const danger = fake.variables.createVariable('text/danger', theme, 'COLOR');
+    danger.setValueForMode(theme.defaultModeId, alias(red500));
+    danger.setValueForMode(themeDark, alias(red500));
+    danger.scopes = ['TEXT_FILL'];
+
+    // Broken layers: a cycle and a dangling reference
+    const loopA = fake.variables.createVariable('loop/a', theme, 'COLOR');
+    const loopB = fake.variables.createVariable('loop/b', theme, 'COLOR');
+    loopA.setValueForMode(theme.defaultModeId, alias(loopB));
+    loopB.setValueForMode(theme.defaultModeId, alias(loopA));
+    const dangling = fake.variables.createVariable('dangling', theme, 'COLOR');
+    dangling.setValueForMode(theme.defaultModeId, { type: 'VARIABLE_ALIAS', id: 'VariableID:missing' });
+
+    return { blue500, blue300, space24, canvas, actionPrimary, buttonBg, surface, formGap, loopA, dangling };
+}
+
+async function runAll() {
+    const tokens = buildTokens();
+    const variables = discoverVariables();
+    const inventory: DesignSystemInventory = { components: [], variables, fileKey: 'aliases-test', scannedAt: 0 };
+    const byName = (name: string) => variables.find(v => v.name === name)!;
+
+    // "colors/primary" aliases include "blue-500" before "action-primary"
+    const aliasMatch = await resolveVariable('colors/primary', inventory);
+    const exactPrimitive = await resolveVariable('blue/500', inventory);
+    const proximity = await resolveVariableWithContext('bg-cta', '#3B82F6', inventory);
+
+    const rendered = await renderRSNT({
+        id: 'cta',
+        type: 'FRAME',
+        fills: [{ type: 'VARIABLE', variableId: tokens.buttonBg.id }]
+    }, fake.currentPage as any, undefined, undefined, inventory);
+
+    const full = await getOrDiscoverInventory();
+
+    return { tokens, variables, inventory, byName, aliasMatch, exactPrimitive, proximity, rendered, full };
+}
+
+runAll().then(({ tokens, variables, inventory, byName, aliasMatch, exactPrimitive, proximity, rendered, full }) => {
+    describe('Variable Aliases - discovery', () => {
+        it('resolves semantic values through the alias chain', () => {
+            expect(byName('action/primary').value.b).toBe(0xF6 / 255);
+            expect(byName('button/background').value.b).toBe(0xF6 / 255);
+            expect(byName('spacing/form-gap').value).toBe(24);
+        });
+
+        it('keeps the alias graph', () => {
+            expect(byName('action/primary').aliasOf).toBe(tokens.blue500.id);
+            expect(byName('button/background').aliasOf).toBe(tokens.actionPrimary.id);
+            expect(byName('blue/500').aliasOf === undefined).toBe(true);
+        });
+
+        it('resolves each mode, matching mode names across collections', () => {
+            expect(byName('action/primary').valuesByMode!.Dark.b).toBe(0xFD / 255);
+            expect(byName('button/background').valuesByMode!.Dark.b).toBe(0xFD / 255);
+            expect(byName('surface/page').valuesByMode!.Light.r).toBe(1);
+            expect(byName('surface/page').valuesByMode!.Dark.r).toBe(0.1);
+        });
+
+        it('resolves circular and dangling chains to null', () => {
+            expect(byName('loop/a').value).toBe(null);
+            expect(byName('dangling').value).toBe(null);
+            expect(byName('dangling').aliasOf).toBe('VariableID:missing');
+        });
+
+        it('infers guidelines from resolved values', () => {
+            expect(full.guidelines!.spacing.scale).toContain(24);
+            expect(full.variables).toHaveLength(variables.length);
+        });
+    });
+
+    describe('Variable Aliases - semantic layering', () => {
+        it('prefers the direct semantic alias over deeper layers', () => {
+            expect(preferSemanticVariable(byName('blue/500'), variables).name).toBe('action/primary');
+            expect(preferSemanticVariable(byName('action/primary'), variables).name).toBe('action/primary');
+            expect(preferSemanticVariable(byName('blue/300'), variables).name).toBe('blue/300');
+        });
+
+        it('only prefers aliases that keep the value in the requested mode', () => {
+            expect(preferSemanticVariable(byName('blue/500'), variables, 'Light').name).toBe('action/primary');
+            expect(preferSemanticVariable(byName('blue/500'), variables, 'Dark').name).toBe('blue/500');
+            expect(preferSemanticVariable(byName('blue/300'), variables, 'Dark').name).toBe('blue/300');
+        });
+
+        it('only prefers aliases whose scopes allow the property', () => {
+            expect(preferSemanticVariable(byName('red/500'), variables).name).toBe('text/danger');
+            expect(preferSemanticVariable(byName('red/500'), variables, undefined, 'textFill').name).toBe('text/danger');
+            expect(preferSemanticVariable(byName('red/500'), variables, undefined, 'fill').name).toBe('red/500');
+        });
+
+        it('binds alias and proximity matches to the semantic variable', () => {
+            expect(aliasMatch.tier).toBe(2);
+            expect(aliasMatch.variableId).toBe(tokens.actionPrimary.id);
+            expect(aliasMatch.reasoning!).toContain("semantic alias of 'blue/500'");
+            expect(proximity.tier).toBe(4);
+            expect(proximity.variableId).toBe(tokens.actionPrimary.id);
+        });
+
+        it('keeps exact primitive requests as asked', () => {
+            expect(exactPrimitive.tier).toBe(1);
+            expect(exactPrimitive.variableId).toBe(tokens.blue500.id);
+        });
+
+        it('resolves color and spacing tokens to semantic variables', () => {
+            expect(resolveColorToken('primary', inventory)!.name).toBe('action/primary');
+            const gap = resolveSpacingToken({ semanticIntent: 'form', density: 'comfortable', platform: 'desktop', element: 'input' }, inventory);
+            expect(gap.name).toBe('spacing/form-gap');
+            expect(gap.value).toBe(24);
+        });
+    });
+
+    describe('Variable Aliases - rendering', () => {
+        it('uses the resolved value as the fallback fill color', () => {
+            const frame = rendered.node as unknown as FakeFrameNode;
+            expect(rendered.errors).toHaveLength(0);
+            expect(frame.fills[0].color.b).toBe(0xF6 / 255);
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import { discoverVariables, DesignSystemInventory } from '../services/auto-discovery';
+import { resolveVariableWithContext } from '../services/variable-resolver';
+import { resolveNode } from '../services/resolution';
+import { variableApprovals, VariableApprovalService } from '../services/variable-approvals';
+import { FrameInstructions } from '../types/resolution-types';
+import { installFigmaFake } from '../utils/figma-fake';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/variable-approvals.test.ts --bundle --platform=node | node
+
+const fake = installFigmaFake({ fileKey: 'approvals-test' });
+
+function buildTokens() {
+    const brand = fake.variables.createVariableCollection('Brand');
+    const blue600 = fake.variables.createVariable('brand/blue-600', brand, 'COLOR');
+    blue600.setValueForMode(brand.defaultModeId, { r: 0x25 / 255, g: 0x63 / 255, b: 0xEB / 255, a: 1 });
+    const navy = fake.variables.createVariable('brand/navy', brand, 'COLOR');
+    navy.setValueForMode(brand.defaultModeId, { r: 0.05, g: 0.1, b: 0.3, a: 1 });
+    const gap = fake.variables.createVariable('spacing/md', brand, 'FLOAT');
+    gap.setValueForMode(brand.defaultModeId, 16);
+    return { blue600, navy, gap };
+}
+
+async function runAll() {
+    const tokens = buildTokens();
+    const inventory: DesignSystemInventory = { components: [], variables: discoverVariables(), fileKey: 'approvals-test', scannedAt: 0 };
+    const banner = () => ({ id: 'banner', type: 'FRAME' as const, tailwindClasses: ['bg-blue-700'] });
+
+    // First generation: bg-blue-700 is only a 65% proximity match for brand/blue-600
+    await variableApprovals.load();
+    variableApprovals.resetQueue();
+    const before = await resolveNode(banner(), inventory);
+    const queue = variableApprovals.getQueue();
+    const bannerFrame = fake.createFrame();
+    bannerFrame.fills = [{ type: 'SOLID', color: { r: 0x1D / 255, g: 0x4E / 255, b: 0xD8 / 255 } }];
+    variableApprovals.attachRenderedNodes(new Map([['banner', bannerFrame.id]]));
+
+    // Skip it: it is not asked about again and the layer keeps its raw colour
+    await variableApprovals.answer('colors/blue/700', 'reject');
+    variableApprovals.resetQueue();
+    await resolveVariableWithContext('colors/blue/700', '#1D4ED8', inventory);
+    const afterReject = variableApprovals.getQueue();
+
+    // Accepting binds the rendered layers the match was requested for
+    const card = fake.createFrame();
+    card.layoutMode = 'VERTICAL';
+    const guess = { variableId: tokens.gap.id, confidence: 0.7, tier: 3 as const, method: 'ai-reasoning' as const };
+    const queuedGuess = variableApprovals.collect('spacing/5', guess, inventory.variables, { nodeId: 'card', property: 'padding' });
+    variableApprovals.collect('spacing/5', guess, inventory.variables, { nodeId: 'card', property: 'padding' });
+    const guessTargets = variableApprovals.getQueue()[0].targets.length;
+    variableApprovals.attachRenderedNodes(new Map([['card', card.id]]));
+    await variableApprovals.answer('spacing/5', 'accept');
+
+    // Pick a different variable instead; a fresh load sees the stored answer
+    await variableApprovals.answer('colors/blue/700', 'accept', tokens.navy.id);
+    const reloaded = new VariableApprovalService();
+    await reloaded.load();
+    const stored = await fake.clientStorage.getAsync('variable-approvals-v1-approvals-test');
+
+    // Next generation: the answer binds like an exact match
+    variableApprovals.resetQueue();
+    const approvedMatch = await resolveVariableWithContext('colors/blue/700', '#1D4ED8', inventory);
+    const after = await resolveNode(banner(), inventory);
+    const afterQueue = variableApprovals.getQueue();
+
+    return { tokens, before, queue, bannerFrame, afterReject, card, queuedGuess, guessTargets, reloaded, stored, approvedMatch, after, afterQueue };
+}
+
+runAll().then(({ tokens, before, queue, bannerFrame, afterReject, card, queuedGuess, guessTargets, reloaded, stored, approvedMatch, after, afterQueue }) => {
+    describe('Variable Approvals - queue', () => {
+        it('queues medium-confidence matches instead of binding them', () => {
+            expect(queue).toHaveLength(1);
+            expect(queue[0].token).toBe('colors/blue/700');
+            expect(queue[0].variableName).toBe('brand/blue-600');
+            expect(queue[0].method).toBe('proximity');
+            expect(Math.round(queue[0].confidence * 100)).toBe(65);
+            expect(before.tier).toBeGreaterThan(3);
+        });
+
+        it('offers other variables of the same type to pick instead', () => {
+            expect(queue[0].alternatives.map(v => v.name).join(',')).toBe('brand/navy');
+        });
+
+        it('records the node and property each match was requested for', () => {
+            expect(queue[0].targets.map(t => `${t.nodeId}.${t.property}`).join(',')).toBe('banner.fill');
+            expect(queuedGuess).toBe(true);
+            expect(guessTargets).toBe(1);
+        });
+
+        it('does not ask again about a skipped match or bind it', () => {
+            expect(afterReject).toHaveLength(0);
+            expect((bannerFrame.fills[0] as any).boundVariables === undefined).toBe(true);
+            expect((bannerFrame.fills[0] as SolidPaint).color.b).toBeCloseTo(0xD8 / 255, 3);
+        });
+
+        it('binds an accepted match on the rendered layers', () => {
+            expect(card.boundVariables.paddingTop.id).toBe(tokens.gap.id);
+            expect(card.boundVariables.paddingLeft.id).toBe(tokens.gap.id);
+            expect(card.boundVariables.itemSpacing === undefined).toBe(true);
+        });
+    });
+
+    describe('Variable Approvals - remembered answers', () => {
+        it('stores answers per file', () => {
+            expect(stored['colors/blue/700'].variableId).toBe(tokens.navy.id);
+            expect(reloaded.getApproved('colors/blue/700')).toBe(tokens.navy.id);
+        });
+
+        it('resolves an approved token at Tier 1 next time', () => {
+            expect(approvedMatch.tier).toBe(1);
+            expect(approvedMatch.method).toBe('approved');
+            expect(approvedMatch.variableId).toBe(tokens.navy.id);
+        });
+
+        it('binds the approved variable when the design is generated again', () => {
+            const instructions = after.instructions as FrameInstructions;
+            expect(after.tier).toBe(3);
+            expect(instructions.variableBindings!.fill).toBe(tokens.navy.id);
+            expect(afterQueue).toHaveLength(0);
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import { DesignSystemInventory, VariableInfo, getVariableValue } from '../services/auto-discovery';
+import { resolveVariableWithContext, preferSemanticVariable } from '../services/variable-resolver';
+import { findClosestColor } from '../services/primitive-scanner';
+import { createOfflinePipeline } from '../services/antigravity-pipeline';
+import { validateRSNT } from '../types/rsnt';
+import { describe, it, expect } from '../utils/simple-test';
+
+// To run: npx esbuild src/tests/variable-modes.test.ts --bundle --platform=node | node
+
+function color(name: string, light: string, dark: string): VariableInfo {
+    const rgb = (hex: string) => ({
+        r: parseInt(hex.slice(1, 3), 16) / 255,
+        g: parseInt(hex.slice(3, 5), 16) / 255,
+        b: parseInt(hex.slice(5, 7), 16) / 255,
+        a: 1
+    });
+    return {
+        id: name,
+        name,
+        resolvedType: 'COLOR',
+        value: rgb(light),
+        valuesByMode: { Light: rgb(light), Dark: rgb(dark) },
+        collectionId: 'theme',
+        collectionName: 'Theme',
+        scopes: ['ALL_SCOPES']
+    };
+}
+
+const surface = color('color/surface', '#FFFFFF', '#121212');
+const accent = color('color/accent', '#1E40AF', '#93C5FD');
+
+// A primitive and a semantic layer that only aliases it in Light
+const white = color('gray/0', '#FFFFFF', '#FFFFFF');
+const card = { ...color('color/card', '#FFFFFF', '#121212'), aliasOf: white.id };
+
+const inventory: DesignSystemInventory = {
+    components: [
+        { id: 'button', key: 'k-button', name: 'Button', type: 'COMPONENT', semanticType: 'button' },
+        { id: 'input', key: 'k-input', name: 'Input Field', type: 'COMPONENT', semanticType: 'input' }
+    ],
+    variables: [surface, accent],
+    fileKey: 'modes-test',
+    scannedAt: 0
+};
+
+async function runAll() {
+    // A near-black reference only matches a variable in dark mode
+    const darkMatch = await resolveVariableWithContext('bg-canvas', '#141414', inventory, 'Dark');
+    const lightMatch = await resolveVariableWithContext('bg-canvas', '#141414', inventory);
+    const lightAccent = await resolveVariableWithContext('bg-link', '#1E40AF', inventory, 'light');
+
+    const generated = await createOfflinePipeline(inventory, { variableMode: 'Dark' }).run('Create a login form');
+    const plain = await createOfflinePipeline(inventory).run('Create a login form');
+
+    return { darkMatch, lightMatch, lightAccent, generated, plain };
+}
+
+runAll().then(({ darkMatch, lightMatch, lightAccent, generated, plain }) => {
+    describe('Variable Modes - values', () => {
+        it('reads the value for a mode by name, case-insensitively', () => {
+            expect(getVariableValue(surface, 'Dark').r).toBe(0x12 / 255);
+            expect(getVariableValue(surface, 'dark').r).toBe(0x12 / 255);
+        });
+
+        it('falls back to the default-mode value', () => {
+            expect(getVariableValue(surface).r).toBe(1);
+            expect(getVariableValue(surface, 'Sepia').r).toBe(1);
+            const { valuesByMode, ...single } = surface;
+            expect(getVariableValue(single, 'Dark').r).toBe(1);
+        });
+    });
+
+    describe('Variable Modes - proximity matching', () => {
+        it('compares colors in the requested mode', () => {
+            expect(darkMatch.variableId).toBe('color/surface');
+            expect(darkMatch.tier).toBe(4);
+            expect(darkMatch.reasoning!).toContain('in Dark mode');
+        });
+
+        it('does not match dark values in the default mode', () => {
+            expect(lightMatch.tier).toBe(0);
+            expect(lightAccent.variableId).toBe('color/accent');
+        });
+
+        it('compares canvas primitives as their variables resolve in the mode', () => {
+            const canvas = new Map([['#FFFFFF', 12], ['#1E40AF', 3]]);
+            const dark = findClosestColor('#141414', canvas, inventory.variables, 'Dark');
+            expect(dark!.color).toBe('#121212');
+            expect(dark!.frequency).toBe(12);
+            expect(findClosestColor('#141414', canvas, inventory.variables) === null).toBe(true);
+            expect(findClosestColor('#FFFFFF', canvas, inventory.variables, 'Light')!.color).toBe('#FFFFFF');
+        });
+
+        it('prefers semantic aliases only where they keep the value in the mode', () => {
+            expect(preferSemanticVariable(white, [white, card]).id).toBe('color/card');
+            expect(preferSemanticVariable(white, [white, card], 'Light').id).toBe('color/card');
+            expect(preferSemanticVariable(white, [white, card], 'Dark').id).toBe('gray/0');
+        });
+    });
+
+    describe('Variable Modes - generation', () => {
+        it('stamps the target mode on the generated root', () => {
+            expect(generated.success).toBe(true);
+            expect(generated.rsnt!.variableMode).toBe('Dark');
+            expect(plain.rsnt!.variableMode === undefined).toBe(true);
+        });
+
+        it('validates variableMode as a root-only mode name', () => {
+            const context = { availableComponents: new Set<string>(), availableVariables: new Set<string>() };
+            const valid = validateRSNT({ id: 'root', type: 'FRAME', variableMode: 'Dark' }, context);
+            const nested = validateRSNT({ id: 'root', type: 'FRAME', children: [{ id: 'child', type: 'FRAME', variableMode: 'Dark' }] }, context);
+            const empty = validateRSNT({ id: 'root', type: 'FRAME', variableMode: ' ' }, context);
+
+            expect(valid.errors.filter(e => e.rule === 'invalid-variable-mode')).toHaveLength(0);
+            expect(nested.warnings.filter(w => w.rule === 'nested-variable-mode')).toHaveLength(1);
+            expect(empty.errors.filter(e => e.rule === 'invalid-variable-mode')).toHaveLength(1);
+        });
+    });
+});
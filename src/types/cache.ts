@@ -6,7 +6,7 @@ import { ComponentInfo, VariableInfo } from '../services/auto-discovery';
 export interface ComponentFingerprint {
     id: string;
     lastModified: string; // ISO timestamp from Figma node.lastModified
-    structureHash?: string; // Optional additional hash (e.g. from anatomy)
+    structureHash?: string; // Anatomy + property definitions hash (see calculateStructureHash)
 }
 
 /**
@@ -1,3 +1,13 @@
+/**
+ * Roles the AI classifier may assign (designers can enter any role)
+ */
+export const SEMANTIC_ROLES = [
+    'Button', 'Input', 'Card', 'Badge', 'Avatar', 'Checkbox', 'Radio', 'Select', 'Switch', 'Textarea',
+    'Alert', 'Toast', 'Dialog', 'Popover', 'Tooltip', 'Tabs', 'Navigation', 'Header', 'Footer', 'Sidebar',
+    'Container', 'Section', 'Label', 'Heading', 'Paragraph', 'Icon', 'Image', 'Divider', 'Spinner',
+    'Progress', 'Skeleton', 'Table', 'List', 'Grid'
+];
+
 export interface AIClassificationResponse {
     semanticRole: string;
     confidence: number;
@@ -62,3 +72,13 @@ export interface AppliedMapping {
     skippedProps: string[];
     warnings: string[];
 }
+
+/**
+ * Component variant property and value that represent an RSNT state
+ */
+export interface StateVariantMatch {
+    property: string;
+    value: string;
+    /** 'mapping' when found via the analyzed property mappings, 'name' when matched by property/value names */
+    source: 'mapping' | 'name';
+}
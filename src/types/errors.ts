@@ -18,6 +18,8 @@ export enum ErrorCode {
     MISSING_REQUIRED_PROPERTY = 1003,
     CIRCULAR_DEPENDENCY = 1004,
     EXCEEDS_MAX_DEPTH = 1005,
+    INVALID_EXPRESSION = 1006,
+    INVALID_BREAKPOINT = 1007,
 
     // 2000-2999: AI Orchestration Errors
     API_REQUEST_FAILED = 2001,
@@ -31,12 +33,14 @@ export enum ErrorCode {
     NO_VARIABLES_FOUND = 3002,
     FINGERPRINTING_FAILED = 3003,
     CACHE_CORRUPTED = 3004,
+    MANIFEST_INVALID = 3005,
 
     // 4000-4999: Resolution Errors
     NO_RESOLUTION_FOUND = 4001,
     COMPONENT_NOT_FOUND = 4002,
     VARIABLE_NOT_FOUND = 4003,
     MAPPING_FAILED = 4004,
+    POLICY_VIOLATION = 4005,
 
     // 5000-5999: Execution Errors
     NODE_CREATION_FAILED = 5001,
@@ -48,7 +52,9 @@ export enum ErrorCode {
     NO_RSNT_METADATA_FOUND = 6001,
     EXPORT_FORMAT_INVALID = 6002,
     CODE_GENERATION_FAILED = 6003,
-    EXPORT_VALIDATION_FAILED = 6004
+    EXPORT_VALIDATION_FAILED = 6004,
+    EXPORT_FEATURE_UNSUPPORTED = 6005,
+    EXPORT_SELECTION_EMPTY = 6006
 }
 
 export interface ErrorGuidance {
@@ -89,6 +95,18 @@ export const ERROR_GUIDANCE: Record<ErrorCode, ErrorGuidance> = {
         suggestions: ["Try breaking the request into smaller components", "Reduce the depth of nested elements"],
         recoverable: true
     },
+    [ErrorCode.INVALID_EXPRESSION]: {
+        message: "Invalid condition or placeholder expression",
+        guidance: "A node's condition or {{placeholder}} could not be parsed.",
+        suggestions: ["Use simple data paths like user.name or items.length", "Compare with ===, !==, <, >, and combine with && or ||"],
+        recoverable: true
+    },
+    [ErrorCode.INVALID_BREAKPOINT]: {
+        message: "Invalid responsive breakpoint override",
+        guidance: "A breakpoint override names an unknown breakpoint or sets an unusable layout or size.",
+        suggestions: ["Use the sm, md, lg, xl or 2xl breakpoints", "Give breakpoint widths and heights as positive numbers"],
+        recoverable: true
+    },
     [ErrorCode.API_REQUEST_FAILED]: {
         message: "AI API request failed",
         guidance: "There was a problem communicating with the AI service.",
@@ -143,6 +161,12 @@ export const ERROR_GUIDANCE: Record<ErrorCode, ErrorGuidance> = {
         suggestions: ["Click 'Refresh Components & Variables'"],
         recoverable: true
     },
+    [ErrorCode.MANIFEST_INVALID]: {
+        message: "Design-system manifest invalid",
+        guidance: "The imported file isn't a manifest this version of the plugin can read.",
+        suggestions: ["Export the manifest again from the source file", "Update the plugin in the source and target files"],
+        recoverable: true
+    },
     [ErrorCode.NO_RESOLUTION_FOUND]: {
         message: "No resolution found (all tiers failed)",
         guidance: "The system couldn't find any way to implement this element.",
@@ -167,6 +191,12 @@ export const ERROR_GUIDANCE: Record<ErrorCode, ErrorGuidance> = {
         suggestions: ["Check component variant property names", "Try a different component"],
         recoverable: true
     },
+    [ErrorCode.POLICY_VIOLATION]: {
+        message: "Resolution policy violated",
+        guidance: "Some elements need a fallback the selected resolution policy forbids, so nothing was rendered.",
+        suggestions: ["Add the missing components or tokens to your design system", "Switch to the Prototype policy to allow any fallback"],
+        recoverable: true
+    },
     [ErrorCode.NODE_CREATION_FAILED]: {
         message: "Figma node creation failed",
         guidance: "An error occurred while building the design in Figma.",
@@ -214,6 +244,18 @@ export const ERROR_GUIDANCE: Record<ErrorCode, ErrorGuidance> = {
         guidance: "The generated code contains errors.",
         suggestions: ["Try exporting again", "Modify the design slightly and retry"],
         recoverable: true
+    },
+    [ErrorCode.EXPORT_FEATURE_UNSUPPORTED]: {
+        message: "Design feature has no Tailwind equivalent",
+        guidance: "The exported code approximates or omits this feature.",
+        suggestions: ["Add the effect or positioning by hand", "Simplify the layer in Figma and export again"],
+        recoverable: true
+    },
+    [ErrorCode.EXPORT_SELECTION_EMPTY]: {
+        message: "Nothing selected to export",
+        guidance: "Code export works on the selected layer.",
+        suggestions: ["Select a frame or layer, then export again"],
+        recoverable: true
     }
 };
 
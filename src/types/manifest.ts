@@ -0,0 +1,45 @@
+import { ComponentInfo, VariableInfo, StyleInfo, DesignSystemGuidelines } from '../services/auto-discovery';
+
+/**
+ * Variable as exported: ids are file-specific, so aliases point at variable names
+ */
+export interface ManifestVariable extends Omit<VariableInfo, 'id' | 'aliasOf'> {
+    aliasOf?: string; // Name of the aliased variable
+}
+
+/**
+ * Portable design-system manifest.
+ * An exported inventory that can be imported into another file, where
+ * components are re-linked by key and variables by name.
+ */
+export interface InventoryManifest {
+    format: 'design-system-manifest';
+    version: number; // Schema version; imports reject newer versions
+    exportedAt: number;
+    sourceFileKey: string;
+
+    components: ComponentInfo[]; // ids are the source file's; `key` is the identity
+    variables: ManifestVariable[];
+    styles?: StyleInfo[];
+    guidelines?: DesignSystemGuidelines;
+    suggestedMappings?: Record<string, string>; // semanticRole -> component key
+}
+
+/**
+ * What an import re-linked, and what the target file is missing
+ */
+export interface ManifestImportReport {
+    components: {
+        linked: number;
+        library: number; // Library components kept for import by key
+        missing: string[]; // Names of local components not found in this file
+    };
+    variables: {
+        linked: number;
+        missing: string[];
+    };
+    styles: {
+        linked: number;
+        missing: string[];
+    };
+}
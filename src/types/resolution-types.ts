@@ -34,6 +34,7 @@ export interface ResolutionLogEntry extends ResolutionMetadata {
     warnings: DetailedWarning[];
     succeeded: boolean;
     attemptedTiers: Tier[];
+    trace?: ResolutionTrace;
 }
 
 export interface ResolutionStats {
@@ -56,11 +57,85 @@ export interface ResolutionSummary {
     nodeBreakdown: ResolutionLogEntry[];
 }
 
+// ============================================================================
+// RESOLUTION POLICIES
+// ============================================================================
+
+export type ResolutionPolicyName = 'prototype' | 'strict' | 'tokens-only';
+
+/**
+ * Limits on the fallback tiers resolution may use for a generation
+ */
+export interface ResolutionPolicy {
+    name: ResolutionPolicyName;
+    label: string;
+    description: string;
+    maxTier: Tier; // Highest tier a node may resolve at
+    allowRawValues: boolean; // Whether Tier 3 frames may keep raw values for classes no token matched
+}
+
+/**
+ * A node the active policy could not resolve, and what the design system lacked
+ */
+export interface PolicyViolation {
+    nodeId: string;
+    nodeName?: string;
+    policy: ResolutionPolicyName;
+    requiredTier: Tier; // First tier the policy forbids that the node would have needed
+    missing: string[]; // One entry per allowed tier that failed
+}
+
+// ============================================================================
+// RESOLUTION TRACES
+// ============================================================================
+
+/**
+ * Something a tier considered: a component, a Tailwind class or a raw value
+ */
+export interface TraceCandidate {
+    name: string;
+    id?: string;
+    score?: number; // Structural score out of 100 (Tier 2)
+    confidence?: number;
+    accepted: boolean;
+    reason?: string; // Why it was rejected
+    details?: string[];
+}
+
+/**
+ * What one tier tried and why it passed the node on
+ */
+export interface TierTrace {
+    tier: Tier;
+    outcome: 'selected' | 'rejected' | 'forbidden';
+    reason?: string; // From FALLBACK_REASONS, or the policy that forbade the tier
+    candidates: TraceCandidate[];
+    notes: string[];
+}
+
+/**
+ * The full reasoning behind one node's resolution
+ */
+export interface ResolutionTrace {
+    nodeId: string;
+    nodeName?: string;
+    semanticRole?: string;
+    tiers: TierTrace[];
+    outcome: {
+        tier: Tier;
+        method: string;
+        confidence: number;
+        componentName?: string;
+    } | null; // Null when a policy stopped resolution
+    figmaNodeId?: string; // The rendered node, linked after rendering
+}
+
 // ============================================================================
 // RESOLUTION CORE TYPES (Moved from resolution.ts)
 // ============================================================================
 
 import { ComponentInfo } from '../services/auto-discovery';
+import { Conflict } from '../services/conflicts';
 
 /**
  * Result of resolving a single RSNT node
@@ -72,10 +147,12 @@ export interface ResolutionResult {
     instructions: ExecutionInstructions;
     confidence: number;
     warnings: string[]; // Legacy warnings (string array)
+    trace?: ResolutionTrace; // Set by resolveNode
     metadata?: {
         nodeId: string;
         timeMs: number;
         fallbackReason?: string;
+        conflicts?: Conflict[]; // Values settled between component, preset, AI and system
     };
 }
 
@@ -90,6 +167,7 @@ export type ExecutionInstructions = ComponentInstructions | FrameInstructions;
 export interface ComponentInstructions {
     type: 'INSTANTIATE_COMPONENT';
     componentId: string;
+    componentKey?: string; // Set for library components so they can be imported on demand
     properties: Record<string, any>;
     overrides?: {
         fills?: any[];
@@ -110,11 +188,22 @@ export interface FrameInstructions {
         strokes?: any[];
         cornerRadius?: number;
         padding?: { top: number; right: number; bottom: number; left: number };
+        itemSpacing?: number;
     };
     variableBindings?: Record<string, string>;
+    styleBindings?: StyleBindings; // Local styles, used where no variable matched
     primitiveValues?: Record<string, any>;
 }
 
+/**
+ * Local style ids to bind on a created frame
+ */
+export interface StyleBindings {
+    fillStyleId?: string;
+    strokeStyleId?: string;
+    effectStyleId?: string;
+}
+
 /**
  * Structural match candidate with scoring details
  */
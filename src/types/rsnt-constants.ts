@@ -151,8 +151,51 @@ export const TAILWIND_CLASS_PREFIXES = [
     'm-', 'mx-', 'my-', 'mt-', 'mr-', 'mb-', 'ml-', 'w-', 'h-', 'gap-',
     'rounded-', 'shadow-', 'font-', 'flex-', 'grid-', 'items-', 'justify-',
     'opacity-', 'hover:', 'focus:', 'active:', 'disabled:', 'group-hover:',
+    'sm:', 'md:', 'lg:', 'xl:', '2xl:',
 ];
 
+/**
+ * Responsive breakpoints (Tailwind min-width semantics, mobile-first).
+ * Values are the frame width each breakpoint is rendered at; 'base' is the
+ * un-prefixed mobile layout.
+ */
+export const RESPONSIVE_BREAKPOINTS: Record<string, number> = {
+    'base': 375,
+    'sm': 640,
+    'md': 768,
+    'lg': 1024,
+    'xl': 1280,
+    '2xl': 1536,
+};
+
+// Breakpoint cascade order, smallest first
+export const BREAKPOINT_ORDER = ['sm', 'md', 'lg', 'xl', '2xl'] as const;
+
+// Node properties that may be overridden per breakpoint
+export const RESPONSIVE_OVERRIDE_PROPS = new Set([
+    'layoutMode',
+    'width',
+    'height',
+    'padding',
+    'itemSpacing',
+    'visible',
+]);
+
+/**
+ * Known component states and the variant values design systems commonly use
+ * for them. The first alias is the canonical name.
+ */
+export const COMPONENT_STATE_ALIASES: Record<string, string[]> = {
+    'default': ['default', 'enabled', 'rest', 'idle', 'normal'],
+    'hover': ['hover', 'hovered'],
+    'pressed': ['pressed', 'active'],
+    'focus': ['focus', 'focused', 'focus-visible'],
+    'disabled': ['disabled', 'inactive'],
+    'error': ['error', 'invalid', 'danger'],
+    'loading': ['loading', 'busy', 'pending'],
+    'selected': ['selected', 'checked', 'on'],
+};
+
 /**
  * Check if a Tailwind class is valid (either exact match or prefix match)
  */
@@ -2,6 +2,21 @@ import { ErrorCode, ERROR_GUIDANCE } from './errors';
 
 export type NodeType = 'COMPONENT_INSTANCE' | 'FRAME' | 'TEXT';
 
+export type Breakpoint = 'sm' | 'md' | 'lg' | 'xl' | '2xl';
+
+/**
+ * Properties a node may override at a breakpoint (mobile-first: an override
+ * applies from its breakpoint upward until a larger one overrides it again)
+ */
+export interface ResponsiveOverride {
+    layoutMode?: 'HORIZONTAL' | 'VERTICAL' | 'NONE';
+    width?: number;
+    height?: number;
+    padding?: RSNT_Node['padding'];
+    itemSpacing?: RSNT_Node['itemSpacing'];
+    visible?: boolean;
+}
+
 export interface RSNT_Node {
     id: string;
     type: NodeType;
@@ -11,6 +26,12 @@ export interface RSNT_Node {
     componentKey?: string; // Stable identifier for library components
     properties?: Record<string, string>;
 
+    // Icons by semantic name (e.g. "search", "chevron-right"). A COMPONENT_INSTANCE
+    // with `icon` and no componentId renders that icon; on other instances
+    // (buttons, inputs) `icon` and `trailingIcon` fill their icon slots.
+    icon?: string;
+    trailingIcon?: string;
+
     // For FRAME
     width?: number;
     height?: number;
@@ -48,6 +69,13 @@ export interface RSNT_Node {
     cornerRadius?: number | { variableId: string };
     strokeWeight?: number | { variableId: string };
 
+    // Local style bindings, for design systems built on styles rather than
+    // variables. A bound style wins over the raw fills/strokes/effects above.
+    fillStyleId?: string;
+    strokeStyleId?: string;
+    effectStyleId?: string;
+    textStyleId?: string; // TEXT only; replaces fontFamily/fontStyle/fontSize
+
     // Layout and Visibility
     opacity?: number;     // 0-1
     blendMode?: 'PASS_THROUGH' | 'NORMAL' | 'DARKEN' | 'MULTIPLY' | 'LINEAR_BURN' | 'COLOR_BURN' | 'LIGHTEN' | 'SCREEN' | 'LINEAR_DODGE' | 'COLOR_DODGE' | 'OVERLAY' | 'SOFT_LIGHT' | 'HARD_LIGHT' | 'DIFFERENCE' | 'EXCLUSION' | 'HUE' | 'SATURATION' | 'COLOR' | 'LUMINOSITY';
@@ -70,6 +98,25 @@ export interface RSNT_Node {
         blendMode?: string;
     }>;
 
+    // Responsive overrides, keyed by breakpoint
+    responsive?: Partial<Record<Breakpoint, ResponsiveOverride>>;
+
+    // Component states (e.g. 'hover', 'disabled', 'error', 'loading').
+    // `state` is the state to render and cascades to descendant instances;
+    // `states` lists every state the node should be shown in a state matrix.
+    state?: string;
+    states?: string[];
+
+    // Dynamic content: the node renders only when `condition` is truthy for the
+    // active scenario; `characters` may contain {{placeholders}}. `scenarios`
+    // (root only) declares named data contexts, e.g. { "empty": { "items": [] } }
+    condition?: string;
+    scenarios?: Record<string, Record<string, any>>;
+
+    // Variable mode to preview the design in, by mode name (e.g. "Dark", "Brand B").
+    // Root only; applied to every collection that declares a mode with that name.
+    variableMode?: string;
+
     // Children
     children?: RSNT_Node[];
 
@@ -146,8 +193,12 @@ export function validateRSNT(
         APPROVED_LAYOUT_PRIMITIVES,
         REQUIRED_PROPS_BY_TYPE,
         REQUIRED_PROPS_BY_ROLE,
+        RESPONSIVE_BREAKPOINTS,
+        RESPONSIVE_OVERRIDE_PROPS,
+        COMPONENT_STATE_ALIASES,
         isValidTailwindClass,
     } = require('./rsnt-constants');
+    const { checkExpression, getPlaceholders } = require('../services/dynamic-content');
 
     const maxDepth = options.maxDepth ?? MAX_NESTING_DEPTH;
 
@@ -217,7 +268,8 @@ export function validateRSNT(
         // Type-specific validation
         switch (currentNode.type) {
             case 'COMPONENT_INSTANCE':
-                if (!currentNode.componentId) {
+                // Icon nodes are resolved from the icon index before rendering
+                if (!currentNode.componentId && !currentNode.icon) {
                     if (currentNode.name) {
                         warnings.push({
                             rule: 'missing-id-fallback',
@@ -236,7 +288,7 @@ export function validateRSNT(
                             guidance: ERROR_GUIDANCE[code].guidance
                         });
                     }
-                } else if (!currentContext.availableComponents.has(currentNode.componentId) && !currentNode.componentKey) {
+                } else if (currentNode.componentId && !currentContext.availableComponents.has(currentNode.componentId) && !currentNode.componentKey) {
                     const code = ErrorCode.COMPONENT_NOT_FOUND;
                     errors.push({
                         rule: 'component-not-found',
@@ -375,6 +427,119 @@ export function validateRSNT(
             }
         }
 
+        // Validate responsive overrides
+        if (currentNode.responsive) {
+            for (const [breakpoint, override] of Object.entries(currentNode.responsive)) {
+                const overrideLocation = `${locationPath} @${breakpoint}`;
+
+                if (breakpoint === 'base' || !(breakpoint in RESPONSIVE_BREAKPOINTS)) {
+                    const code = ErrorCode.INVALID_BREAKPOINT;
+                    errors.push({ rule: 'invalid-breakpoint', message: `Node ${currentNode.id}: Unknown breakpoint "${breakpoint}" (expected ${Object.keys(RESPONSIVE_BREAKPOINTS).filter(b => b !== 'base').join(', ')})`, location: overrideLocation, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+                    continue;
+                }
+                if (!override || typeof override !== 'object') {
+                    const code = ErrorCode.INVALID_BREAKPOINT;
+                    errors.push({ rule: 'invalid-responsive-override', message: `Node ${currentNode.id}: Override for "${breakpoint}" must be an object`, location: overrideLocation, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+                    continue;
+                }
+
+                for (const key of Object.keys(override)) {
+                    if (!RESPONSIVE_OVERRIDE_PROPS.has(key)) {
+                        warnings.push({ rule: 'unsupported-responsive-prop', message: `Node ${currentNode.id}: "${key}" cannot be overridden per breakpoint and will be ignored`, location: overrideLocation, severity: 'warning' });
+                    }
+                }
+
+                if (override.layoutMode && !['HORIZONTAL', 'VERTICAL', 'NONE'].includes(override.layoutMode)) {
+                    const code = ErrorCode.INVALID_BREAKPOINT;
+                    errors.push({ rule: 'invalid-responsive-layout', message: `Node ${currentNode.id}: Invalid layoutMode "${override.layoutMode}" at ${breakpoint}`, location: overrideLocation, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+                }
+                if (override.width !== undefined && !(override.width > 0)) {
+                    const code = ErrorCode.INVALID_BREAKPOINT;
+                    errors.push({ rule: 'invalid-dimension', message: `Node ${currentNode.id}: Width at ${breakpoint} must be positive`, location: overrideLocation, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+                }
+                if (override.height !== undefined && !(override.height > 0)) {
+                    const code = ErrorCode.INVALID_BREAKPOINT;
+                    errors.push({ rule: 'invalid-dimension', message: `Node ${currentNode.id}: Height at ${breakpoint} must be positive`, location: overrideLocation, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+                }
+
+                const spacingRefs: Array<[string, any]> = [['itemSpacing', override.itemSpacing]];
+                if (override.padding) {
+                    for (const side of ['top', 'right', 'bottom', 'left'] as const) {
+                        spacingRefs.push([`padding.${side}`, override.padding[side]]);
+                    }
+                }
+                for (const [prop, value] of spacingRefs) {
+                    if (value && typeof value === 'object' && value.variableId && !currentContext.availableVariables.has(value.variableId)) {
+                        const code = ErrorCode.VARIABLE_NOT_FOUND;
+                        errors.push({ rule: 'variable-not-found', message: `Node ${currentNode.id}: ${prop} variable ${value.variableId} at ${breakpoint} not found`, location: overrideLocation, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+                    }
+                }
+            }
+        }
+
+        // Validate component states
+        if (currentNode.state !== undefined) {
+            if (typeof currentNode.state !== 'string' || currentNode.state.trim() === '') {
+                const code = ErrorCode.MISSING_REQUIRED_PROPERTY;
+                errors.push({ rule: 'invalid-state', message: `Node ${currentNode.id}: state must be a non-empty string`, location: locationPath, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+            } else if (!(currentNode.state in COMPONENT_STATE_ALIASES)) {
+                warnings.push({ rule: 'unknown-state', message: `Node ${currentNode.id}: "${currentNode.state}" is not a known state and will only apply if a component variant matches it by name`, location: locationPath, severity: 'warning' });
+            }
+        }
+        if (currentNode.states !== undefined) {
+            if (!Array.isArray(currentNode.states) || currentNode.states.some(st => typeof st !== 'string' || st.trim() === '')) {
+                const code = ErrorCode.MISSING_REQUIRED_PROPERTY;
+                errors.push({ rule: 'invalid-states', message: `Node ${currentNode.id}: states must be a list of non-empty strings`, location: locationPath, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+            } else {
+                const seen = new Set<string>();
+                for (const st of currentNode.states) {
+                    if (seen.has(st)) {
+                        warnings.push({ rule: 'duplicate-state', message: `Node ${currentNode.id}: state "${st}" is declared more than once`, location: locationPath, severity: 'warning' });
+                    } else if (!(st in COMPONENT_STATE_ALIASES)) {
+                        warnings.push({ rule: 'unknown-state', message: `Node ${currentNode.id}: "${st}" is not a known state and will only apply if a component variant matches it by name`, location: locationPath, severity: 'warning' });
+                    }
+                    seen.add(st);
+                }
+            }
+        }
+
+        // Validate dynamic content expressions
+        const expressions: Array<[string, string]> = [];
+        if (currentNode.condition !== undefined) {
+            expressions.push(['condition', typeof currentNode.condition === 'string' ? currentNode.condition : '']);
+        }
+        if (typeof currentNode.characters === 'string') {
+            for (const placeholder of getPlaceholders(currentNode.characters) as string[]) {
+                expressions.push([`placeholder {{${placeholder}}}`, placeholder]);
+            }
+        }
+        for (const [label, expression] of expressions) {
+            const problem = checkExpression(expression);
+            if (problem) {
+                const code = ErrorCode.INVALID_EXPRESSION;
+                errors.push({ rule: 'invalid-expression', message: `Node ${currentNode.id}: Invalid ${label}: ${problem}`, location: locationPath, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+            }
+        }
+        if (currentNode.scenarios !== undefined) {
+            const scenarios = currentNode.scenarios;
+            const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+            if (!isObject(scenarios) || Object.values(scenarios).some(data => !isObject(data))) {
+                const code = ErrorCode.MISSING_REQUIRED_PROPERTY;
+                errors.push({ rule: 'invalid-scenarios', message: `Node ${currentNode.id}: scenarios must map scenario names to data objects`, location: locationPath, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+            }
+            if (depth > 0) {
+                warnings.push({ rule: 'nested-scenarios', message: `Node ${currentNode.id}: scenarios are only read from the root node`, location: locationPath, severity: 'warning' });
+            }
+        }
+        if (currentNode.variableMode !== undefined) {
+            if (typeof currentNode.variableMode !== 'string' || !currentNode.variableMode.trim()) {
+                const code = ErrorCode.MISSING_REQUIRED_PROPERTY;
+                errors.push({ rule: 'invalid-variable-mode', message: `Node ${currentNode.id}: variableMode must be a mode name`, location: locationPath, severity: 'error', code, guidance: ERROR_GUIDANCE[code].guidance });
+            } else if (depth > 0) {
+                warnings.push({ rule: 'nested-variable-mode', message: `Node ${currentNode.id}: variableMode is only read from the root node`, location: locationPath, severity: 'warning' });
+            }
+        }
+
         // Recursive validation with context
         if (currentNode.children) {
             currentNode.children.forEach((child, idx) => {
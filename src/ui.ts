@@ -1,8 +1,17 @@
 import { conversationManager } from './services/conversation-manager';
 import { DesignSystemInventory } from './services/auto-discovery';
 import { RateLimiter } from './libs/rate-limiter';
-import { UserFacingError, RenderError, formatError } from './types/errors';
-import { ResolutionSummary } from './types/resolution-types';
+import { UserFacingError, RenderError, ErrorCode, formatError } from './types/errors';
+import { ResolutionSummary, ResolutionTrace, TierTrace } from './types/resolution-types';
+import { CodeExportWarning } from './services/code-export';
+import { AIProviderId, AIProviderSettings, AI_PROVIDER_INFO, validateProviderKey } from './services/ai-provider';
+import { ChangelogEntry } from './services/inventory-changelog';
+import { PendingVariableMatch } from './services/variable-approvals';
+import { DesignPreset, PresetInput, describePreset } from './services/design-presets';
+import { ConflictLog, ConflictSourceType } from './services/conflicts';
+import { ConflictPreference, CONFLICT_SOURCE_LABELS, preferenceKey } from './services/conflict-preferences';
+import { rgbToHex } from './libs/color-utils';
+import { PropertyAnalysis, PropertyType, SEMANTIC_ROLES } from './types/classification';
 
 const intentInput = document.getElementById('intent-input') as HTMLInputElement;
 const generateBtn = document.getElementById('generate-btn') as HTMLButtonElement;
@@ -10,6 +19,10 @@ const refreshBtn = document.getElementById('refresh-inventory') as HTMLButtonEle
 const statusArea = document.getElementById('status-area') as HTMLDivElement;
 const apiKeyInput = document.getElementById('api-key') as HTMLInputElement;
 const saveKeyBtn = document.getElementById('save-key') as HTMLButtonElement;
+const providerSelect = document.getElementById('ai-provider') as HTMLSelectElement;
+const modelInput = document.getElementById('ai-model') as HTMLInputElement;
+const baseUrlInput = document.getElementById('ai-base-url') as HTMLInputElement;
+const baseUrlGroup = document.getElementById('ai-base-url-group') as HTMLDivElement;
 const charCounter = document.getElementById('char-counter') as HTMLDivElement;
 const cooldownTimer = document.getElementById('cooldown-timer') as HTMLDivElement;
 const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement;
@@ -18,6 +31,28 @@ const clearConvBtn = document.getElementById('clear-conv-btn') as HTMLButtonElem
 const undoChangeBtn = document.getElementById('undo-change-btn') as HTMLButtonElement;
 const forceRefreshBtn = document.getElementById('force-refresh-btn') as HTMLButtonElement;
 const cacheStats = document.getElementById('cache-stats') as HTMLDivElement;
+const copyAsCodeBtn = document.getElementById('copy-as-code-btn') as HTMLButtonElement;
+const stateMatrixToggle = document.getElementById('state-matrix-toggle') as HTMLInputElement;
+const offlineModeToggle = document.getElementById('offline-mode-toggle') as HTMLInputElement;
+const variableModeSelect = document.getElementById('variable-mode-select') as HTMLSelectElement;
+const resolutionPolicySelect = document.getElementById('resolution-policy-select') as HTMLSelectElement;
+const scenarioNameInput = document.getElementById('scenario-name') as HTMLInputElement;
+const scenarioDataInput = document.getElementById('scenario-data') as HTMLTextAreaElement;
+const scenarioNameList = document.getElementById('scenario-names') as HTMLDataListElement;
+const applyScenarioBtn = document.getElementById('apply-scenario-btn') as HTMLButtonElement;
+const exportManifestBtn = document.getElementById('export-manifest-btn') as HTMLButtonElement;
+const importManifestBtn = document.getElementById('import-manifest-btn') as HTMLButtonElement;
+const importManifestFile = document.getElementById('import-manifest-file') as HTMLInputElement;
+const changelogSection = document.getElementById('changelog-section') as HTMLDetailsElement;
+const changelogList = document.getElementById('changelog-list') as HTMLDivElement;
+const componentRoleFilter = document.getElementById('component-role-filter') as HTMLInputElement;
+const componentRoleList = document.getElementById('component-role-list') as HTMLDivElement;
+const semanticRoleOptions = document.getElementById('semantic-roles') as HTMLDataListElement;
+const designPresetSelect = document.getElementById('design-preset-select') as HTMLSelectElement;
+const designPresetList = document.getElementById('design-preset-list') as HTMLDivElement;
+const presetNameInput = document.getElementById('preset-name') as HTMLInputElement;
+const presetScopeSelect = document.getElementById('preset-scope') as HTMLSelectElement;
+const savePresetBtn = document.getElementById('save-preset-btn') as HTMLButtonElement;
 
 // Antigravity dialog elements
 const antigravityDialog = document.getElementById('antigravity-dialog') as HTMLDivElement;
@@ -25,6 +60,8 @@ const closeAntigravityBtn = document.getElementById('close-antigravity-btn') as
 const dismissAntigravityBtn = document.getElementById('dismiss-antigravity-btn') as HTMLButtonElement;
 
 let currentInventory: DesignSystemInventory | null = null;
+let pendingVariableMatches: PendingVariableMatch[] = [];
+let conflictReport: ConflictLog[] = [];
 const rateLimiter = new RateLimiter(2000); // 2 second minimum interval
 
 function escapeHtml(str: string): string {
@@ -45,30 +82,91 @@ if (intentInput && charCounter) {
 }
 
 // Request API key on load
-parent.postMessage({ pluginMessage: { type: 'get-api-key' } }, '*');
+parent.postMessage({ pluginMessage: { type: 'get-ai-settings' } }, '*');
 
 // Request inventory on load
 parent.postMessage({ pluginMessage: { type: 'get-inventory' } }, '*');
 
-// Save API key
+// Request design presets and conflict preferences on load
+parent.postMessage({ pluginMessage: { type: 'get-design-presets' } }, '*');
+parent.postMessage({ pluginMessage: { type: 'get-conflict-preferences' } }, '*');
+
+// AI provider settings (one key per provider; the selected provider is used for generation)
+let aiSettings: AIProviderSettings = { active: 'gemini', providers: {} };
+// Settings as last saved in the plugin; generation reads these, not the form
+let savedAiSettings: AIProviderSettings = { active: 'gemini', providers: {} };
+
+function storeProviderFields(id: AIProviderId) {
+    const apiKey = apiKeyInput.value.trim().replace(/^#/, '');
+    const model = modelInput.value.trim();
+    const baseUrl = baseUrlInput.value.trim();
+    aiSettings.providers[id] = {
+        apiKey,
+        ...(model && { model }),
+        ...(id === 'openai' && baseUrl && { baseUrl })
+    };
+}
+
+function showProviderFields(id: AIProviderId) {
+    const config = aiSettings.providers[id];
+    const info = AI_PROVIDER_INFO[id];
+    providerSelect.value = id;
+    apiKeyInput.value = config?.apiKey || '';
+    apiKeyInput.placeholder = info.keyHint;
+    modelInput.value = config?.model || '';
+    modelInput.placeholder = info.defaultModel;
+    baseUrlInput.value = config?.baseUrl || '';
+    baseUrlGroup.style.display = id === 'openai' ? 'block' : 'none';
+}
+
+/**
+ * Error message when the saved provider can't be used, or null.
+ * Unsaved edits in the form don't count: generation uses the stored settings.
+ */
+function getProviderError(): string | null {
+    const error = validateProviderKey(savedAiSettings.active, savedAiSettings.providers[savedAiSettings.active]);
+    return error ? `${error}, then save the settings` : null;
+}
+
+if (providerSelect) {
+    providerSelect.onchange = () => {
+        storeProviderFields(aiSettings.active);
+        aiSettings.active = providerSelect.value as AIProviderId;
+        showProviderFields(aiSettings.active);
+    };
+}
+
 if (saveKeyBtn && apiKeyInput) {
     saveKeyBtn.onclick = () => {
-        let key = apiKeyInput.value.trim();
-        // Remove leading '#' if present
-        key = key.replace(/^#/, '');
+        aiSettings.active = providerSelect.value as AIProviderId;
+        storeProviderFields(aiSettings.active);
+        const error = validateProviderKey(aiSettings.active, aiSettings.providers[aiSettings.active]);
 
-        if (key) {
-            parent.postMessage({ pluginMessage: { type: 'set-api-key', key } }, '*');
+        if (!error) {
+            savedAiSettings = JSON.parse(JSON.stringify(aiSettings));
+            parent.postMessage({ pluginMessage: { type: 'set-ai-settings', settings: aiSettings } }, '*');
         } else {
-            showStatus('error', 'Please enter a valid API key');
+            showStatus('error', error);
         }
     };
 }
 
-function showResolutionSummary(summary: ResolutionSummary) {
+function showResolutionSummary(summary: ResolutionSummary, conflicts: ConflictLog[] = []) {
     const dialog = document.getElementById('summary-dialog');
     if (!dialog) return;
 
+    // Auto-resolved conflicts, reviewable in the conflict report
+    conflictReport = conflicts;
+    const conflictNotice = document.getElementById('conflict-notice');
+    const conflictCount = conflicts.reduce((sum, log) => sum + log.conflicts.length, 0);
+    if (conflictNotice) {
+        conflictNotice.style.display = conflictCount > 0 ? 'flex' : 'none';
+        const count = document.getElementById('conflict-notice-count');
+        if (count) count.textContent = `${conflictCount} ${conflictCount === 1 ? 'conflict' : 'conflicts'}`;
+        const reviewBtn = document.getElementById('review-conflicts-btn');
+        if (reviewBtn) reviewBtn.onclick = showConflictReport;
+    }
+
     // Quality Badge
     const badge = document.getElementById('quality-badge');
     if (badge) {
@@ -109,6 +207,8 @@ function showResolutionSummary(summary: ResolutionSummary) {
         recList.innerHTML = items || '<li>No specific recommendations.</li>';
     }
 
+    renderTraceNodeList(summary);
+
     dialog.style.display = 'flex';
 
     // Button Listeners - with null checks
@@ -116,11 +216,16 @@ function showResolutionSummary(summary: ResolutionSummary) {
     const dismissSummaryBtn = document.getElementById('dismiss-summary-btn');
     const viewDetailsBtn = document.getElementById('view-details-btn');
 
+    // Variable matches waiting for approval come up once the summary closes
+    const closeSummary = () => {
+        dialog.style.display = 'none';
+        if (pendingVariableMatches.length > 0) showVariableApprovals();
+    };
     if (closeSummaryBtn) {
-        closeSummaryBtn.onclick = () => dialog.style.display = 'none';
+        closeSummaryBtn.onclick = closeSummary;
     }
     if (dismissSummaryBtn) {
-        dismissSummaryBtn.onclick = () => dialog.style.display = 'none';
+        dismissSummaryBtn.onclick = closeSummary;
     }
     if (viewDetailsBtn) {
         viewDetailsBtn.onclick = () => {
@@ -134,6 +239,294 @@ function showResolutionSummary(summary: ResolutionSummary) {
     }
 }
 
+const CONFLICT_PROPERTY_LABELS: Record<string, string> = {
+    padding: 'Padding',
+    itemSpacing: 'Gap',
+    cornerRadius: 'Corner radius',
+    fill: 'Fill',
+    stroke: 'Stroke',
+    height: 'Height',
+    width: 'Width',
+    fontSize: 'Font size'
+};
+
+/**
+ * Readable conflict value: px sizes, padding sides, or the hex of a solid paint
+ */
+function formatConflictValue(value: any): string {
+    if (typeof value === 'number') return `${value}px`;
+    if (Array.isArray(value)) {
+        const solid = value.find(p => p && p.type === 'SOLID' && p.color);
+        return solid ? rgbToHex(solid.color) : `${value.length} paint(s)`;
+    }
+    if (value && typeof value === 'object' && 'top' in value) {
+        return `${value.top} ${value.right} ${value.bottom} ${value.left}px`;
+    }
+    return String(value);
+}
+
+/**
+ * Every conflict from the last generation: the competing values, the winner
+ * and why. Another value can be applied to the canvas node, and optionally
+ * remembered as a rule for the component or role.
+ */
+function showConflictReport() {
+    const dialog = document.getElementById('conflict-report-dialog');
+    const list = document.getElementById('conflict-report-list');
+    if (!dialog || !list) return;
+
+    list.innerHTML = conflictReport.map((log, logIndex) => log.conflicts.map((conflict, conflictIndex) => {
+        const sources = [...conflict.sources].sort((a, b) => a.priority - b.priority);
+        const rows = sources.map(source => {
+            const won = source.source === conflict.winner.source;
+            return `
+                <div class="conflict-source${won ? ' winner' : ''}">
+                    <span class="conflict-source-label">${escapeHtml(CONFLICT_SOURCE_LABELS[source.source])}</span>
+                    <span class="conflict-source-value">${escapeHtml(formatConflictValue(source.value))}</span>
+                    ${won
+                        ? '<span class="conflict-used">✓ Used</span>'
+                        : `<button class="secondary" data-log="${logIndex}" data-conflict="${conflictIndex}" data-source="${source.source}"${log.figmaNodeId ? '' : ' disabled title="Node was not rendered"'}>Use</button>`}
+                </div>`;
+        }).join('');
+        return `
+            <div class="conflict-item">
+                <div class="conflict-title">${escapeHtml(log.nodeName || log.subject || log.nodeId)} · ${escapeHtml(CONFLICT_PROPERTY_LABELS[conflict.property] || conflict.property)}</div>
+                ${rows}
+                <div class="help-text">${escapeHtml(conflict.reason)}</div>
+                ${log.subject ? `
+                <label class="conflict-remember">
+                    <input type="checkbox" id="conflict-remember-${logIndex}-${conflictIndex}">
+                    Always use my choice for ${escapeHtml(preferenceKey(log.subject, conflict.property))}
+                </label>` : ''}
+            </div>`;
+    }).join('')).join('') || '<p class="help-text">No conflicts in the last generation.</p>';
+
+    list.querySelectorAll<HTMLButtonElement>('button[data-source]').forEach(button => {
+        button.onclick = () => {
+            const log = conflictReport[Number(button.dataset.log)];
+            const conflict = log.conflicts[Number(button.dataset.conflict)];
+            const source = conflict.sources.find(s => s.source === button.dataset.source)!;
+            const remember = document.getElementById(`conflict-remember-${button.dataset.log}-${button.dataset.conflict}`) as HTMLInputElement | null;
+            button.disabled = true;
+            parent.postMessage({
+                pluginMessage: {
+                    type: 'override-conflict',
+                    figmaNodeId: log.figmaNodeId,
+                    property: conflict.property,
+                    source: source.source,
+                    value: source.value,
+                    subject: log.subject,
+                    remember: !!remember?.checked
+                }
+            }, '*');
+        };
+    });
+
+    const hide = () => { dialog.style.display = 'none'; };
+    const closeBtn = document.getElementById('close-conflict-report-btn');
+    const dismissBtn = document.getElementById('dismiss-conflict-report-btn');
+    if (closeBtn) closeBtn.onclick = hide;
+    if (dismissBtn) dismissBtn.onclick = hide;
+
+    dialog.style.display = 'flex';
+}
+
+/**
+ * Mark the designer's choice as the winner once it is on the canvas
+ */
+function markConflictOverridden(figmaNodeId: string, property: string, source: ConflictSourceType) {
+    conflictReport.forEach(log => {
+        if (log.figmaNodeId !== figmaNodeId) return;
+        log.conflicts.forEach(conflict => {
+            const chosen = conflict.sources.find(s => s.source === source);
+            if (conflict.property !== property || !chosen) return;
+            conflict.winner = chosen;
+            conflict.reason = 'Changed by you in this report';
+        });
+    });
+    const dialog = document.getElementById('conflict-report-dialog');
+    if (dialog && dialog.style.display !== 'none') showConflictReport();
+}
+
+/**
+ * Saved "always use" rules, each removable
+ */
+function renderConflictPreferences(preferences: ConflictPreference[]) {
+    const list = document.getElementById('conflict-preference-list');
+    if (!list) return;
+    if (preferences.length === 0) {
+        list.innerHTML = '<p class="help-text">No preferences yet. Remember a choice from the conflict report to add one.</p>';
+        return;
+    }
+    list.innerHTML = preferences.map(p => {
+        const key = preferenceKey(p.subject, p.property);
+        return `
+            <div class="preset-row">
+                <div>
+                    <div class="preset-name">${escapeHtml(key)}</div>
+                    <div class="help-text">Always use ${escapeHtml(CONFLICT_SOURCE_LABELS[p.always].toLowerCase())} value${p.reason ? ` · ${escapeHtml(p.reason)}` : ''}</div>
+                </div>
+                <button class="secondary destructive" data-preference-key="${escapeHtml(key)}">Remove</button>
+            </div>`;
+    }).join('');
+    list.querySelectorAll<HTMLButtonElement>('button[data-preference-key]').forEach(btn => {
+        btn.onclick = () => parent.postMessage({ pluginMessage: { type: 'remove-conflict-preference', key: btn.dataset.preferenceKey } }, '*');
+    });
+}
+
+/**
+ * Queue of medium-confidence variable matches: use the suggestion, pick
+ * another variable of the same type, or skip it for good
+ */
+function showVariableApprovals() {
+    const dialog = document.getElementById('variable-approval-dialog');
+    const list = document.getElementById('variable-approval-list');
+    const count = document.getElementById('variable-approval-count');
+    if (!dialog || !list) return;
+
+    if (pendingVariableMatches.length === 0) {
+        dialog.style.display = 'none';
+        return;
+    }
+
+    if (count) count.textContent = String(pendingVariableMatches.length);
+
+    list.innerHTML = pendingVariableMatches.map((match, i) => `
+        <div class="variable-match">
+            <div><b>Looking for:</b> ${escapeHtml(match.token)}</div>
+            <div><b>Best match:</b> ${escapeHtml(match.variableName)} (${Math.round(match.confidence * 100)}% confident)</div>
+            ${match.reasoning ? `<div class="help-text">${escapeHtml(match.reasoning)}</div>` : ''}
+            <div class="variable-match-actions">
+                <button class="primary" data-index="${i}" data-action="accept">✓ Use</button>
+                <select data-index="${i}" data-action="choose">
+                    <option value="">Pick different…</option>
+                    ${match.alternatives.map(v => `<option value="${escapeHtml(v.id)}">${escapeHtml(v.name)}</option>`).join('')}
+                </select>
+                <button class="secondary" data-index="${i}" data-action="reject">Skip</button>
+            </div>
+        </div>`).join('');
+
+    const answer = (index: number, decision: 'accept' | 'reject', variableId?: string) => {
+        const match = pendingVariableMatches[index];
+        parent.postMessage({ pluginMessage: { type: 'answer-variable-match', token: match.token, decision, variableId } }, '*');
+        pendingVariableMatches = pendingVariableMatches.filter((_, i) => i !== index);
+        showVariableApprovals();
+    };
+
+    list.querySelectorAll<HTMLButtonElement>('button[data-action]').forEach(button => {
+        button.onclick = () => answer(Number(button.dataset.index), button.dataset.action as 'accept' | 'reject');
+    });
+    list.querySelectorAll<HTMLSelectElement>('select[data-action="choose"]').forEach(select => {
+        select.onchange = () => {
+            if (select.value) answer(Number(select.dataset.index), 'accept', select.value);
+        };
+    });
+
+    const hide = () => {
+        dialog.style.display = 'none';
+        pendingVariableMatches = [];
+    };
+    const closeBtn = document.getElementById('close-variable-approval-btn');
+    const laterBtn = document.getElementById('later-variable-approval-btn');
+    const acceptAllBtn = document.getElementById('accept-all-variable-approval-btn');
+    if (closeBtn) closeBtn.onclick = hide;
+    if (laterBtn) laterBtn.onclick = hide;
+    if (acceptAllBtn) {
+        acceptAllBtn.onclick = () => {
+            pendingVariableMatches.forEach(match => {
+                parent.postMessage({ pluginMessage: { type: 'answer-variable-match', token: match.token, decision: 'accept' } }, '*');
+            });
+            hide();
+        };
+    }
+
+    dialog.style.display = 'flex';
+}
+
+/**
+ * List the resolved nodes in the summary dialog; clicking one opens its trace
+ */
+function renderTraceNodeList(summary: ResolutionSummary) {
+    const detailsSection = document.getElementById('summary-details-expanded');
+    const list = document.getElementById('trace-node-list');
+    const inspector = document.getElementById('trace-inspector');
+    const viewDetailsBtn = document.getElementById('view-details-btn');
+    if (!list || !inspector) return;
+
+    // Each new summary starts collapsed
+    if (detailsSection) detailsSection.style.display = 'none';
+    if (viewDetailsBtn) viewDetailsBtn.textContent = 'View Details';
+    inspector.innerHTML = '';
+
+    const traces = summary.nodeBreakdown
+        .map(entry => entry.trace)
+        .filter((trace): trace is ResolutionTrace => !!trace);
+
+    if (traces.length === 0) {
+        list.innerHTML = '<li class="help-text">Every node matched a component directly; nothing needed fallback resolution.</li>';
+        return;
+    }
+
+    list.innerHTML = traces.map((trace, i) => {
+        const outcome = trace.outcome
+            ? `Tier ${trace.outcome.tier} · ${trace.outcome.method.replace(/_/g, ' ')}`
+            : 'Blocked by policy';
+        return `<li><button class="trace-node secondary" data-index="${i}">${escapeHtml(trace.nodeName || trace.nodeId)} — ${escapeHtml(outcome)}</button></li>`;
+    }).join('');
+
+    list.querySelectorAll<HTMLButtonElement>('.trace-node').forEach(button => {
+        button.onclick = () => {
+            list.querySelectorAll('.trace-node').forEach(b => b.classList.remove('active'));
+            button.classList.add('active');
+            renderTraceInspector(traces[Number(button.dataset.index)], inspector);
+        };
+    });
+}
+
+function renderTierTrace(tier: TierTrace): string {
+    const heading = tier.outcome === 'selected' ? 'Selected' : tier.outcome === 'forbidden' ? 'Forbidden' : 'Rejected';
+    const candidates = tier.candidates.map(c => {
+        const scores = [
+            c.score !== undefined ? `score ${c.score}/100` : '',
+            c.confidence !== undefined ? `${(c.confidence * 100).toFixed(0)}%` : ''
+        ].filter(Boolean).join(', ');
+        const details = [...(c.details || []), ...(c.reason ? [c.reason] : [])].join(' · ');
+        return `<li>${c.accepted ? '✓' : '✗'} <b>${escapeHtml(c.name)}</b>${scores ? ` (${escapeHtml(scores)})` : ''}${details ? ` — ${escapeHtml(details)}` : ''}</li>`;
+    }).join('');
+
+    return `
+        <div class="trace-tier ${tier.outcome}">
+            <div><b>Tier ${tier.tier}</b> — ${heading}</div>
+            ${tier.reason ? `<div class="trace-reason">${escapeHtml(tier.reason)}</div>` : ''}
+            ${tier.notes.map(note => `<div class="trace-reason">${escapeHtml(note)}</div>`).join('')}
+            ${candidates ? `<ul class="trace-candidates">${candidates}</ul>` : ''}
+        </div>`;
+}
+
+/**
+ * Show one node's resolution: each tier tried, its candidates and why it passed the node on
+ */
+function renderTraceInspector(trace: ResolutionTrace, inspector: HTMLElement) {
+    const outcome = trace.outcome
+        ? `Tier ${trace.outcome.tier}, ${(trace.outcome.confidence * 100).toFixed(0)}% confidence${trace.outcome.componentName ? ` (${trace.outcome.componentName})` : ''}`
+        : 'Not rendered: blocked by the resolution policy';
+
+    inspector.innerHTML = `
+        <div class="trace-inspector-header">
+            <span>${escapeHtml(trace.nodeName || trace.nodeId)}${trace.semanticRole ? ` · ${escapeHtml(trace.semanticRole)}` : ''}</span>
+            ${trace.figmaNodeId ? '<button id="trace-select-btn" class="secondary">Select on canvas</button>' : ''}
+        </div>
+        <div class="trace-reason">${escapeHtml(outcome)}</div>
+        ${trace.tiers.map(renderTierTrace).join('')}`;
+
+    const selectBtn = document.getElementById('trace-select-btn');
+    if (selectBtn && trace.figmaNodeId) {
+        selectBtn.onclick = () => {
+            parent.postMessage({ pluginMessage: { type: 'select-node', nodeId: trace.figmaNodeId } }, '*');
+        };
+    }
+}
+
 // Add after saveKeyBtn.onclick
 if (refreshBtn) {
     refreshBtn.onclick = () => {
@@ -151,6 +544,354 @@ if (forceRefreshBtn) {
     };
 }
 
+if (copyAsCodeBtn) {
+    copyAsCodeBtn.onclick = () => {
+        showStatus('loading', 'Exporting selection as code...');
+        parent.postMessage({ pluginMessage: { type: 'export-selection-code' } }, '*');
+    };
+}
+
+if (exportManifestBtn) {
+    exportManifestBtn.onclick = () => {
+        showStatus('loading', 'Exporting manifest...');
+        parent.postMessage({ pluginMessage: { type: 'export-inventory' } }, '*');
+    };
+}
+
+if (importManifestBtn && importManifestFile) {
+    importManifestBtn.onclick = () => importManifestFile.click();
+    importManifestFile.onchange = () => {
+        const file = importManifestFile.files?.[0];
+        if (!file) return;
+        const reader = new FileReader();
+        reader.onload = () => {
+            parent.postMessage({ pluginMessage: { type: 'import-inventory', json: String(reader.result) } }, '*');
+        };
+        reader.readAsText(file);
+        importManifestFile.value = '';
+    };
+}
+
+/**
+ * List changes between discovery runs, newest first. Opens the section when the
+ * latest scan changed something, and flags designs that use removed components.
+ */
+function renderChangelog(entries: ChangelogEntry[], latest: ChangelogEntry | null) {
+    if (!changelogList) return;
+    if (entries.length === 0) {
+        changelogList.innerHTML = '<p class="help-text">No changes recorded yet.</p>';
+        return;
+    }
+
+    changelogList.innerHTML = entries.map(entry => {
+        const affected = entry.affectedDesigns.length > 0 ? `
+            <div class="render-issue-banner warning">
+                <div class="render-issue-header">${entry.affectedDesigns.length} generated design(s) use removed components</div>
+                <ul class="render-issue-list">
+                    ${entry.affectedDesigns.map(d => `<li>${escapeHtml(d.intent)} (${d.components.map(escapeHtml).join(', ')})</li>`).join('')}
+                </ul>
+            </div>` : '';
+        return `
+            <div class="changelog-entry">
+                <div class="changelog-date">${escapeHtml(new Date(entry.timestamp).toLocaleString())}</div>
+                <ul class="render-issue-list">
+                    ${entry.summary.map(line => `<li>${escapeHtml(line)}</li>`).join('')}
+                </ul>
+                ${affected}
+            </div>`;
+    }).join('');
+
+    if (latest && changelogSection) changelogSection.open = true;
+}
+
+const PROPERTY_TYPE_LABELS: Record<PropertyType, string> = {
+    [PropertyType.SEMANTIC_VARIANT]: 'Variant',
+    [PropertyType.SEMANTIC_SIZE]: 'Size',
+    [PropertyType.SEMANTIC_STATE]: 'State',
+    [PropertyType.SEMANTIC_STYLE]: 'Style',
+    [PropertyType.SEMANTIC_CUSTOM]: 'Custom'
+};
+
+if (semanticRoleOptions) {
+    semanticRoleOptions.innerHTML = SEMANTIC_ROLES.map(role => `<option value="${role}">`).join('');
+}
+
+// Unsaved role corrections by component id, then field, kept until saved or reset
+const roleDrafts = new Map<string, Map<string, string>>();
+
+/**
+ * Stable key for a field in a component's role form, e.g. "value:Size:Large"
+ */
+function roleFieldKey(field: HTMLInputElement | HTMLSelectElement): string {
+    if (field.classList.contains('role-input')) return 'role';
+    const property = (field.closest('.role-property') as HTMLElement | null)?.dataset.property || '';
+    return field instanceof HTMLSelectElement ? `type:${property}` : `value:${property}:${field.dataset.value}`;
+}
+
+function roleFields(item: Element): Array<HTMLInputElement | HTMLSelectElement> {
+    return Array.from(item.querySelectorAll<HTMLInputElement | HTMLSelectElement>('.role-input, .role-property-type, input[data-value]'));
+}
+
+/**
+ * List components with their role, confidence and variant value mappings, as
+ * editable fields. Components that were open stay open across re-renders, and
+ * unsaved edits and the focused field survive live inventory updates.
+ */
+function renderComponentRoles(inventory: DesignSystemInventory) {
+    if (!componentRoleList) return;
+    const active = document.activeElement as HTMLInputElement | HTMLSelectElement | null;
+    const focused = active && componentRoleList.contains(active) && active.closest('.component-role')
+        ? {
+            componentId: (active.closest('.component-role') as HTMLElement).dataset.componentId,
+            key: roleFieldKey(active),
+            selection: active instanceof HTMLInputElement ? [active.selectionStart, active.selectionEnd] : null
+        }
+        : null;
+    const open = new Set(Array.from(componentRoleList.querySelectorAll<HTMLDetailsElement>('.component-role[open]'))
+        .map(item => item.dataset.componentId));
+    const filter = componentRoleFilter?.value.trim().toLowerCase() || '';
+    const components = inventory.components.filter(c =>
+        !filter || c.name.toLowerCase().includes(filter) || (c.suggestedRole || '').toLowerCase().includes(filter)
+    );
+
+    if (components.length === 0) {
+        componentRoleList.innerHTML = `<p class="help-text">${filter ? 'No matching components.' : 'No components discovered.'}</p>`;
+        return;
+    }
+
+    componentRoleList.innerHTML = components.map(component => {
+        const confidence = component.aiClassification
+            ? `${Math.round(component.aiClassification.confidence * 100)}%`
+            : 'by name';
+        const properties = Object.entries(component.variantProperties || {}).map(([name, { values }]) => {
+            const analysis = component.propertyMappings?.[name];
+            const mapped = new Map((analysis?.valueMappings || []).map(m => [m.clientValue, m.semanticValue]));
+            const type = analysis?.propertyType || PropertyType.SEMANTIC_VARIANT;
+            const options = Object.entries(PROPERTY_TYPE_LABELS)
+                .map(([value, label]) => `<option value="${value}"${value === type ? ' selected' : ''}>${label}</option>`)
+                .join('');
+            return `
+                <div class="role-property" data-property="${escapeHtml(name)}">
+                    <div class="role-property-header"><span>${escapeHtml(name)}</span><select class="role-property-type">${options}</select></div>
+                    ${values.map(value => `
+                        <label class="role-value">
+                            <span title="${escapeHtml(value)}">${escapeHtml(value)}</span>
+                            <input type="text" data-value="${escapeHtml(value)}" value="${escapeHtml(mapped.get(value) || '')}" placeholder="e.g. primary">
+                        </label>`).join('')}
+                </div>`;
+        }).join('');
+
+        return `
+            <details class="component-role" data-component-id="${escapeHtml(component.id)}"${open.has(component.id) ? ' open' : ''}>
+                <summary>${escapeHtml(component.name)}
+                    <span class="role-meta">${escapeHtml(component.suggestedRole || 'No role')} · ${confidence}</span>
+                    ${component.approved ? '<span class="role-approved">✓ Approved</span>' : ''}
+                </summary>
+                <div class="settings-content">
+                    <input type="text" class="role-input" list="semantic-roles" value="${escapeHtml(component.suggestedRole || '')}" placeholder="Semantic role">
+                    ${properties}
+                    <button class="secondary role-save">Save Corrections</button>
+                    ${component.approved ? '<button class="secondary role-reset">Reset to AI</button>' : ''}
+                </div>
+            </details>`;
+    }).join('');
+
+    componentRoleList.querySelectorAll<HTMLElement>('.component-role').forEach(item => {
+        const draft = roleDrafts.get(item.dataset.componentId!);
+        roleFields(item).forEach(field => {
+            const key = roleFieldKey(field);
+            if (draft?.has(key)) field.value = draft.get(key)!;
+            if (focused && focused.componentId === item.dataset.componentId && focused.key === key) {
+                field.focus();
+                if (focused.selection && field instanceof HTMLInputElement) field.setSelectionRange(focused.selection[0], focused.selection[1]);
+            }
+        });
+    });
+}
+
+if (componentRoleList) {
+    componentRoleList.oninput = (event) => {
+        const item = (event.target as HTMLElement).closest('.component-role') as HTMLElement | null;
+        if (!item) return;
+        roleDrafts.set(item.dataset.componentId!, new Map(roleFields(item).map(field => [roleFieldKey(field), field.value])));
+    };
+}
+
+if (componentRoleFilter) {
+    componentRoleFilter.oninput = () => {
+        if (currentInventory) renderComponentRoles(currentInventory);
+    };
+}
+
+if (componentRoleList) {
+    componentRoleList.onclick = (event) => {
+        const button = (event.target as HTMLElement).closest('button');
+        const item = button?.closest('.component-role') as HTMLElement | null;
+        if (!button || !item) return;
+        const componentId = item.dataset.componentId;
+        roleDrafts.delete(componentId!);
+
+        if (button.classList.contains('role-reset')) {
+            parent.postMessage({ pluginMessage: { type: 'clear-component-override', componentId } }, '*');
+            return;
+        }
+
+        // The form starts from the current mappings, so it holds the complete set
+        const propertyMappings: Record<string, PropertyAnalysis> = {};
+        item.querySelectorAll<HTMLElement>('.role-property').forEach(property => {
+            const valueMappings = Array.from(property.querySelectorAll<HTMLInputElement>('input[data-value]'))
+                .filter(input => input.value.trim())
+                .map(input => ({ clientValue: input.dataset.value!, semanticValue: input.value.trim(), confidence: 1 }));
+            if (valueMappings.length === 0) return;
+
+            propertyMappings[property.dataset.property!] = {
+                propertyType: (property.querySelector('.role-property-type') as HTMLSelectElement).value as PropertyType,
+                reasoning: 'Approved by designer',
+                valueMappings
+            };
+        });
+
+        const role = (item.querySelector('.role-input') as HTMLInputElement).value.trim();
+        parent.postMessage({
+            pluginMessage: {
+                type: 'save-component-override',
+                componentId,
+                role,
+                propertyMappings: Object.keys(propertyMappings).length > 0 ? propertyMappings : undefined
+            }
+        }, '*');
+    };
+}
+
+/**
+ * Save a manifest through a temporary download link
+ */
+function downloadManifest(fileName: string, json: string) {
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+if (stateMatrixToggle) {
+    stateMatrixToggle.onchange = () => {
+        parent.postMessage({ pluginMessage: { type: 'set-state-matrix-mode', enabled: stateMatrixToggle.checked } }, '*');
+    };
+}
+
+if (offlineModeToggle) {
+    offlineModeToggle.onchange = () => {
+        parent.postMessage({ pluginMessage: { type: 'set-offline-mode', enabled: offlineModeToggle.checked } }, '*');
+    };
+}
+
+if (variableModeSelect) {
+    variableModeSelect.onchange = () => {
+        parent.postMessage({ pluginMessage: { type: 'set-variable-mode', mode: variableModeSelect.value } }, '*');
+    };
+}
+
+if (resolutionPolicySelect) {
+    resolutionPolicySelect.onchange = () => {
+        parent.postMessage({ pluginMessage: { type: 'set-resolution-policy', policy: resolutionPolicySelect.value } }, '*');
+    };
+}
+
+/**
+ * Fill the preset picker (keeping the current choice) and list the saved presets
+ */
+function renderDesignPresets(presets: DesignPreset[]) {
+    if (designPresetSelect) {
+        const selected = designPresetSelect.value;
+        designPresetSelect.innerHTML = '<option value="">None (AI values)</option>' + presets.map(p =>
+            `<option value="${escapeHtml(p.id)}" title="${escapeHtml(describePreset(p))}">${escapeHtml(p.name)}${p.scope === 'built-in' ? '' : ` (${p.scope === 'global' ? 'all files' : 'this file'})`}</option>`
+        ).join('');
+        designPresetSelect.value = presets.some(p => p.id === selected) ? selected : '';
+    }
+
+    if (!designPresetList) return;
+    const saved = presets.filter(p => p.scope !== 'built-in');
+    if (saved.length === 0) {
+        designPresetList.innerHTML = '<p class="help-text">No saved presets yet.</p>';
+        return;
+    }
+    designPresetList.innerHTML = saved.map(p => `
+        <div class="preset-row">
+            <div>
+                <div class="preset-name">${escapeHtml(p.name)} <span class="help-text">${p.scope === 'global' ? 'All files' : 'This file'}</span></div>
+                <div class="help-text">${escapeHtml(describePreset(p))}</div>
+            </div>
+            <button class="secondary destructive preset-delete-btn" data-preset-id="${escapeHtml(p.id)}">Delete</button>
+        </div>`).join('');
+    designPresetList.querySelectorAll<HTMLButtonElement>('.preset-delete-btn').forEach(btn => {
+        btn.onclick = () => parent.postMessage({ pluginMessage: { type: 'delete-design-preset', presetId: btn.dataset.presetId } }, '*');
+    });
+}
+
+function readPresetNumber(id: string): number | undefined {
+    const input = document.getElementById(id) as HTMLInputElement | null;
+    return input && input.value.trim() !== '' ? Number(input.value) : undefined;
+}
+
+if (savePresetBtn) {
+    savePresetBtn.onclick = () => {
+        const values: PresetInput = {
+            padding: readPresetNumber('preset-padding'),
+            itemSpacing: readPresetNumber('preset-item-spacing'),
+            cornerRadius: readPresetNumber('preset-corner-radius'),
+            fontSize: readPresetNumber('preset-font-size'),
+            fill: (document.getElementById('preset-fill') as HTMLInputElement | null)?.value.trim() || undefined
+        };
+        parent.postMessage({
+            pluginMessage: { type: 'save-design-preset', name: presetNameInput?.value || '', values, scope: presetScopeSelect?.value }
+        }, '*');
+    };
+}
+
+/**
+ * Offer every mode the design system's variable collections declare (Light, Dark, brands...)
+ */
+function renderVariableModes(inventory: DesignSystemInventory) {
+    if (!variableModeSelect) return;
+    const selected = variableModeSelect.value;
+    const modes: string[] = [];
+    inventory.variables.forEach(v => Object.keys(v.valuesByMode || {}).forEach(mode => {
+        if (!modes.includes(mode)) modes.push(mode);
+    }));
+
+    variableModeSelect.innerHTML = '<option value="">Default</option>' + modes
+        .map(mode => `<option value="${escapeHtml(mode)}">${escapeHtml(mode)}</option>`)
+        .join('');
+    variableModeSelect.value = modes.includes(selected) ? selected : '';
+}
+
+if (applyScenarioBtn) {
+    applyScenarioBtn.onclick = () => {
+        const name = scenarioNameInput.value.trim();
+        const raw = scenarioDataInput.value.trim();
+        let data: Record<string, any> | undefined;
+
+        if (raw) {
+            try {
+                data = JSON.parse(raw);
+            } catch (e) {
+                showStatus('error', 'Custom data must be valid JSON');
+                return;
+            }
+            if (!data || typeof data !== 'object' || Array.isArray(data)) {
+                showStatus('error', 'Custom data must be a JSON object');
+                return;
+            }
+        }
+
+        parent.postMessage({ pluginMessage: { type: 'set-scenario', name, data } }, '*');
+    };
+}
+
 undoBtn.onclick = () => {
     parent.postMessage({ pluginMessage: { type: 'undo' } }, '*');
 };
@@ -190,7 +931,8 @@ undoChangeBtn.onclick = async () => {
                 pluginMessage: {
                     type: 'generate', // Use generate to render RSNT directly
                     intent: intentToRender,
-                    rsnt: rsntToRender
+                    rsnt: rsntToRender,
+                    presetId: designPresetSelect?.value || null
                 }
             }, '*');
         }
@@ -219,15 +961,16 @@ function updateIterationInfo() {
 if (generateBtn) {
     generateBtn.onclick = async () => {
         const intent = intentInput.value.trim();
-        const apiKey = apiKeyInput.value.trim();
+        const offline = !!offlineModeToggle?.checked;
+        const providerError = offline ? null : getProviderError();
 
         if (!intent) {
             showStatus('error', 'Please enter a description');
             return;
         }
 
-        if (!apiKey) {
-            showStatus('error', 'Please enter your Gemini API key');
+        if (providerError) {
+            showStatus('error', providerError);
             const settingsDetails = document.querySelector('details');
             if (settingsDetails) settingsDetails.open = true;
             return;
@@ -245,7 +988,7 @@ if (generateBtn) {
 
         // Apply rate limiting
         await rateLimiter.throttle(async () => {
-            showStatus('loading', `Generating with AI (${currentInventory!.components.length} components, ${currentInventory!.variables.length} variables)...`);
+            showStatus('loading', `Generating ${offline ? 'offline' : 'with AI'} (${currentInventory!.components.length} components, ${currentInventory!.variables.length} variables)...`);
             generateBtn.disabled = true;
 
             try {
@@ -285,8 +1028,8 @@ if (generateBtn) {
                     pluginMessage: {
                         type: 'generate-antigravity',
                         intent,
-                        apiKey,
-                        selectionContext: selectionContext || null
+                        selectionContext: selectionContext || null,
+                        presetId: designPresetSelect?.value || null
                     }
                 }, '*');
 
@@ -307,10 +1050,14 @@ if (generateBtn) {
 window.onmessage = (event) => {
     const msg = event.data.pluginMessage;
 
-    if (msg.type === 'api-key-loaded') {
-        if (msg.key) {
-            apiKeyInput.value = msg.key;
-        }
+    if (msg.type === 'ai-settings-loaded') {
+        aiSettings = msg.settings;
+        savedAiSettings = JSON.parse(JSON.stringify(msg.settings));
+        showProviderFields(aiSettings.active);
+    }
+
+    if (msg.type === 'design-presets') {
+        renderDesignPresets(msg.presets);
     }
 
     if (msg.type === 'inventory-ready') {
@@ -326,9 +1073,14 @@ window.onmessage = (event) => {
                 firstVariable: currentInventory.variables[0]?.name
             });
 
-            showStatus('success',
-                `✓ Design system ready: ${currentInventory.components.length} components, ${currentInventory.variables.length} variables`
-            );
+            // Live updates (library edits) refresh silently; the changelog lists them
+            if (!msg.live) {
+                showStatus('success',
+                    `✓ Design system ready: ${currentInventory.components.length} components, ${currentInventory.variables.length} variables`
+                );
+            }
+            renderVariableModes(currentInventory);
+            renderComponentRoles(currentInventory);
 
             // Display Cache Stats
             if (currentInventory.discoveryStats && cacheStats) {
@@ -407,8 +1159,22 @@ window.onmessage = (event) => {
         redoBtn.disabled = !msg.canRedo;
     }
 
+    if (msg.type === 'show-variable-approvals') {
+        pendingVariableMatches = msg.matches || [];
+        const summaryDialog = document.getElementById('summary-dialog');
+        if (!summaryDialog || summaryDialog.style.display === 'none') showVariableApprovals();
+    }
+
     if (msg.type === 'show-summary') {
-        showResolutionSummary(msg.summary);
+        showResolutionSummary(msg.summary, msg.conflicts || []);
+    }
+
+    if (msg.type === 'conflict-overridden') {
+        markConflictOverridden(msg.figmaNodeId, msg.property, msg.source);
+    }
+
+    if (msg.type === 'conflict-preferences') {
+        renderConflictPreferences(msg.preferences);
     }
 };
 
@@ -733,10 +1499,7 @@ async function submitClarifications() {
     generateBtn.disabled = true;
 
     try {
-        const apiKeyEl = document.getElementById('api-key') as HTMLInputElement | null;
-        const apiKey = apiKeyEl?.value.trim() || '';
-
-        if (!apiKey || !currentInventory) {
+        if ((!offlineModeToggle?.checked && getProviderError()) || !currentInventory) {
             showStatus('error', 'Missing API key or inventory');
             generateBtn.disabled = false;
             return;
@@ -749,8 +1512,8 @@ async function submitClarifications() {
             pluginMessage: {
                 type: 'generate-antigravity',
                 intent: enhancedIntent,
-                apiKey,
-                selectionContext: null
+                selectionContext: null,
+                presetId: designPresetSelect?.value || null
             }
         }, '*');
 
@@ -917,4 +1680,92 @@ window.onmessage = (event) => {
         console.log('Received Antigravity reasoning:', msg.reasoning);
         showAntigravityDialog(msg.reasoning, msg.phases);
     }
+
+    if (msg.type === 'inventory-manifest') {
+        downloadManifest(msg.fileName, msg.json);
+    }
+
+    if (msg.type === 'inventory-changelog') {
+        renderChangelog(msg.entries, msg.latest);
+    }
+
+    if (msg.type === 'code-export-result') {
+        showCodeExportDialog(msg);
+    }
+
+    if (msg.type === 'scenarios-available' && scenarioNameList) {
+        scenarioNameList.innerHTML = (msg.names as string[])
+            .map(name => `<option value="${escapeHtml(name)}"></option>`)
+            .join('');
+    }
+};
+
+// ============================================================================
+// CODE EXPORT DIALOG
+// ============================================================================
+
+const EXPORT_WARNING_GROUPS: Record<number, string> = {
+    [ErrorCode.EXPORT_FEATURE_UNSUPPORTED]: 'No Tailwind equivalent',
+    [ErrorCode.EXPORT_VALIDATION_FAILED]: 'Missing from the design system'
 };
+
+interface CodeExportMessage {
+    code: string;
+    componentName: string;
+    nodeName: string;
+    selectionCount: number;
+    warnings: CodeExportWarning[];
+}
+
+function showCodeExportDialog(data: CodeExportMessage) {
+    const dialog = document.getElementById('code-export-dialog');
+    if (!dialog) return;
+
+    const titleEl = document.getElementById('code-export-title');
+    if (titleEl) titleEl.textContent = `${data.componentName}.tsx`;
+
+    const output = document.getElementById('code-export-output') as HTMLTextAreaElement | null;
+    if (output) output.value = data.code;
+
+    // Warnings
+    const warningsSection = document.getElementById('code-export-warnings-section');
+    const warningsEl = document.getElementById('code-export-warnings');
+    const warningsCount = document.getElementById('code-export-warnings-count');
+    if (warningsSection && warningsEl) {
+        // Group by code: features Tailwind cannot express, then references the inventory cannot back
+        const groups = new Map<number, CodeExportWarning[]>();
+        data.warnings.forEach(w => groups.set(w.code, [...(groups.get(w.code) || []), w]));
+        const items = Array.from(groups.entries())
+            .sort(([a], [b]) => b - a)
+            .flatMap(([code, warnings]) => [
+                `<li class="warning-group">${escapeHtml(EXPORT_WARNING_GROUPS[code] || `Code ${code}`)} (${warnings.length})</li>`,
+                ...warnings.map(w => `<li class="warning-li"><b>${escapeHtml(w.feature)}</b>: ${escapeHtml(w.message)}</li>`)
+            ]);
+        if (data.selectionCount > 1) {
+            items.unshift(`<li class="warning-li">Only the first of ${escapeHtml(String(data.selectionCount))} selected layers ("${escapeHtml(data.nodeName)}") was exported</li>`);
+        }
+        warningsSection.style.display = items.length > 0 ? 'block' : 'none';
+        warningsEl.innerHTML = items.join('');
+        if (warningsCount) warningsCount.textContent = String(data.warnings.length + (data.selectionCount > 1 ? 1 : 0));
+    }
+
+    const close = () => dialog.style.display = 'none';
+    const closeBtn = document.getElementById('close-code-export-btn');
+    const dismissBtn = document.getElementById('dismiss-code-export-btn');
+    const copyBtn = document.getElementById('copy-code-btn');
+
+    if (closeBtn) closeBtn.onclick = close;
+    if (dismissBtn) dismissBtn.onclick = close;
+    if (copyBtn && output) {
+        copyBtn.onclick = () => {
+            // navigator.clipboard is blocked inside the plugin iframe; use the selection API instead
+            output.select();
+            const copied = document.execCommand('copy');
+            output.setSelectionRange(0, 0);
+            showStatus(copied ? 'success' : 'error', copied ? '✓ Code copied to clipboard' : 'Copy failed — select the code and copy manually');
+        };
+    }
+
+    statusArea.style.display = 'none';
+    dialog.style.display = 'flex';
+}
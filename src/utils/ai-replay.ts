@@ -0,0 +1,142 @@
+/**
+ * Record/replay harness for AI calls in tests
+ *
+ * Record mode forwards every call to a live aiCall and keeps the raw response
+ * keyed by a hash of (systemPrompt, prompt). Replay mode serves those responses
+ * without any network. Editing a prompt changes its hash, so prompt changes in
+ * intent-parser / prompt-builder show up as replay misses instead of passing silently.
+ *
+ * Set AI_FIXTURES=record to refresh fixtures (Node only); recording rewrites
+ * the file with only the prompts the run made.
+ */
+
+import { ErrorCode, createAIError } from '../types/errors';
+
+export type AICall = (prompt: string, systemPrompt: string) => Promise<string>;
+export type AIReplayMode = 'record' | 'replay';
+
+export const AI_FIXTURE_VERSION = 1;
+const PREVIEW_LENGTH = 120;
+
+export interface AIFixture {
+    /** Leading characters of each prompt, so fixture diffs are reviewable */
+    systemPromptPreview: string;
+    promptPreview: string;
+    response: string;
+}
+
+export interface AIFixtureFile {
+    version: number;
+    fixtures: Record<string, AIFixture>;
+}
+
+/**
+ * Stable 64-bit (two FNV-1a lanes) hex hash of a prompt pair
+ */
+export function hashPrompt(prompt: string, systemPrompt: string): string {
+    const input = `${systemPrompt}\u0000${prompt}`;
+    let h1 = 0x811c9dc5;
+    let h2 = 0x01000193 ^ input.length;
+
+    for (let i = 0; i < input.length; i++) {
+        const char = input.charCodeAt(i);
+        h1 = Math.imul(h1 ^ char, 0x01000193);
+        h2 = Math.imul(h2 ^ char, 0x5bd1e995);
+    }
+
+    const hex = (n: number) => (n >>> 0).toString(16).padStart(8, '0');
+    return hex(h1) + hex(h2);
+}
+
+function preview(text: string): string {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > PREVIEW_LENGTH ? `${flat.slice(0, PREVIEW_LENGTH)}…` : flat;
+}
+
+export class AIReplayHarness {
+    /** Prompt hashes in call order */
+    readonly calls: string[] = [];
+    /** Prompt hashes that had no recorded response (replay mode) */
+    readonly misses: string[] = [];
+    private fixtures: Record<string, AIFixture>;
+
+    constructor(
+        readonly mode: AIReplayMode,
+        file?: AIFixtureFile | null,
+        private live?: AICall
+    ) {
+        if (file && file.version !== AI_FIXTURE_VERSION) {
+            throw new Error(`AI fixture version ${file.version} is not supported (expected ${AI_FIXTURE_VERSION})`);
+        }
+        if (mode === 'record' && !live) {
+            throw new Error('Record mode needs a live aiCall');
+        }
+        this.fixtures = { ...(file?.fixtures || {}) };
+    }
+
+    readonly aiCall: AICall = async (prompt, systemPrompt) => {
+        const hash = hashPrompt(prompt, systemPrompt);
+        this.calls.push(hash);
+
+        if (this.mode === 'record') {
+            const response = await this.live!(prompt, systemPrompt);
+            this.fixtures[hash] = {
+                systemPromptPreview: preview(systemPrompt),
+                promptPreview: preview(prompt),
+                response
+            };
+            return response;
+        }
+
+        const fixture = this.fixtures[hash];
+        if (!fixture) {
+            this.misses.push(hash);
+            throw createAIError(
+                ErrorCode.API_REQUEST_FAILED,
+                { hash, prompt: preview(prompt) },
+                `AI_FIXTURE_MISSING: no recorded response for prompt ${hash} ("${preview(prompt)}"). Re-record with AI_FIXTURES=record.`
+            );
+        }
+        return fixture.response;
+    };
+
+    /**
+     * Fixtures with keys sorted for stable diffs. After recording, only the
+     * prompts this run made are kept, so scenarios that no longer exist drop out.
+     */
+    toFile(): AIFixtureFile {
+        const used = new Set(this.calls);
+        const fixtures: Record<string, AIFixture> = {};
+        for (const hash of Object.keys(this.fixtures).sort()) {
+            if (this.mode === 'record' && !used.has(hash)) continue;
+            fixtures[hash] = this.fixtures[hash];
+        }
+        return { version: AI_FIXTURE_VERSION, fixtures };
+    }
+}
+
+/**
+ * Factory function
+ */
+export function createAIReplayHarness(
+    mode: AIReplayMode,
+    file?: AIFixtureFile | null,
+    live?: AICall
+): AIReplayHarness {
+    return new AIReplayHarness(mode, file, live);
+}
+
+/**
+ * Mode requested through the AI_FIXTURES environment variable (Node only)
+ */
+export function getReplayMode(): AIReplayMode {
+    return typeof process !== 'undefined' && process.env.AI_FIXTURES === 'record' ? 'record' : 'replay';
+}
+
+/**
+ * Write a fixture file to disk (Node only; used by record mode)
+ */
+export function saveFixtureFile(path: string, file: AIFixtureFile): void {
+    const fs = require('fs');
+    fs.writeFileSync(path, JSON.stringify(file, null, 2) + '\n');
+}
@@ -0,0 +1,969 @@
+/**
+ * In-memory fake of the Figma plugin API for Node tests
+ *
+ * Mirrors the parts of `figma` the renderer, discovery, cache and font manager
+ * use: node creation, auto-layout props, components / component sets / instances
+ * with component properties, variables and collections, team libraries, local
+ * paint/text/effect styles, clientStorage, event handlers and loadFontAsync. Fixtures are built through the same calls the plugin would make
+ * (figma.createComponent, figma.combineAsVariants, figma.variables.createVariable...).
+ *
+ * Where Figma validates at runtime the fake does too: enum-valued layout props
+ * reject unknown values, text edits require the font to be loaded, and
+ * setProperties rejects unknown property names, variant values and instance
+ * swaps to anything but a component, and style ids must name an existing style
+ * of the right type.
+ */
+
+type Paint = Record<string, any>;
+type FontName = { family: string; style: string };
+type PropertyType = 'VARIANT' | 'BOOLEAN' | 'TEXT' | 'INSTANCE_SWAP';
+type ParentNode = FakeDocumentNode | FakePageNode | FakeFrameNode;
+
+export interface FakePropertyDefinition {
+    type: PropertyType;
+    defaultValue: string | boolean;
+    variantOptions?: string[];
+}
+
+export interface FigmaFakeOptions {
+    fileKey?: string;
+    /** Fonts loadFontAsync accepts; anything else rejects */
+    availableFonts?: FontName[];
+}
+
+const DEFAULT_FONTS: FontName[] = [
+    { family: 'Inter', style: 'Regular' },
+    { family: 'Inter', style: 'Medium' },
+    { family: 'Inter', style: 'Bold' },
+    { family: 'Roboto', style: 'Regular' }
+];
+
+const LAYOUT_MODES = ['NONE', 'HORIZONTAL', 'VERTICAL'];
+const SIZING_MODES = ['FIXED', 'AUTO'];
+const PRIMARY_ALIGN = ['MIN', 'MAX', 'CENTER', 'SPACE_BETWEEN'];
+const COUNTER_ALIGN = ['MIN', 'MAX', 'CENTER', 'BASELINE'];
+const LAYOUT_ALIGN = ['MIN', 'CENTER', 'MAX', 'STRETCH', 'INHERIT'];
+const TEXT_AUTO_RESIZE = ['NONE', 'WIDTH_AND_HEIGHT', 'HEIGHT', 'TRUNCATE'];
+
+function assertEnum(prop: string, value: string, allowed: string[]): void {
+    if (!allowed.includes(value)) {
+        throw new Error(`in set_${prop}: Expected ${allowed.map(v => `"${v}"`).join(' | ')}, got "${value}"`);
+    }
+}
+
+function fontKey(font: FontName): string {
+    return `${font.family}-${font.style}`;
+}
+
+function parseVariantName(name: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const part of name.split(',')) {
+        const [key, value] = part.split('=').map(s => s.trim());
+        if (key && value !== undefined) values[key] = value;
+    }
+    return values;
+}
+
+/**
+ * ============================================================================
+ * NODES
+ * ============================================================================
+ */
+
+export class FakeBaseNode {
+    id: string;
+    parent: ParentNode | null = null;
+    removed = false;
+    /** Not part of the public API; discovery and the cache read it when present */
+    lastModified: string = new Date().toISOString();
+    private pluginData: Record<string, string> = {};
+    private sharedPluginData: Record<string, Record<string, string>> = {};
+
+    constructor(protected fake: FigmaFake, public type: string, public name: string) {
+        this.id = fake.nextId();
+        fake.register(this);
+    }
+
+    getPluginData(key: string): string {
+        return this.pluginData[key] || '';
+    }
+
+    setPluginData(key: string, value: string): void {
+        if (typeof value !== 'string') throw new Error('in setPluginData: Expected value to be a string');
+        this.pluginData[key] = value;
+    }
+
+    getPluginDataKeys(): string[] {
+        return Object.keys(this.pluginData);
+    }
+
+    getSharedPluginData(namespace: string, key: string): string {
+        return this.sharedPluginData[namespace]?.[key] || '';
+    }
+
+    setSharedPluginData(namespace: string, key: string, value: string): void {
+        if (typeof value !== 'string') throw new Error('in setSharedPluginData: Expected value to be a string');
+        (this.sharedPluginData[namespace] = this.sharedPluginData[namespace] || {})[key] = value;
+    }
+
+    getSharedPluginDataKeys(namespace: string): string[] {
+        return Object.keys(this.sharedPluginData[namespace] || {});
+    }
+
+    remove(): void {
+        detach(this);
+        this.fake.unregister(this);
+    }
+
+    /**
+     * Deep copy with fresh ids (plugin data included, as in Figma)
+     */
+    clone(): this {
+        const copy: this = Object.create(Object.getPrototypeOf(this));
+        Object.assign(copy, this);
+        copy.id = this.fake.nextId();
+        copy.parent = null;
+        copy.pluginData = { ...this.pluginData };
+        copy.sharedPluginData = JSON.parse(JSON.stringify(this.sharedPluginData));
+        this.fake.register(copy);
+
+        if ('children' in this) {
+            const children = (this as any).children as FakeSceneNode[];
+            (copy as any).children = [];
+            children.forEach(child => (copy as any).appendChild(child.clone()));
+        }
+        return copy;
+    }
+}
+
+export class FakeSceneNode extends FakeBaseNode {
+    x = 0;
+    y = 0;
+    width = 100;
+    height = 100;
+    visible = true;
+    locked = false;
+    opacity = 1;
+    blendMode = 'PASS_THROUGH';
+    effects: any[] = [];
+    constraints = { horizontal: 'MIN', vertical: 'MIN' };
+    layoutGrow = 0;
+    layoutPositioning = 'AUTO';
+    boundVariables: Record<string, { type: 'VARIABLE_ALIAS'; id: string }> = {};
+    private _layoutAlign = 'INHERIT';
+    private styleIds: Record<string, string> = {};
+
+    get effectStyleId(): string { return this.styleIds.effectStyleId || ''; }
+    set effectStyleId(id: string) {
+        this.effects = this.bindStyle('effectStyleId', id, 'EFFECT').effects.slice();
+    }
+
+    /** Record a style binding after checking the style exists and has the right type */
+    protected bindStyle(field: string, id: string, type: FakeStyle['type']): FakeStyle {
+        const style = this.fake.getStyleById(id);
+        if (!style || style.type !== type) {
+            throw new Error(`in set_${field}: Expected a ${type} style id, got "${id}"`);
+        }
+        this.styleIds[field] = id;
+        return style;
+    }
+
+    protected getStyleId(field: string): string {
+        return this.styleIds[field] || '';
+    }
+
+    get layoutAlign(): string { return this._layoutAlign; }
+    set layoutAlign(value: string) {
+        assertEnum('layoutAlign', value, LAYOUT_ALIGN);
+        this._layoutAlign = value;
+    }
+
+    resize(width: number, height: number): void {
+        if (!(width >= 0.01) || !(height >= 0.01)) {
+            throw new Error(`in resize: Expected width and height to be >= 0.01, got ${width}x${height}`);
+        }
+        this.width = width;
+        this.height = height;
+    }
+
+    setBoundVariable(field: string, variable: { id: string } | string | null): void {
+        if (variable === null) {
+            delete this.boundVariables[field];
+            return;
+        }
+        const id = typeof variable === 'string' ? variable : variable.id;
+        if (!this.fake.variables.getVariableById(id)) {
+            throw new Error(`in setBoundVariable: Variable ${id} not found`);
+        }
+        this.boundVariables[field] = { type: 'VARIABLE_ALIAS', id };
+    }
+}
+
+function findAllIn(nodes: FakeSceneNode[], callback?: (node: FakeSceneNode) => boolean): FakeSceneNode[] {
+    const found: FakeSceneNode[] = [];
+    const walk = (list: FakeSceneNode[]) => {
+        for (const node of list) {
+            if (!callback || callback(node)) found.push(node);
+            if ('children' in node) walk((node as any).children);
+        }
+    };
+    walk(nodes);
+    return found;
+}
+
+function detach(node: FakeBaseNode): void {
+    if (node.parent) {
+        const siblings = node.parent.children as FakeBaseNode[];
+        siblings.splice(siblings.indexOf(node), 1);
+        node.parent = null;
+    }
+}
+
+function insertInto(parent: ParentNode, index: number, child: FakeBaseNode): void {
+    detach(child);
+    const children = parent.children as FakeBaseNode[];
+    if (index < 0 || index > children.length) {
+        throw new Error(`in insertChild: Index ${index} is out of range (0-${children.length})`);
+    }
+    children.splice(index, 0, child);
+    child.parent = parent;
+}
+
+function appendTo(parent: ParentNode, child: FakeBaseNode): void {
+    const detached = child.parent === parent ? parent.children.length - 1 : parent.children.length;
+    insertInto(parent, detached, child);
+}
+
+export class FakeFrameNode extends FakeSceneNode {
+    children: FakeSceneNode[] = [];
+    fills: Paint[] = [{ type: 'SOLID', color: { r: 1, g: 1, b: 1 }, opacity: 1, visible: true }];
+    strokes: Paint[] = [];
+    strokeWeight = 1;
+    topLeftRadius = 0;
+    topRightRadius = 0;
+    bottomLeftRadius = 0;
+    bottomRightRadius = 0;
+    clipsContent = true;
+    itemSpacing = 0;
+    counterAxisSpacing = 0;
+    paddingTop = 0;
+    paddingRight = 0;
+    paddingBottom = 0;
+    paddingLeft = 0;
+    /** Figma returns mixed when the corners differ; the fake reports the top-left */
+    get cornerRadius(): number { return this.topLeftRadius; }
+    set cornerRadius(radius: number) {
+        this.topLeftRadius = this.topRightRadius = this.bottomLeftRadius = this.bottomRightRadius = radius;
+    }
+
+    get fillStyleId(): string { return this.getStyleId('fillStyleId'); }
+    set fillStyleId(id: string) {
+        this.fills = this.bindStyle('fillStyleId', id, 'PAINT').paints.slice();
+    }
+
+    get strokeStyleId(): string { return this.getStyleId('strokeStyleId'); }
+    set strokeStyleId(id: string) {
+        this.strokes = this.bindStyle('strokeStyleId', id, 'PAINT').paints.slice();
+    }
+
+    /** Collection id -> mode id, set through setExplicitVariableModeForCollection */
+    explicitVariableModes: Record<string, string> = {};
+    private _layoutMode = 'NONE';
+    private _primaryAxisSizingMode = 'AUTO';
+    private _counterAxisSizingMode = 'AUTO';
+    private _primaryAxisAlignItems = 'MIN';
+    private _counterAxisAlignItems = 'MIN';
+
+    constructor(fake: FigmaFake, type = 'FRAME', name = 'Frame') {
+        super(fake, type, name);
+    }
+
+    get layoutMode(): string { return this._layoutMode; }
+    set layoutMode(value: string) {
+        assertEnum('layoutMode', value, LAYOUT_MODES);
+        this._layoutMode = value;
+    }
+
+    get primaryAxisSizingMode(): string { return this._primaryAxisSizingMode; }
+    set primaryAxisSizingMode(value: string) {
+        assertEnum('primaryAxisSizingMode', value, SIZING_MODES);
+        this._primaryAxisSizingMode = value;
+    }
+
+    get counterAxisSizingMode(): string { return this._counterAxisSizingMode; }
+    set counterAxisSizingMode(value: string) {
+        assertEnum('counterAxisSizingMode', value, SIZING_MODES);
+        this._counterAxisSizingMode = value;
+    }
+
+    get primaryAxisAlignItems(): string { return this._primaryAxisAlignItems; }
+    set primaryAxisAlignItems(value: string) {
+        assertEnum('primaryAxisAlignItems', value, PRIMARY_ALIGN);
+        this._primaryAxisAlignItems = value;
+    }
+
+    get counterAxisAlignItems(): string { return this._counterAxisAlignItems; }
+    set counterAxisAlignItems(value: string) {
+        assertEnum('counterAxisAlignItems', value, COUNTER_ALIGN);
+        this._counterAxisAlignItems = value;
+    }
+
+    appendChild(child: FakeSceneNode): void {
+        appendTo(this, child);
+    }
+
+    insertChild(index: number, child: FakeSceneNode): void {
+        insertInto(this, index, child);
+    }
+
+    findAll(callback?: (node: FakeSceneNode) => boolean): FakeSceneNode[] {
+        return findAllIn(this.children, callback);
+    }
+
+    findOne(callback: (node: FakeSceneNode) => boolean): FakeSceneNode | null {
+        return this.findAll(callback)[0] || null;
+    }
+
+    setExplicitVariableModeForCollection(collection: FakeVariableCollection | string, modeId: string): void {
+        const target = typeof collection === 'string' ? this.fake.variables.getVariableCollectionById(collection) : collection;
+        if (!target) throw new Error(`in setExplicitVariableModeForCollection: Collection ${collection} not found`);
+        if (!target.modes.some(m => m.modeId === modeId)) {
+            throw new Error(`in setExplicitVariableModeForCollection: Mode ${modeId} is not in collection "${target.name}"`);
+        }
+        this.explicitVariableModes[target.id] = modeId;
+    }
+}
+
+export class FakeTextNode extends FakeSceneNode {
+    fills: Paint[] = [{ type: 'SOLID', color: { r: 0, g: 0, b: 0 }, opacity: 1, visible: true }];
+    strokes: Paint[] = [];
+    fontSize = 12;
+    private _characters = '';
+    private _fontName: FontName = { family: 'Inter', style: 'Regular' };
+    private _textAutoResize = 'WIDTH_AND_HEIGHT';
+
+    constructor(fake: FigmaFake) {
+        super(fake, 'TEXT', 'Text');
+        this.height = 14;
+    }
+
+    get characters(): string { return this._characters; }
+    set characters(value: string) {
+        this.requireFont(this._fontName, 'characters');
+        this._characters = value;
+    }
+
+    get fontName(): FontName { return this._fontName; }
+    set fontName(value: FontName) {
+        this.requireFont(value, 'fontName');
+        this._fontName = value;
+    }
+
+    get fillStyleId(): string { return this.getStyleId('fillStyleId'); }
+    set fillStyleId(id: string) {
+        this.fills = this.bindStyle('fillStyleId', id, 'PAINT').paints.slice();
+    }
+
+    get textStyleId(): string { return this.getStyleId('textStyleId'); }
+    set textStyleId(id: string) {
+        const style = this.fake.getStyleById(id);
+        if (style && style.type === 'TEXT') this.requireFont(style.fontName, 'textStyleId');
+        this.bindStyle('textStyleId', id, 'TEXT');
+        this._fontName = style!.fontName;
+        this.fontSize = style!.fontSize;
+    }
+
+    get textAutoResize(): string { return this._textAutoResize; }
+    set textAutoResize(value: string) {
+        assertEnum('textAutoResize', value, TEXT_AUTO_RESIZE);
+        this._textAutoResize = value;
+    }
+
+    getRangeAllFontNames(start: number, end: number): FontName[] {
+        return [this._fontName];
+    }
+
+    private requireFont(font: FontName, prop: string): void {
+        if (!this.fake.isFontLoaded(font)) {
+            throw new Error(`in set_${prop}: Cannot write to node with unloaded font "${font.family} ${font.style}". Please call figma.loadFontAsync({ family: "${font.family}", style: "${font.style}" }) and await the returned promise first.`);
+        }
+    }
+}
+
+export class FakeComponentNode extends FakeFrameNode {
+    key: string;
+    description = '';
+    remote = false;
+    private ownDefinitions: Record<string, FakePropertyDefinition> = {};
+
+    constructor(fake: FigmaFake) {
+        super(fake, 'COMPONENT', 'Component');
+        this.key = `key-${this.id}`;
+    }
+
+    get componentPropertyDefinitions(): Record<string, FakePropertyDefinition> {
+        if (this.parent?.type === 'COMPONENT_SET') {
+            throw new Error('in get_componentPropertyDefinitions: Can only get definitions of a component set or non-variant component');
+        }
+        return { ...this.ownDefinitions };
+    }
+
+    /** Variant values parsed from the name, for variants inside a set */
+    get variantProperties(): Record<string, string> | null {
+        return this.parent?.type === 'COMPONENT_SET' ? parseVariantName(this.name) : null;
+    }
+
+    addComponentProperty(name: string, type: Exclude<PropertyType, 'VARIANT'>, defaultValue: string | boolean): string {
+        const key = `${name}#${this.fake.nextId().replace(':', '')}`;
+        this.ownDefinitions[key] = { type, defaultValue };
+        return key;
+    }
+
+    createInstance(): FakeInstanceNode {
+        const instance = new FakeInstanceNode(this.fake, this);
+        this.fake.currentPage.appendChild(instance);
+        return instance;
+    }
+}
+
+export class FakeComponentSetNode extends FakeFrameNode {
+    key: string;
+    description = '';
+    remote = false;
+    private ownDefinitions: Record<string, FakePropertyDefinition> = {};
+
+    constructor(fake: FigmaFake) {
+        super(fake, 'COMPONENT_SET', 'Component Set');
+        this.key = `key-${this.id}`;
+    }
+
+    get defaultVariant(): FakeComponentNode {
+        return this.children[0] as FakeComponentNode;
+    }
+
+    /** Variant definitions are derived from the variant names, as in Figma */
+    get componentPropertyDefinitions(): Record<string, FakePropertyDefinition> {
+        const definitions: Record<string, FakePropertyDefinition> = {};
+        for (const variant of this.children) {
+            for (const [prop, value] of Object.entries(parseVariantName(variant.name))) {
+                const def = definitions[prop] = definitions[prop] || { type: 'VARIANT', defaultValue: value, variantOptions: [] };
+                if (!def.variantOptions!.includes(value)) def.variantOptions!.push(value);
+            }
+        }
+        return { ...definitions, ...this.ownDefinitions };
+    }
+
+    addComponentProperty(name: string, type: Exclude<PropertyType, 'VARIANT'>, defaultValue: string | boolean): string {
+        const key = `${name}#${this.fake.nextId().replace(':', '')}`;
+        this.ownDefinitions[key] = { type, defaultValue };
+        return key;
+    }
+}
+
+export class FakeInstanceNode extends FakeFrameNode {
+    componentProperties: Record<string, { type: PropertyType; value: string | boolean }> = {};
+
+    constructor(fake: FigmaFake, public mainComponent: FakeComponentNode) {
+        super(fake, 'INSTANCE', mainComponent.name);
+        this.adopt(mainComponent);
+
+        for (const [name, def] of Object.entries(this.definitions())) {
+            this.componentProperties[name] = { type: def.type, value: def.defaultValue };
+        }
+        for (const [name, value] of Object.entries(mainComponent.variantProperties || {})) {
+            this.componentProperties[name] = { type: 'VARIANT', value };
+        }
+    }
+
+    async getMainComponentAsync(): Promise<FakeComponentNode> {
+        return this.mainComponent;
+    }
+
+    setProperties(properties: Record<string, string | boolean>): void {
+        const definitions = this.definitions();
+        const variantValues: Record<string, string> = {};
+
+        for (const [name, value] of Object.entries(properties)) {
+            const def = definitions[name];
+            if (!def) {
+                throw new Error(`in setProperties: Could not find a component property with name: '${name}'`);
+            }
+            if (def.type === 'VARIANT') {
+                if (!def.variantOptions!.includes(value as string)) {
+                    throw new Error(`in setProperties: Property '${name}' has no variant '${value}'`);
+                }
+                variantValues[name] = value as string;
+            } else if (def.type === 'BOOLEAN' && typeof value !== 'boolean') {
+                throw new Error(`in setProperties: Expected a boolean for property '${name}'`);
+            } else if (def.type !== 'BOOLEAN' && typeof value !== 'string') {
+                throw new Error(`in setProperties: Expected a string for property '${name}'`);
+            } else if (def.type === 'INSTANCE_SWAP' && this.fake.getNodeById(value as string)?.type !== 'COMPONENT') {
+                throw new Error(`in setProperties: Expected a component id for instance swap property '${name}'`);
+            }
+        }
+
+        if (Object.keys(variantValues).length > 0) {
+            this.swapVariant(variantValues);
+        }
+        for (const [name, value] of Object.entries(properties)) {
+            this.componentProperties[name] = { type: definitions[name].type, value };
+        }
+    }
+
+    private definitions(): Record<string, FakePropertyDefinition> {
+        const set = this.mainComponent.parent;
+        return set?.type === 'COMPONENT_SET'
+            ? (set as FakeComponentSetNode).componentPropertyDefinitions
+            : this.mainComponent.componentPropertyDefinitions;
+    }
+
+    private swapVariant(values: Record<string, string>): void {
+        const set = this.mainComponent.parent as FakeComponentSetNode;
+        const target = { ...this.mainComponent.variantProperties, ...values };
+        const match = (set.children as FakeComponentNode[]).find(variant => {
+            const props = variant.variantProperties || {};
+            return Object.keys(target).every(key => props[key] === target[key]);
+        });
+        if (!match) {
+            throw new Error(`in setProperties: No variant matches ${JSON.stringify(target)}`);
+        }
+        if (match !== this.mainComponent) {
+            this.children.slice().forEach(child => child.remove());
+            this.mainComponent = match;
+            this.adopt(match);
+        }
+    }
+
+    private adopt(component: FakeComponentNode): void {
+        this.width = component.width;
+        this.height = component.height;
+        this.fills = component.fills.slice();
+        this.strokes = component.strokes.slice();
+        component.children.forEach(child => this.appendChild(child.clone()));
+    }
+}
+
+export class FakePageNode extends FakeBaseNode {
+    children: FakeSceneNode[] = [];
+
+    constructor(fake: FigmaFake, name: string) {
+        super(fake, 'PAGE', name);
+    }
+
+    appendChild(child: FakeSceneNode): void {
+        appendTo(this, child);
+    }
+
+    insertChild(index: number, child: FakeSceneNode): void {
+        insertInto(this, index, child);
+    }
+
+    findAll(callback?: (node: FakeSceneNode) => boolean): FakeSceneNode[] {
+        return findAllIn(this.children, callback);
+    }
+}
+
+export class FakeDocumentNode extends FakeBaseNode {
+    children: FakePageNode[] = [];
+
+    constructor(fake: FigmaFake) {
+        super(fake, 'DOCUMENT', 'Document');
+    }
+
+    appendChild(page: FakePageNode): void {
+        appendTo(this, page);
+    }
+
+    findAll(callback?: (node: FakeSceneNode) => boolean): FakeSceneNode[] {
+        return this.children.reduce<FakeSceneNode[]>((all, page) => all.concat(page.findAll(callback)), []);
+    }
+}
+
+/**
+ * ============================================================================
+ * STYLES
+ * ============================================================================
+ */
+
+/** One class for paint, text and effect styles; only the fields for `type` matter */
+export class FakeStyle {
+    key: string;
+    description = '';
+    remote = false;
+    paints: Paint[] = [];
+    effects: any[] = [];
+    fontName: FontName = { family: 'Inter', style: 'Regular' };
+    fontSize = 12;
+
+    constructor(private fake: FigmaFake, public id: string, public type: 'PAINT' | 'TEXT' | 'EFFECT', public name: string) {
+        this.key = `key-${id}`;
+    }
+
+    remove(): void {
+        this.fake.removeStyle(this);
+    }
+}
+
+/**
+ * ============================================================================
+ * VARIABLES
+ * ============================================================================
+ */
+
+export class FakeVariableCollection {
+    key: string;
+    remote = false;
+    hiddenFromPublishing = false;
+    modes: Array<{ modeId: string; name: string }>;
+    defaultModeId: string;
+    variableIds: string[] = [];
+
+    constructor(private fake: FigmaFake, public id: string, public name: string) {
+        this.key = `key-${id}`;
+        this.defaultModeId = fake.nextId();
+        this.modes = [{ modeId: this.defaultModeId, name: 'Mode 1' }];
+    }
+
+    addMode(name: string): string {
+        const modeId = this.fake.nextId();
+        this.modes.push({ modeId, name });
+        return modeId;
+    }
+
+    renameMode(modeId: string, name: string): void {
+        const mode = this.modes.find(m => m.modeId === modeId);
+        if (!mode) throw new Error(`in renameMode: Mode ${modeId} not found`);
+        mode.name = name;
+    }
+}
+
+export class FakeVariable {
+    key: string;
+    description = '';
+    remote = false;
+    scopes: string[] = ['ALL_SCOPES'];
+    valuesByMode: Record<string, any> = {};
+
+    constructor(
+        public id: string,
+        public name: string,
+        public resolvedType: 'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN',
+        private collection: FakeVariableCollection
+    ) {
+        this.key = `key-${id}`;
+    }
+
+    get variableCollectionId(): string {
+        return this.collection.id;
+    }
+
+    setValueForMode(modeId: string, value: any): void {
+        if (!this.collection.modes.some(m => m.modeId === modeId)) {
+            throw new Error(`in setValueForMode: Mode ${modeId} is not in collection "${this.collection.name}"`);
+        }
+        this.valuesByMode[modeId] = value;
+    }
+}
+
+/**
+ * ============================================================================
+ * PLUGIN API
+ * ============================================================================
+ */
+
+export class FigmaFake {
+    readonly mixed = Symbol('figma.mixed');
+    fileKey: string | undefined;
+    root: FakeDocumentNode;
+    currentPage: FakePageNode;
+    availableFonts: FontName[];
+    /** Messages passed to figma.notify, newest last */
+    readonly notifications: string[] = [];
+    /** Keys passed to the import*ByKeyAsync calls, in call order */
+    readonly imports: string[] = [];
+
+    private idCounter = 0;
+    private nodes = new Map<string, FakeBaseNode>();
+    private loadedFonts = new Set<string>();
+    private storage = new Map<string, string>();
+    private variableMap = new Map<string, FakeVariable>();
+    private collectionMap = new Map<string, FakeVariableCollection>();
+    private libraryComponents = new Map<string, FakeComponentNode | FakeComponentSetNode>();
+    private libraryCollections = new Map<string, { collection: FakeVariableCollection; libraryName: string }>();
+    private importedVariableIds = new Set<string>();
+    private styleMap = new Map<string, FakeStyle>();
+    private handlers = new Map<string, Array<(event?: any) => void>>();
+
+    constructor(options: FigmaFakeOptions = {}) {
+        this.fileKey = options.fileKey;
+        this.availableFonts = (options.availableFonts || DEFAULT_FONTS).slice();
+        this.root = new FakeDocumentNode(this);
+        this.currentPage = this.createPage();
+        this.currentPage.name = 'Page 1';
+    }
+
+    nextId(): string {
+        return `1:${++this.idCounter}`;
+    }
+
+    register(node: FakeBaseNode): void {
+        this.nodes.set(node.id, node);
+    }
+
+    unregister(node: FakeBaseNode): void {
+        node.removed = true;
+        this.nodes.delete(node.id);
+        if ('children' in node) ((node as any).children as FakeBaseNode[]).forEach(child => this.unregister(child));
+    }
+
+    isFontLoaded(font: FontName): boolean {
+        return this.loadedFonts.has(fontKey(font));
+    }
+
+    // --- Nodes -----------------------------------------------------------
+
+    getNodeById(id: string): FakeBaseNode | null {
+        return this.nodes.get(id) || null;
+    }
+
+    async getNodeByIdAsync(id: string): Promise<FakeBaseNode | null> {
+        return this.getNodeById(id);
+    }
+
+    createPage(): FakePageNode {
+        const page = new FakePageNode(this, 'Page');
+        this.root.appendChild(page);
+        return page;
+    }
+
+    createFrame(): FakeFrameNode {
+        const frame = new FakeFrameNode(this);
+        this.currentPage.appendChild(frame);
+        return frame;
+    }
+
+    createText(): FakeTextNode {
+        const text = new FakeTextNode(this);
+        this.currentPage.appendChild(text);
+        return text;
+    }
+
+    createComponent(): FakeComponentNode {
+        const component = new FakeComponentNode(this);
+        this.currentPage.appendChild(component);
+        return component;
+    }
+
+    combineAsVariants(components: FakeComponentNode[], parent: ParentNode): FakeComponentSetNode {
+        if (components.length === 0) throw new Error('in combineAsVariants: Expected at least one component');
+        const set = new FakeComponentSetNode(this);
+        appendTo(parent, set);
+        components.forEach(component => set.appendChild(component));
+        return set;
+    }
+
+    async importComponentByKeyAsync(key: string): Promise<FakeComponentNode> {
+        this.imports.push(key);
+        const component = this.libraryComponents.get(key);
+        if (!component || component.type !== 'COMPONENT') throw new Error(`Failed to import component by key "${key}"`);
+        return component as FakeComponentNode;
+    }
+
+    async importComponentSetByKeyAsync(key: string): Promise<FakeComponentSetNode> {
+        this.imports.push(key);
+        const set = this.libraryComponents.get(key);
+        if (!set || set.type !== 'COMPONENT_SET') throw new Error(`Failed to import component set by key "${key}"`);
+        return set as FakeComponentSetNode;
+    }
+
+    // --- Team library ----------------------------------------------------
+
+    /**
+     * Move a component or component set into a published library. It leaves the
+     * page tree but stays reachable by id, as remote nodes are, and becomes
+     * importable by key (variants of a published set included).
+     */
+    publishToLibrary(node: FakeComponentNode | FakeComponentSetNode): void {
+        detach(node);
+        const publish = (component: FakeComponentNode | FakeComponentSetNode) => {
+            component.remote = true;
+            this.libraryComponents.set(component.key, component);
+        };
+        publish(node);
+        if (node.type === 'COMPONENT_SET') node.children.forEach(variant => publish(variant as FakeComponentNode));
+    }
+
+    /**
+     * Publish a collection from an enabled library. Its variables drop out of the
+     * local lists and are only resolvable by id once imported by key.
+     */
+    publishVariableCollection(collection: FakeVariableCollection, libraryName: string): void {
+        collection.remote = true;
+        collection.variableIds.forEach(id => { this.variableMap.get(id)!.remote = true; });
+        this.libraryCollections.set(collection.key, { collection, libraryName });
+    }
+
+    readonly teamLibrary = {
+        getAvailableLibraryVariableCollectionsAsync: async (): Promise<Array<{ key: string; name: string; libraryName: string }>> =>
+            Array.from(this.libraryCollections.values()).map(({ collection, libraryName }) => ({
+                key: collection.key,
+                name: collection.name,
+                libraryName
+            })),
+        getVariablesInLibraryCollectionAsync: async (key: string): Promise<Array<{ key: string; name: string; resolvedType: string }>> => {
+            const entry = this.libraryCollections.get(key);
+            if (!entry) throw new Error(`in getVariablesInLibraryCollectionAsync: Collection ${key} not found`);
+            return entry.collection.variableIds.map(id => {
+                const variable = this.variableMap.get(id)!;
+                return { key: variable.key, name: variable.name, resolvedType: variable.resolvedType };
+            });
+        }
+    };
+
+    // --- Styles ----------------------------------------------------------
+
+    createPaintStyle(): FakeStyle {
+        return this.addStyle('PAINT');
+    }
+
+    createTextStyle(): FakeStyle {
+        return this.addStyle('TEXT');
+    }
+
+    createEffectStyle(): FakeStyle {
+        return this.addStyle('EFFECT');
+    }
+
+    getLocalPaintStyles(): FakeStyle[] {
+        return this.localStyles('PAINT');
+    }
+
+    getLocalTextStyles(): FakeStyle[] {
+        return this.localStyles('TEXT');
+    }
+
+    getLocalEffectStyles(): FakeStyle[] {
+        return this.localStyles('EFFECT');
+    }
+
+    getStyleById(id: string): FakeStyle | null {
+        return this.styleMap.get(id) || null;
+    }
+
+    removeStyle(style: FakeStyle): void {
+        this.styleMap.delete(style.id);
+    }
+
+    private addStyle(type: FakeStyle['type']): FakeStyle {
+        const id = `S:${this.nextId()},`;
+        const style = new FakeStyle(this, id, type, type === 'TEXT' ? 'Text style' : 'Style');
+        this.styleMap.set(id, style);
+        return style;
+    }
+
+    private localStyles(type: FakeStyle['type']): FakeStyle[] {
+        return Array.from(this.styleMap.values()).filter(style => style.type === type && !style.remote);
+    }
+
+    // --- Fonts -----------------------------------------------------------
+
+    async loadFontAsync(font: FontName): Promise<void> {
+        if (!this.availableFonts.some(f => fontKey(f) === fontKey(font))) {
+            throw new Error(`The font "${font.family} ${font.style}" could not be loaded`);
+        }
+        this.loadedFonts.add(fontKey(font));
+    }
+
+    async listAvailableFontsAsync(): Promise<Array<{ fontName: FontName }>> {
+        return this.availableFonts.map(fontName => ({ fontName }));
+    }
+
+    notify(message: string): { cancel: () => void } {
+        this.notifications.push(message);
+        return { cancel: () => undefined };
+    }
+
+    // --- Events (edits do not fire events; tests call emit) --------------
+
+    on(type: string, callback: (event?: any) => void): void {
+        this.handlers.set(type, [...(this.handlers.get(type) || []), callback]);
+    }
+
+    off(type: string, callback: (event?: any) => void): void {
+        this.handlers.set(type, (this.handlers.get(type) || []).filter(handler => handler !== callback));
+    }
+
+    /** Test helper: call the handlers registered for an event */
+    emit(type: string, event?: any): void {
+        (this.handlers.get(type) || []).forEach(handler => handler(event));
+    }
+
+    // --- clientStorage (values round-trip through serialization, as in Figma) ---
+
+    readonly clientStorage = {
+        getAsync: async (key: string): Promise<any> => {
+            const raw = this.storage.get(key);
+            return raw === undefined ? undefined : JSON.parse(raw);
+        },
+        setAsync: async (key: string, value: any): Promise<void> => {
+            this.storage.set(key, JSON.stringify(value));
+        },
+        deleteAsync: async (key: string): Promise<void> => {
+            this.storage.delete(key);
+        },
+        keysAsync: async (): Promise<string[]> => Array.from(this.storage.keys())
+    };
+
+    // --- Variables -------------------------------------------------------
+
+    readonly variables = {
+        getVariableById: (id: string): FakeVariable | null => {
+            const variable = this.variableMap.get(id);
+            return variable && (!variable.remote || this.importedVariableIds.has(id)) ? variable : null;
+        },
+        getVariableByIdAsync: async (id: string): Promise<FakeVariable | null> => this.variables.getVariableById(id),
+        getVariableCollectionById: (id: string): FakeVariableCollection | null => this.collectionMap.get(id) || null,
+        getVariableCollectionByIdAsync: async (id: string): Promise<FakeVariableCollection | null> => this.collectionMap.get(id) || null,
+        getLocalVariables: (type?: string): FakeVariable[] =>
+            Array.from(this.variableMap.values()).filter(v => !v.remote && (!type || v.resolvedType === type)),
+        getLocalVariablesAsync: async (type?: string): Promise<FakeVariable[]> => this.variables.getLocalVariables(type),
+        getLocalVariableCollections: (): FakeVariableCollection[] =>
+            Array.from(this.collectionMap.values()).filter(c => !c.remote),
+        getLocalVariableCollectionsAsync: async (): Promise<FakeVariableCollection[]> => this.variables.getLocalVariableCollections(),
+        importVariableByKeyAsync: async (key: string): Promise<FakeVariable> => {
+            this.imports.push(key);
+            const variable = Array.from(this.variableMap.values()).find(v => v.remote && v.key === key);
+            if (!variable) throw new Error(`Failed to import variable by key "${key}"`);
+            this.importedVariableIds.add(variable.id);
+            return variable;
+        },
+        createVariableAlias: (variable: FakeVariable): { type: 'VARIABLE_ALIAS'; id: string } =>
+            ({ type: 'VARIABLE_ALIAS', id: variable.id }),
+        createVariableCollection: (name: string): FakeVariableCollection => {
+            const collection = new FakeVariableCollection(this, `VariableCollectionId:${this.nextId()}`, name);
+            this.collectionMap.set(collection.id, collection);
+            return collection;
+        },
+        createVariable: (
+            name: string,
+            collection: FakeVariableCollection | string,
+            resolvedType: FakeVariable['resolvedType']
+        ): FakeVariable => {
+            const owner = typeof collection === 'string' ? this.collectionMap.get(collection) : collection;
+            if (!owner) throw new Error(`in createVariable: Collection ${collection} not found`);
+            const variable = new FakeVariable(`VariableID:${this.nextId()}`, name, resolvedType, owner);
+            owner.variableIds.push(variable.id);
+            this.variableMap.set(variable.id, variable);
+            return variable;
+        }
+    };
+}
+
+/**
+ * Create a fake and install it as the global `figma`
+ */
+export function installFigmaFake(options: FigmaFakeOptions = {}): FigmaFake {
+    const fake = new FigmaFake(options);
+    (globalThis as any).figma = fake;
+    return fake;
+}
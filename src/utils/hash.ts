@@ -0,0 +1,15 @@
+/**
+ * String hashing for fingerprints (not cryptographic)
+ */
+
+/**
+ * 32-bit hash of a string (hash * 31 + char, as Java's String.hashCode) as a hex string
+ */
+export function hashString(input: string): string {
+    let hash = 0;
+    for (let i = 0; i < input.length; i++) {
+        hash = ((hash << 5) - hash) + input.charCodeAt(i);
+        hash = hash & hash; // Convert to 32bit integer
+    }
+    return hash.toString(16);
+}
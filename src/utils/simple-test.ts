@@ -14,8 +14,8 @@ export function it(name: string, fn: () => void) {
     } catch (e: any) {
         console.error(`  ❌ ${name}`);
         console.error(`     Error: ${e.message}`);
-        // Don't exit process immediately to allow other tests to run, 
-        // but mark failure potentially. For now, just logging.
+        // Keep running the other tests, but make the process exit non-zero
+        if (typeof process !== 'undefined') process.exitCode = 1;
     }
 }
 